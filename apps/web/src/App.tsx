@@ -19,6 +19,7 @@ import HarmonyLedgerPage from "./pages/HarmonyLedgerPage";
 import HarmonyOverviewPage from "./pages/HarmonyOverviewPage";
 import StackTimePage from "./pages/StackTimePage";
 import ProfilePage from "./pages/ProfilePage";
+import OutboxStatus from "./components/OutboxStatus";
 import { useHarmonyLedgerAccess } from "./modules/useHarmonyLedgerAccess";
 import { useStackTimeAccess } from "./modules/useStackTimeAccess";
 
@@ -95,6 +96,7 @@ const AppContent = ({ user, signOut }: AppContentProps) => {
             </nav>
         </div>
         <div className="header-actions">
+          <OutboxStatus />
           <NavLink
             to="/profile"
             className={({ isActive }) =>
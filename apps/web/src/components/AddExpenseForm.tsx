@@ -1,6 +1,16 @@
 import { ChangeEvent, FormEvent, WheelEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { api } from "../lib/api";
-import type { TripMember, Receipt, TextractExtraction } from "../types";
+import type {
+  TripMember,
+  Receipt,
+  TextractExtraction,
+  ExtractionField,
+  ExtractionFieldSource,
+  ExpenseCategory,
+  ExpenseLineItem,
+  ExpenseSplit,
+  ExpenseSplitMode
+} from "../types";
 
 const roundToCents = (value: number): number =>
   Math.round((value + Number.EPSILON) * 100) / 100;
@@ -91,6 +101,66 @@ const computeCustomAllocations = (
   };
 };
 
+// Mirrors the server: items split evenly across assignees, then tax/tip spread
+// proportionally to each person's item subtotal.
+const computeItemizedAllocations = (
+  lineItems: ExpenseLineItem[],
+  total: number
+): Record<string, number> => {
+  const subtotals: Record<string, number> = {};
+  lineItems.forEach((item) => {
+    const shares = distributeEvenly(item.amount, item.assignedMemberIds);
+    Object.entries(shares).forEach(([memberId, amount]) => {
+      subtotals[memberId] = (subtotals[memberId] ?? 0) + Math.round(amount * 100);
+    });
+  });
+
+  const itemsCents = Object.values(subtotals).reduce((sum, cents) => sum + cents, 0);
+  if (itemsCents <= 0) {
+    return {};
+  }
+
+  const extrasCents = Math.round(total * 100) - itemsCents;
+  let assignedExtras = 0;
+  const entries = Object.entries(subtotals);
+  return entries.reduce<Record<string, number>>((acc, [memberId, cents], index) => {
+    const extra =
+      index === entries.length - 1
+        ? extrasCents - assignedExtras
+        : Math.round((extrasCents * cents) / itemsCents);
+    assignedExtras += extra;
+    acc[memberId] = (cents + extra) / 100;
+    return acc;
+  }, {});
+};
+
+// Mirrors the server: cents are floored per weight and the leftover goes to the
+// remainder member, so the preview matches what gets saved.
+const distributeByWeight = (
+  total: number,
+  weights: Record<string, number>,
+  remainderMemberId?: string
+): Record<string, number> => {
+  const entries = Object.entries(weights).filter(([, weight]) => weight > 0);
+  const weightTotal = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  if (weightTotal <= 0) {
+    return {};
+  }
+  const totalCents = Math.round(total * 100);
+  const cents = entries.map(([, weight]) => Math.floor((totalCents * weight) / weightTotal));
+  const leftover = totalCents - cents.reduce((sum, value) => sum + value, 0);
+  const target =
+    remainderMemberId && entries.some(([memberId]) => memberId === remainderMemberId)
+      ? remainderMemberId
+      : entries[0][0];
+  return entries.reduce<Record<string, number>>((acc, [memberId], index) => {
+    acc[memberId] = (cents[index] + (memberId === target ? leftover : 0)) / 100;
+    return acc;
+  }, {});
+};
+
+const WEIGHTED_SPLIT_MODES: ExpenseSplitMode[] = ["PERCENTAGE", "SHARES", "EXACT_PLUS_EVEN"];
+
 const inferPreviewType = (fileName?: string, contentType?: string | null) => {
   const normalizedType = contentType?.toLowerCase();
   if (normalizedType) {
@@ -146,9 +216,32 @@ export interface CreateExpenseInput {
   splitEvenly: boolean;
   remainderMemberId?: string;
   allocations?: { memberId: string; amount: number }[];
+  lineItems?: ExpenseLineItem[];
+  split?: ExpenseSplit;
   receiptId?: string;
 }
 
+// Extracted values below this confidence are highlighted for review.
+const LOW_CONFIDENCE_THRESHOLD = 80;
+
+type ScannedInput = "description" | "vendor" | "subtotal" | "tax" | "tip";
+
+interface ScannedValueSource extends ExtractionFieldSource {
+  field: ExtractionField;
+}
+
+const EXTRACTION_FIELD_LABELS: Record<ExtractionField, string> = {
+  merchantName: "Merchant",
+  total: "Total",
+  subtotal: "Subtotal",
+  tax: "Tax",
+  tip: "Tip",
+  date: "Date"
+};
+
+const isLowConfidence = (source?: ExtractionFieldSource) =>
+  source?.confidence !== undefined && source.confidence < LOW_CONFIDENCE_THRESHOLD;
+
 interface AllocationSummaryItem {
   memberId: string;
   displayName: string;
@@ -166,6 +259,7 @@ interface AddExpenseFormProps {
   members: TripMember[];
   currency: string;
   receipts: Receipt[];
+  categories: ExpenseCategory[];
   onSubmit: (payload: CreateExpenseInput) => Promise<unknown>;
   isSubmitting: boolean;
   currentUserId?: string;
@@ -176,6 +270,7 @@ const AddExpenseForm = ({
   members,
   currency,
   receipts,
+  categories,
   onSubmit,
   isSubmitting,
   currentUserId
@@ -202,7 +297,12 @@ const AddExpenseForm = ({
   const [sharedWith, setSharedWith] = useState<string[]>(
     members.map((member) => member.memberId)
   );
-  const [splitEvenly, setSplitEvenly] = useState(true);
+  const [splitMode, setSplitMode] = useState<ExpenseSplitMode>("EVEN");
+  const [weightInputs, setWeightInputs] = useState<Record<string, string>>({});
+  const splitEvenly = splitMode === "EVEN";
+  const splitByItem = splitMode === "ITEMIZED";
+  const splitByWeight = WEIGHTED_SPLIT_MODES.includes(splitMode);
+  const [lineItems, setLineItems] = useState<ExpenseLineItem[]>([]);
   const [splitExtrasEvenly, setSplitExtrasEvenly] = useState(false);
   const [allocations, setAllocations] = useState<Record<string, string>>({});
   const [remainderMemberId, setRemainderMemberId] = useState<string>("");
@@ -220,6 +320,10 @@ const AddExpenseForm = ({
   const [receiptPreviewType, setReceiptPreviewType] = useState<string | null>(null);
   const [activeReceiptId, setActiveReceiptId] = useState<string | null>(null);
   const liveReceiptObjectUrlRef = useRef<string | null>(null);
+  const [scannedSources, setScannedSources] = useState<
+    Partial<Record<ScannedInput, ScannedValueSource>>
+  >({});
+  const [focusedInput, setFocusedInput] = useState<ScannedInput | null>(null);
   const remainderSectionRef = useRef<HTMLDivElement | null>(null);
   const previousRemainderRef = useRef(0);
   const lastAcknowledgedRemainderRef = useRef<number | null>(null);
@@ -361,6 +465,57 @@ const AddExpenseForm = ({
     previousRemainderRef.current = evenSplitRemainderCents;
   }, [splitEvenly, evenSplitRemainderCents, showRemainderPrompt]);
 
+  // Items nobody was assigned to fall back to everyone in "Split with".
+  const resolvedLineItems = useMemo(
+    () =>
+      lineItems.map((item) => ({
+        ...item,
+        assignedMemberIds: item.assignedMemberIds.length
+          ? item.assignedMemberIds
+          : sharedWith
+      })),
+    [lineItems, sharedWith]
+  );
+
+  const itemizedPreview = useMemo(
+    () => computeItemizedAllocations(resolvedLineItems, grossTotal),
+    [resolvedLineItems, grossTotal]
+  );
+
+  const lineItemsTotal = useMemo(
+    () => roundToCents(lineItems.reduce((sum, item) => sum + item.amount, 0)),
+    [lineItems]
+  );
+
+  const weightsByMember = useMemo(
+    () =>
+      sharedWith.reduce<Record<string, number>>((acc, memberId) => {
+        acc[memberId] = parseCurrencyInput(weightInputs[memberId] ?? "0");
+        return acc;
+      }, {}),
+    [sharedWith, weightInputs]
+  );
+
+  const weightTotal = useMemo(
+    () => roundToCents(Object.values(weightsByMember).reduce((sum, value) => sum + value, 0)),
+    [weightsByMember]
+  );
+
+  const weightedPreview = useMemo<Record<string, number>>(() => {
+    if (splitMode === "EXACT_PLUS_EVEN") {
+      const shares = distributeEvenly(
+        Math.max(grossTotal - weightTotal, 0),
+        sharedWith,
+        remainderMemberId
+      );
+      return sharedWith.reduce<Record<string, number>>((acc, memberId) => {
+        acc[memberId] = roundToCents((shares[memberId] ?? 0) + (weightsByMember[memberId] ?? 0));
+        return acc;
+      }, {});
+    }
+    return distributeByWeight(grossTotal, weightsByMember, remainderMemberId);
+  }, [splitMode, grossTotal, weightTotal, weightsByMember, sharedWith, remainderMemberId]);
+
   const allocationStatusMessage = useMemo(() => {
     if (grossTotal <= 0) {
       return "Enter an amount above to start allocating.";
@@ -405,35 +560,39 @@ const AddExpenseForm = ({
         total: extractedTotal,
         tax: extractedTax,
         tip: extractedTip,
-        lineItems
+        lineItems: extractedLineItems,
+        fields = {}
       } = extraction;
 
+      const sources: Partial<Record<ScannedInput, ScannedValueSource>> = {};
+      const sourceOf = (field: ExtractionField): ScannedValueSource | undefined =>
+        fields[field] ? { ...fields[field], field } : undefined;
+
+      const itemized = (extractedLineItems ?? [])
+        .filter((item) => typeof item.total === "number" && item.total > 0)
+        .map((item) => ({
+          description: item.description,
+          quantity: item.quantity,
+          amount: roundToCents(item.total ?? 0),
+          assignedMemberIds: [] as string[]
+        }));
+      setLineItems(itemized);
+      if (!itemized.length) {
+        setSplitMode((current) => (current === "ITEMIZED" ? "EVEN" : current));
+      }
+
       if (merchantName) {
         setDescription(merchantName);
         setVendor(merchantName);
-      }
-
-      if (!category && lineItems?.length) {
-        const firstItem = lineItems.find((item) => item.description);
-        if (firstItem?.description) {
-          const normalized = firstItem.description.toLowerCase();
-          if (normalized.includes("food") || normalized.includes("meal") || normalized.includes("restaurant")) {
-            setCategory("Meals");
-          } else if (normalized.includes("hotel") || normalized.includes("lodging")) {
-            setCategory("Lodging");
-          } else if (normalized.includes("ticket") || normalized.includes("ride")) {
-            setCategory("Transport");
-          } else if (normalized.includes("fuel") || normalized.includes("gas")) {
-            setCategory("Fuel");
-          } else {
-            setCategory(firstItem.description);
-          }
-        }
+        sources.description = sourceOf("merchantName");
+        sources.vendor = sourceOf("merchantName");
       }
 
       if (typeof extractedSubtotal === "number") {
         setSubtotalInput(extractedSubtotal.toString());
+        sources.subtotal = sourceOf("subtotal");
       } else if (typeof extractedTotal === "number") {
+        sources.subtotal = sourceOf("total");
         const derivedSubtotal = roundToCents(
           extractedTotal - (extractedTax ?? 0) - (extractedTip ?? 0)
         );
@@ -446,12 +605,15 @@ const AddExpenseForm = ({
 
       if (typeof extractedTax === "number") {
         setTaxInput(extractedTax.toString());
+        sources.tax = sourceOf("tax");
       }
       if (typeof extractedTip === "number") {
         setTipInput(extractedTip.toString());
+        sources.tip = sourceOf("tip");
       }
+      setScannedSources(sources);
     },
-    [category]
+    []
   );
 
   const loadReceiptPreview = useCallback(
@@ -516,8 +678,21 @@ const AddExpenseForm = ({
       if (activeReceiptId !== "__local__") {
         resetReceiptPreview();
       }
+    } else if (receipt.status === "REJECTED") {
+      setReceiptStatusMessage(
+        receipt.failureReason
+          ? `Receipt upload was rejected (${receipt.failureReason}). Upload it again.`
+          : "Receipt upload was rejected. Upload it again."
+      );
+      if (activeReceiptId !== "__local__") {
+        resetReceiptPreview();
+      }
     } else if (receipt.status === "FAILED") {
-      setReceiptStatusMessage("Receipt processing failed. Enter details manually.");
+      setReceiptStatusMessage(
+        receipt.failureReason
+          ? `Receipt processing failed (${receipt.failureReason}). Enter details manually.`
+          : "Receipt processing failed. Enter details manually."
+      );
       if (activeReceiptId !== "__local__") {
         resetReceiptPreview();
       }
@@ -563,6 +738,18 @@ const AddExpenseForm = ({
     }));
   };
 
+  const toggleLineItemMember = (index: number, memberId: string) => {
+    setLineItems((current) =>
+      current.map((item, itemIndex) => {
+        if (itemIndex !== index) return item;
+        const assigned = item.assignedMemberIds.includes(memberId)
+          ? item.assignedMemberIds.filter((id) => id !== memberId)
+          : [...item.assignedMemberIds, memberId];
+        return { ...item, assignedMemberIds: assigned };
+      })
+    );
+  };
+
   const handleLiveReceiptRequest = () => {
     if (isParsingReceipt) return;
     setParseError(null);
@@ -658,7 +845,10 @@ const AddExpenseForm = ({
     setSubtotalInput("");
     setTaxInput("");
     setTipInput("");
-    setSplitEvenly(true);
+    setScannedSources({});
+    setSplitMode("EVEN");
+    setWeightInputs({});
+    setLineItems([]);
     setSplitExtrasEvenly(false);
     setAllocations({});
     setReceiptId("");
@@ -706,7 +896,37 @@ const AddExpenseForm = ({
 
     let allocationsPayload: { memberId: string; amount: number }[] = [];
 
-    if (splitEvenly) {
+    if (splitByItem) {
+      if (lineItemsTotal - grossTotal > 0.05) {
+        setError(
+          `Line items (${formatAmount(lineItemsTotal)}) exceed the total (${formatAmount(grossTotal)}).`
+        );
+        return;
+      }
+      allocationsPayload = Object.entries(itemizedPreview).map(([memberId, amount]) => ({
+        memberId,
+        amount: roundToCents(amount)
+      }));
+    } else if (splitByWeight) {
+      if (splitMode === "PERCENTAGE" && Math.abs(weightTotal - 100) > 0.01) {
+        setError(`Percentages must add up to 100 (currently ${weightTotal}).`);
+        return;
+      }
+      if (splitMode === "SHARES" && weightTotal <= 0) {
+        setError("Give at least one person a share.");
+        return;
+      }
+      if (splitMode === "EXACT_PLUS_EVEN" && weightTotal - grossTotal > 0.005) {
+        setError(
+          `Fixed amounts (${formatAmount(weightTotal)}) exceed the total (${formatAmount(grossTotal)}).`
+        );
+        return;
+      }
+      allocationsPayload = Object.entries(weightedPreview).map(([memberId, amount]) => ({
+        memberId,
+        amount: roundToCents(amount)
+      }));
+    } else if (splitEvenly) {
       const distribution = distributeEvenly(
         grossTotal,
         sharedWith,
@@ -741,10 +961,22 @@ const AddExpenseForm = ({
       tax: taxValue > 0 ? taxValue : undefined,
       tip: tipValue > 0 ? tipValue : undefined,
       paidByMemberId: paidBy,
-      sharedWithMemberIds: sharedWith,
+      sharedWithMemberIds: splitByItem
+        ? Array.from(new Set(resolvedLineItems.flatMap((item) => item.assignedMemberIds)))
+        : sharedWith,
       splitEvenly,
       remainderMemberId: splitEvenly ? remainderMemberId || undefined : undefined,
-      allocations: allocationsPayload,
+      allocations: splitByItem || splitByWeight ? undefined : allocationsPayload,
+      lineItems: splitByItem ? resolvedLineItems : undefined,
+      split: splitByWeight
+        ? {
+            mode: splitMode,
+            inputs: sharedWith
+              .filter((memberId) => (weightsByMember[memberId] ?? 0) > 0)
+              .map((memberId) => ({ memberId, value: weightsByMember[memberId] })),
+            remainderMemberId: remainderMemberId || undefined
+          }
+        : undefined,
       receiptId: receiptId || undefined
     };
 
@@ -815,6 +1047,54 @@ const AddExpenseForm = ({
     return "Receipt preview";
   }, [receiptPreviewUrl, activeReceiptId, activeReceipt]);
 
+  const markReviewed = (input: ScannedInput) => {
+    setScannedSources((current) => {
+      if (!current[input]) return current;
+      const next = { ...current };
+      delete next[input];
+      return next;
+    });
+  };
+
+  const scannedInputProps = (input: ScannedInput) => ({
+    onFocus: () => setFocusedInput(input),
+    onBlur: () => setFocusedInput((current) => (current === input ? null : current)),
+    style: isLowConfidence(scannedSources[input])
+      ? { borderColor: "#facc15", boxShadow: "0 0 0 1px rgba(250,204,21,0.45)" }
+      : undefined
+  });
+
+  const renderScannedHint = (input: ScannedInput) => {
+    const source = scannedSources[input];
+    if (!source) return null;
+    const confidence =
+      source.confidence !== undefined ? ` (${Math.round(source.confidence)}% confidence)` : "";
+    return isLowConfidence(source) ? (
+      <span style={{ color: "#facc15", fontSize: "0.8rem" }}>
+        Check this value: read from the receipt{confidence}.
+      </span>
+    ) : (
+      <span className="muted" style={{ fontSize: "0.8rem" }}>
+        Read from the receipt{confidence}.
+      </span>
+    );
+  };
+
+  // One box per extracted field (description and vendor share the merchant).
+  const sourceBoxes = Object.values(
+    Object.entries(scannedSources).reduce<
+      Partial<Record<ExtractionField, { source: ScannedValueSource; inputs: ScannedInput[] }>>
+    >((acc, [input, source]) => {
+      if (!source?.boundingBox || (source.page ?? 1) !== 1) return acc;
+      const entry = acc[source.field] ?? { source, inputs: [] };
+      entry.inputs.push(input as ScannedInput);
+      acc[source.field] = entry;
+      return acc;
+    }, {})
+  ).filter((entry): entry is { source: ScannedValueSource; inputs: ScannedInput[] } =>
+    Boolean(entry)
+  );
+
   return (
     <form className="list" onSubmit={handleSubmit}>
       <div className="input-group">
@@ -822,9 +1102,14 @@ const AddExpenseForm = ({
         <input
           id="expense-description"
           value={description}
-          onChange={(event) => setDescription(event.target.value)}
+          onChange={(event) => {
+            setDescription(event.target.value);
+            markReviewed("description");
+          }}
+          {...scannedInputProps("description")}
           placeholder="Dinner at Bluebird Cafe"
         />
+        {renderScannedHint("description")}
       </div>
 
       <div className="input-group">
@@ -832,19 +1117,30 @@ const AddExpenseForm = ({
         <input
           id="expense-vendor"
           value={vendor}
-          onChange={(event) => setVendor(event.target.value)}
+          onChange={(event) => {
+            setVendor(event.target.value);
+            markReviewed("vendor");
+          }}
+          {...scannedInputProps("vendor")}
           placeholder="Bluebird Cafe"
         />
+        {renderScannedHint("vendor")}
       </div>
 
       <div className="input-group">
-        <label htmlFor="expense-category">Category (optional)</label>
-        <input
+        <label htmlFor="expense-category">Category</label>
+        <select
           id="expense-category"
           value={category}
           onChange={(event) => setCategory(event.target.value)}
-          placeholder="Meals"
-        />
+        >
+          <option value="">Automatic (from vendor)</option>
+          {categories.map((entry) => (
+            <option key={entry.name} value={entry.name}>
+              {entry.icon} {entry.name}
+            </option>
+          ))}
+        </select>
       </div>
 
       <div className="input-group">
@@ -856,9 +1152,14 @@ const AddExpenseForm = ({
           min="0"
           step="0.01"
           value={subtotalInput}
-          onChange={(event) => setSubtotalInput(event.target.value)}
+          onChange={(event) => {
+            setSubtotalInput(event.target.value);
+            markReviewed("subtotal");
+          }}
           onWheel={handleNumberInputWheel}
+          {...scannedInputProps("subtotal")}
         />
+        {renderScannedHint("subtotal")}
       </div>
 
       <div style={{ display: "flex", gap: "0.75rem" }}>
@@ -871,9 +1172,14 @@ const AddExpenseForm = ({
             min="0"
             step="0.01"
             value={taxInput}
-            onChange={(event) => setTaxInput(event.target.value)}
+            onChange={(event) => {
+              setTaxInput(event.target.value);
+              markReviewed("tax");
+            }}
             onWheel={handleNumberInputWheel}
+            {...scannedInputProps("tax")}
           />
+          {renderScannedHint("tax")}
         </div>
         <div className="input-group" style={{ flex: 1 }}>
           <label htmlFor="expense-tip">Tip</label>
@@ -884,9 +1190,14 @@ const AddExpenseForm = ({
             min="0"
             step="0.01"
             value={tipInput}
-            onChange={(event) => setTipInput(event.target.value)}
+            onChange={(event) => {
+              setTipInput(event.target.value);
+              markReviewed("tip");
+            }}
             onWheel={handleNumberInputWheel}
+            {...scannedInputProps("tip")}
           />
+          {renderScannedHint("tip")}
         </div>
       </div>
 
@@ -922,7 +1233,7 @@ const AddExpenseForm = ({
         <input
           ref={liveReceiptInputRef}
           type="file"
-          accept="image/*,application/pdf"
+          accept="image/*,application/pdf,text/plain"
           style={{ display: "none" }}
           onChange={handleLiveReceiptSelected}
         />
@@ -962,16 +1273,45 @@ const AddExpenseForm = ({
                     }}
                   />
                 ) : receiptPreviewType === "image" ? (
-                  <img
-                    src={receiptPreviewUrl}
-                    alt="Receipt preview"
-                    style={{
-                      maxWidth: "100%",
-                      maxHeight: "320px",
-                      display: "block",
-                      borderRadius: "0.5rem"
-                    }}
-                  />
+                  <div style={{ position: "relative", display: "inline-block" }}>
+                    <img
+                      src={receiptPreviewUrl}
+                      alt="Receipt preview"
+                      style={{
+                        maxWidth: "100%",
+                        maxHeight: "320px",
+                        display: "block",
+                        borderRadius: "0.5rem"
+                      }}
+                    />
+                    {sourceBoxes.map(({ source, inputs }) => {
+                      const box = source.boundingBox;
+                      if (!box) return null;
+                      const tone = isLowConfidence(source) ? "250,204,21" : "74,222,128";
+                      const focused = focusedInput !== null && inputs.includes(focusedInput);
+                      return (
+                        <div
+                          key={source.field}
+                          title={`${EXTRACTION_FIELD_LABELS[source.field]}${
+                            source.confidence !== undefined
+                              ? ` · ${Math.round(source.confidence)}%`
+                              : ""
+                          }`}
+                          style={{
+                            position: "absolute",
+                            left: `${box.left * 100}%`,
+                            top: `${box.top * 100}%`,
+                            width: `${box.width * 100}%`,
+                            height: `${box.height * 100}%`,
+                            border: `${focused ? 2 : 1}px solid rgb(${tone})`,
+                            background: `rgba(${tone},${focused ? 0.3 : 0.12})`,
+                            borderRadius: "2px",
+                            pointerEvents: "auto"
+                          }}
+                        />
+                      );
+                    })}
+                  </div>
                 ) : (
                   <a
                     href={receiptPreviewUrl}
@@ -1036,7 +1376,7 @@ const AddExpenseForm = ({
             type="button"
             className={splitEvenly ? "primary" : "secondary"}
             onClick={() => {
-              setSplitEvenly(true);
+              setSplitMode("EVEN");
               setSplitExtrasEvenly(false);
             }}
           >
@@ -1044,14 +1384,140 @@ const AddExpenseForm = ({
           </button>
           <button
             type="button"
-            className={!splitEvenly ? "primary" : "secondary"}
-            onClick={() => setSplitEvenly(false)}
+            className={splitMode === "EXACT" ? "primary" : "secondary"}
+            onClick={() => setSplitMode("EXACT")}
           >
             Custom amounts
           </button>
+          <button
+            type="button"
+            className={splitMode === "PERCENTAGE" ? "primary" : "secondary"}
+            onClick={() => {
+              setSplitMode("PERCENTAGE");
+              setWeightInputs({});
+            }}
+          >
+            Percentages
+          </button>
+          <button
+            type="button"
+            className={splitMode === "SHARES" ? "primary" : "secondary"}
+            onClick={() => {
+              setSplitMode("SHARES");
+              setWeightInputs(
+                Object.fromEntries(sharedWith.map((memberId) => [memberId, "1"]))
+              );
+            }}
+          >
+            Shares
+          </button>
+          <button
+            type="button"
+            className={splitMode === "EXACT_PLUS_EVEN" ? "primary" : "secondary"}
+            onClick={() => {
+              setSplitMode("EXACT_PLUS_EVEN");
+              setWeightInputs({});
+            }}
+          >
+            Fixed + even
+          </button>
+          {lineItems.length > 0 && (
+            <button
+              type="button"
+              className={splitByItem ? "primary" : "secondary"}
+              onClick={() => setSplitMode("ITEMIZED")}
+            >
+              By item
+            </button>
+          )}
         </div>
       </div>
 
+      {splitByItem && (
+        <div className="input-group">
+          <label>Assign receipt items</label>
+          <div className="list">
+            {lineItems.map((item, index) => (
+              <div
+                key={`${item.description ?? "item"}-${index}`}
+                className="card"
+                style={{ padding: "0.6rem 0.8rem" }}
+              >
+                <div style={{ display: "flex", justifyContent: "space-between", gap: "0.5rem" }}>
+                  <span>
+                    {item.description ?? `Item ${index + 1}`}
+                    {item.quantity && item.quantity > 1 ? ` × ${item.quantity}` : ""}
+                  </span>
+                  <strong>{formatAmount(item.amount)}</strong>
+                </div>
+                <div style={{ display: "flex", gap: "0.35rem", flexWrap: "wrap", marginTop: "0.4rem" }}>
+                  {members.map((member) => (
+                    <button
+                      key={member.memberId}
+                      type="button"
+                      className={item.assignedMemberIds.includes(member.memberId) ? "primary" : "secondary"}
+                      onClick={() => toggleLineItemMember(index, member.memberId)}
+                    >
+                      {member.displayName}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="muted" style={{ marginTop: "0.5rem" }}>
+            Unassigned items are shared by everyone selected above. Tax and tip are spread in proportion to each
+            person&apos;s items.
+          </p>
+          <div className="list" style={{ marginTop: "0.5rem" }}>
+            {Object.entries(itemizedPreview).map(([memberId, amount]) => (
+              <span key={memberId} className="muted">
+                {membersById[memberId]?.displayName ?? memberId}: {formatAmount(amount)}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {splitByWeight && (
+        <div className="input-group">
+          <label>
+            {splitMode === "PERCENTAGE"
+              ? `Percent of total (${weightTotal}% assigned)`
+              : splitMode === "SHARES"
+                ? `Shares per person (${weightTotal} total)`
+                : `Fixed amounts (${formatAmount(weightTotal)}); the rest is split evenly`}
+          </label>
+          <div className="list">
+            {sharedMembers.map((member) => (
+              <div
+                key={member.memberId}
+                style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}
+              >
+                <span style={{ flex: 1 }}>{member.displayName}</span>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  min="0"
+                  step={splitMode === "SHARES" ? "1" : "0.01"}
+                  style={{ width: "6rem" }}
+                  value={weightInputs[member.memberId] ?? ""}
+                  onChange={(event) =>
+                    setWeightInputs((prev) => ({
+                      ...prev,
+                      [member.memberId]: event.target.value
+                    }))
+                  }
+                />
+                <span className="muted">
+                  {formatAmount(weightedPreview[member.memberId] ?? 0)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {showRemainderPrompt && (
         <div
           role="alert"
@@ -1120,7 +1586,7 @@ const AddExpenseForm = ({
         </div>
       )}
 
-      {!splitEvenly && (
+      {splitMode === "EXACT" && (
         <>
           <div className="list">
             {sharedMembers.map((member) => {
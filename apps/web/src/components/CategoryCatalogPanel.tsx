@@ -0,0 +1,306 @@
+import { FormEvent, useEffect, useState } from "react";
+import type { CategoryRule, ExpenseCategory } from "../types";
+
+export interface SaveCategoryRuleInput {
+  vendor: string;
+  category: string;
+}
+
+interface CategoryCatalogPanelProps {
+  title: string;
+  description: string;
+  categories: ExpenseCategory[];
+  canEdit: boolean;
+  onSave: (categories: ExpenseCategory[]) => Promise<unknown>;
+  /** Drops the custom catalog so the built-in one applies again. */
+  onReset: () => Promise<unknown>;
+  isSaving: boolean;
+  /** Vendor rules are only shown when provided. */
+  rules?: CategoryRule[];
+  canEditRules?: boolean;
+  onSaveRule?: (input: SaveCategoryRuleInput) => Promise<unknown>;
+  onDeleteRule?: (vendor: string) => Promise<unknown>;
+}
+
+type CategoryDraft = {
+  name: string;
+  icon: string;
+  color: string;
+  aliases: string;
+};
+
+const toDrafts = (categories: ExpenseCategory[]): CategoryDraft[] =>
+  categories.map((category) => ({
+    name: category.name,
+    icon: category.icon,
+    color: category.color,
+    aliases: (category.aliases ?? []).join(", ")
+  }));
+
+const fromDrafts = (drafts: CategoryDraft[]): ExpenseCategory[] =>
+  drafts
+    .filter((draft) => draft.name.trim())
+    .map((draft) => {
+      const aliases = draft.aliases
+        .split(",")
+        .map((alias) => alias.trim())
+        .filter(Boolean);
+      return {
+        name: draft.name.trim(),
+        icon: draft.icon.trim() || "🏷️",
+        color: draft.color,
+        ...(aliases.length ? { aliases } : {})
+      };
+    });
+
+export const CategoryChip = ({ category }: { category?: ExpenseCategory }) =>
+  category ? (
+    <span
+      className="pill"
+      style={{ borderColor: category.color, color: category.color, whiteSpace: "nowrap" }}
+    >
+      {category.icon} {category.name}
+    </span>
+  ) : null;
+
+const CategoryCatalogPanel = ({
+  title,
+  description,
+  categories,
+  canEdit,
+  onSave,
+  onReset,
+  isSaving,
+  rules,
+  canEditRules = false,
+  onSaveRule,
+  onDeleteRule
+}: CategoryCatalogPanelProps) => {
+  const [drafts, setDrafts] = useState<CategoryDraft[]>(() => toDrafts(categories));
+  const [isEditing, setIsEditing] = useState(false);
+  const [ruleVendor, setRuleVendor] = useState("");
+  const [ruleCategory, setRuleCategory] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isEditing) {
+      setDrafts(toDrafts(categories));
+    }
+  }, [categories, isEditing]);
+
+  const updateDraft = (index: number, changes: Partial<CategoryDraft>) =>
+    setDrafts((current) =>
+      current.map((draft, position) => (position === index ? { ...draft, ...changes } : draft))
+    );
+
+  const handleSave = async (event: FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    const catalog = fromDrafts(drafts);
+    if (!catalog.length) {
+      setError("Keep at least one category");
+      return;
+    }
+    try {
+      await onSave(catalog);
+      setIsEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save categories");
+    }
+  };
+
+  const handleReset = async () => {
+    setError(null);
+    try {
+      await onReset();
+      setIsEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to reset categories");
+    }
+  };
+
+  const handleAddRule = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!onSaveRule || !ruleVendor.trim() || !ruleCategory) return;
+    setError(null);
+    try {
+      await onSaveRule({ vendor: ruleVendor.trim(), category: ruleCategory });
+      setRuleVendor("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save rule");
+    }
+  };
+
+  const categoriesByName = new Map(categories.map((category) => [category.name, category]));
+
+  return (
+    <section className="card">
+      <div className="section-title">
+        <div>
+          <h2>{title}</h2>
+          <p className="muted">{description}</p>
+        </div>
+        {canEdit && !isEditing && (
+          <button type="button" className="secondary" onClick={() => setIsEditing(true)}>
+            Edit categories
+          </button>
+        )}
+      </div>
+
+      {isEditing ? (
+        <form className="list" onSubmit={handleSave}>
+          {drafts.map((draft, index) => (
+            <div key={index} className="input-row" style={{ alignItems: "center" }}>
+              <input
+                aria-label="Icon"
+                value={draft.icon}
+                onChange={(event) => updateDraft(index, { icon: event.target.value })}
+                style={{ width: "3.5rem", textAlign: "center" }}
+                disabled={isSaving}
+              />
+              <input
+                aria-label="Name"
+                value={draft.name}
+                onChange={(event) => updateDraft(index, { name: event.target.value })}
+                placeholder="Name"
+                disabled={isSaving}
+              />
+              <input
+                aria-label="Colour"
+                type="color"
+                value={draft.color}
+                onChange={(event) => updateDraft(index, { color: event.target.value })}
+                style={{ width: "3rem", padding: 0 }}
+                disabled={isSaving}
+              />
+              <input
+                aria-label="Also known as"
+                value={draft.aliases}
+                onChange={(event) => updateDraft(index, { aliases: event.target.value })}
+                placeholder="Also known as, e.g. Dining, Meals"
+                disabled={isSaving}
+              />
+              <button
+                type="button"
+                className="secondary"
+                onClick={() =>
+                  setDrafts((current) => current.filter((_, position) => position !== index))
+                }
+                disabled={isSaving}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
+            <button
+              type="button"
+              className="secondary"
+              onClick={() =>
+                setDrafts((current) => [
+                  ...current,
+                  { name: "", icon: "🏷️", color: "#94a3b8", aliases: "" }
+                ])
+              }
+              disabled={isSaving}
+            >
+              Add category
+            </button>
+            <button type="submit" className="primary" disabled={isSaving}>
+              {isSaving ? "Saving…" : "Save categories"}
+            </button>
+            <button type="button" className="secondary" onClick={handleReset} disabled={isSaving}>
+              Reset to defaults
+            </button>
+            <button
+              type="button"
+              className="secondary"
+              onClick={() => setIsEditing(false)}
+              disabled={isSaving}
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div style={{ display: "flex", gap: "0.4rem", flexWrap: "wrap" }}>
+          {categories.map((category) => (
+            <CategoryChip key={category.name} category={category} />
+          ))}
+        </div>
+      )}
+
+      {rules && (
+        <div className="list" style={{ marginTop: "1rem" }}>
+          <h3 style={{ margin: 0 }}>Vendor rules</h3>
+          <p className="muted" style={{ margin: 0 }}>
+            Expenses without a category are filed by vendor. Picking a different category on an
+            expense teaches a new rule.
+          </p>
+          {rules.length === 0 ? (
+            <p className="muted" style={{ margin: 0 }}>No rules yet.</p>
+          ) : (
+            rules.map((rule) => (
+              <div
+                key={rule.vendor}
+                style={{ display: "flex", justifyContent: "space-between", gap: "1rem" }}
+              >
+                <span>
+                  {rule.vendor} →{" "}
+                  {categoriesByName.has(rule.category) ? (
+                    <CategoryChip category={categoriesByName.get(rule.category)} />
+                  ) : (
+                    rule.category
+                  )}{" "}
+                  <span className="muted">({rule.source})</span>
+                </span>
+                {canEditRules && onDeleteRule && (
+                  <button
+                    type="button"
+                    className="secondary"
+                    onClick={() => void onDeleteRule(rule.vendor)}
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            ))
+          )}
+          {canEditRules && onSaveRule && (
+            <form className="input-row" onSubmit={handleAddRule}>
+              <input
+                aria-label="Vendor"
+                value={ruleVendor}
+                onChange={(event) => setRuleVendor(event.target.value)}
+                placeholder="Vendor, e.g. Starbucks"
+              />
+              <select
+                aria-label="Category"
+                value={ruleCategory}
+                onChange={(event) => setRuleCategory(event.target.value)}
+              >
+                <option value="">Category…</option>
+                {categories.map((category) => (
+                  <option key={category.name} value={category.name}>
+                    {category.icon} {category.name}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                className="secondary"
+                disabled={!ruleVendor.trim() || !ruleCategory}
+              >
+                Add rule
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+
+      {error && <p style={{ margin: "0.5rem 0 0", color: "#f87171" }}>{error}</p>}
+    </section>
+  );
+};
+
+export default CategoryCatalogPanel;
@@ -0,0 +1,207 @@
+import { ChangeEvent, useMemo, useState } from "react";
+import type { ImportFormat, ImportResult, TripMember } from "../types";
+
+export interface ImportExpensesInput {
+  format: ImportFormat;
+  content: string;
+  dryRun: boolean;
+  paidByMemberId?: string;
+}
+
+interface ImportExpensesPanelProps {
+  members: TripMember[];
+  currentUserId?: string;
+  onImport: (input: ImportExpensesInput) => Promise<ImportResult>;
+  isImporting: boolean;
+}
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  splitwise: "Splitwise export (CSV)",
+  "bank-csv": "Bank statement (CSV)",
+  ofx: "Bank statement (OFX/QFX)"
+};
+
+const STATUS_LABELS: Record<ImportResult["rows"][number]["status"], string> = {
+  ready: "Ready",
+  created: "Imported",
+  error: "Error",
+  skipped: "Skipped"
+};
+
+const ImportExpensesPanel = ({
+  members,
+  currentUserId,
+  onImport,
+  isImporting
+}: ImportExpensesPanelProps) => {
+  const [format, setFormat] = useState<ImportFormat>("splitwise");
+  const [fileName, setFileName] = useState("");
+  const [content, setContent] = useState("");
+  const [paidBy, setPaidBy] = useState(currentUserId ?? members[0]?.memberId ?? "");
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const membersById = useMemo(
+    () =>
+      members.reduce<Record<string, string>>((acc, member) => {
+        acc[member.memberId] = member.displayName;
+        return acc;
+      }, {}),
+    [members]
+  );
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    setResult(null);
+    setError(null);
+    if (!file) {
+      setFileName("");
+      setContent("");
+      return;
+    }
+    setFileName(file.name);
+    setContent(await file.text());
+    if (/\.(ofx|qfx)$/i.test(file.name)) {
+      setFormat("ofx");
+    }
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!content) {
+      setError("Choose a file to import.");
+      return;
+    }
+    setError(null);
+    try {
+      const response = await onImport({
+        format,
+        content,
+        dryRun,
+        paidByMemberId: format === "splitwise" ? undefined : paidBy
+      });
+      setResult(response);
+      if (!dryRun) {
+        setContent("");
+        setFileName("");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    }
+  };
+
+  return (
+    <section className="card">
+      <h2>Import expenses</h2>
+      <p className="muted">
+        Bring in a Splitwise export or a bank statement. Review the preview, then import the rows marked ready.
+        Bank transactions are split evenly across the group.
+      </p>
+
+      <div className="input-group">
+        <label htmlFor="import-format">Format</label>
+        <select
+          id="import-format"
+          value={format}
+          onChange={(event) => {
+            setFormat(event.target.value as ImportFormat);
+            setResult(null);
+          }}
+        >
+          {(Object.keys(FORMAT_LABELS) as ImportFormat[]).map((value) => (
+            <option key={value} value={value}>
+              {FORMAT_LABELS[value]}
+            </option>
+          ))}
+        </select>
+      </div>
+      {format !== "splitwise" && (
+        <div className="input-group">
+          <label htmlFor="import-paid-by">Paid by</label>
+          <select id="import-paid-by" value={paidBy} onChange={(event) => setPaidBy(event.target.value)}>
+            {members.map((member) => (
+              <option key={member.memberId} value={member.memberId}>
+                {member.displayName}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      <div className="input-group">
+        <label htmlFor="import-file">File</label>
+        <input
+          id="import-file"
+          type="file"
+          accept=".csv,.ofx,.qfx,text/csv"
+          onChange={(event) => void handleFileChange(event)}
+        />
+        {fileName && <span className="muted">{fileName}</span>}
+      </div>
+
+      {error && <p style={{ color: "#f87171" }}>{error}</p>}
+
+      <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
+        <button
+          type="button"
+          className="secondary"
+          disabled={isImporting || !content}
+          onClick={() => void runImport(true)}
+        >
+          {isImporting ? "Reading…" : "Preview"}
+        </button>
+        {result?.dryRun && result.readyCount > 0 && (
+          <button
+            type="button"
+            className="primary"
+            disabled={isImporting || !content}
+            onClick={() => void runImport(false)}
+          >
+            Import {result.readyCount} expense{result.readyCount === 1 ? "" : "s"}
+          </button>
+        )}
+      </div>
+
+      {result && (
+        <div style={{ marginTop: "1rem" }}>
+          <p className="muted">
+            {result.dryRun
+              ? `${result.readyCount} ready · ${result.errorCount} with errors · ${result.skippedCount} skipped`
+              : `${result.createdCount} imported · ${result.errorCount} with errors · ${result.skippedCount} skipped`}
+          </p>
+          <div className="list">
+            {result.rows.map((row) => (
+              <div key={row.rowNumber} className="card" style={{ padding: "0.75rem" }}>
+                <div style={{ display: "flex", justifyContent: "space-between", gap: "0.5rem" }}>
+                  <strong>
+                    Row {row.rowNumber}
+                    {row.description ? ` · ${row.description}` : ""}
+                  </strong>
+                  <span>{STATUS_LABELS[row.status]}</span>
+                </div>
+                {row.total !== undefined && (
+                  <p className="muted" style={{ margin: "0.25rem 0" }}>
+                    {row.date ?? "No date"} · {row.total.toFixed(2)} {row.currency ?? ""}
+                    {row.paidByMemberId
+                      ? ` · paid by ${membersById[row.paidByMemberId] ?? "Unknown"}`
+                      : ""}
+                  </p>
+                )}
+                {row.message && (
+                  <p className="muted" style={{ margin: "0.25rem 0" }}>
+                    {row.message}
+                  </p>
+                )}
+                {row.errors.map((message) => (
+                  <p key={message} style={{ color: "#f87171", margin: "0.25rem 0" }}>
+                    {message}
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ImportExpensesPanel;
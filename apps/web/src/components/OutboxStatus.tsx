@@ -0,0 +1,69 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  discardOutboxEntry,
+  flushOutbox,
+  subscribeToOutbox,
+  type OutboxEntry
+} from "../lib/outbox";
+
+// Shows changes made offline that are still waiting to reach the server.
+const OutboxStatus = () => {
+  const queryClient = useQueryClient();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(
+    () =>
+      subscribeToOutbox(setEntries, () => {
+        void queryClient.invalidateQueries();
+      }),
+    [queryClient]
+  );
+
+  if (!entries.length) {
+    return null;
+  }
+
+  const failed = entries.filter((entry) => entry.error).length;
+
+  return (
+    <div style={{ position: "relative" }}>
+      <button type="button" className="secondary" onClick={() => setIsOpen((open) => !open)}>
+        {failed
+          ? `${failed} unsynced change${failed === 1 ? "" : "s"} failed`
+          : `${entries.length} change${entries.length === 1 ? "" : "s"} waiting to sync`}
+      </button>
+      {isOpen && (
+        <div
+          className="card list"
+          style={{ position: "absolute", right: 0, zIndex: 10, width: "20rem", marginTop: "0.5rem" }}
+        >
+          {entries.map((entry) => (
+            <div key={entry.id} style={{ display: "flex", justifyContent: "space-between", gap: "0.5rem" }}>
+              <span>
+                {entry.label}
+                <br />
+                <span className="muted" style={{ color: entry.error ? "#f87171" : undefined }}>
+                  {entry.error ?? `Queued ${new Date(entry.createdAt).toLocaleString()}`}
+                </span>
+              </span>
+              <button
+                type="button"
+                className="secondary"
+                onClick={() => void discardOutboxEntry(entry.id)}
+              >
+                Discard
+              </button>
+            </div>
+          ))}
+          <button type="button" className="primary" onClick={() => void flushOutbox()}>
+            Sync now
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OutboxStatus;
@@ -0,0 +1,136 @@
+import { useMemo, useState } from "react";
+import type { PaymentLink, PaymentRequest } from "../types";
+
+interface PaymentRequestsPanelProps {
+  requests: PaymentRequest[];
+  membersById: Record<string, string>;
+  currentUserId?: string;
+  /** Records a suggested transfer as a settlement when its pay link is opened. */
+  onRecord: (payload: {
+    fromMemberId: string;
+    toMemberId: string;
+    amount: number;
+    note?: string;
+  }) => Promise<unknown>;
+  isRecording: boolean;
+}
+
+const PROVIDER_LABELS: Record<PaymentLink["provider"], string> = {
+  venmo: "Venmo",
+  paypal: "PayPal"
+};
+
+const requestKey = (request: PaymentRequest) =>
+  request.settlementId ?? `${request.fromMemberId}:${request.toMemberId}`;
+
+const PaymentRequestsPanel = ({
+  requests,
+  membersById,
+  currentUserId,
+  onRecord,
+  isRecording
+}: PaymentRequestsPanelProps) => {
+  const [qrKey, setQrKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The current user's own debts first; those are the ones they can pay.
+  const sortedRequests = useMemo(
+    () =>
+      [...requests].sort(
+        (a, b) =>
+          Number(b.fromMemberId === currentUserId) - Number(a.fromMemberId === currentUserId)
+      ),
+    [requests, currentUserId]
+  );
+
+  if (!requests.length) {
+    return null;
+  }
+
+  const handleOpen = (request: PaymentRequest, link: PaymentLink) => {
+    // Only the payer's own suggested transfers are recorded, once.
+    if (request.settlementId || request.fromMemberId !== currentUserId || isRecording) return;
+    setError(null);
+    // The link opens in a new tab as usual while the settlement is saved.
+    onRecord({
+      fromMemberId: request.fromMemberId,
+      toMemberId: request.toMemberId,
+      amount: request.amount,
+      note: `Paid with ${PROVIDER_LABELS[link.provider]}`
+    }).catch((err) => {
+      setError(err instanceof Error ? err.message : "Failed to record settlement");
+    });
+  };
+
+  return (
+    <section className="card" style={{ gridColumn: "1 / -1" }}>
+      <div className="section-title">
+        <h2>Pay Now</h2>
+        <span className="muted">Paying a suggested transfer records it as pending</span>
+      </div>
+      <div className="list">
+        {sortedRequests.map((request) => {
+          const key = requestKey(request);
+          const formatter = new Intl.NumberFormat(undefined, {
+            style: "currency",
+            currency: request.currency
+          });
+          const qrLinks = request.links.filter((link) => link.qrCode);
+          return (
+            <div key={key} className="card" style={{ padding: "1rem 1.25rem" }}>
+              <p style={{ margin: "0 0 0.25rem" }}>
+                <strong>{membersById[request.fromMemberId] ?? request.fromMemberId}</strong> pays{" "}
+                <strong>{membersById[request.toMemberId] ?? request.toMemberId}</strong>{" "}
+                {formatter.format(request.amount)}
+              </p>
+              <p className="muted" style={{ margin: 0 }}>
+                {request.settlementId ? "Recorded, awaiting confirmation" : "Suggested"}
+              </p>
+              <div style={{ marginTop: "0.75rem", display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
+                {request.links.map((link) => (
+                  <a
+                    key={link.provider}
+                    className="btn secondary"
+                    href={link.url}
+                    target="_blank"
+                    rel="noreferrer"
+                    onClick={() => handleOpen(request, link)}
+                  >
+                    Pay with {PROVIDER_LABELS[link.provider]}
+                  </a>
+                ))}
+                {qrLinks.length > 0 && (
+                  <button
+                    type="button"
+                    className="secondary"
+                    onClick={() => setQrKey((current) => (current === key ? null : key))}
+                  >
+                    {qrKey === key ? "Hide QR codes" : "Show QR codes"}
+                  </button>
+                )}
+              </div>
+              {qrKey === key && (
+                <div style={{ marginTop: "0.75rem", display: "flex", gap: "1rem", flexWrap: "wrap" }}>
+                  {qrLinks.map((link) => (
+                    <figure key={link.provider} style={{ margin: 0, textAlign: "center" }}>
+                      <img
+                        src={link.qrCode}
+                        alt={`${PROVIDER_LABELS[link.provider]} payment QR code`}
+                        width={160}
+                        height={160}
+                      />
+                      <figcaption className="muted">{PROVIDER_LABELS[link.provider]}</figcaption>
+                    </figure>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {error && <p style={{ margin: "0.5rem 0 0", color: "#f87171" }}>{error}</p>}
+    </section>
+  );
+};
+
+export default PaymentRequestsPanel;
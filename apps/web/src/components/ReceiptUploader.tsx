@@ -2,6 +2,30 @@ import { FormEvent, useState } from "react";
 import { api, ApiError } from "../lib/api";
 import type { ReceiptUploadResponse } from "../types";
 
+// Mirrors the API's allow-list; HEIC often arrives without a MIME type.
+const ACCEPTED_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  heic: "image/heic",
+  heif: "image/heif",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+  pdf: "application/pdf",
+  txt: "text/plain"
+};
+
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+const resolveContentType = (file: File): string | null => {
+  if (file.type && Object.values(ACCEPTED_TYPES).includes(file.type)) {
+    return file.type;
+  }
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  return ACCEPTED_TYPES[extension] ?? null;
+};
+
 interface ReceiptUploaderProps {
   tripId: string;
   onUploaded: () => void;
@@ -16,6 +40,17 @@ const ReceiptUploader = ({ tripId, onUploaded }: ReceiptUploaderProps) => {
     event.preventDefault();
     if (!file) return;
     setStatus("");
+
+    const contentType = resolveContentType(file);
+    if (!contentType) {
+      setStatus("Upload a photo (JPEG, PNG, WebP, HEIC, TIFF), a PDF or a text file.");
+      return;
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      setStatus("Receipt file is too large (limit 10 MB).");
+      return;
+    }
+
     setUploading(true);
 
     try {
@@ -23,20 +58,29 @@ const ReceiptUploader = ({ tripId, onUploaded }: ReceiptUploaderProps) => {
         `/trips/${tripId}/receipts`,
         {
           fileName: file.name,
-          contentType: file.type || "application/octet-stream"
+          contentType,
+          size: file.size
         }
       );
 
+      // S3 requires the policy fields before the file in the form.
+      const form = new FormData();
+      Object.entries(receipt.uploadFields).forEach(([name, value]) => {
+        form.append(name, value);
+      });
+      form.append("file", new Blob([file], { type: contentType }), file.name);
+
       const uploadResponse = await fetch(receipt.uploadUrl, {
-        method: "PUT",
-        headers: {
-          "Content-Type": file.type || "application/octet-stream"
-        },
-        body: file
+        method: "POST",
+        body: form
       });
 
       if (!uploadResponse.ok) {
-        throw new Error("Upload failed");
+        throw new Error(
+          uploadResponse.status === 400 || uploadResponse.status === 403
+            ? "The file was refused by storage; check its size and type."
+            : "Upload failed"
+        );
       }
 
       setStatus("Receipt uploaded! Textract will process shortly.");
@@ -62,7 +106,7 @@ const ReceiptUploader = ({ tripId, onUploaded }: ReceiptUploaderProps) => {
         <input
           id="receipt-file"
           type="file"
-          accept="image/*,application/pdf"
+          accept={[...new Set(Object.values(ACCEPTED_TYPES)), ".heic", ".heif"].join(",")}
           onChange={(event) => setFile(event.target.files?.[0] ?? null)}
         />
       </div>
@@ -0,0 +1,329 @@
+import { FormEvent, useMemo, useState } from "react";
+import type { RecurrenceFrequency, RecurringExpense, TripMember } from "../types";
+
+export interface CreateRecurringExpenseInput {
+  description: string;
+  total: number;
+  currency: string;
+  paidByMemberId: string;
+  sharedWithMemberIds: string[];
+  splitEvenly: boolean;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: string;
+  endDate?: string;
+}
+
+export interface UpdateRecurringExpenseInput {
+  total?: number;
+  description?: string;
+  paused?: boolean;
+  endDate?: string | null;
+}
+
+interface RecurringExpensesPanelProps {
+  members: TripMember[];
+  currency: string;
+  recurringExpenses: RecurringExpense[];
+  isLoading: boolean;
+  currentUserId?: string;
+  onCreate: (input: CreateRecurringExpenseInput) => Promise<unknown>;
+  isCreating: boolean;
+  onUpdate: (recurringExpenseId: string, input: UpdateRecurringExpenseInput) => Promise<unknown>;
+  onSkip: (recurringExpenseId: string, date?: string) => Promise<unknown>;
+  onDelete: (recurringExpenseId: string) => Promise<unknown>;
+  pendingId?: string;
+}
+
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  DAILY: "Daily",
+  WEEKLY: "Weekly",
+  MONTHLY: "Monthly",
+  YEARLY: "Yearly"
+};
+
+const todayIsoDate = () => new Date().toISOString().slice(0, 10);
+
+const describeSchedule = (recurring: RecurringExpense) => {
+  const label = FREQUENCY_LABELS[recurring.frequency];
+  return recurring.interval > 1 ? `${label} (every ${recurring.interval})` : label;
+};
+
+const RecurringExpensesPanel = ({
+  members,
+  currency,
+  recurringExpenses,
+  isLoading,
+  currentUserId,
+  onCreate,
+  isCreating,
+  onUpdate,
+  onSkip,
+  onDelete,
+  pendingId
+}: RecurringExpensesPanelProps) => {
+  const [description, setDescription] = useState("");
+  const [amount, setAmount] = useState("");
+  const [paidBy, setPaidBy] = useState(currentUserId ?? members[0]?.memberId ?? "");
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>("MONTHLY");
+  const [startDate, setStartDate] = useState(todayIsoDate());
+  const [endDate, setEndDate] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editAmount, setEditAmount] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const formatCurrency = useMemo(
+    () =>
+      new Intl.NumberFormat(undefined, {
+        style: "currency",
+        currency,
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2
+      }),
+    [currency]
+  );
+
+  const membersById = useMemo(
+    () =>
+      members.reduce<Record<string, string>>((acc, member) => {
+        acc[member.memberId] = member.displayName;
+        return acc;
+      }, {}),
+    [members]
+  );
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    }
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const total = Number.parseFloat(amount);
+    if (!description.trim() || !Number.isFinite(total) || total <= 0) {
+      setError("Enter a description and a positive amount.");
+      return;
+    }
+    if (!paidBy) {
+      setError("Select who pays for this expense.");
+      return;
+    }
+    void runAction(async () => {
+      await onCreate({
+        description: description.trim(),
+        total,
+        currency,
+        paidByMemberId: paidBy,
+        sharedWithMemberIds: members.map((member) => member.memberId),
+        splitEvenly: true,
+        frequency,
+        interval: 1,
+        startDate,
+        endDate: endDate || undefined
+      });
+      setDescription("");
+      setAmount("");
+      setEndDate("");
+    });
+  };
+
+  const handleSaveAmount = (recurringExpenseId: string) => {
+    const total = Number.parseFloat(editAmount);
+    if (!Number.isFinite(total) || total <= 0) {
+      setError("Enter a positive amount.");
+      return;
+    }
+    void runAction(async () => {
+      await onUpdate(recurringExpenseId, { total });
+      setEditingId(null);
+    });
+  };
+
+  return (
+    <section className="card">
+      <h2>Recurring expenses</h2>
+      <p className="muted">
+        Rent, utilities and other repeating costs are added automatically on each due date and split evenly
+        across the group.
+      </p>
+
+      {isLoading ? (
+        <p className="muted">Loading recurring expenses…</p>
+      ) : recurringExpenses.length === 0 ? (
+        <p className="muted">No recurring expenses yet.</p>
+      ) : (
+        <div className="list">
+          {recurringExpenses.map((recurring) => {
+            const busy = pendingId === recurring.recurringExpenseId;
+            return (
+              <div key={recurring.recurringExpenseId} className="card" style={{ padding: "0.75rem" }}>
+                <div style={{ display: "flex", justifyContent: "space-between", gap: "0.5rem" }}>
+                  <strong>{recurring.template.description}</strong>
+                  <span>{formatCurrency.format(recurring.template.total)}</span>
+                </div>
+                <p className="muted" style={{ margin: "0.25rem 0" }}>
+                  {describeSchedule(recurring)} · paid by{" "}
+                  {membersById[recurring.template.paidByMemberId] ?? "Unknown"} ·{" "}
+                  {recurring.paused
+                    ? "Paused"
+                    : recurring.nextOccurrence
+                      ? `Next on ${recurring.nextOccurrence}`
+                      : "Finished"}
+                </p>
+                {editingId === recurring.recurringExpenseId ? (
+                  <div style={{ display: "flex", gap: "0.5rem", alignItems: "center" }}>
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      min="0"
+                      step="0.01"
+                      value={editAmount}
+                      onChange={(event) => setEditAmount(event.target.value)}
+                    />
+                    <button
+                      type="button"
+                      className="primary"
+                      disabled={busy}
+                      onClick={() => handleSaveAmount(recurring.recurringExpenseId)}
+                    >
+                      Save
+                    </button>
+                    <button type="button" className="secondary" onClick={() => setEditingId(null)}>
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
+                    <button
+                      type="button"
+                      className="secondary"
+                      disabled={busy}
+                      onClick={() => {
+                        setEditingId(recurring.recurringExpenseId);
+                        setEditAmount(String(recurring.template.total));
+                      }}
+                    >
+                      Edit amount
+                    </button>
+                    <button
+                      type="button"
+                      className="secondary"
+                      disabled={busy}
+                      onClick={() =>
+                        void runAction(() =>
+                          onUpdate(recurring.recurringExpenseId, { paused: !recurring.paused })
+                        )
+                      }
+                    >
+                      {recurring.paused ? "Resume" : "Pause"}
+                    </button>
+                    {!recurring.paused && recurring.nextOccurrence && (
+                      <button
+                        type="button"
+                        className="secondary"
+                        disabled={busy}
+                        onClick={() =>
+                          void runAction(() =>
+                            onSkip(recurring.recurringExpenseId, recurring.nextOccurrence)
+                          )
+                        }
+                      >
+                        Skip {recurring.nextOccurrence}
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      className="secondary"
+                      disabled={busy}
+                      onClick={() => void runAction(() => onDelete(recurring.recurringExpenseId))}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} style={{ marginTop: "1rem" }}>
+        <div className="input-group">
+          <label htmlFor="recurring-description">Description</label>
+          <input
+            id="recurring-description"
+            value={description}
+            onChange={(event) => setDescription(event.target.value)}
+            placeholder="Rent"
+          />
+        </div>
+        <div className="input-group">
+          <label htmlFor="recurring-amount">Amount ({currency})</label>
+          <input
+            id="recurring-amount"
+            type="number"
+            inputMode="decimal"
+            min="0"
+            step="0.01"
+            value={amount}
+            onChange={(event) => setAmount(event.target.value)}
+          />
+        </div>
+        <div className="input-group">
+          <label htmlFor="recurring-paid-by">Paid by</label>
+          <select id="recurring-paid-by" value={paidBy} onChange={(event) => setPaidBy(event.target.value)}>
+            {members.map((member) => (
+              <option key={member.memberId} value={member.memberId}>
+                {member.displayName}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="input-group">
+          <label htmlFor="recurring-frequency">Repeats</label>
+          <select
+            id="recurring-frequency"
+            value={frequency}
+            onChange={(event) => setFrequency(event.target.value as RecurrenceFrequency)}
+          >
+            {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map((value) => (
+              <option key={value} value={value}>
+                {FREQUENCY_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div style={{ display: "flex", gap: "0.5rem" }}>
+          <div className="input-group" style={{ flex: 1 }}>
+            <label htmlFor="recurring-start">Starts</label>
+            <input
+              id="recurring-start"
+              type="date"
+              value={startDate}
+              onChange={(event) => setStartDate(event.target.value)}
+            />
+          </div>
+          <div className="input-group" style={{ flex: 1 }}>
+            <label htmlFor="recurring-end">Ends (optional)</label>
+            <input
+              id="recurring-end"
+              type="date"
+              value={endDate}
+              onChange={(event) => setEndDate(event.target.value)}
+            />
+          </div>
+        </div>
+        {error && <p style={{ color: "#f87171" }}>{error}</p>}
+        <button type="submit" className="primary" disabled={isCreating}>
+          {isCreating ? "Saving…" : "Add recurring expense"}
+        </button>
+      </form>
+    </section>
+  );
+};
+
+export default RecurringExpensesPanel;
@@ -15,5 +15,7 @@ export const appConfig = {
   userPoolClientId: required(
     import.meta.env.VITE_USER_POOL_CLIENT_ID as string | undefined,
     "VITE_USER_POOL_CLIENT_ID"
-  )
+  ),
+  // Optional: without it trip pages only refresh when refetched.
+  realtimeUrl: import.meta.env.VITE_REALTIME_URL as string | undefined
 };
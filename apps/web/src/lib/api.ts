@@ -1,9 +1,14 @@
 import { fetchAuthSession } from "@aws-amplify/auth";
 import { appConfig } from "../config";
-import type { PaymentMethods, UserProfile } from "../types";
+import type { ExpenseCategory, PaymentMethods, UserProfile } from "../types";
 
 class ApiError extends Error {
-  constructor(message: string, public readonly status: number) {
+  constructor(
+    message: string,
+    public readonly status: number,
+    /** The parsed error body, e.g. the server's copy on a 409 conflict. */
+    public readonly data?: unknown
+  ) {
     super(message);
     this.name = "ApiError";
   }
@@ -19,19 +24,22 @@ interface RequestOptions {
   headers?: Record<string, string>;
 }
 
-const request = async <T>(
-  method: string,
-  path: string,
-  options: RequestOptions = {}
-): Promise<T> => {
+const authorizationHeader = async (): Promise<string> => {
   const session = await fetchAuthSession();
   const token = session.tokens?.idToken ?? session.tokens?.accessToken;
   if (!token) {
     throw new ApiError("Unable to resolve auth token", 401);
   }
+  return `Bearer ${token.toString()}`;
+};
 
+const request = async <T>(
+  method: string,
+  path: string,
+  options: RequestOptions = {}
+): Promise<T> => {
   const headers: Record<string, string> = {
-    Authorization: `Bearer ${token.toString()}`,
+    Authorization: await authorizationHeader(),
     ...options.headers
   };
 
@@ -41,11 +49,17 @@ const request = async <T>(
     body = JSON.stringify(options.body);
   }
 
-  const response = await fetch(buildUrl(path), {
-    method,
-    headers,
-    body
-  });
+  let response: Response;
+  try {
+    response = await fetch(buildUrl(path), {
+      method,
+      headers,
+      body
+    });
+  } catch {
+    // fetch only rejects when no response arrived; status 0 marks it offline.
+    throw new ApiError("Network unavailable", 0);
+  }
 
   if (response.status === 204) {
     return undefined as T;
@@ -56,7 +70,7 @@ const request = async <T>(
 
   if (!response.ok) {
     const message = (data as { message?: string } | undefined)?.message;
-    throw new ApiError(message ?? response.statusText, response.status);
+    throw new ApiError(message ?? response.statusText, response.status, data);
   }
 
   return data;
@@ -72,6 +86,14 @@ export const api = {
 
 export { ApiError };
 
+/** Used by the offline outbox; the server answers a repeated key with the first response. */
+export const sendWithIdempotencyKey = <T>(
+  method: string,
+  path: string,
+  body: unknown,
+  idempotencyKey: string
+) => request<T>(method, path, { body, headers: { "Idempotency-Key": idempotencyKey } });
+
 export const searchUsers = (query: string) =>
   request<{ users: UserProfile[] }>(
     "GET",
@@ -84,3 +106,27 @@ export const getProfile = () =>
 export const updateProfile = (
   methods: Partial<Record<keyof PaymentMethods, string | null>>
 ) => request<{ profile: UserProfile }>("PATCH", "/profile", { body: methods });
+
+export const updateDefaultCategories = (categories: ExpenseCategory[] | null) =>
+  request<{ profile: UserProfile }>("PATCH", "/profile/categories", { body: { categories } });
+
+// Fetches a file response and hands it to the browser as a download.
+export const downloadFile = async (path: string, fallbackName: string) => {
+  const response = await fetch(buildUrl(path), {
+    headers: { Authorization: await authorizationHeader() }
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    const message = text ? (JSON.parse(text) as { message?: string }).message : undefined;
+    throw new ApiError(message ?? response.statusText, response.status);
+  }
+
+  const disposition = response.headers.get("Content-Disposition") ?? "";
+  const fileName = disposition.match(/filename="([^"]+)"/)?.[1] ?? fallbackName;
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
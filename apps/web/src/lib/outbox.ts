@@ -0,0 +1,209 @@
+import { ApiError, sendWithIdempotencyKey } from "./api";
+
+export interface OutboxEntry {
+  /** Doubles as the request's Idempotency-Key. */
+  id: string;
+  method: "POST";
+  path: string;
+  body: unknown;
+  /** Short description shown while the entry waits, e.g. "Expense: Dinner". */
+  label: string;
+  createdAt: string;
+  attempts: number;
+  /** Replays answered 409 because the first request still holds the key. */
+  conflicts?: number;
+  /** Set when the server rejected the request; the entry waits to be discarded. */
+  error?: string;
+}
+
+export type QueuedCreateResult<T> =
+  | { status: "sent"; data: T }
+  | { status: "queued"; entry: OutboxEntry };
+
+type Listener = (entries: OutboxEntry[]) => void;
+type SentListener = (entry: OutboxEntry) => void;
+
+const DB_NAME = "stack-core-outbox";
+const STORE_NAME = "mutations";
+const RETRY_INTERVAL_MS = 30_000;
+// The server frees a key held by a request that died after about a minute,
+// so a 409 that outlasts a few retries is not going to clear by itself.
+const MAX_CONFLICTS = 5;
+
+// Creates made without a connection are kept in IndexedDB and replayed in
+// order once the browser is back online. Each carries its own Idempotency-Key
+// so a request that reached the server before the connection dropped is not
+// created twice.
+const listeners = new Set<Listener>();
+const sentListeners = new Set<SentListener>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+let flushing: Promise<void> | null = null;
+let retryTimer: number | undefined;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const open = indexedDB.open(DB_NAME, 1);
+      open.onupgradeneeded = () => {
+        open.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+      };
+      open.onsuccess = () => resolve(open.result);
+      open.onerror = () => reject(open.error);
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const listOutbox = async (): Promise<OutboxEntry[]> => {
+  const entries = await withStore<OutboxEntry[]>("readonly", (store) => store.getAll());
+  return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+const notify = async () => {
+  const entries = await listOutbox();
+  listeners.forEach((listener) => listener(entries));
+};
+
+const saveEntry = (entry: OutboxEntry) =>
+  withStore("readwrite", (store) => store.put(entry));
+
+const deleteEntry = (id: string) => withStore("readwrite", (store) => store.delete(id));
+
+const isOffline = (error: unknown) => error instanceof ApiError && error.status === 0;
+
+// Signed out or a server fault: the request may succeed later, so it stays
+// queued rather than being marked failed.
+const isRetryable = (error: unknown) =>
+  error instanceof ApiError && (error.status === 401 || error.status >= 500);
+
+const isConflict = (error: unknown) => error instanceof ApiError && error.status === 409;
+
+const scheduleRetry = () => {
+  if (retryTimer !== undefined) return;
+  retryTimer = window.setTimeout(() => {
+    retryTimer = undefined;
+    void flushOutbox();
+  }, RETRY_INTERVAL_MS);
+};
+
+const flush = async () => {
+  for (const entry of await listOutbox()) {
+    if (entry.error) continue;
+    try {
+      await sendWithIdempotencyKey(entry.method, entry.path, entry.body, entry.id);
+      await deleteEntry(entry.id);
+      sentListeners.forEach((listener) => listener(entry));
+    } catch (error) {
+      if (isOffline(error)) {
+        await saveEntry({ ...entry, attempts: entry.attempts + 1 });
+        scheduleRetry();
+        break;
+      }
+      if (isRetryable(error)) {
+        await saveEntry({ ...entry, attempts: entry.attempts + 1 });
+        scheduleRetry();
+        continue;
+      }
+      // Still running server-side; retried a few times before being shown.
+      const conflicts = (entry.conflicts ?? 0) + 1;
+      if (isConflict(error) && conflicts < MAX_CONFLICTS) {
+        await saveEntry({ ...entry, attempts: entry.attempts + 1, conflicts });
+        scheduleRetry();
+        continue;
+      }
+      await saveEntry({
+        ...entry,
+        attempts: entry.attempts + 1,
+        error: error instanceof Error ? error.message : "Request failed"
+      });
+    }
+  }
+};
+
+/** Replays queued creates in the order they were made. */
+export const flushOutbox = (): Promise<void> => {
+  if (!flushing) {
+    flushing = flush()
+      .catch((error) => console.warn("Outbox sync failed", error))
+      .finally(() => {
+        flushing = null;
+        void notify();
+      });
+  }
+  return flushing;
+};
+
+/**
+ * Sends a create, or keeps it for later when there is no connection. Errors
+ * from the server are thrown as usual so forms can show them.
+ */
+export const createOrQueue = async <T>(
+  path: string,
+  body: unknown,
+  label: string
+): Promise<QueuedCreateResult<T>> => {
+  const entry: OutboxEntry = {
+    id: crypto.randomUUID(),
+    method: "POST",
+    path,
+    body,
+    label,
+    createdAt: new Date().toISOString(),
+    attempts: 0
+  };
+
+  if (navigator.onLine) {
+    try {
+      const data = await sendWithIdempotencyKey<T>(entry.method, path, body, entry.id);
+      return { status: "sent", data };
+    } catch (error) {
+      if (!isOffline(error)) {
+        throw error;
+      }
+    }
+  }
+
+  await saveEntry({ ...entry, attempts: navigator.onLine ? 1 : 0 });
+  await notify();
+  scheduleRetry();
+  return { status: "queued", entry };
+};
+
+export const discardOutboxEntry = async (id: string): Promise<void> => {
+  await deleteEntry(id);
+  await notify();
+};
+
+export const subscribeToOutbox = (
+  listener: Listener,
+  onSent?: SentListener
+): (() => void) => {
+  listeners.add(listener);
+  if (onSent) {
+    sentListeners.add(onSent);
+  }
+  void listOutbox().then(listener);
+  return () => {
+    listeners.delete(listener);
+    if (onSent) {
+      sentListeners.delete(onSent);
+    }
+  };
+};
+
+if (typeof window !== "undefined") {
+  window.addEventListener("online", () => void flushOutbox());
+  void flushOutbox();
+}
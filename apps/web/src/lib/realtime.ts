@@ -0,0 +1,95 @@
+import { fetchAuthSession } from "@aws-amplify/auth";
+import { appConfig } from "../config";
+import type { TripRealtimeEvent } from "../types";
+
+type Listener = (event: TripRealtimeEvent) => void;
+
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+// One socket is shared by every open trip view; each trip is subscribed while
+// it has at least one listener and re-subscribed after reconnects.
+const listeners = new Map<string, Set<Listener>>();
+let socket: WebSocket | null = null;
+let connecting = false;
+let reconnectDelay = 1000;
+let reconnectTimer: number | undefined;
+
+const send = (message: { action: "subscribe" | "unsubscribe"; tripId: string }) => {
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+const scheduleReconnect = () => {
+  if (!listeners.size || reconnectTimer !== undefined) return;
+  reconnectTimer = window.setTimeout(() => {
+    reconnectTimer = undefined;
+    void connect();
+  }, reconnectDelay);
+  reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+};
+
+const connect = async () => {
+  if (!appConfig.realtimeUrl || socket || connecting || !listeners.size) return;
+  connecting = true;
+  try {
+    // Fetched per connection so reconnects pick up refreshed tokens.
+    const session = await fetchAuthSession();
+    const token = session.tokens?.idToken ?? session.tokens?.accessToken;
+    if (!token) return;
+
+    const ws = new WebSocket(
+      `${appConfig.realtimeUrl}?token=${encodeURIComponent(token.toString())}`
+    );
+    socket = ws;
+    ws.onopen = () => {
+      reconnectDelay = 1000;
+      listeners.forEach((_, tripId) => send({ action: "subscribe", tripId }));
+    };
+    ws.onmessage = (message) => {
+      let event: TripRealtimeEvent;
+      try {
+        event = JSON.parse(String(message.data)) as TripRealtimeEvent;
+      } catch {
+        return;
+      }
+      listeners.get(event.tripId)?.forEach((listener) => listener(event));
+    };
+    ws.onclose = () => {
+      if (socket === ws) {
+        socket = null;
+      }
+      scheduleReconnect();
+    };
+  } catch (error) {
+    console.warn("Realtime connection failed", error);
+    scheduleReconnect();
+  } finally {
+    connecting = false;
+  }
+};
+
+export const subscribeToTrip = (tripId: string, listener: Listener): (() => void) => {
+  const tripListeners = listeners.get(tripId) ?? new Set<Listener>();
+  const isNewTrip = !tripListeners.size;
+  tripListeners.add(listener);
+  listeners.set(tripId, tripListeners);
+
+  if (isNewTrip) {
+    send({ action: "subscribe", tripId });
+  }
+  void connect();
+
+  return () => {
+    tripListeners.delete(listener);
+    if (tripListeners.size) return;
+    listeners.delete(tripId);
+    send({ action: "unsubscribe", tripId });
+    if (!listeners.size) {
+      window.clearTimeout(reconnectTimer);
+      reconnectTimer = undefined;
+      socket?.close();
+      socket = null;
+    }
+  };
+};
@@ -2,8 +2,9 @@ import { FormEvent, useEffect, useMemo, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuthenticator } from "@aws-amplify/ui-react";
 import { Link } from "react-router-dom";
-import { ApiError, getProfile, updateProfile } from "../lib/api";
-import type { PaymentMethods, UserProfile } from "../types";
+import { ApiError, getProfile, updateDefaultCategories, updateProfile } from "../lib/api";
+import CategoryCatalogPanel from "../components/CategoryCatalogPanel";
+import type { ExpenseCategory, PaymentMethods, UserProfile } from "../types";
 
 const emptyMethods: PaymentMethods = {
   venmo: "",
@@ -47,6 +48,14 @@ const ProfilePage = () => {
     }
   });
 
+  const categoriesMutation = useMutation({
+    mutationFn: (categories: ExpenseCategory[] | null) =>
+      updateDefaultCategories(categories).then((response) => response.profile),
+    onSuccess: (updated: UserProfile) => {
+      queryClient.setQueryData(["profile"], updated);
+    }
+  });
+
   const handleSubmit = (event: FormEvent) => {
     event.preventDefault();
     setMessage(null);
@@ -184,6 +193,18 @@ const ProfilePage = () => {
           </div>
         </form>
       </section>
+
+      {profile && (
+        <CategoryCatalogPanel
+          title="Default Categories"
+          description="New groups you create start with these categories."
+          categories={profile.defaultCategories ?? []}
+          canEdit
+          onSave={(categories) => categoriesMutation.mutateAsync(categories)}
+          onReset={() => categoriesMutation.mutateAsync(null)}
+          isSaving={categoriesMutation.isPending}
+        />
+      )}
     </div>
   );
 };
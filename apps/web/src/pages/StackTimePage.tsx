@@ -1,6 +1,7 @@
 import { FormEvent, useMemo, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { api, ApiError } from "../lib/api";
+import { createOrQueue } from "../lib/outbox";
 import UserSelect from "../components/UserSelect";
 import { useStackTimeAccess } from "../modules/useStackTimeAccess";
 import type {
@@ -117,7 +118,7 @@ const StackTimePage = () => {
   // Mutations
   const createEntryMutation = useMutation({
     mutationFn: (payload: unknown) =>
-      api.post<StackTimeEntry>("/stack-time/entries", payload),
+      createOrQueue<StackTimeEntry>("/stack-time/entries", payload, "Time entry"),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["stack-time"] });
       setEntryForm({ ...defaultEntryForm, date: getDefaultDate() });
@@ -1,10 +1,22 @@
 import { FormEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useNavigate, useParams } from "react-router-dom";
 import { useAuthenticator } from "@aws-amplify/ui-react";
 import AddExpenseForm, { type CreateExpenseInput } from "../components/AddExpenseForm";
 import SettlementForm from "../components/SettlementForm";
-import { api, ApiError, searchUsers as searchUsersRequest } from "../lib/api";
+import PaymentRequestsPanel from "../components/PaymentRequestsPanel";
+import RecurringExpensesPanel, {
+  type CreateRecurringExpenseInput,
+  type UpdateRecurringExpenseInput
+} from "../components/RecurringExpensesPanel";
+import ImportExpensesPanel, { type ImportExpensesInput } from "../components/ImportExpensesPanel";
+import CategoryCatalogPanel, {
+  CategoryChip,
+  type SaveCategoryRuleInput
+} from "../components/CategoryCatalogPanel";
+import { api, ApiError, downloadFile, searchUsers as searchUsersRequest } from "../lib/api";
+import { subscribeToTrip } from "../lib/realtime";
+import { createOrQueue } from "../lib/outbox";
 import type {
   TripSummary,
   Expense,
@@ -12,15 +24,38 @@ import type {
   UserProfile,
   BalanceRow,
   Trip,
-  PaymentMethods
+  TripStatus,
+  TripRole,
+  TripMember,
+  PaymentMethods,
+  SettleUpPlan,
+  CurrencySubtotal,
+  RecurringExpense,
+  TripActivity,
+  TripActivityPage,
+  TripAnalytics,
+  SpendBreakdown,
+  BudgetLine,
+  BudgetStatus,
+  TripBudget,
+  CategoryRule,
+  ExpenseCategory,
+  ImportResult,
+  Receipt
 } from "../types";
 
-type TripTab = "overview" | "expenses" | "settlements" | "people";
+type TripTab = "overview" | "expenses" | "settlements" | "insights" | "people" | "activity";
 
 type TripDetailsFormState = {
   name: string;
   startDate: string;
   endDate: string;
+  locale: string;
+  budgetTotal: string;
+  /** Percentage, e.g. "80". */
+  budgetThreshold: string;
+  /** One "Category: amount" per line. */
+  budgetCategories: string;
 };
 
 type DetailsMessage = {
@@ -32,7 +67,90 @@ type TripUpdateInput = {
   name?: string;
   startDate?: string | null;
   endDate?: string | null;
+  locale?: string | null;
+  budget?: TripBudget | null;
+  version?: number;
 };
+
+// A 409 carries the server's current copy of whatever was being edited.
+const conflictCopy = <T,>(err: unknown): T | undefined =>
+  err instanceof ApiError && err.status === 409
+    ? ((err.data as { current?: T } | undefined)?.current ?? undefined)
+    : undefined;
+
+const toDetailsForm = (trip: Trip): TripDetailsFormState => ({
+  name: trip.name ?? "",
+  startDate: trip.startDate ?? "",
+  endDate: trip.endDate ?? "",
+  locale: trip.locale ?? "",
+  budgetTotal: trip.budget?.total !== undefined ? String(trip.budget.total) : "",
+  budgetThreshold:
+    trip.budget?.alertThreshold !== undefined
+      ? String(Math.round(trip.budget.alertThreshold * 100))
+      : "",
+  budgetCategories: Object.entries(trip.budget?.categories ?? {})
+    .map(([category, amount]) => `${category}: ${amount}`)
+    .join("\n")
+});
+
+// Returns null when every budget field is blank, which clears the budget.
+const parseBudgetForm = (form: TripDetailsFormState): TripBudget | null => {
+  const budget: TripBudget = {};
+  if (form.budgetTotal.trim()) {
+    const total = Number(form.budgetTotal);
+    if (!Number.isFinite(total) || total <= 0) {
+      throw new Error("Total budget must be a positive number");
+    }
+    budget.total = total;
+  }
+  const categories: Record<string, number> = {};
+  for (const line of form.budgetCategories.split("\n")) {
+    if (!line.trim()) continue;
+    const separator = line.lastIndexOf(":");
+    const category = separator > 0 ? line.slice(0, separator).trim() : "";
+    const amount = Number(line.slice(separator + 1));
+    if (!category || !Number.isFinite(amount) || amount <= 0) {
+      throw new Error(`Category budgets must look like "Food: 200" (got "${line.trim()}")`);
+    }
+    categories[category] = amount;
+  }
+  if (Object.keys(categories).length) {
+    budget.categories = categories;
+  }
+  if (budget.total === undefined && !budget.categories) {
+    return null;
+  }
+  if (form.budgetThreshold.trim()) {
+    const percent = Number(form.budgetThreshold);
+    if (!Number.isFinite(percent) || percent <= 0 || percent > 100) {
+      throw new Error("Alert threshold must be between 1 and 100%");
+    }
+    budget.alertThreshold = percent / 100;
+  }
+  return budget;
+};
+
+const TRIP_STATUS_LABELS: Record<TripStatus, string> = {
+  active: "Active",
+  settling: "Settling up",
+  closed: "Closed",
+  archived: "Archived"
+};
+
+const TRIP_ROLE_LABELS: Record<TripRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  contributor: "Contributor",
+  viewer: "Viewer"
+};
+
+// The owner's next step for each stage; archived trips can only be reopened.
+const TRIP_CLOSE_ACTIONS: Partial<Record<TripStatus, string>> = {
+  active: "Start settling up",
+  settling: "Close group",
+  closed: "Archive"
+};
+
 type PaymentMethodsInput = {
   venmo?: string | null;
   paypal?: string | null;
@@ -133,10 +251,17 @@ const TripDetailPage = () => {
   const [detailsForm, setDetailsForm] = useState<TripDetailsFormState>({
     name: "",
     startDate: "",
-    endDate: ""
+    endDate: "",
+    locale: "",
+    budgetTotal: "",
+    budgetThreshold: "",
+    budgetCategories: ""
   });
+  const [budgetAlert, setBudgetAlert] = useState<string | null>(null);
   const [detailsMessage, setDetailsMessage] = useState<DetailsMessage | null>(null);
   const [paymentMethodsMessage, setPaymentMethodsMessage] = useState<string | null>(null);
+  const [exportingFormat, setExportingFormat] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
 
   const queryKey = useMemo(() => ["trip", tripId], [tripId]);
 
@@ -146,19 +271,93 @@ const TripDetailPage = () => {
     enabled: Boolean(tripId)
   });
 
+  const settleUpQuery = useQuery({
+    queryKey: ["trip", tripId, "settle-up"],
+    queryFn: () => api.get<SettleUpPlan>(`/trips/${tripId}/settle-up`),
+    enabled: Boolean(tripId)
+  });
+
+  const recurringQueryKey = useMemo(() => ["trip", tripId, "recurring"], [tripId]);
+
+  const recurringQuery = useQuery({
+    queryKey: recurringQueryKey,
+    queryFn: () =>
+      api.get<{ recurringExpenses: RecurringExpense[] }>(
+        `/trips/${tripId}/recurring-expenses`
+      ),
+    enabled: Boolean(tripId) && activeTab === "expenses"
+  });
+
+  const analyticsQuery = useQuery({
+    queryKey: ["trip", tripId, "analytics"],
+    queryFn: () => api.get<TripAnalytics>(`/trips/${tripId}/analytics`),
+    enabled: Boolean(tripId) && activeTab === "insights"
+  });
+
+  const activityQuery = useInfiniteQuery({
+    queryKey: ["trip", tripId, "activity"],
+    queryFn: ({ pageParam }) =>
+      api.get<TripActivityPage>(
+        `/trips/${tripId}/activity${pageParam ? `?cursor=${encodeURIComponent(pageParam)}` : ""}`
+      ),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: Boolean(tripId) && activeTab === "activity"
+  });
+
+  // Pushed changes only say what happened; everything under ["trip", tripId]
+  // is refetched, and bursts such as imports collapse into a single refetch.
+  useEffect(() => {
+    if (!tripId) return;
+    let refetchTimer: number | undefined;
+    const unsubscribe = subscribeToTrip(tripId, (event) => {
+      if (event.type === "BUDGET_ALERT") {
+        setBudgetAlert(
+          event.entityId
+            ? `Spending on ${event.entityId} is close to or over its budget.`
+            : "Total spending is close to or over the group budget."
+        );
+      }
+      window.clearTimeout(refetchTimer);
+      refetchTimer = window.setTimeout(() => {
+        queryClient.invalidateQueries({ queryKey: ["trip", tripId] });
+        queryClient.invalidateQueries({ queryKey: ["trips"] });
+      }, 300);
+    });
+    return () => {
+      window.clearTimeout(refetchTimer);
+      unsubscribe();
+    };
+  }, [tripId, queryClient]);
+
   const syncDetailsFormFromTrip = useCallback(() => {
     if (!data?.trip) return;
-    setDetailsForm({
-      name: data.trip.name ?? "",
-      startDate: data.trip.startDate ?? "",
-      endDate: data.trip.endDate ?? ""
-    });
-  }, [data?.trip?.name, data?.trip?.startDate, data?.trip?.endDate]);
+    setDetailsForm(toDetailsForm(data.trip));
+  }, [
+    data?.trip?.name,
+    data?.trip?.startDate,
+    data?.trip?.endDate,
+    data?.trip?.locale,
+    data?.trip?.budget
+  ]);
 
   useEffect(() => {
     syncDetailsFormFromTrip();
   }, [syncDetailsFormFromTrip]);
 
+  const handleExport = async (format: "csv" | "json" | "pdf") => {
+    if (!tripId) return;
+    setExportError(null);
+    setExportingFormat(format);
+    try {
+      await downloadFile(`/trips/${tripId}/export?format=${format}`, `${tripId}.${format}`);
+    } catch (err) {
+      setExportError(err instanceof ApiError ? err.message : "Export failed");
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
   const handleTabChange = useCallback(
     (tab: TripTab) => {
       setActiveTab(tab);
@@ -169,9 +368,14 @@ const TripDetailPage = () => {
     [queryClient, queryKey, tripId]
   );
 
+  // Creates go through the outbox so they are kept and retried when offline.
   const createExpenseMutation = useMutation({
     mutationFn: (payload: CreateExpenseInput) =>
-      api.post<Expense>(`/trips/${tripId}/expenses`, payload),
+      createOrQueue<Expense>(
+        `/trips/${tripId}/expenses`,
+        payload,
+        `Expense: ${payload.description}`
+      ),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey });
     }
@@ -188,14 +392,18 @@ const TripDetailPage = () => {
       queryClient.invalidateQueries({ queryKey });
       setDetailsMessage({ type: "success", text: "Group details updated" });
       setIsEditingDetails(false);
-      setDetailsForm({
-        name: updatedTrip.name,
-        startDate: updatedTrip.startDate ?? "",
-        endDate: updatedTrip.endDate ?? ""
-      });
+      setDetailsForm(toDetailsForm(updatedTrip));
     },
     onError: (err: unknown) => {
-      if (err instanceof ApiError) {
+      const current = conflictCopy<Trip>(err);
+      if (current) {
+        queryClient.invalidateQueries({ queryKey });
+        setDetailsForm(toDetailsForm(current));
+        setDetailsMessage({
+          type: "error",
+          text: "Someone else changed these details. The form now shows their version; review it and save again."
+        });
+      } else if (err instanceof ApiError) {
         setDetailsMessage({ type: "error", text: err.message });
       } else {
         setDetailsMessage({
@@ -206,25 +414,167 @@ const TripDetailPage = () => {
     }
   });
 
+  const tripStatusMutation = useMutation({
+    mutationFn: (action: "close" | "reopen") => {
+      if (!tripId) {
+        throw new Error("Trip not found");
+      }
+      return api.post<Trip>(`/trips/${tripId}/${action}`);
+    },
+    onSuccess: (updatedTrip) => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["trips"] });
+      setDetailsMessage({
+        type: "success",
+        text: `Group is now ${TRIP_STATUS_LABELS[updatedTrip.status].toLowerCase()}`
+      });
+    },
+    onError: (err: unknown) => {
+      setDetailsMessage({
+        type: "error",
+        text: err instanceof ApiError ? err.message : "Failed to change group status"
+      });
+    }
+  });
+
+  // Edits send the version the page last loaded; a 409 means someone else got
+  // there first, so the page reloads to show their change.
+  const expenseVersion = (expenseId: string) =>
+    data?.expenses.find((expense) => expense.expenseId === expenseId)?.version;
+  const settlementVersion = (settlementId: string) =>
+    data?.settlements.find((settlement) => settlement.settlementId === settlementId)?.version;
+  const refetchOnConflict = (err: unknown) => {
+    if (err instanceof ApiError && err.status === 409) {
+      queryClient.invalidateQueries({ queryKey });
+    }
+  };
+
   const deleteExpenseMutation = useMutation<void, unknown, string>({
     mutationFn: (expenseId: string) => {
       if (!tripId) {
         throw new Error("Trip not found");
       }
-      return api.delete<void>(`/trips/${tripId}/expenses/${expenseId}`);
+      const version = expenseVersion(expenseId);
+      return api.delete<void>(
+        `/trips/${tripId}/expenses/${expenseId}${version !== undefined ? `?version=${version}` : ""}`
+      );
     },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: refetchOnConflict
+  });
+
+  const confirmDraftExpenseMutation = useMutation<void, unknown, string>({
+    mutationFn: (expenseId: string) =>
+      api.patch<void>(`/trips/${tripId}/expenses/${expenseId}`, {
+        draft: false,
+        version: expenseVersion(expenseId)
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: refetchOnConflict
+  });
+
+  const updateExpenseCategoryMutation = useMutation({
+    mutationFn: (payload: { expenseId: string; category: string | null }) =>
+      api.patch<void>(`/trips/${tripId}/expenses/${payload.expenseId}`, {
+        category: payload.category,
+        version: expenseVersion(payload.expenseId)
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: refetchOnConflict
+  });
+
+  const updateCategoriesMutation = useMutation({
+    mutationFn: (categories: ExpenseCategory[] | null) =>
+      api.patch<Trip>(`/trips/${tripId}`, { categories }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey });
     }
   });
 
+  const saveCategoryRuleMutation = useMutation({
+    mutationFn: (payload: SaveCategoryRuleInput) =>
+      api.post<CategoryRule>(`/trips/${tripId}/category-rules`, payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    }
+  });
+
+  const deleteCategoryRuleMutation = useMutation({
+    mutationFn: (vendor: string) =>
+      api.delete<void>(`/trips/${tripId}/category-rules/${encodeURIComponent(vendor)}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    }
+  });
+
+  const createReceiptExpensesMutation = useMutation<Expense[], unknown, string>({
+    mutationFn: (receiptId: string) =>
+      api.post<Expense[]>(`/trips/${tripId}/receipts/${receiptId}/expenses`, {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    }
+  });
+
+  const reprocessReceiptMutation = useMutation<Receipt, unknown, string>({
+    mutationFn: (receiptId: string) =>
+      api.post<Receipt>(`/trips/${tripId}/receipts/${receiptId}/reprocess`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    }
+  });
+
+  const createRecurringMutation = useMutation({
+    mutationFn: (payload: CreateRecurringExpenseInput) =>
+      api.post<RecurringExpense>(`/trips/${tripId}/recurring-expenses`, payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: recurringQueryKey });
+    }
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (payload: ImportExpensesInput) =>
+      api.post<ImportResult>(`/trips/${tripId}/imports`, payload),
+    onSuccess: (result) => {
+      if (!result.dryRun) {
+        queryClient.invalidateQueries({ queryKey });
+      }
+    }
+  });
+
+  const updateRecurringMutation = useMutation({
+    mutationFn: (payload: {
+      recurringExpenseId: string;
+      action: "update" | "skip" | "delete";
+      updates?: UpdateRecurringExpenseInput;
+      date?: string;
+    }): Promise<RecurringExpense | void> => {
+      const path = `/trips/${tripId}/recurring-expenses/${payload.recurringExpenseId}`;
+      if (payload.action === "delete") {
+        return api.delete<void>(path);
+      }
+      if (payload.action === "skip") {
+        return api.post<RecurringExpense>(`${path}/skip`, { date: payload.date });
+      }
+      return api.patch<RecurringExpense>(path, payload.updates ?? {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: recurringQueryKey });
+    }
+  });
+
   const settlementMutation = useMutation({
     mutationFn: (payload: {
       fromMemberId: string;
       toMemberId: string;
       amount: number;
       note?: string;
-    }) => api.post<Settlement>(`/trips/${tripId}/settlements`, payload),
+    }) => createOrQueue<Settlement>(`/trips/${tripId}/settlements`, payload, "Settlement"),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey });
     }
@@ -235,29 +585,33 @@ const TripDetailPage = () => {
       if (!tripId) {
         throw new Error("Trip not found");
       }
+      const version = settlementVersion(settlementId);
       return api.delete<void>(
-        `/trips/${tripId}/settlements/${settlementId}`
+        `/trips/${tripId}/settlements/${settlementId}${version !== undefined ? `?version=${version}` : ""}`
       );
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey });
-    }
+    },
+    onError: refetchOnConflict
   });
 
   const confirmSettlementMutation = useMutation({
     mutationFn: (payload: { settlementId: string; confirmed: boolean }) =>
       api.patch<void>(
         `/trips/${tripId}/settlements/${payload.settlementId}`,
-        { confirmed: payload.confirmed }
+        { confirmed: payload.confirmed, version: settlementVersion(payload.settlementId) }
       ),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey });
-    }
+    },
+    onError: refetchOnConflict
   });
 
   const addMemberMutation = useMutation({
-    mutationFn: (payload: { members: { userId: string }[] }) =>
-      api.post(`/trips/${tripId}/members`, payload),
+    mutationFn: (payload: {
+      members: Array<{ userId: string } | { email: string; displayName?: string }>;
+    }) => api.post(`/trips/${tripId}/members`, payload),
     onMutate: () => {
       setMemberFeedback(null);
     },
@@ -297,6 +651,47 @@ const TripDetailPage = () => {
     }
   });
 
+  const updateMemberRoleMutation = useMutation({
+    mutationFn: ({ memberId, role }: { memberId: string; role: TripRole }) => {
+      if (!tripId) {
+        throw new Error("Trip not found");
+      }
+      return api.patch<TripMember>(`/trips/${tripId}/members/${memberId}`, { role });
+    },
+    onMutate: () => {
+      setMemberFeedback(null);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setMemberFeedback("Role updated");
+    },
+    onError: (err: unknown) => {
+      setMemberFeedback(err instanceof ApiError ? err.message : "Failed to update role");
+    }
+  });
+
+  const transferOwnershipMutation = useMutation({
+    mutationFn: (memberId: string) => {
+      if (!tripId) {
+        throw new Error("Trip not found");
+      }
+      return api.post<Trip>(`/trips/${tripId}/transfer-ownership`, { memberId });
+    },
+    onMutate: () => {
+      setMemberFeedback(null);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["trips"] });
+      setMemberFeedback("Ownership transferred");
+    },
+    onError: (err: unknown) => {
+      setMemberFeedback(
+        err instanceof ApiError ? err.message : "Failed to transfer ownership"
+      );
+    }
+  });
+
   const savePaymentMethodsMutation = useMutation({
     mutationFn: (payload: PaymentMethodsInput) => {
       if (!tripId) {
@@ -384,8 +779,13 @@ const TripDetailPage = () => {
   }, [data?.members, data?.currentUserId, loggedInUserId]);
 
   const settlementSuggestions = useMemo(
-    () => computeSettlementSuggestions(data?.balances ?? []),
-    [data?.balances]
+    () =>
+      (settleUpQuery.data?.transfers ?? []).map((transfer) => ({
+        from: transfer.fromMemberId,
+        to: transfer.toMemberId,
+        amount: transfer.amount
+      })),
+    [settleUpQuery.data?.transfers]
   );
 
   const settlementAmountFormatter = useMemo(
@@ -426,10 +826,24 @@ const TripDetailPage = () => {
       return;
     }
 
+    let budget: TripBudget | null;
+    try {
+      budget = parseBudgetForm(detailsForm);
+    } catch (err) {
+      setDetailsMessage({
+        type: "error",
+        text: err instanceof Error ? err.message : "Invalid budget"
+      });
+      return;
+    }
+
     updateTripMutation.mutate({
       name: detailsForm.name.trim(),
       startDate: detailsForm.startDate ? detailsForm.startDate : null,
-      endDate: detailsForm.endDate ? detailsForm.endDate : null
+      endDate: detailsForm.endDate ? detailsForm.endDate : null,
+      locale: detailsForm.locale.trim() ? detailsForm.locale.trim() : null,
+      budget,
+      version: data?.trip.version
     });
   };
 
@@ -447,7 +861,10 @@ const TripDetailPage = () => {
 
   const { trip, members, expenses, receipts, balances, settlements, pendingSettlements } = data;
   const effectiveCurrentUserId = loggedInUserId ?? data.currentUserId;
-  const canManageMembers = trip.ownerId === effectiveCurrentUserId;
+  const currentRole =
+    members.find((member) => member.memberId === effectiveCurrentUserId)?.role ?? "viewer";
+  const isOwner = trip.ownerId === effectiveCurrentUserId;
+  const canManageMembers = currentRole === "owner" || currentRole === "admin";
 
   return (
     <div className="trip-detail">
@@ -461,18 +878,45 @@ const TripDetailPage = () => {
           }}
         >
           <div>
-            <h2 style={{ margin: 0 }}>{trip.name}</h2>
+            <h2 style={{ margin: 0 }}>
+              {trip.name}
+              {trip.status !== "active" && (
+                <span className="pill" style={{ marginLeft: "0.75rem", fontSize: "0.8rem" }}>
+                  {TRIP_STATUS_LABELS[trip.status]}
+                </span>
+              )}
+            </h2>
             <p className="muted" style={{ margin: "0.5rem 0 0" }}>
               {trip.startDate ? trip.startDate : "Flexible start"}
               {trip.endDate ? ` → ${trip.endDate}` : ""}
             </p>
           </div>
           <div style={{ display: "flex", gap: "0.5rem" }}>
-            {canManageMembers && !isEditingDetails && (
+            {canManageMembers && !isEditingDetails && trip.status === "active" && (
               <button type="button" className="secondary" onClick={handleStartEditingDetails}>
                 Edit details
               </button>
             )}
+            {isOwner && TRIP_CLOSE_ACTIONS[trip.status] && (
+              <button
+                type="button"
+                className="secondary"
+                disabled={tripStatusMutation.isPending}
+                onClick={() => tripStatusMutation.mutate("close")}
+              >
+                {TRIP_CLOSE_ACTIONS[trip.status]}
+              </button>
+            )}
+            {isOwner && trip.status !== "active" && (
+              <button
+                type="button"
+                className="secondary"
+                disabled={tripStatusMutation.isPending}
+                onClick={() => tripStatusMutation.mutate("reopen")}
+              >
+                Reopen
+              </button>
+            )}
             <button
               type="button"
               className="secondary"
@@ -521,6 +965,57 @@ const TripDetailPage = () => {
                 />
               </div>
             </div>
+            <div className="input-group">
+              <label htmlFor="group-locale">Receipt locale (optional)</label>
+              <input
+                id="group-locale"
+                value={detailsForm.locale}
+                onChange={(event) =>
+                  setDetailsForm((prev) => ({ ...prev, locale: event.target.value }))
+                }
+                placeholder={`e.g. de-DE; defaults from ${trip.currency}`}
+                disabled={updateTripMutation.isPending}
+              />
+              <span className="muted" style={{ fontSize: "0.8rem" }}>
+                How dates like 03/04/24 and amounts like 1.234,56 are read from receipts.
+              </span>
+            </div>
+            <div className="input-group">
+              <label>Budget in {trip.currency} (optional)</label>
+              <div className="input-row">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={detailsForm.budgetTotal}
+                  onChange={(event) =>
+                    setDetailsForm((prev) => ({ ...prev, budgetTotal: event.target.value }))
+                  }
+                  placeholder="Total"
+                  disabled={updateTripMutation.isPending}
+                />
+                <input
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={detailsForm.budgetThreshold}
+                  onChange={(event) =>
+                    setDetailsForm((prev) => ({ ...prev, budgetThreshold: event.target.value }))
+                  }
+                  placeholder="Alert at % (default 80)"
+                  disabled={updateTripMutation.isPending}
+                />
+              </div>
+              <textarea
+                rows={3}
+                value={detailsForm.budgetCategories}
+                onChange={(event) =>
+                  setDetailsForm((prev) => ({ ...prev, budgetCategories: event.target.value }))
+                }
+                placeholder={"Per category, one per line\nFood: 300\nLodging: 800"}
+                disabled={updateTripMutation.isPending}
+              />
+            </div>
             <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
               <button type="submit" className="primary" disabled={updateTripMutation.isPending}>
                 {updateTripMutation.isPending ? "Saving…" : "Save changes"}
@@ -546,6 +1041,23 @@ const TripDetailPage = () => {
             {detailsMessage.text}
           </p>
         )}
+        {budgetAlert && (
+          <div
+            style={{
+              marginTop: "1rem",
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+              gap: "1rem",
+              color: "#fbbf24"
+            }}
+          >
+            <span>{budgetAlert}</span>
+            <button type="button" className="secondary" onClick={() => setBudgetAlert(null)}>
+              Dismiss
+            </button>
+          </div>
+        )}
         <div
           className="list"
           style={{ marginTop: "1rem", flexDirection: "row", gap: "0.5rem", flexWrap: "wrap" }}
@@ -554,7 +1066,9 @@ const TripDetailPage = () => {
             { id: "overview", label: "Overview" },
             { id: "expenses", label: "Expenses" },
             { id: "settlements", label: "Settlements" },
-            { id: "people", label: "People" }
+            { id: "insights", label: "Insights" },
+            { id: "people", label: "People" },
+            { id: "activity", label: "Activity" }
           ].map((tab) => (
             <button
               key={tab.id}
@@ -570,7 +1084,22 @@ const TripDetailPage = () => {
               Refreshing…
             </span>
           )}
+          <span style={{ marginLeft: "auto", display: "flex", gap: "0.35rem", alignItems: "center" }}>
+            <span className="muted">Export</span>
+            {(["csv", "json", "pdf"] as const).map((format) => (
+              <button
+                key={format}
+                type="button"
+                className="secondary"
+                disabled={exportingFormat !== null}
+                onClick={() => void handleExport(format)}
+              >
+                {exportingFormat === format ? "…" : format.toUpperCase()}
+              </button>
+            ))}
+          </span>
         </div>
+        {exportError && <p style={{ margin: "0.5rem 0 0", color: "#f87171" }}>{exportError}</p>}
       </section>
 
       {activeTab === "overview" && (
@@ -580,6 +1109,9 @@ const TripDetailPage = () => {
           settlementSuggestions={settlementSuggestions}
           currency={trip.currency}
           expenses={expenses}
+          currencySubtotals={data.currencySubtotals ?? []}
+          budget={data.budget}
+          categoryCatalog={data.categories ?? []}
         />
       )}
 
@@ -590,6 +1122,13 @@ const TripDetailPage = () => {
           members={members}
           expenses={expenses}
           currency={trip.currency}
+          tripStatus={trip.status}
+          canContribute={currentRole !== "viewer"}
+          canManageExpenses={canManageMembers}
+          categoryCatalog={data.categories ?? []}
+          onChangeCategory={(expenseId, category) =>
+            updateExpenseCategoryMutation.mutateAsync({ expenseId, category })
+          }
           onCreateExpense={(input) =>
             createExpenseMutation.mutateAsync(input)
           }
@@ -600,16 +1139,92 @@ const TripDetailPage = () => {
           }
           deletePending={deleteExpenseMutation.isPending}
           deletingExpenseId={deleteExpenseMutation.variables}
+          onReprocessReceipt={(receiptId) =>
+            reprocessReceiptMutation.mutateAsync(receiptId)
+          }
+          reprocessingReceiptId={
+            reprocessReceiptMutation.isPending
+              ? reprocessReceiptMutation.variables
+              : undefined
+          }
+          onConfirmDraft={(expenseId) =>
+            confirmDraftExpenseMutation.mutateAsync(expenseId)
+          }
+          confirmingExpenseId={
+            confirmDraftExpenseMutation.isPending
+              ? confirmDraftExpenseMutation.variables
+              : undefined
+          }
+          onCreateReceiptExpenses={(receiptId) =>
+            createReceiptExpensesMutation.mutateAsync(receiptId)
+          }
+          creatingReceiptExpensesId={
+            createReceiptExpensesMutation.isPending
+              ? createReceiptExpensesMutation.variables
+              : undefined
+          }
           currentUserId={effectiveCurrentUserId}
         />
       )}
 
+      {activeTab === "expenses" && (
+        <RecurringExpensesPanel
+          members={members}
+          currency={trip.currency}
+          recurringExpenses={recurringQuery.data?.recurringExpenses ?? []}
+          isLoading={recurringQuery.isLoading}
+          currentUserId={effectiveCurrentUserId}
+          onCreate={(input) => createRecurringMutation.mutateAsync(input)}
+          isCreating={createRecurringMutation.isPending}
+          onUpdate={(recurringExpenseId, updates) =>
+            updateRecurringMutation.mutateAsync({ recurringExpenseId, action: "update", updates })
+          }
+          onSkip={(recurringExpenseId, date) =>
+            updateRecurringMutation.mutateAsync({ recurringExpenseId, action: "skip", date })
+          }
+          onDelete={(recurringExpenseId) =>
+            updateRecurringMutation.mutateAsync({ recurringExpenseId, action: "delete" })
+          }
+          pendingId={
+            updateRecurringMutation.isPending
+              ? updateRecurringMutation.variables?.recurringExpenseId
+              : undefined
+          }
+        />
+      )}
+
+      {activeTab === "expenses" && (
+        <ImportExpensesPanel
+          members={members}
+          currentUserId={effectiveCurrentUserId}
+          onImport={(input) => importMutation.mutateAsync(input)}
+          isImporting={importMutation.isPending}
+        />
+      )}
+
+      {activeTab === "expenses" && (
+        <CategoryCatalogPanel
+          title="Categories"
+          description="Used for filters, budgets and insights in this group."
+          categories={data.categories ?? []}
+          canEdit={canManageMembers && trip.status === "active"}
+          onSave={(categories) => updateCategoriesMutation.mutateAsync(categories)}
+          onReset={() => updateCategoriesMutation.mutateAsync(null)}
+          isSaving={updateCategoriesMutation.isPending}
+          rules={data.categoryRules ?? []}
+          canEditRules={currentRole !== "viewer" && trip.status === "active"}
+          onSaveRule={(input) => saveCategoryRuleMutation.mutateAsync(input)}
+          onDeleteRule={(vendor) => deleteCategoryRuleMutation.mutateAsync(vendor)}
+        />
+      )}
+
       {activeTab === "settlements" && (
         <SettlementsTab
           currency={trip.currency}
           members={members}
           settlements={settlements}
           pendingSettlements={pendingSettlements}
+          paymentRequests={data.paymentRequests ?? []}
           balances={balances}
           settlementSuggestions={settlementSuggestions}
           onRecord={(input) => settlementMutation.mutateAsync(input)}
@@ -629,6 +1244,21 @@ const TripDetailPage = () => {
         />
       )}
 
+      {activeTab === "activity" && (
+        <ActivityTab
+          items={activityQuery.data?.pages.flatMap((page) => page.items) ?? []}
+          membersById={membersById}
+          isLoading={activityQuery.isLoading}
+          hasMore={Boolean(activityQuery.hasNextPage)}
+          isLoadingMore={activityQuery.isFetchingNextPage}
+          onLoadMore={() => void activityQuery.fetchNextPage()}
+        />
+      )}
+
+      {activeTab === "insights" && (
+        <InsightsTab analytics={analyticsQuery.data} isLoading={analyticsQuery.isLoading} />
+      )}
+
       {activeTab === "people" && (
         <PeopleTab
           members={members}
@@ -638,12 +1268,22 @@ const TripDetailPage = () => {
           searchMessage={memberSearchMessage}
           feedbackMessage={memberFeedback}
           onAddMember={(userId) => addMemberMutation.mutate({ members: [{ userId }] })}
+          onInviteByEmail={(email, displayName) =>
+            addMemberMutation.mutate({ members: [{ email, displayName }] })
+          }
           addLoading={addMemberMutation.isPending}
           canManageMembers={canManageMembers}
-          ownerId={trip.ownerId}
+          isOwner={isOwner}
           onRemoveMember={(memberId) =>
             removeMemberMutation.mutateAsync(memberId)
           }
+          onChangeRole={(memberId, role) =>
+            updateMemberRoleMutation.mutate({ memberId, role })
+          }
+          onTransferOwnership={(memberId) => transferOwnershipMutation.mutate(memberId)}
+          roleChangePending={
+            updateMemberRoleMutation.isPending || transferOwnershipMutation.isPending
+          }
           removeLoading={removeMemberMutation.isPending}
           removingMemberId={removeMemberMutation.variables}
           currentUserId={effectiveCurrentUserId}
@@ -664,14 +1304,26 @@ interface OverviewTabProps {
   settlementSuggestions: Array<{ from: string; to: string; amount: number }>;
   currency: string;
   expenses: TripSummary["expenses"];
+  currencySubtotals: CurrencySubtotal[];
+  budget?: BudgetStatus;
+  categoryCatalog: ExpenseCategory[];
 }
 
+const BUDGET_LEVEL_COLORS: Record<BudgetLine["level"], string> = {
+  ok: "#4ade80",
+  warning: "#fbbf24",
+  exceeded: "#f87171"
+};
+
 const OverviewTab = ({
   balances,
   membersById,
   settlementSuggestions,
   currency,
-  expenses
+  expenses,
+  currencySubtotals,
+  budget,
+  categoryCatalog
 }: OverviewTabProps) => {
   const [selectedMemberId, setSelectedMemberId] = useState<string | null>(null);
   const detailRef = useRef<HTMLDivElement | null>(null);
@@ -831,14 +1483,19 @@ const OverviewTab = ({
                         <span className="muted" style={{ fontSize: "0.9rem" }}>
                           {formatDate(expense.createdAt)} · Paid by {membersById[expense.paidByMemberId] ?? expense.paidByMemberId}
                         </span>
-                        {expense.category && (
-                          <span
-                            className="pill"
-                            style={{ background: "rgba(236,72,153,0.14)", color: "#f9a8d4", width: "fit-content" }}
-                          >
-                            {expense.category}
-                          </span>
-                        )}
+                        {expense.category &&
+                          (categoryCatalog.some((entry) => entry.name === expense.category) ? (
+                            <CategoryChip
+                              category={categoryCatalog.find((entry) => entry.name === expense.category)}
+                            />
+                          ) : (
+                            <span
+                              className="pill"
+                              style={{ background: "rgba(236,72,153,0.14)", color: "#f9a8d4", width: "fit-content" }}
+                            >
+                              {expense.category}
+                            </span>
+                          ))}
                       </div>
                       <div
                         style={{
@@ -873,6 +1530,82 @@ const OverviewTab = ({
         )}
       </section>
 
+      {budget && (
+        <section className="card">
+          <div className="section-title">
+            <h2>Budget</h2>
+          </div>
+          <div className="list" style={{ gap: "0.6rem" }}>
+            {[budget.total, ...budget.categories]
+              .filter((line): line is BudgetLine => Boolean(line))
+              .map((line) => (
+                <div key={line.category ?? ""}>
+                  <div style={{ display: "flex", justifyContent: "space-between", gap: "1rem" }}>
+                    <span>{line.name}</span>
+                    <span>
+                      {currencyFormatter.format(line.spent)} of{" "}
+                      {currencyFormatter.format(line.budget)}{" "}
+                      <span className="muted">
+                        {line.remaining >= 0
+                          ? `(${currencyFormatter.format(line.remaining)} left)`
+                          : `(${currencyFormatter.format(-line.remaining)} over)`}
+                      </span>
+                    </span>
+                  </div>
+                  <div style={{ background: "rgba(148, 163, 184, 0.2)", borderRadius: 4, height: 6 }}>
+                    <div
+                      style={{
+                        width: `${Math.min(Math.max(line.ratio * 100, 1), 100)}%`,
+                        background: BUDGET_LEVEL_COLORS[line.level],
+                        borderRadius: 4,
+                        height: "100%"
+                      }}
+                    />
+                  </div>
+                </div>
+              ))}
+          </div>
+          <p className="muted">
+            You&apos;ll be alerted when spending reaches {Math.round(budget.alertThreshold * 100)}% of a
+            budget. Drafts are not counted.
+          </p>
+        </section>
+      )}
+
+      {(currencySubtotals.length > 1 ||
+        currencySubtotals.some((subtotal) => subtotal.missingRateCount)) && (
+        <section className="card">
+          <div className="section-title">
+            <h2>Spending by Currency</h2>
+          </div>
+          <div className="list">
+            {currencySubtotals.map((subtotal) => (
+              <div
+                key={subtotal.currency}
+                className="card"
+                style={{ padding: "0.75rem 1rem", display: "flex", justifyContent: "space-between" }}
+              >
+                <span>
+                  {new Intl.NumberFormat(undefined, {
+                    style: "currency",
+                    currency: subtotal.currency
+                  }).format(subtotal.total)}{" "}
+                  <span className="muted">· {subtotal.expenseCount} expenses</span>
+                  {subtotal.missingRateCount ? (
+                    <span style={{ color: "#fbbf24" }}>
+                      {" "}
+                      · {subtotal.missingRateCount} without an exchange rate, counted 1:1
+                    </span>
+                  ) : null}
+                </span>
+                <strong>{currencyFormatter.format(subtotal.convertedTotal)}</strong>
+              </div>
+            ))}
+          </div>
+          <p className="muted">Balances are converted to {currency} using each expense&apos;s exchange rate.</p>
+        </section>
+      )}
+
       {settlementSuggestions.length > 0 && (
         <section className="card">
           <div className="section-title">
@@ -904,12 +1637,24 @@ interface ExpensesTabProps {
   members: TripSummary["members"];
   expenses: TripSummary["expenses"];
   currency: string;
+  tripStatus: TripStatus;
+  canContribute: boolean;
+  /** Admins can edit any expense; others only the ones they paid. */
+  canManageExpenses: boolean;
+  categoryCatalog: ExpenseCategory[];
+  onChangeCategory: (expenseId: string, category: string | null) => Promise<void>;
   onCreateExpense: (payload: CreateExpenseInput) => Promise<unknown>;
   isCreating: boolean;
   membersById: Record<string, string>;
   onDeleteExpense: (expenseId: string) => Promise<void>;
   deletePending: boolean;
   deletingExpenseId?: string;
+  onReprocessReceipt: (receiptId: string) => Promise<Receipt>;
+  reprocessingReceiptId?: string;
+  onConfirmDraft: (expenseId: string) => Promise<void>;
+  confirmingExpenseId?: string;
+  onCreateReceiptExpenses: (receiptId: string) => Promise<Expense[]>;
+  creatingReceiptExpensesId?: string;
   currentUserId?: string;
 }
 
@@ -919,16 +1664,31 @@ const ExpensesTab = ({
   members,
   expenses,
   currency,
+  tripStatus,
+  canContribute,
+  canManageExpenses,
+  categoryCatalog,
+  onChangeCategory,
   onCreateExpense,
   isCreating,
   membersById,
   onDeleteExpense,
   deletePending,
   deletingExpenseId,
+  onReprocessReceipt,
+  reprocessingReceiptId,
+  onConfirmDraft,
+  confirmingExpenseId,
+  onCreateReceiptExpenses,
+  creatingReceiptExpensesId,
   currentUserId
 }: ExpensesTabProps) => {
   const [memberFilter, setMemberFilter] = useState<string>("all");
   const [categoryFilter, setCategoryFilter] = useState<string>("all");
+  const catalogByName = useMemo(
+    () => new Map(categoryCatalog.map((entry) => [entry.name, entry])),
+    [categoryCatalog]
+  );
   const [dateFrom, setDateFrom] = useState<string>("");
   const [dateTo, setDateTo] = useState<string>("");
   const [viewingReceiptId, setViewingReceiptId] = useState<string | null>(null);
@@ -1042,11 +1802,15 @@ const ExpensesTab = ({
 
     const status = new Map<string, string>();
     const storage = new Map<string, string | undefined>();
+    const thumbnails = new Map<string, string>();
     receipts.forEach((receipt) => {
       status.set(receipt.receiptId, receipt.status);
       storage.set(receipt.receiptId, receipt.storageKey);
+      if (receipt.thumbnailUrl) {
+        thumbnails.set(receipt.receiptId, receipt.thumbnailUrl);
+      }
     });
-    return { usage, status, storage };
+    return { usage, status, storage, thumbnails };
   }, [expenses, receipts]);
 
   useEffect(() => {
@@ -1161,7 +1925,8 @@ const ExpensesTab = ({
     if (!fileName) return null;
     const lower = fileName.toLowerCase();
     if (lower.endsWith(".pdf")) return "application/pdf";
-    if (/(\.png|\.jpg|\.jpeg|\.gif|\.webp|\.bmp)$/.test(lower)) {
+    // HEIC photos are previewed through their JPEG display copy.
+    if (/(\.png|\.jpg|\.jpeg|\.gif|\.webp|\.bmp|\.heic|\.heif)$/.test(lower)) {
       return "image";
     }
     return null;
@@ -1186,11 +1951,13 @@ const ExpensesTab = ({
         setViewReceiptError("Receipt is not available yet");
         return;
       }
-      if (status === "FAILED") {
+      if (status === "FAILED" || status === "REJECTED") {
         setExpandedReceiptId((current) =>
           current === receiptId ? null : current
         );
-        setViewReceiptError("Receipt processing failed");
+        setViewReceiptError(
+          status === "REJECTED" ? "Receipt upload was rejected" : "Receipt processing failed"
+        );
         return;
       }
       const response = await api.get<{ url: string }>(
@@ -1232,15 +1999,26 @@ const ExpensesTab = ({
         <div className="section-title">
           <h2>Log Expense</h2>
         </div>
-        <AddExpenseForm
-          tripId={tripId}
-          members={members}
-          currency={currency}
-          receipts={receipts}
-          isSubmitting={isCreating}
-          onSubmit={onCreateExpense}
-          currentUserId={currentUserId}
-        />
+        {!canContribute ? (
+          <p className="muted">You have view-only access to this group.</p>
+        ) : tripStatus === "active" ? (
+          <AddExpenseForm
+            tripId={tripId}
+            members={members}
+            currency={currency}
+            receipts={receipts}
+            categories={categoryCatalog}
+            isSubmitting={isCreating}
+            onSubmit={onCreateExpense}
+            currentUserId={currentUserId}
+          />
+        ) : (
+          <p className="muted">
+            {tripStatus === "settling"
+              ? "This group is settling up; only payments can be recorded."
+              : "This group is closed. The owner can reopen it to add expenses."}
+          </p>
+        )}
       </section>
 
       <section className="card" style={{ gridColumn: "1 / -1" }}>
@@ -1349,6 +2127,9 @@ const ExpensesTab = ({
                       : undefined;
                     const isLoadingPreview =
                       viewingReceiptId === expense.receiptId;
+                    const thumbnailUrl = expense.receiptId
+                      ? receiptMetadata.thumbnails.get(expense.receiptId)
+                      : undefined;
 
                     return (
                       <div
@@ -1375,13 +2156,53 @@ const ExpensesTab = ({
                             flexWrap: "wrap"
                           }}
                         >
-                          <div>
-                            <h3 style={{ margin: 0, fontSize: "1.15rem", fontWeight: 600 }}>
-                              {expense.description}
-                            </h3>
-                            <p className="muted" style={{ marginTop: "0.45rem" }}>
-                              {formatDate(expense.createdAt)} · Paid by {membersById[expense.paidByMemberId] ?? expense.paidByMemberId}
-                            </p>
+                          <div style={{ display: "flex", gap: "0.9rem", alignItems: "flex-start" }}>
+                            {thumbnailUrl && expense.receiptId && (
+                              <button
+                                type="button"
+                                onClick={() => {
+                                  if (!expense.receiptId) return;
+                                  void handleViewReceipt(expense.receiptId);
+                                }}
+                                title="View receipt"
+                                style={{
+                                  padding: 0,
+                                  border: "1px solid rgba(148,163,184,0.2)",
+                                  borderRadius: "0.5rem",
+                                  overflow: "hidden",
+                                  background: "transparent",
+                                  flexShrink: 0
+                                }}
+                              >
+                                <img
+                                  src={thumbnailUrl}
+                                  alt={`Receipt for ${expense.description}`}
+                                  loading="lazy"
+                                  style={{ display: "block", width: "3.5rem", height: "3.5rem", objectFit: "cover" }}
+                                />
+                              </button>
+                            )}
+                            <div>
+                              <h3 style={{ margin: 0, fontSize: "1.15rem", fontWeight: 600 }}>
+                                {expense.description}
+                                {expense.draft && (
+                                  <span
+                                    className="pill"
+                                    style={{
+                                      marginLeft: "0.5rem",
+                                      fontSize: "0.75rem",
+                                      background: "rgba(250,204,21,0.14)",
+                                      color: "#fde68a"
+                                    }}
+                                  >
+                                    Draft · not in balances
+                                  </span>
+                                )}
+                              </h3>
+                              <p className="muted" style={{ marginTop: "0.45rem" }}>
+                                {formatDate(expense.createdAt)} · Paid by {membersById[expense.paidByMemberId] ?? expense.paidByMemberId}
+                              </p>
+                            </div>
                           </div>
                           <div style={{ textAlign: "right" }}>
                             <span style={{ fontSize: "1.45rem", fontWeight: 700 }}>
@@ -1403,11 +2224,14 @@ const ExpensesTab = ({
                                 Vendor • {expense.vendor}
                               </span>
                             )}
-                            {expense.category && (
-                              <span className="pill" style={{ background: "rgba(236,72,153,0.14)", color: "#f9a8d4" }}>
-                                Category • {expense.category}
-                              </span>
-                            )}
+                            {expense.category &&
+                              (catalogByName.has(expense.category) ? (
+                                <CategoryChip category={catalogByName.get(expense.category)} />
+                              ) : (
+                                <span className="pill" style={{ background: "rgba(236,72,153,0.14)", color: "#f9a8d4" }}>
+                                  Category • {expense.category}
+                                </span>
+                              ))}
                             {badges.map((badge) => (
                               <span key={badge} className="pill" style={{ background: "rgba(148,163,184,0.14)", color: "#e2e8f0" }}>
                                 {badge}
@@ -1454,6 +2278,28 @@ const ExpensesTab = ({
                           <span className="muted" style={{ fontSize: "0.85rem" }}>
                             {sharedLabel(expense.sharedWithMemberIds.length)}
                           </span>
+                          {tripStatus === "active" &&
+                            canContribute &&
+                            (canManageExpenses || expense.paidByMemberId === currentUserId) && (
+                              <select
+                                aria-label="Category"
+                                value={expense.category ?? ""}
+                                onChange={(event) =>
+                                  void onChangeCategory(expense.expenseId, event.target.value || null)
+                                }
+                                style={{ fontSize: "0.85rem", maxWidth: "12rem" }}
+                              >
+                                <option value="">No category</option>
+                                {expense.category && !catalogByName.has(expense.category) && (
+                                  <option value={expense.category}>{expense.category}</option>
+                                )}
+                                {categoryCatalog.map((entry) => (
+                                  <option key={entry.name} value={entry.name}>
+                                    {entry.icon} {entry.name}
+                                  </option>
+                                ))}
+                              </select>
+                            )}
                           <div style={{ display: "flex", gap: "0.5rem" }}>
                             {expense.receiptId && (
                               <button
@@ -1462,6 +2308,7 @@ const ExpensesTab = ({
                                 disabled={
                                   viewingReceiptId === expense.receiptId ||
                                   receiptMetadata.status.get(expense.receiptId) === "FAILED" ||
+                                  receiptMetadata.status.get(expense.receiptId) === "REJECTED" ||
                                   (!previewData &&
                                     (receiptMetadata.status.get(expense.receiptId) !== "COMPLETED" ||
                                       !receiptMetadata.storage.get(expense.receiptId)))
@@ -1479,11 +2326,24 @@ const ExpensesTab = ({
                                   ? "Open full size"
                                   : isLoadingPreview
                                   ? "Loading…"
-                                  : receiptMetadata.status.get(expense.receiptId) === "FAILED"
+                                  : receiptMetadata.status.get(expense.receiptId) === "FAILED" ||
+                                    receiptMetadata.status.get(expense.receiptId) === "REJECTED"
                                   ? "Unavailable"
                                   : "Load preview"}
                               </button>
                             )}
+                            {expense.draft && (
+                              <button
+                                className="primary"
+                                style={{ paddingInline: "0.65rem", fontSize: "0.85rem" }}
+                                disabled={confirmingExpenseId === expense.expenseId}
+                                onClick={() => {
+                                  onConfirmDraft(expense.expenseId).catch(() => {});
+                                }}
+                              >
+                                {confirmingExpenseId === expense.expenseId ? "Confirming…" : "Confirm"}
+                              </button>
+                            )}
                             <button
                               className="secondary"
                               style={{
@@ -1695,43 +2555,102 @@ const ExpensesTab = ({
                                 <span style={{ fontWeight: 600 }}>{receipt.fileName}</span>
                                 <span className="muted" style={{ fontSize: "0.8rem", color: statusTone }}>
                                   {receipt.status.toLowerCase()}
+                                  {receipt.attempts && receipt.attempts > 1
+                                    ? ` · ${receipt.attempts} attempts`
+                                    : ""}
                                 </span>
+                                {receipt.failureReason && receipt.status !== "COMPLETED" && (
+                                  <span className="muted" style={{ fontSize: "0.8rem" }}>
+                                    {receipt.failureReason}
+                                  </span>
+                                )}
                                 {attachedTo && (
                                   <span className="muted" style={{ fontSize: "0.8rem" }}>
                                     Attached to: {attachedTo}
                                   </span>
                                 )}
+                                {(receipt.documents?.length ?? 0) > 1 && (
+                                  <span className="muted" style={{ fontSize: "0.8rem" }}>
+                                    {receipt.documents?.length} receipts detected
+                                  </span>
+                                )}
                               </div>
-                              <button
-                                className="secondary"
-                                style={{ paddingInline: "0.65rem", fontSize: "0.85rem" }}
-                                disabled={
-                                  viewingReceiptId === receipt.receiptId ||
-                                  receipt.status !== "COMPLETED" ||
-                                  !receipt.storageKey
-                                }
-                                onClick={() => {
-                                  if (isExpanded) {
-                                    setExpandedReceiptId(null);
-                                    return;
-                                  }
-                                  if (receiptPreviewCache[receipt.receiptId]) {
-                                    setExpandedReceiptId(receipt.receiptId);
-                                    return;
+                              <div style={{ display: "flex", gap: "0.5rem", flexShrink: 0 }}>
+                                {receipt.status === "COMPLETED" &&
+                                  (receipt.documents?.length ?? 0) > 1 &&
+                                  !attachedTo && (
+                                    <button
+                                      className="secondary"
+                                      style={{ paddingInline: "0.65rem", fontSize: "0.85rem" }}
+                                      disabled={creatingReceiptExpensesId === receipt.receiptId}
+                                      onClick={() => {
+                                        setViewReceiptError(null);
+                                        onCreateReceiptExpenses(receipt.receiptId).catch((error) => {
+                                          setViewReceiptError(
+                                            error instanceof Error
+                                              ? error.message
+                                              : "Unable to create draft expenses"
+                                          );
+                                        });
+                                      }}
+                                    >
+                                      {creatingReceiptExpensesId === receipt.receiptId
+                                        ? "Creating…"
+                                        : `Create ${receipt.documents?.length} draft expenses`}
+                                    </button>
+                                  )}
+                                {receipt.status === "FAILED" && (
+                                  <button
+                                    className="secondary"
+                                    style={{ paddingInline: "0.65rem", fontSize: "0.85rem" }}
+                                    disabled={reprocessingReceiptId === receipt.receiptId}
+                                    onClick={() => {
+                                      setViewReceiptError(null);
+                                      onReprocessReceipt(receipt.receiptId).catch((error) => {
+                                        setViewReceiptError(
+                                          error instanceof Error
+                                            ? error.message
+                                            : "Unable to retry receipt analysis"
+                                        );
+                                      });
+                                    }}
+                                  >
+                                    {reprocessingReceiptId === receipt.receiptId
+                                      ? "Retrying…"
+                                      : "Retry analysis"}
+                                  </button>
+                                )}
+                                <button
+                                  className="secondary"
+                                  style={{ paddingInline: "0.65rem", fontSize: "0.85rem" }}
+                                  disabled={
+                                    viewingReceiptId === receipt.receiptId ||
+                                    receipt.status !== "COMPLETED" ||
+                                    !receipt.storageKey
                                   }
-                                  void handleViewReceipt(receipt.receiptId);
-                                }}
-                              >
-                                {isExpanded
-                                  ? "Hide preview"
-                                  : viewingReceiptId === receipt.receiptId
-                                  ? "Opening…"
-                                  : receipt.status === "FAILED"
-                                  ? "Unavailable"
-                                  : receiptPreviewCache[receipt.receiptId]
-                                  ? "Show preview"
-                                  : "View receipt"}
-                              </button>
+                                  onClick={() => {
+                                    if (isExpanded) {
+                                      setExpandedReceiptId(null);
+                                      return;
+                                    }
+                                    if (receiptPreviewCache[receipt.receiptId]) {
+                                      setExpandedReceiptId(receipt.receiptId);
+                                      return;
+                                    }
+                                    void handleViewReceipt(receipt.receiptId);
+                                  }}
+                                >
+                                  {isExpanded
+                                    ? "Hide preview"
+                                    : viewingReceiptId === receipt.receiptId
+                                    ? "Opening…"
+                                    : receipt.status === "FAILED" || receipt.status === "REJECTED"
+                                    ? "Unavailable"
+                                    : receiptPreviewCache[receipt.receiptId]
+                                    ? "Show preview"
+                                    : "View receipt"}
+                                </button>
+                              </div>
                             </div>
                             {isExpanded && (
                               <div
@@ -1802,6 +2721,7 @@ interface SettlementsTabProps {
   members: TripSummary["members"];
   settlements: TripSummary["settlements"];
   pendingSettlements: TripSummary["settlements"];
+  paymentRequests: TripSummary["paymentRequests"];
   balances: BalanceRow[];
   settlementSuggestions: Array<{ from: string; to: string; amount: number }>;
   onRecord: (payload: {
@@ -1826,6 +2746,7 @@ const SettlementsTab = ({
   members,
   settlements,
   pendingSettlements,
+  paymentRequests,
   balances,
   settlementSuggestions,
   onRecord,
@@ -1868,6 +2789,14 @@ const SettlementsTab = ({
         />
       </section>
 
+      <PaymentRequestsPanel
+        requests={paymentRequests}
+        membersById={membersById}
+        currentUserId={currentUserId}
+        onRecord={onRecord}
+        isRecording={isRecording}
+      />
+
       <section className="card" style={{ gridColumn: "1 / -1" }}>
         <div className="section-title">
           <h2>Settlement History</h2>
@@ -1949,10 +2878,14 @@ interface PeopleTabProps {
   searchMessage: string | null;
   feedbackMessage: string | null;
   onAddMember: (userId: string) => void;
+  onInviteByEmail: (email: string, displayName?: string) => void;
   addLoading: boolean;
   canManageMembers: boolean;
-  ownerId: string;
+  isOwner: boolean;
   onRemoveMember: (memberId: string) => Promise<void>;
+  onChangeRole: (memberId: string, role: TripRole) => void;
+  onTransferOwnership: (memberId: string) => void;
+  roleChangePending: boolean;
   removeLoading: boolean;
   removingMemberId?: string;
   currentUserId?: string;
@@ -1971,10 +2904,14 @@ const PeopleTab = ({
   searchMessage,
   feedbackMessage,
   onAddMember,
+  onInviteByEmail,
   addLoading,
   canManageMembers,
-  ownerId,
+  isOwner,
   onRemoveMember,
+  onChangeRole,
+  onTransferOwnership,
+  roleChangePending,
   removeLoading,
   removingMemberId,
   currentUserId,
@@ -1990,6 +2927,17 @@ const PeopleTab = ({
   );
 
   const [methodDraft, setMethodDraft] = useState<PaymentMethods>({});
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteName, setInviteName] = useState("");
+
+  const handleInvite = (event: FormEvent) => {
+    event.preventDefault();
+    const email = inviteEmail.trim();
+    if (!email) return;
+    onInviteByEmail(email, inviteName.trim() || undefined);
+    setInviteEmail("");
+    setInviteName("");
+  };
 
   useEffect(() => {
     if (!editableMemberId) {
@@ -2069,6 +3017,40 @@ const PeopleTab = ({
             </div>
           )}
 
+          {canManageMembers && (
+            <form
+              className="card"
+              style={{ padding: "0.75rem", gap: "0.6rem", display: "flex", flexDirection: "column" }}
+              onSubmit={handleInvite}
+            >
+              <h3 style={{ margin: 0 }}>Invite by email</h3>
+              <p className="muted" style={{ margin: 0 }}>
+                Not signed up yet? Add them now; expenses move to their account when they register with this email.
+              </p>
+              <div className="input-group">
+                <label htmlFor="invite-email">Email</label>
+                <input
+                  id="invite-email"
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(event) => setInviteEmail(event.target.value)}
+                  placeholder="friend@example.com"
+                />
+              </div>
+              <div className="input-group">
+                <label htmlFor="invite-name">Name (optional)</label>
+                <input
+                  id="invite-name"
+                  value={inviteName}
+                  onChange={(event) => setInviteName(event.target.value)}
+                />
+              </div>
+              <button type="submit" className="secondary" disabled={addLoading || !inviteEmail.trim()}>
+                Invite
+              </button>
+            </form>
+          )}
+
           <div className="card" style={{ padding: "0.75rem", gap: "0.6rem", display: "flex", flexDirection: "column" }}>
             <div className="section-title" style={{ marginBottom: 0 }}>
               <h3 style={{ margin: 0 }}>Payment methods</h3>
@@ -2144,8 +3126,12 @@ const PeopleTab = ({
         </div>
         <div className="list">
           {members.map((member) => {
-            const canRemove =
-              canManageMembers && member.memberId !== ownerId;
+            // Admins manage contributors and viewers; only the owner manages admins.
+            const canManage =
+              canManageMembers &&
+              member.role !== "owner" &&
+              (member.role !== "admin" || isOwner);
+            const canRemove = canManage && member.memberId !== currentUserId;
             const label = membersById[member.memberId] ?? member.displayName ?? member.email ?? member.memberId;
             const methods = paymentMethodsByMember[member.memberId];
             const hasMethods = Boolean(
@@ -2165,6 +3151,8 @@ const PeopleTab = ({
               >
                 <div style={{ flex: 1 }}>
                   <strong>{label}</strong>
+                  <span className="muted"> · {TRIP_ROLE_LABELS[member.role]}</span>
+                  {member.placeholder && <span className="muted"> · invited</span>}
                   {member.email && (
                     <p className="muted" style={{ margin: "0.2rem 0 0" }}>
                       {member.email}
@@ -2179,6 +3167,42 @@ const PeopleTab = ({
                   )}
                 </div>
                 <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
+                  {canManage && member.memberId !== currentUserId && (
+                    <select
+                      value={member.role}
+                      disabled={roleChangePending}
+                      onChange={(event) =>
+                        onChangeRole(member.memberId, event.target.value as TripRole)
+                      }
+                    >
+                      {(isOwner
+                        ? (["admin", "contributor", "viewer"] as const)
+                        : (["contributor", "viewer"] as const)
+                      ).map((role) => (
+                        <option key={role} value={role}>
+                          {TRIP_ROLE_LABELS[role]}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  {isOwner && member.role !== "owner" && !member.placeholder && (
+                    <button
+                      className="secondary"
+                      disabled={roleChangePending}
+                      onClick={() => {
+                        if (
+                          !window.confirm(
+                            `Make ${label} the owner? You will stay on as an admin.`
+                          )
+                        ) {
+                          return;
+                        }
+                        onTransferOwnership(member.memberId);
+                      }}
+                    >
+                      Make owner
+                    </button>
+                  )}
                   {canRemove && (
                     <button
                       className="secondary"
@@ -2209,4 +3233,229 @@ const PeopleTab = ({
   );
 };
 
+const ACTIVITY_LABELS: Record<TripActivity["type"], string> = {
+  TRIP_CREATED: "created the group",
+  TRIP_UPDATED: "updated group details",
+  TRIP_STATUS_CHANGED: "changed the group status",
+  BUDGET_ALERT: "pushed spending past a budget alert",
+  MEMBERS_ADDED: "added members",
+  MEMBER_REMOVED: "removed a member",
+  MEMBER_CLAIMED: "joined and claimed their invite",
+  MEMBER_ROLE_CHANGED: "changed a member's role",
+  OWNERSHIP_TRANSFERRED: "transferred ownership",
+  EXPENSE_CREATED: "added an expense",
+  EXPENSE_UPDATED: "changed an expense",
+  EXPENSE_DELETED: "deleted an expense",
+  SETTLEMENT_RECORDED: "recorded a payment",
+  SETTLEMENT_CONFIRMED: "confirmed a payment",
+  SETTLEMENT_UNCONFIRMED: "marked a payment unconfirmed",
+  SETTLEMENT_DELETED: "deleted a payment",
+  RECURRING_EXPENSE_CREATED: "added a recurring expense",
+  RECURRING_EXPENSE_UPDATED: "changed a recurring expense",
+  RECURRING_EXPENSE_SKIPPED: "skipped a recurring expense",
+  RECURRING_EXPENSE_DELETED: "deleted a recurring expense"
+};
+
+const describeSnapshot = (snapshot: TripActivity["before"]): string | null => {
+  if (!snapshot) return null;
+  if (Array.isArray(snapshot)) {
+    return snapshot.map((item) => String(item.displayName ?? item.memberId ?? "")).join(", ");
+  }
+  const label = snapshot.description ?? snapshot.name ?? snapshot.displayName ?? snapshot.note;
+  const amount = snapshot.total ?? snapshot.amount;
+  return [label, typeof amount === "number" ? amount.toFixed(2) : null]
+    .filter((part) => part !== undefined && part !== null && part !== "")
+    .join(" · ");
+};
+
+interface ActivityTabProps {
+  items: TripActivity[];
+  membersById: Record<string, string>;
+  isLoading: boolean;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  onLoadMore: () => void;
+}
+
+const ActivityTab = ({
+  items,
+  membersById,
+  isLoading,
+  hasMore,
+  isLoadingMore,
+  onLoadMore
+}: ActivityTabProps) => (
+  <section className="card">
+    <h2>Activity</h2>
+    {isLoading ? (
+      <p className="muted">Loading activity…</p>
+    ) : items.length === 0 ? (
+      <p className="muted">No changes recorded yet.</p>
+    ) : (
+      <div className="list">
+        {items.map((activity) => {
+          const before = describeSnapshot(activity.before);
+          const after = describeSnapshot(activity.after);
+          const actor =
+            activity.actorId === "system"
+              ? "Scheduler"
+              : membersById[activity.actorId] ?? "Former member";
+          return (
+            <div key={activity.activityId} style={{ padding: "0.5rem 0" }}>
+              <strong>{actor}</strong> {ACTIVITY_LABELS[activity.type] ?? activity.type}
+              <div className="muted" style={{ fontSize: "0.85rem" }}>
+                {formatDate(activity.createdAt)}
+                {before && after && before !== after
+                  ? ` · ${before} → ${after}`
+                  : before || after
+                    ? ` · ${after ?? before}`
+                    : ""}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    )}
+    {hasMore && (
+      <button type="button" className="secondary" onClick={onLoadMore} disabled={isLoadingMore}>
+        {isLoadingMore ? "Loading…" : "Load more"}
+      </button>
+    )}
+  </section>
+);
+
+interface InsightsTabProps {
+  analytics?: TripAnalytics;
+  isLoading: boolean;
+}
+
+const SpendBars = ({
+  title,
+  rows,
+  format
+}: {
+  title: string;
+  rows: SpendBreakdown[];
+  format: (value: number) => string;
+}) => (
+  <section className="card">
+    <h2>{title}</h2>
+    {rows.length === 0 ? (
+      <p className="muted">Nothing recorded yet.</p>
+    ) : (
+      <div className="list" style={{ gap: "0.6rem" }}>
+        {rows.slice(0, 8).map((row) => (
+          <div key={row.key}>
+            <div style={{ display: "flex", justifyContent: "space-between", gap: "1rem" }}>
+              <span>{row.label}</span>
+              <span>
+                {format(row.total)}{" "}
+                <span className="muted">({Math.round(row.share * 100)}%)</span>
+              </span>
+            </div>
+            <div style={{ background: "rgba(148, 163, 184, 0.2)", borderRadius: 4, height: 6 }}>
+              <div
+                style={{
+                  width: `${Math.max(row.share * 100, 1)}%`,
+                  background: "#6366f1",
+                  borderRadius: 4,
+                  height: "100%"
+                }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    )}
+  </section>
+);
+
+const InsightsTab = ({ analytics, isLoading }: InsightsTabProps) => {
+  const format = useMemo(() => {
+    const formatter = new Intl.NumberFormat(undefined, {
+      style: "currency",
+      currency: analytics?.currency ?? "USD"
+    });
+    return (value: number) => formatter.format(value);
+  }, [analytics?.currency]);
+
+  if (isLoading) {
+    return <p className="muted">Loading insights…</p>;
+  }
+  if (!analytics) {
+    return <p className="muted">Unable to load insights.</p>;
+  }
+
+  const { burnDown } = analytics;
+  const busiestDay = analytics.byDay.reduce<TripAnalytics["byDay"][number] | null>(
+    (best, day) => (!best || day.total > best.total ? day : best),
+    null
+  );
+  const peakCumulative = burnDown
+    ? Math.max(burnDown.projectedTotal, ...burnDown.days.map((day) => day.cumulative), 1)
+    : 1;
+
+  return (
+    <div className="grid-two">
+      <section className="card">
+        <h2>Spending</h2>
+        <p style={{ fontSize: "1.5rem", margin: "0.25rem 0" }}>{format(analytics.totalSpend)}</p>
+        <p className="muted" style={{ margin: 0 }}>
+          {analytics.expenseCount} {analytics.expenseCount === 1 ? "expense" : "expenses"}
+          {busiestDay ? ` · busiest day ${busiestDay.date} (${format(busiestDay.total)})` : ""}
+        </p>
+        {burnDown && (
+          <>
+            <p className="muted" style={{ margin: "0.75rem 0 0.25rem" }}>
+              Day {burnDown.elapsedDays} of {burnDown.totalDays} · {format(burnDown.dailyAverage)}/day
+              {burnDown.preTripSpend > 0 ? ` · ${format(burnDown.preTripSpend)} before the trip` : ""}
+              {" "}· on pace for {format(burnDown.projectedTotal)}
+              {burnDown.budget !== undefined ? ` of a ${format(burnDown.budget)} budget` : ""}
+            </p>
+            <div style={{ display: "flex", alignItems: "flex-end", gap: 2, height: 80 }}>
+              {burnDown.days.map((day, index) => (
+                <div
+                  key={day.date}
+                  title={`${day.date}: ${format(day.cumulative)}`}
+                  style={{
+                    flex: 1,
+                    height: `${(day.cumulative / peakCumulative) * 100}%`,
+                    background: index < burnDown.elapsedDays ? "#6366f1" : "rgba(148, 163, 184, 0.3)",
+                    borderRadius: 2
+                  }}
+                />
+              ))}
+            </div>
+          </>
+        )}
+      </section>
+
+      <section className="card">
+        <h2>Paid vs. consumed</h2>
+        <div className="list" style={{ gap: "0.4rem" }}>
+          {analytics.members.map((member) => (
+            <div
+              key={member.memberId}
+              style={{ display: "flex", justifyContent: "space-between", gap: "1rem" }}
+            >
+              <span>{member.displayName}</span>
+              <span className="muted">
+                paid {format(member.paid)} · used {format(member.consumed)}
+              </span>
+              <span style={{ color: member.net >= 0 ? "#4ade80" : "#f87171" }}>
+                {member.net >= 0 ? "+" : ""}
+                {format(member.net)}
+              </span>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <SpendBars title="By category" rows={analytics.byCategory} format={format} />
+      <SpendBars title="By payer" rows={analytics.byPayer} format={format} />
+      <SpendBars title="Top vendors" rows={analytics.byVendor} format={format} />
+    </div>
+  );
+};
+
 export default TripDetailPage;
@@ -38,10 +38,11 @@ const TripListPage = () => {
   const [searchTerm, setSearchTerm] = useState("");
   const [searchResults, setSearchResults] = useState<UserProfile[]>([]);
   const [searchMessage, setSearchMessage] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
 
   const { data, isLoading } = useQuery({
-    queryKey: ["trips"],
-    queryFn: () => api.get<TripListResponse>("/trips")
+    queryKey: ["trips", { showArchived }],
+    queryFn: () => api.get<TripListResponse>(showArchived ? "/trips?status=all" : "/trips")
   });
 
   const trips = useMemo<TripWithStatus[]>(() => (data?.trips ?? []) as TripWithStatus[], [data]);
@@ -134,8 +135,16 @@ const TripListPage = () => {
       <section className="card">
         <div className="section-title">
           <h2>Your Groups</h2>
-          <span className="muted">{trips.length} active</span>
+          <span className="muted">{trips.length} shown</span>
         </div>
+        <label className="muted" style={{ display: "flex", gap: "0.5rem", alignItems: "center" }}>
+          <input
+            type="checkbox"
+            checked={showArchived}
+            onChange={(event) => setShowArchived(event.target.checked)}
+          />
+          Show archived groups
+        </label>
         {trips.length > 0 && (
           <p className="muted" style={{ marginTop: "0.5rem" }}>
             {outstandingTripCount > 0
@@ -163,6 +172,11 @@ const TripListPage = () => {
                 style={{ textDecoration: "none" }}
               >
                 <h3 style={{ marginTop: 0 }}>{trip.name}</h3>
+                {trip.status !== "active" && (
+                  <div className="pill">
+                    {trip.status === "settling" ? "Settling up" : trip.status === "closed" ? "Closed" : "Archived"}
+                  </div>
+                )}
                 <p className="muted" style={{ margin: "0.25rem 0" }}>
                   {trip.startDate ? `${trip.startDate}` : "Flexible dates"}
                   {trip.endDate ? ` → ${trip.endDate}` : ""}
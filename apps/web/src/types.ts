@@ -6,9 +6,67 @@ export interface TripSummary {
   settlements: Settlement[];
   balances: BalanceRow[];
   pendingSettlements: Settlement[];
+  currencySubtotals: CurrencySubtotal[];
+  budget?: BudgetStatus;
+  categories: ExpenseCategory[];
+  categoryRules: CategoryRule[];
+  paymentRequests: PaymentRequest[];
   currentUserId: string;
 }
 
+export interface CurrencySubtotal {
+  currency: string;
+  total: number;
+  convertedTotal: number;
+  expenseCount: number;
+  /** Foreign-currency expenses without an exchange rate, counted 1:1. */
+  missingRateCount?: number;
+}
+
+export type TripStatus = "active" | "settling" | "closed" | "archived";
+
+export interface ExpenseCategory {
+  name: string;
+  icon: string;
+  color: string;
+  aliases?: string[];
+}
+
+export interface CategoryRule {
+  /** Normalized vendor name, e.g. "starbucks". */
+  vendor: string;
+  category: string;
+  source: "learned" | "manual";
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface TripBudget {
+  total?: number;
+  /** Limits keyed by expense category name. */
+  categories?: Record<string, number>;
+  /** Fraction of a budget (0–1) at which a warning is raised; defaults to 0.8. */
+  alertThreshold?: number;
+}
+
+export type BudgetLevel = "ok" | "warning" | "exceeded";
+
+export interface BudgetLine {
+  category?: string;
+  name: string;
+  budget: number;
+  spent: number;
+  remaining: number;
+  ratio: number;
+  level: BudgetLevel;
+}
+
+export interface BudgetStatus {
+  alertThreshold: number;
+  total?: BudgetLine;
+  categories: BudgetLine[];
+}
+
 export interface Trip {
   tripId: string;
   ownerId: string;
@@ -18,8 +76,18 @@ export interface Trip {
   createdAt: string;
   updatedAt: string;
   currency: string;
+  status: TripStatus;
+  closedAt?: string;
+  budget?: TripBudget;
+  categories?: ExpenseCategory[];
+  /** Locale receipts are read in, e.g. "de-DE"; defaults from the currency. */
+  locale?: string;
+  /** Sent back on edits so the server can reject changes made on stale data. */
+  version?: number;
 }
 
+export type TripRole = "owner" | "admin" | "contributor" | "viewer";
+
 export interface TripMember {
   tripId: string;
   memberId: string;
@@ -27,7 +95,9 @@ export interface TripMember {
   email?: string;
   addedBy: string;
   createdAt: string;
+  role: TripRole;
   paymentMethods?: PaymentMethods;
+  placeholder?: boolean;
 }
 
 export interface ExpenseAllocation {
@@ -35,6 +105,129 @@ export interface ExpenseAllocation {
   amount: number;
 }
 
+export interface ExpenseLineItem {
+  description?: string;
+  quantity?: number;
+  amount: number;
+  assignedMemberIds: string[];
+}
+
+export type ExpenseSplitMode =
+  | "EVEN"
+  | "EXACT"
+  | "PERCENTAGE"
+  | "SHARES"
+  | "EXACT_PLUS_EVEN"
+  | "ITEMIZED";
+
+export interface ExpenseSplit {
+  mode: ExpenseSplitMode;
+  inputs?: Array<{ memberId: string; value: number }>;
+  remainderMemberId?: string;
+}
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export interface RecurringExpense {
+  tripId: string;
+  recurringExpenseId: string;
+  createdAt: string;
+  updatedAt: string;
+  createdBy: string;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: string;
+  endDate?: string;
+  nextOccurrence?: string;
+  lastOccurrence?: string;
+  skippedDates: string[];
+  paused: boolean;
+  template: {
+    description: string;
+    vendor?: string;
+    category?: string;
+    total: number;
+    currency: string;
+    tax?: number;
+    tip?: number;
+    paidByMemberId: string;
+    sharedWithMemberIds: string[];
+    split?: ExpenseSplit;
+  };
+}
+
+export type TripActivityType =
+  | "TRIP_CREATED"
+  | "TRIP_UPDATED"
+  | "TRIP_STATUS_CHANGED"
+  | "BUDGET_ALERT"
+  | "MEMBERS_ADDED"
+  | "MEMBER_REMOVED"
+  | "MEMBER_CLAIMED"
+  | "MEMBER_ROLE_CHANGED"
+  | "OWNERSHIP_TRANSFERRED"
+  | "EXPENSE_CREATED"
+  | "EXPENSE_UPDATED"
+  | "EXPENSE_DELETED"
+  | "SETTLEMENT_RECORDED"
+  | "SETTLEMENT_CONFIRMED"
+  | "SETTLEMENT_UNCONFIRMED"
+  | "SETTLEMENT_DELETED"
+  | "RECURRING_EXPENSE_CREATED"
+  | "RECURRING_EXPENSE_UPDATED"
+  | "RECURRING_EXPENSE_SKIPPED"
+  | "RECURRING_EXPENSE_DELETED";
+
+export interface TripActivity {
+  tripId: string;
+  activityId: string;
+  type: TripActivityType;
+  actorId: string;
+  entityId?: string;
+  before?: Record<string, unknown> | Array<Record<string, unknown>>;
+  after?: Record<string, unknown> | Array<Record<string, unknown>>;
+  createdAt: string;
+}
+
+export interface TripRealtimeEvent {
+  tripId: string;
+  type: TripActivityType | "RECEIPT_PROCESSED";
+  entityId?: string;
+  actorId?: string;
+  sentAt: string;
+}
+
+export interface TripActivityPage {
+  items: TripActivity[];
+  nextCursor?: string;
+}
+
+export type ImportFormat = "splitwise" | "bank-csv" | "ofx";
+
+export interface ImportRow {
+  rowNumber: number;
+  status: "ready" | "created" | "error" | "skipped";
+  date?: string;
+  description?: string;
+  total?: number;
+  currency?: string;
+  paidByMemberId?: string;
+  allocations?: ExpenseAllocation[];
+  expenseId?: string;
+  errors: string[];
+  message?: string;
+}
+
+export interface ImportResult {
+  format: ImportFormat;
+  dryRun: boolean;
+  rows: ImportRow[];
+  readyCount: number;
+  createdCount: number;
+  errorCount: number;
+  skippedCount: number;
+}
+
 export interface Expense {
   tripId: string;
   expenseId: string;
@@ -45,13 +238,19 @@ export interface Expense {
   category?: string;
   total: number;
   currency: string;
+  exchangeRate?: number;
   tax?: number;
   tip?: number;
   paidByMemberId: string;
   sharedWithMemberIds: string[];
   allocations: ExpenseAllocation[];
+  lineItems?: ExpenseLineItem[];
+  split?: ExpenseSplit;
+  recurringExpenseId?: string;
   receiptId?: string;
   receiptPreviewUrl?: string;
+  draft?: boolean;
+  version?: number;
 }
 
 export interface Receipt {
@@ -60,12 +259,34 @@ export interface Receipt {
   storageKey: string;
   uploadUrl: string;
   fileName: string;
-  status: "PENDING_UPLOAD" | "UPLOADED" | "PROCESSING" | "COMPLETED" | "FAILED";
+  status: "PENDING_UPLOAD" | "UPLOADED" | "PROCESSING" | "COMPLETED" | "FAILED" | "REJECTED";
   extractedData?: TextractExtraction;
+  documents?: TextractExtraction[];
+  failureReason?: string;
+  attempts?: number;
+  /** Signed URL of a small JPEG of photo uploads, for lists. */
+  thumbnailUrl?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export type ExtractionField = "merchantName" | "total" | "subtotal" | "tax" | "tip" | "date";
+
+/** Position on the page as fractions (0-1) of its width and height. */
+export interface ExtractionBoundingBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface ExtractionFieldSource {
+  /** 0-100, as reported by the extraction provider. */
+  confidence?: number;
+  page?: number;
+  boundingBox?: ExtractionBoundingBox;
+}
+
 export interface TextractExtraction {
   merchantName?: string;
   total?: number;
@@ -78,7 +299,10 @@ export interface TextractExtraction {
     quantity?: number;
     unitPrice?: number;
     total?: number;
+    confidence?: number;
   }>;
+  /** Where each summary value was read from and how sure the provider is. */
+  fields?: Partial<Record<ExtractionField, ExtractionFieldSource>>;
 }
 
 export interface Settlement {
@@ -88,10 +312,12 @@ export interface Settlement {
   toMemberId: string;
   amount: number;
   currency: string;
+  exchangeRate?: number;
   note?: string;
   createdAt: string;
   confirmedAt?: string;
   createdBy: string;
+  version?: number;
 }
 
 export interface BalanceRow {
@@ -100,6 +326,74 @@ export interface BalanceRow {
   balance: number;
 }
 
+export interface SettleUpTransfer {
+  fromMemberId: string;
+  fromDisplayName: string;
+  toMemberId: string;
+  toDisplayName: string;
+  amount: number;
+  currency: string;
+  paymentMethods?: PaymentMethods;
+}
+
+export interface SettleUpPlan {
+  tripId: string;
+  currency: string;
+  preferredPayeeId?: string;
+  balances: BalanceRow[];
+  pendingSettlements: Settlement[];
+  transfers: SettleUpTransfer[];
+  members: TripMember[];
+}
+
+export interface SpendBreakdown {
+  key: string;
+  label: string;
+  total: number;
+  expenseCount: number;
+  share: number;
+}
+
+export interface DailySpend {
+  date: string;
+  total: number;
+  expenseCount: number;
+}
+
+export interface MemberSpend {
+  memberId: string;
+  displayName: string;
+  paid: number;
+  consumed: number;
+  net: number;
+}
+
+export interface TripBurnDown {
+  startDate: string;
+  endDate: string;
+  totalDays: number;
+  elapsedDays: number;
+  preTripSpend: number;
+  spentToDate: number;
+  dailyAverage: number;
+  projectedTotal: number;
+  budget?: number;
+  days: Array<{ date: string; spent: number; cumulative: number }>;
+}
+
+export interface TripAnalytics {
+  tripId: string;
+  currency: string;
+  totalSpend: number;
+  expenseCount: number;
+  byCategory: SpendBreakdown[];
+  byPayer: SpendBreakdown[];
+  byVendor: SpendBreakdown[];
+  byDay: DailySpend[];
+  members: MemberSpend[];
+  burnDown?: TripBurnDown;
+}
+
 export interface TripListResponse {
   trips: Trip[];
 }
@@ -109,6 +403,8 @@ export interface ReceiptUploadResponse {
   receiptId: string;
   storageKey: string;
   uploadUrl: string;
+  /** Policy fields for the multipart POST to `uploadUrl`; the file goes last. */
+  uploadFields: Record<string, string>;
   fileName: string;
   status: string;
   createdAt: string;
@@ -121,6 +417,7 @@ export interface UserProfile {
   email?: string;
   displayNameLower?: string;
   paymentMethods?: PaymentMethods;
+  defaultCategories?: ExpenseCategory[];
   createdAt?: string;
   updatedAt?: string;
 }
@@ -131,6 +428,23 @@ export interface PaymentMethods {
   zelle?: string;
 }
 
+export interface PaymentLink {
+  provider: "venmo" | "paypal";
+  url: string;
+  /** SVG data URI encoding `url`. */
+  qrCode?: string;
+}
+
+export interface PaymentRequest {
+  fromMemberId: string;
+  toMemberId: string;
+  amount: number;
+  currency: string;
+  /** Set for recorded settlements; suggested transfers have none. */
+  settlementId?: string;
+  links: PaymentLink[];
+}
+
 export type HarmonyLedgerEntryType =
   | "DONATION"
   | "INCOME"
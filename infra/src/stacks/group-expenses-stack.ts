@@ -40,10 +40,18 @@ import * as s3n from "aws-cdk-lib/aws-s3-notifications";
 import {
   CorsHttpMethod,
   HttpApi,
-  HttpMethod
+  HttpMethod,
+  WebSocketApi,
+  WebSocketStage
 } from "aws-cdk-lib/aws-apigatewayv2";
-import { HttpLambdaIntegration } from "aws-cdk-lib/aws-apigatewayv2-integrations";
-import { HttpUserPoolAuthorizer } from "aws-cdk-lib/aws-apigatewayv2-authorizers";
+import {
+  HttpLambdaIntegration,
+  WebSocketLambdaIntegration
+} from "aws-cdk-lib/aws-apigatewayv2-integrations";
+import {
+  HttpUserPoolAuthorizer,
+  WebSocketLambdaAuthorizer
+} from "aws-cdk-lib/aws-apigatewayv2-authorizers";
 import {
   AccountRecovery,
   OAuthScope,
@@ -55,6 +63,10 @@ import { NodejsFunction, OutputFormat } from "aws-cdk-lib/aws-lambda-nodejs";
 import { Runtime } from "aws-cdk-lib/aws-lambda";
 import { RetentionDays } from "aws-cdk-lib/aws-logs";
 import { PolicyStatement } from "aws-cdk-lib/aws-iam";
+import { Rule, Schedule } from "aws-cdk-lib/aws-events";
+import { LambdaFunction } from "aws-cdk-lib/aws-events-targets";
+import { Queue } from "aws-cdk-lib/aws-sqs";
+import { SqsEventSource } from "aws-cdk-lib/aws-lambda-event-sources";
 
 export class GroupExpensesStack extends Stack {
   constructor(scope: Construct, id: string, props?: StackProps) {
@@ -67,6 +79,7 @@ export class GroupExpensesStack extends Stack {
       sortKey: { name: "SK", type: AttributeType.STRING },
       billingMode: BillingMode.PAY_PER_REQUEST,
       pointInTimeRecovery: true,
+      timeToLiveAttribute: "expiresAt",
       removalPolicy: RemovalPolicy.RETAIN
     });
 
@@ -98,7 +111,12 @@ export class GroupExpensesStack extends Stack {
       enforceSSL: true,
       cors: [
         {
-          allowedMethods: [HttpMethods.PUT, HttpMethods.HEAD, HttpMethods.GET],
+          allowedMethods: [
+            HttpMethods.POST,
+            HttpMethods.PUT,
+            HttpMethods.HEAD,
+            HttpMethods.GET
+          ],
           allowedOrigins: ["*"],
           allowedHeaders: ["*"],
           exposedHeaders: ["ETag"],
@@ -110,6 +128,11 @@ export class GroupExpensesStack extends Stack {
           enabled: true,
           expiration: Duration.days(730),
           prefix: "trips/"
+        },
+        {
+          enabled: true,
+          expiration: Duration.days(730),
+          prefix: "derived/"
         }
       ],
       removalPolicy: RemovalPolicy.RETAIN,
@@ -175,17 +198,79 @@ export class GroupExpensesStack extends Stack {
         format: OutputFormat.ESM,
         target: "node20",
         sourcemap: true,
-        externalModules: ["aws-sdk"],
+        // The image libraries are only loaded by the receipt processor, which
+        // installs them below; every other bundle leaves them out.
+        externalModules: ["aws-sdk", "sharp", "heic-convert"],
         banner: "import { createRequire } from 'module';const require = createRequire(import.meta.url);"
       }
     };
 
+    // Real-time trip updates. Clients subscribe to trips over the socket and
+    // every Lambda that changes a trip posts to the subscribed connections.
+    const websocketLambda = new NodejsFunction(this, "WebSocketHandler", {
+      ...sharedFunctionProps,
+      entry: path.join(stackDir, "../../../services/api/src/handlers/websocket.ts"),
+      logRetention: RetentionDays.ONE_WEEK,
+      environment: {
+        TABLE_NAME: table.tableName,
+        RECEIPT_BUCKET: receiptBucket.bucketName,
+        AWS_NODEJS_CONNECTION_REUSE_ENABLED: "1"
+      }
+    });
+
+    const websocketAuthorizerLambda = new NodejsFunction(
+      this,
+      "WebSocketAuthorizer",
+      {
+        ...sharedFunctionProps,
+        entry: path.join(
+          stackDir,
+          "../../../services/api/src/handlers/websocketAuthorizer.ts"
+        ),
+        logRetention: RetentionDays.ONE_WEEK,
+        environment: {
+          USER_POOL_ID: userPool.userPoolId,
+          USER_POOL_CLIENT_ID: userPoolClient.userPoolClientId
+        }
+      }
+    );
+
+    const websocketIntegration = new WebSocketLambdaIntegration(
+      "WebSocketIntegration",
+      websocketLambda
+    );
+
+    const websocketApi = new WebSocketApi(this, "GroupExpensesRealtimeApi", {
+      apiName: "GroupExpensesRealtime",
+      connectRouteOptions: {
+        integration: websocketIntegration,
+        authorizer: new WebSocketLambdaAuthorizer(
+          "WebSocketTokenAuthorizer",
+          websocketAuthorizerLambda,
+          { identitySource: ["route.request.querystring.token"] }
+        )
+      },
+      disconnectRouteOptions: { integration: websocketIntegration },
+      defaultRouteOptions: { integration: websocketIntegration }
+    });
+
+    const websocketStage = new WebSocketStage(this, "GroupExpensesRealtimeStage", {
+      webSocketApi: websocketApi,
+      stageName: "live",
+      autoDeploy: true
+    });
+
+    const realtimeEnvironment = {
+      WEBSOCKET_CALLBACK_URL: websocketStage.callbackUrl
+    };
+
     const httpLambda = new NodejsFunction(this, "HttpHandler", {
       ...sharedFunctionProps,
       entry: path.join(stackDir, "../../../services/api/src/handlers/http.ts"),
       logRetention: RetentionDays.ONE_WEEK,
       environment: {
         ...sharedEnvironment,
+        ...realtimeEnvironment,
         TABLE_NAME: table.tableName,
         RECEIPT_BUCKET: receiptBucket.bucketName,
         SIGNED_URL_EXPIRY_SECONDS: "900",
@@ -199,17 +284,54 @@ export class GroupExpensesStack extends Stack {
         stackDir,
         "../../../services/api/src/handlers/textractProcessor.ts"
       ),
+      timeout: Duration.minutes(1),
+      // Decoding HEIC and resizing 12MP photos needs more than the default.
+      memorySize: 1536,
+      bundling: {
+        ...sharedFunctionProps.bundling,
+        // sharp ships native binaries, so it is installed for the Lambda
+        // platform instead of being bundled.
+        nodeModules: ["sharp", "heic-convert"]
+      },
       logRetention: RetentionDays.ONE_WEEK,
       environment: {
         ...sharedEnvironment,
+        ...realtimeEnvironment,
         TABLE_NAME: table.tableName,
         RECEIPT_BUCKET: receiptBucket.bucketName,
         AWS_NODEJS_CONNECTION_REUSE_ENABLED: "1"
       }
     });
 
+    const recurringExpenseLambda = new NodejsFunction(
+      this,
+      "RecurringExpenseScheduler",
+      {
+        ...sharedFunctionProps,
+        entry: path.join(
+          stackDir,
+          "../../../services/api/src/handlers/recurringExpenseScheduler.ts"
+        ),
+        timeout: Duration.minutes(5),
+        logRetention: RetentionDays.ONE_WEEK,
+        environment: {
+          ...realtimeEnvironment,
+          TABLE_NAME: table.tableName,
+          RECEIPT_BUCKET: receiptBucket.bucketName,
+          AWS_NODEJS_CONNECTION_REUSE_ENABLED: "1"
+        }
+      }
+    );
+
+    new Rule(this, "RecurringExpenseSchedule", {
+      schedule: Schedule.cron({ minute: "15", hour: "6" }),
+      targets: [new LambdaFunction(recurringExpenseLambda)]
+    });
+
     table.grantReadWriteData(httpLambda);
     table.grantReadWriteData(textractLambda);
+    table.grantReadWriteData(recurringExpenseLambda);
+    table.grantReadWriteData(websocketLambda);
     const postConfirmationLambda = new NodejsFunction(
       this,
       "PostConfirmationHandler",
@@ -219,19 +341,72 @@ export class GroupExpensesStack extends Stack {
           stackDir,
           "../../../services/api/src/handlers/postConfirmation.ts"
         ),
+        // Cognito gives up on the trigger after about five seconds; claims it
+        // cannot finish by then go to the member claim queue.
+        timeout: Duration.seconds(5),
         logRetention: RetentionDays.ONE_WEEK,
+        // No realtime settings here: the WebSocket authorizer already depends
+        // on the user pool, so wiring the stage into its trigger would cycle.
         environment: {
           TABLE_NAME: table.tableName,
+          RECEIPT_BUCKET: receiptBucket.bucketName,
           AWS_NODEJS_CONNECTION_REUSE_ENABLED: "1"
         }
       }
     );
 
     table.grantReadWriteData(postConfirmationLambda);
+
+    const memberClaimLambda = new NodejsFunction(this, "MemberClaimProcessor", {
+      ...sharedFunctionProps,
+      entry: path.join(
+        stackDir,
+        "../../../services/api/src/handlers/memberClaimProcessor.ts"
+      ),
+      timeout: Duration.minutes(2),
+      logRetention: RetentionDays.ONE_WEEK,
+      environment: {
+        TABLE_NAME: table.tableName,
+        RECEIPT_BUCKET: receiptBucket.bucketName,
+        AWS_NODEJS_CONNECTION_REUSE_ENABLED: "1"
+      }
+    });
+    table.grantReadWriteData(memberClaimLambda);
+
+    const memberClaimDeadLetterQueue = new Queue(this, "MemberClaimDLQ", {
+      retentionPeriod: Duration.days(14)
+    });
+
+    const memberClaimQueue = new Queue(this, "MemberClaimQueue", {
+      visibilityTimeout: Duration.minutes(12),
+      deadLetterQueue: {
+        queue: memberClaimDeadLetterQueue,
+        maxReceiveCount: 5
+      }
+    });
+
+    memberClaimLambda.addEventSource(
+      new SqsEventSource(memberClaimQueue, {
+        batchSize: 1,
+        reportBatchItemFailures: true
+      })
+    );
+    memberClaimQueue.grantSendMessages(postConfirmationLambda);
+    postConfirmationLambda.addEnvironment(
+      "MEMBER_CLAIM_QUEUE_URL",
+      memberClaimQueue.queueUrl
+    );
+    [httpLambda, textractLambda, recurringExpenseLambda].forEach((fn) =>
+      websocketApi.grantManageConnections(fn)
+    );
     userPool.addTrigger(UserPoolOperation.POST_CONFIRMATION, postConfirmationLambda);
     receiptBucket.grantPut(httpLambda);
     receiptBucket.grantRead(httpLambda);
     receiptBucket.grantRead(textractLambda);
+    // Display copies and thumbnails; the upload notification only covers trips/.
+    receiptBucket.grantPut(textractLambda, "derived/*");
+    // Uploads that fail verification are removed.
+    receiptBucket.grantDelete(textractLambda, "trips/*");
 
     textractLambda.addToRolePolicy(
       new PolicyStatement({
@@ -247,12 +422,37 @@ export class GroupExpensesStack extends Stack {
       })
     );
 
+    const receiptDeadLetterQueue = new Queue(this, "ReceiptProcessingDLQ", {
+      retentionPeriod: Duration.days(14)
+    });
+
+    // maxReceiveCount mirrors MAX_RECEIPT_ATTEMPTS in receiptProcessingService;
+    // the processor marks the receipt FAILED on the last delivery.
+    const receiptQueue = new Queue(this, "ReceiptProcessingQueue", {
+      visibilityTimeout: Duration.minutes(6),
+      deadLetterQueue: {
+        queue: receiptDeadLetterQueue,
+        maxReceiveCount: 3
+      }
+    });
+
     receiptBucket.addEventNotification(
       EventType.OBJECT_CREATED,
-      new s3n.LambdaDestination(textractLambda),
+      new s3n.SqsDestination(receiptQueue),
       { prefix: "trips/" }
     );
 
+    textractLambda.addEventSource(
+      new SqsEventSource(receiptQueue, {
+        batchSize: 5,
+        reportBatchItemFailures: true
+      })
+    );
+
+    // Reprocess requests go through the same queue as uploads.
+    receiptQueue.grantSendMessages(httpLambda);
+    httpLambda.addEnvironment("RECEIPT_QUEUE_URL", receiptQueue.queueUrl);
+
     const httpApi = new HttpApi(this, "GroupExpensesApi", {
       apiName: "GroupExpenses",
       corsPreflight: {
@@ -287,6 +487,20 @@ export class GroupExpensesStack extends Stack {
       authorizer
     });
 
+    httpApi.addRoutes({
+      path: "/profile",
+      methods: [HttpMethod.GET, HttpMethod.PATCH],
+      integration: httpIntegration,
+      authorizer
+    });
+
+    httpApi.addRoutes({
+      path: "/profile/{proxy+}",
+      methods: [HttpMethod.PATCH],
+      integration: httpIntegration,
+      authorizer
+    });
+
     httpApi.addRoutes({
       path: "/users",
       methods: [HttpMethod.GET],
@@ -317,6 +531,11 @@ export class GroupExpensesStack extends Stack {
       description: "Copy-paste env var for the web app"
     });
 
+    new CfnOutput(this, "WebEnvViteRealtimeUrl", {
+      value: `VITE_REALTIME_URL=${websocketStage.url}`,
+      description: "Copy-paste env var for the web app"
+    });
+
     new CfnOutput(this, "WebEnvViteRegion", {
       value: `VITE_REGION=${this.region}`,
       description: "Copy-paste env var for the web app"
@@ -344,6 +563,10 @@ export class GroupExpensesStack extends Stack {
       value: receiptBucket.bucketName
     });
 
+    new CfnOutput(this, "ReceiptDeadLetterQueueUrl", {
+      value: receiptDeadLetterQueue.queueUrl
+    });
+
     new CfnOutput(this, "DynamoTableName", {
       value: table.tableName
     });
@@ -4,6 +4,17 @@ export interface AppConfig {
   receiptBucket: string;
   textractOutputBucket?: string;
   signedUrlExpirySeconds: number;
+  /** Largest receipt upload accepted, in bytes. */
+  receiptMaxBytes: number;
+  exchangeRateProvider: string;
+  /** "textract" (default) or "local" for the offline text/PDF extractor. */
+  receiptExtractionProvider: string;
+  /** Management endpoint of the WebSocket stage; realtime pushes are skipped without it. */
+  websocketCallbackUrl?: string;
+  /** Queue the receipt processor reads from; reprocess requests are sent to it. */
+  receiptQueueUrl?: string;
+  /** Queue that finishes placeholder claims the sign-up trigger had no time for. */
+  memberClaimQueueUrl?: string;
 }
 
 const required = (value: string | undefined, name: string): string => {
@@ -27,7 +38,15 @@ const buildConfig = (): AppConfig => {
     textractOutputBucket: process.env.TEXTRACT_OUTPUT_BUCKET,
     signedUrlExpirySeconds: process.env.SIGNED_URL_EXPIRY_SECONDS
       ? Number(process.env.SIGNED_URL_EXPIRY_SECONDS)
-      : 900
+      : 900,
+    receiptMaxBytes: process.env.RECEIPT_MAX_BYTES
+      ? Number(process.env.RECEIPT_MAX_BYTES)
+      : 10 * 1024 * 1024,
+    exchangeRateProvider: process.env.EXCHANGE_RATE_PROVIDER || "static",
+    receiptExtractionProvider: process.env.RECEIPT_EXTRACTION_PROVIDER || "textract",
+    websocketCallbackUrl: process.env.WEBSOCKET_CALLBACK_URL,
+    receiptQueueUrl: process.env.RECEIPT_QUEUE_URL,
+    memberClaimQueueUrl: process.env.MEMBER_CLAIM_QUEUE_URL
   };
 };
 
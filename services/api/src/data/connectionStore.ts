@@ -0,0 +1,107 @@
+import {
+  DeleteCommand,
+  PutCommand,
+  QueryCommand
+} from "@aws-sdk/lib-dynamodb";
+import { getDocumentClient } from "./dynamo.js";
+import { loadConfig } from "../config.js";
+
+const keys = {
+  subscriptionsPk: (tripId: string) => `CONNECTIONS#${tripId}`,
+  connectionSk: (connectionId: string) => `CONNECTION#${connectionId}`,
+  connectionGsiPk: (connectionId: string) => `CONNECTION#${connectionId}`,
+  tripGsiSk: (tripId: string) => `TRIP#${tripId}`
+};
+
+// API Gateway closes WebSocket connections after two hours, so anything older
+// is stale even if $disconnect never fired.
+const CONNECTION_TTL_SECONDS = 2 * 60 * 60;
+
+export interface TripSubscription {
+  tripId: string;
+  connectionId: string;
+  userId: string;
+  createdAt: string;
+}
+
+/**
+ * WebSocket connection registry. One item per (trip, connection) under the
+ * trip's CONNECTIONS partition for broadcasting, projected into GSI1 by
+ * connection id so `$disconnect` can remove them all.
+ */
+export class ConnectionStore {
+  private readonly tableName: string;
+  private readonly docClient = getDocumentClient();
+
+  constructor() {
+    const config = loadConfig();
+    this.tableName = config.tableName;
+  }
+
+  async saveSubscription(subscription: TripSubscription): Promise<void> {
+    await this.docClient.send(
+      new PutCommand({
+        TableName: this.tableName,
+        Item: {
+          entityType: "TripSubscription",
+          PK: keys.subscriptionsPk(subscription.tripId),
+          SK: keys.connectionSk(subscription.connectionId),
+          GSI1PK: keys.connectionGsiPk(subscription.connectionId),
+          GSI1SK: keys.tripGsiSk(subscription.tripId),
+          expiresAt: Math.floor(Date.now() / 1000) + CONNECTION_TTL_SECONDS,
+          ...subscription
+        }
+      })
+    );
+  }
+
+  async listSubscriptions(tripId: string): Promise<TripSubscription[]> {
+    const { Items } = await this.docClient.send(
+      new QueryCommand({
+        TableName: this.tableName,
+        KeyConditionExpression: "PK = :pk",
+        ExpressionAttributeValues: {
+          ":pk": keys.subscriptionsPk(tripId)
+        }
+      })
+    );
+
+    return (Items ?? []).map((item) => ({
+      tripId: item.tripId,
+      connectionId: item.connectionId,
+      userId: item.userId,
+      createdAt: item.createdAt
+    }));
+  }
+
+  async deleteSubscription(tripId: string, connectionId: string): Promise<void> {
+    await this.docClient.send(
+      new DeleteCommand({
+        TableName: this.tableName,
+        Key: {
+          PK: keys.subscriptionsPk(tripId),
+          SK: keys.connectionSk(connectionId)
+        }
+      })
+    );
+  }
+
+  async deleteConnection(connectionId: string): Promise<void> {
+    const { Items } = await this.docClient.send(
+      new QueryCommand({
+        TableName: this.tableName,
+        IndexName: "GSI1",
+        KeyConditionExpression: "GSI1PK = :connection",
+        ExpressionAttributeValues: {
+          ":connection": keys.connectionGsiPk(connectionId)
+        }
+      })
+    );
+
+    await Promise.all(
+      (Items ?? []).map((item) =>
+        this.deleteSubscription(item.tripId as string, connectionId)
+      )
+    );
+  }
+}
@@ -0,0 +1,165 @@
+import {
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  UpdateCommand
+} from "@aws-sdk/lib-dynamodb";
+import { getDocumentClient } from "./dynamo.js";
+import { loadConfig } from "../config.js";
+
+const keys = {
+  userPk: (userId: string) => `USER#${userId}`,
+  idempotencySk: (key: string) => `IDEMPOTENCY#${key}`
+};
+
+// Clients replay their outbox after reconnecting, which can be days later.
+const IDEMPOTENCY_TTL_SECONDS = 7 * 24 * 60 * 60;
+// Longer than the HTTP Lambda's timeout, so a lapsed lease means the request
+// that held it is no longer running.
+const LEASE_SECONDS = 60;
+
+export interface IdempotencyRecord {
+  key: string;
+  /** Hash of the method, path and body the key was first used with. */
+  fingerprint: string;
+  status: "IN_PROGRESS" | "COMPLETED";
+  statusCode?: number;
+  responseBody?: string;
+  createdAt: string;
+  /** Epoch seconds after which an `IN_PROGRESS` record can be taken over. */
+  leaseExpiresAt?: number;
+}
+
+/**
+ * Responses to create requests sent with an `Idempotency-Key`, stored per
+ * user so a retried request gets the first response back instead of
+ * creating the item again.
+ */
+export class IdempotencyStore {
+  private readonly tableName: string;
+  private readonly docClient = getDocumentClient();
+
+  constructor() {
+    const config = loadConfig();
+    this.tableName = config.tableName;
+  }
+
+  /**
+   * Reserves a key for a request. Returns the existing record instead when
+   * the key has been used before, unless it is still `IN_PROGRESS` for the
+   * same request with a lapsed lease: the request that held it died, so this
+   * one takes over.
+   */
+  async claim(
+    userId: string,
+    key: string,
+    fingerprint: string
+  ): Promise<IdempotencyRecord | null> {
+    const now = Math.floor(Date.now() / 1000);
+    const record: IdempotencyRecord = {
+      key,
+      fingerprint,
+      status: "IN_PROGRESS",
+      createdAt: new Date().toISOString(),
+      leaseExpiresAt: now + LEASE_SECONDS
+    };
+    try {
+      await this.docClient.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: {
+            entityType: "IdempotencyRecord",
+            PK: keys.userPk(userId),
+            SK: keys.idempotencySk(key),
+            expiresAt: now + IDEMPOTENCY_TTL_SECONDS,
+            ...record
+          },
+          // Records written before leases existed count as lapsed.
+          ConditionExpression:
+            "attribute_not_exists(PK) OR (#status = :inProgress AND fingerprint = :fingerprint AND " +
+            "(attribute_not_exists(leaseExpiresAt) OR leaseExpiresAt < :now))",
+          ExpressionAttributeNames: {
+            "#status": "status"
+          },
+          ExpressionAttributeValues: {
+            ":inProgress": "IN_PROGRESS",
+            ":fingerprint": fingerprint,
+            ":now": now
+          }
+        })
+      );
+      return null;
+    } catch (error) {
+      if (error instanceof Error && error.name === "ConditionalCheckFailedException") {
+        const { Item } = await this.docClient.send(
+          new GetCommand({
+            TableName: this.tableName,
+            Key: {
+              PK: keys.userPk(userId),
+              SK: keys.idempotencySk(key)
+            },
+            ConsistentRead: true
+          })
+        );
+        if (Item) {
+          return {
+            key: Item.key,
+            fingerprint: Item.fingerprint,
+            status: Item.status,
+            statusCode: Item.statusCode,
+            responseBody: Item.responseBody,
+            createdAt: Item.createdAt,
+            leaseExpiresAt: Item.leaseExpiresAt
+          };
+        }
+        // Expired between the put and the read, so the key is free again.
+        return this.claim(userId, key, fingerprint);
+      }
+      throw error;
+    }
+  }
+
+  async complete(
+    userId: string,
+    key: string,
+    statusCode: number,
+    responseBody: string | undefined
+  ): Promise<void> {
+    await this.docClient.send(
+      new UpdateCommand({
+        TableName: this.tableName,
+        Key: {
+          PK: keys.userPk(userId),
+          SK: keys.idempotencySk(key)
+        },
+        UpdateExpression:
+          "SET #status = :completed, statusCode = :statusCode, responseBody = :responseBody " +
+          "REMOVE leaseExpiresAt",
+        ExpressionAttributeNames: {
+          "#status": "status"
+        },
+        ExpressionAttributeValues: {
+          ":completed": "COMPLETED",
+          ":statusCode": statusCode,
+          ":responseBody": responseBody ?? ""
+        }
+      })
+    );
+  }
+
+  /**
+   * Frees a key whose request failed before writing anything, so the client
+   * can try again.
+   */
+  async release(userId: string, key: string): Promise<void> {
+    await this.docClient.send(
+      new DeleteCommand({
+        TableName: this.tableName,
+        Key: {
+          PK: keys.userPk(userId),
+          SK: keys.idempotencySk(key)
+        }
+      })
+    );
+  }
+}
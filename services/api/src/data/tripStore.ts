@@ -1,5 +1,7 @@
+import { Buffer } from "node:buffer";
 import {
   BatchGetCommand,
+  BatchWriteCommand,
   DeleteCommand,
   GetCommand,
   PutCommand,
@@ -9,16 +11,37 @@ import {
 } from "@aws-sdk/lib-dynamodb";
 import { getDocumentClient } from "./dynamo.js";
 import { loadConfig } from "../config.js";
-import { Trip, TripMember, Expense, Receipt, Settlement, PaymentMethods } from "../types.js";
-import { NotFoundError } from "../lib/errors.js";
+import {
+  Trip,
+  TripMember,
+  CategoryRule,
+  Expense,
+  ExpenseCategory,
+  Receipt,
+  Settlement,
+  PaymentMethods,
+  RecurringExpense,
+  TripActivity,
+  TripBudget,
+  TripRole,
+  TripStatus
+} from "../types.js";
+import { ConflictError, NotFoundError, ValidationError } from "../lib/errors.js";
 
 const keys = {
   tripPk: (tripId: string) => `TRIP#${tripId}`,
   tripSkMeta: "METADATA",
   memberSk: (memberId: string) => `MEMBER#${memberId}`,
+  memberGsiPk: (memberId: string) => `MEMBER#${memberId}`,
+  invitePk: (email: string) => `INVITE#${email.toLowerCase()}`,
   expenseSk: (expenseId: string) => `EXPENSE#${expenseId}`,
   receiptSk: (receiptId: string) => `RECEIPT#${receiptId}`,
-  settlementSk: (settlementId: string) => `SETTLEMENT#${settlementId}`
+  settlementSk: (settlementId: string) => `SETTLEMENT#${settlementId}`,
+  recurringSk: (recurringExpenseId: string) => `RECURRING#${recurringExpenseId}`,
+  recurringDuePk: "RECURRING_DUE",
+  categoryRuleSk: (vendor: string) => `CATEGORY_RULE#${vendor}`,
+  activityPk: (tripId: string) => `ACTIVITY#${tripId}`,
+  activitySk: (createdAt: string, activityId: string) => `${createdAt}#${activityId}`
 };
 
 type TripEntity = Trip & {
@@ -27,6 +50,8 @@ type TripEntity = Trip & {
   SK: string;
 };
 
+// Placeholder members are indexed by invite email instead of member id so
+// sign-up can find every trip waiting for that address.
 type MemberEntity = TripMember & {
   entityType: "TripMember";
   PK: string;
@@ -38,6 +63,7 @@ type MemberEntity = TripMember & {
   tripStartDate?: string;
   tripEndDate?: string;
   currency: string;
+  tripStatus?: TripStatus;
   tripCreatedAt: string;
   tripUpdatedAt: string;
 };
@@ -60,6 +86,92 @@ type SettlementEntity = Settlement & {
   SK: string;
 };
 
+type CategoryRuleEntity = CategoryRule & {
+  entityType: "CategoryRule";
+  PK: string;
+  SK: string;
+  tripId: string;
+};
+
+// Active templates are projected into GSI1 under a single partition, sorted by
+// next occurrence, so the scheduler can find everything due without a scan.
+type RecurringExpenseEntity = RecurringExpense & {
+  entityType: "RecurringExpense";
+  PK: string;
+  SK: string;
+  GSI1PK?: string;
+  GSI1SK?: string;
+};
+
+// Activity lives in its own partition so loading trip details never pulls the
+// whole audit history.
+type TripActivityEntity = TripActivity & {
+  entityType: "TripActivity";
+  PK: string;
+  SK: string;
+};
+
+const encodeCursor = (key: Record<string, unknown>): string =>
+  Buffer.from(JSON.stringify(key), "utf8").toString("base64url");
+
+// Cursors come back from clients, so they must point into the partition
+// being paged; anything else could read another trip's items.
+const decodeCursor = (cursor: string, pk: string): { PK: string; SK: string } => {
+  let key: unknown;
+  try {
+    key = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new ValidationError("Invalid pagination cursor");
+  }
+  if (
+    typeof key !== "object" ||
+    key === null ||
+    Object.keys(key).length !== 2 ||
+    (key as Record<string, unknown>).PK !== pk ||
+    typeof (key as Record<string, unknown>).SK !== "string"
+  ) {
+    throw new ValidationError("Invalid pagination cursor");
+  }
+  return { PK: pk, SK: (key as Record<string, unknown>).SK as string };
+};
+
+const MAX_BATCH_ATTEMPTS = 5;
+
+const isConditionFailure = (error: unknown): boolean =>
+  error instanceof Error &&
+  (error.name === "ConditionalCheckFailedException" ||
+    error.name === "TransactionCanceledException");
+
+// Versioned writes expect the version the caller read; items saved before
+// versioning have no `version` and count as 0. The item must still exist, so
+// a write racing a delete fails instead of recreating it; creates use
+// `attribute_not_exists(PK)` instead.
+const versionCondition = (expectedVersion: number): string =>
+  expectedVersion === 0
+    ? "attribute_exists(PK) AND (attribute_not_exists(#version) OR #version = :expectedVersion)"
+    : "attribute_exists(PK) AND #version = :expectedVersion";
+
+const recurringDueSk = (recurring: RecurringExpense): string =>
+  `${recurring.nextOccurrence}#${recurring.tripId}#${recurring.recurringExpenseId}`;
+
+const toRecurringExpense = (item: RecurringExpenseEntity): RecurringExpense => ({
+  tripId: item.tripId,
+  recurringExpenseId: item.recurringExpenseId,
+  createdAt: item.createdAt,
+  updatedAt: item.updatedAt,
+  createdBy: item.createdBy,
+  frequency: item.frequency,
+  interval: item.interval ?? 1,
+  startDate: item.startDate,
+  endDate: item.endDate,
+  nextOccurrence: item.nextOccurrence,
+  lastOccurrence: item.lastOccurrence,
+  skippedDates: item.skippedDates ?? [],
+  paused: Boolean(item.paused),
+  template: item.template,
+  version: item.version
+});
+
 const toTrip = (item: TripEntity): Trip => ({
   tripId: item.tripId,
   ownerId: item.ownerId,
@@ -68,7 +180,78 @@ const toTrip = (item: TripEntity): Trip => ({
   endDate: item.endDate,
   createdAt: item.createdAt,
   updatedAt: item.updatedAt,
-  currency: item.currency
+  currency: item.currency,
+  // Trips created before the lifecycle existed are active.
+  status: item.status ?? "active",
+  closedAt: item.closedAt,
+  locale: item.locale,
+  budget: item.budget,
+  categories: item.categories,
+  version: item.version ?? 0
+});
+
+const toExpense = (item: ExpenseEntity): Expense => ({
+  tripId: item.tripId,
+  expenseId: item.expenseId,
+  createdAt: item.createdAt,
+  updatedAt: item.updatedAt,
+  description: item.description,
+  vendor: item.vendor,
+  category: item.category,
+  total: item.total,
+  currency: item.currency,
+  exchangeRate: item.exchangeRate,
+  tax: item.tax,
+  tip: item.tip,
+  paidByMemberId: item.paidByMemberId,
+  sharedWithMemberIds: item.sharedWithMemberIds,
+  allocations: item.allocations,
+  lineItems: item.lineItems,
+  split: item.split,
+  receiptId: item.receiptId,
+  receiptPreviewUrl: item.receiptPreviewUrl,
+  recurringExpenseId: item.recurringExpenseId,
+  draft: item.draft,
+  version: item.version ?? 0
+});
+
+const toSettlement = (item: SettlementEntity): Settlement => ({
+  tripId: item.tripId,
+  settlementId: item.settlementId,
+  fromMemberId: item.fromMemberId,
+  toMemberId: item.toMemberId,
+  amount: item.amount,
+  currency: item.currency,
+  exchangeRate: item.exchangeRate,
+  note: item.note,
+  createdAt: item.createdAt,
+  createdBy: item.createdBy,
+  confirmedAt: item.confirmedAt,
+  version: item.version ?? 0
+});
+
+// Members stored before roles existed keep what they could do then: the
+// owner manages the trip and everyone else contributes.
+const toRole = (item: Record<string, unknown>, ownerId?: string): TripRole =>
+  (item.role as TripRole | undefined) ??
+  (item.memberId === ownerId ? "owner" : "contributor");
+
+const toReceipt = (item: ReceiptEntity): Receipt => ({
+  tripId: item.tripId,
+  receiptId: item.receiptId,
+  storageKey: item.storageKey,
+  uploadUrl: item.uploadUrl,
+  fileName: item.fileName,
+  status: item.status,
+  contentType: item.contentType,
+  extractedData: item.extractedData,
+  documents: item.documents,
+  failureReason: item.failureReason,
+  attempts: item.attempts,
+  normalizedKey: item.normalizedKey,
+  thumbnailKey: item.thumbnailKey,
+  createdAt: item.createdAt,
+  updatedAt: item.updatedAt
 });
 
 export interface TripDetails {
@@ -77,6 +260,7 @@ export interface TripDetails {
   expenses: Expense[];
   receipts: Receipt[];
   settlements: Settlement[];
+  categoryRules: CategoryRule[];
 }
 
 export class TripStore {
@@ -103,13 +287,14 @@ export class TripStore {
       entityType: "TripMember",
       PK: keys.tripPk(trip.tripId),
       SK: keys.memberSk(ownerMember.memberId),
-      GSI1PK: `MEMBER#${ownerMember.memberId}`,
+      GSI1PK: keys.memberGsiPk(ownerMember.memberId),
       GSI1SK: `TRIP#${trip.tripId}`,
       tripName: trip.name,
       ownerId: trip.ownerId,
       tripStartDate: trip.startDate,
       tripEndDate: trip.endDate,
       currency: trip.currency,
+      tripStatus: trip.status,
       tripCreatedAt: trip.createdAt,
       tripUpdatedAt: trip.updatedAt,
       ...ownerMember
@@ -143,6 +328,33 @@ export class TripStore {
     return toTrip(Item as TripEntity);
   }
 
+  async getMember(tripId: string, memberId: string): Promise<TripMember | null> {
+    const { Item } = await this.docClient.send(
+      new GetCommand({
+        TableName: this.tableName,
+        Key: {
+          PK: keys.tripPk(tripId),
+          SK: keys.memberSk(memberId)
+        }
+      })
+    );
+
+    if (!Item) {
+      return null;
+    }
+
+    return {
+      tripId,
+      memberId: Item.memberId,
+      displayName: Item.displayName,
+      email: Item.email,
+      addedBy: Item.addedBy,
+      createdAt: Item.createdAt,
+      role: toRole(Item, Item.ownerId),
+      placeholder: Item.placeholder
+    };
+  }
+
   async listTripsForMember(memberId: string): Promise<Trip[]> {
     const { Items } = await this.docClient.send(
       new QueryCommand({
@@ -150,7 +362,7 @@ export class TripStore {
         IndexName: "GSI1",
         KeyConditionExpression: "GSI1PK = :member",
         ExpressionAttributeValues: {
-          ":member": `MEMBER#${memberId}`
+          ":member": keys.memberGsiPk(memberId)
         }
       })
     );
@@ -168,7 +380,8 @@ export class TripStore {
       endDate: item.endDate,
       createdAt: item.createdAt,
       updatedAt: item.updatedAt,
-      currency: item.currency
+      currency: item.currency,
+      status: item.tripStatus ?? "active"
     }));
 
     return trips;
@@ -204,6 +417,8 @@ export class TripStore {
       email: item.email,
       addedBy: item.addedBy,
       createdAt: item.createdAt,
+      role: toRole(item, trip.ownerId),
+      placeholder: item.placeholder,
       paymentMethods:
         item.paymentMethods ??
         (item.venmo || item.paypal || item.zelle
@@ -217,52 +432,24 @@ export class TripStore {
 
     const expenses: Expense[] = Items.filter(
       (item) => item.entityType === "Expense"
-    ).map((item) => ({
-      tripId,
-      expenseId: item.expenseId,
-      createdAt: item.createdAt,
-      updatedAt: item.updatedAt,
-      description: item.description,
-      vendor: item.vendor,
-      category: item.category,
-      total: item.total,
-      currency: item.currency,
-      tax: item.tax,
-      tip: item.tip,
-      paidByMemberId: item.paidByMemberId,
-      sharedWithMemberIds: item.sharedWithMemberIds,
-      allocations: item.allocations,
-      receiptId: item.receiptId,
-      receiptPreviewUrl: item.receiptPreviewUrl
-    }));
+    ).map((item) => toExpense(item as ExpenseEntity));
 
     const receipts: Receipt[] = Items.filter(
       (item) => item.entityType === "Receipt"
-    ).map((item) => ({
-      tripId,
-      receiptId: item.receiptId,
-      storageKey: item.storageKey,
-      uploadUrl: item.uploadUrl,
-      fileName: item.fileName,
-      status: item.status,
-      extractedData: item.extractedData,
-      createdAt: item.createdAt,
-      updatedAt: item.updatedAt
-    }));
+    ).map((item) => toReceipt(item as ReceiptEntity));
 
     const settlements: Settlement[] = Items.filter(
       (item) => item.entityType === "Settlement"
+    ).map((item) => toSettlement(item as SettlementEntity));
+
+    const categoryRules: CategoryRule[] = Items.filter(
+      (item) => item.entityType === "CategoryRule"
     ).map((item) => ({
-      tripId,
-      settlementId: item.settlementId,
-      fromMemberId: item.fromMemberId,
-      toMemberId: item.toMemberId,
-      amount: item.amount,
-      currency: item.currency,
-      note: item.note,
-      createdAt: item.createdAt,
-      createdBy: item.createdBy,
-      confirmedAt: item.confirmedAt
+      vendor: item.vendor,
+      category: item.category,
+      source: item.source,
+      updatedAt: item.updatedAt,
+      updatedBy: item.updatedBy
     }));
 
     return {
@@ -270,7 +457,8 @@ export class TripStore {
       members,
       expenses,
       receipts,
-      settlements
+      settlements,
+      categoryRules
     };
   }
 
@@ -281,16 +469,25 @@ export class TripStore {
       name?: string;
       startDate?: string | null;
       endDate?: string | null;
+      locale?: string | null;
+      budget?: TripBudget | null;
+      categories?: ExpenseCategory[] | null;
+      status?: TripStatus;
+      closedAt?: string | null;
       updatedAt: string;
-    }
+    },
+    expectedVersion: number
   ): Promise<void> {
     const names: Record<string, string> = {
-      "#updatedAt": "updatedAt"
+      "#updatedAt": "updatedAt",
+      "#version": "version"
     };
     const values: Record<string, unknown> = {
-      ":updatedAt": updates.updatedAt
+      ":updatedAt": updates.updatedAt,
+      ":expectedVersion": expectedVersion,
+      ":nextVersion": expectedVersion + 1
     };
-    const setParts: string[] = ["#updatedAt = :updatedAt"];
+    const setParts: string[] = ["#updatedAt = :updatedAt", "#version = :nextVersion"];
     const removeParts: string[] = [];
 
     if (updates.name !== undefined) {
@@ -319,6 +516,54 @@ export class TripStore {
       }
     }
 
+    if (updates.status !== undefined) {
+      names["#status"] = "status";
+      values[":status"] = updates.status;
+      setParts.push("#status = :status");
+    }
+
+    if (updates.closedAt !== undefined) {
+      names["#closedAt"] = "closedAt";
+      if (updates.closedAt === null) {
+        removeParts.push("#closedAt");
+      } else {
+        values[":closedAt"] = updates.closedAt;
+        setParts.push("#closedAt = :closedAt");
+      }
+    }
+
+    // Only the trip item keeps the locale, budget and categories; member rows
+    // are list views.
+    if (updates.locale !== undefined) {
+      names["#locale"] = "locale";
+      if (updates.locale === null) {
+        removeParts.push("#locale");
+      } else {
+        values[":locale"] = updates.locale;
+        setParts.push("#locale = :locale");
+      }
+    }
+
+    if (updates.budget !== undefined) {
+      names["#budget"] = "budget";
+      if (updates.budget === null) {
+        removeParts.push("#budget");
+      } else {
+        values[":budget"] = updates.budget;
+        setParts.push("#budget = :budget");
+      }
+    }
+
+    if (updates.categories !== undefined) {
+      names["#categories"] = "categories";
+      if (updates.categories === null) {
+        removeParts.push("#categories");
+      } else {
+        values[":categories"] = updates.categories;
+        setParts.push("#categories = :categories");
+      }
+    }
+
     const expressions: string[] = [];
     if (setParts.length) {
       expressions.push(`SET ${setParts.join(", ")}`);
@@ -327,18 +572,26 @@ export class TripStore {
       expressions.push(`REMOVE ${removeParts.join(", ")}`);
     }
 
-    await this.docClient.send(
-      new UpdateCommand({
-        TableName: this.tableName,
-        Key: {
-          PK: keys.tripPk(tripId),
-          SK: keys.tripSkMeta
-        },
-        UpdateExpression: expressions.join(" "),
-        ExpressionAttributeNames: names,
-        ExpressionAttributeValues: values
-      })
-    );
+    try {
+      await this.docClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: {
+            PK: keys.tripPk(tripId),
+            SK: keys.tripSkMeta
+          },
+          UpdateExpression: expressions.join(" "),
+          ConditionExpression: versionCondition(expectedVersion),
+          ExpressionAttributeNames: names,
+          ExpressionAttributeValues: values
+        })
+      );
+    } catch (error) {
+      if (isConditionFailure(error)) {
+        throw new ConflictError("Trip was changed by someone else", await this.getTrip(tripId));
+      }
+      throw error;
+    }
 
     const memberIds = Array.from(
       new Set(members.map((member) => member.memberId))
@@ -357,6 +610,8 @@ export class TripStore {
       name?: string;
       startDate?: string | null;
       endDate?: string | null;
+      status?: TripStatus;
+      ownerId?: string;
       updatedAt: string;
     }
   ): Promise<void> {
@@ -395,6 +650,19 @@ export class TripStore {
       }
     }
 
+    // Mirrored so trip lists can filter by lifecycle without loading trips.
+    if (updates.status !== undefined) {
+      names["#tripStatus"] = "tripStatus";
+      values[":tripStatus"] = updates.status;
+      setParts.push("#tripStatus = :tripStatus");
+    }
+
+    if (updates.ownerId !== undefined) {
+      names["#ownerId"] = "ownerId";
+      values[":ownerId"] = updates.ownerId;
+      setParts.push("#ownerId = :ownerId");
+    }
+
     const expressions: string[] = [];
     if (setParts.length) {
       expressions.push(`SET ${setParts.join(", ")}`);
@@ -482,13 +750,17 @@ export class TripStore {
           entityType: "TripMember",
           PK: keys.tripPk(member.tripId),
           SK: keys.memberSk(member.memberId),
-          GSI1PK: `MEMBER#${member.memberId}`,
+          GSI1PK:
+            member.placeholder && member.email
+              ? keys.invitePk(member.email)
+              : keys.memberGsiPk(member.memberId),
           GSI1SK: `TRIP#${trip.tripId}`,
           tripName: trip.name,
           ownerId: trip.ownerId,
           tripStartDate: trip.startDate,
           tripEndDate: trip.endDate,
           currency: trip.currency,
+          tripStatus: trip.status,
           tripCreatedAt: trip.createdAt,
           tripUpdatedAt: trip.updatedAt,
           ...member
@@ -509,6 +781,131 @@ export class TripStore {
     }
   }
 
+  async updateMemberRole(
+    tripId: string,
+    memberId: string,
+    role: TripRole
+  ): Promise<void> {
+    await this.docClient.send(
+      new UpdateCommand({
+        TableName: this.tableName,
+        Key: {
+          PK: keys.tripPk(tripId),
+          SK: keys.memberSk(memberId)
+        },
+        UpdateExpression: "SET #role = :role",
+        ConditionExpression: "attribute_exists(PK)",
+        ExpressionAttributeNames: { "#role": "role" },
+        ExpressionAttributeValues: { ":role": role }
+      })
+    );
+  }
+
+  /**
+   * Hands the trip to another member; the previous owner stays on as an
+   * admin. The trip item and both member rows change together, conditioned
+   * on the current owner, then the remaining member rows pick up the new
+   * owner for trip lists.
+   */
+  async transferOwnership(
+    tripId: string,
+    members: TripMember[],
+    fromMemberId: string,
+    toMemberId: string,
+    updatedAt: string
+  ): Promise<void> {
+    const memberUpdate = (memberId: string, role: TripRole) => ({
+      Update: {
+        TableName: this.tableName,
+        Key: {
+          PK: keys.tripPk(tripId),
+          SK: keys.memberSk(memberId)
+        },
+        UpdateExpression:
+          "SET #role = :role, #ownerId = :ownerId, #tripUpdatedAt = :updatedAt",
+        ConditionExpression: "attribute_exists(PK)",
+        ExpressionAttributeNames: {
+          "#role": "role",
+          "#ownerId": "ownerId",
+          "#tripUpdatedAt": "tripUpdatedAt"
+        },
+        ExpressionAttributeValues: {
+          ":role": role,
+          ":ownerId": toMemberId,
+          ":updatedAt": updatedAt
+        }
+      }
+    });
+
+    await this.docClient.send(
+      new TransactWriteCommand({
+        TransactItems: [
+          {
+            Update: {
+              TableName: this.tableName,
+              Key: {
+                PK: keys.tripPk(tripId),
+                SK: keys.tripSkMeta
+              },
+              UpdateExpression:
+                "SET #ownerId = :to, #updatedAt = :updatedAt, #version = if_not_exists(#version, :zero) + :one",
+              ConditionExpression: "#ownerId = :from",
+              ExpressionAttributeNames: {
+                "#ownerId": "ownerId",
+                "#updatedAt": "updatedAt",
+                "#version": "version"
+              },
+              ExpressionAttributeValues: {
+                ":from": fromMemberId,
+                ":to": toMemberId,
+                ":updatedAt": updatedAt,
+                ":zero": 0,
+                ":one": 1
+              }
+            }
+          },
+          memberUpdate(fromMemberId, "admin"),
+          memberUpdate(toMemberId, "owner")
+        ]
+      })
+    );
+
+    await Promise.all(
+      members
+        .filter(({ memberId }) => memberId !== fromMemberId && memberId !== toMemberId)
+        .map(({ memberId }) =>
+          this.updateMemberTripMetadata(tripId, memberId, {
+            ownerId: toMemberId,
+            updatedAt
+          })
+        )
+    );
+  }
+
+  async listPlaceholderMemberships(email: string): Promise<TripMember[]> {
+    const { Items } = await this.docClient.send(
+      new QueryCommand({
+        TableName: this.tableName,
+        IndexName: "GSI1",
+        KeyConditionExpression: "GSI1PK = :invite",
+        ExpressionAttributeValues: {
+          ":invite": keys.invitePk(email)
+        }
+      })
+    );
+
+    return (Items ?? []).map((item) => ({
+      tripId: item.tripId,
+      memberId: item.memberId,
+      displayName: item.displayName,
+      email: item.email,
+      addedBy: item.addedBy,
+      createdAt: item.createdAt,
+      role: toRole(item),
+      placeholder: true
+    }));
+  }
+
   async deleteMember(tripId: string, memberId: string): Promise<void> {
     await this.docClient.send(
       new DeleteCommand({
@@ -521,13 +918,125 @@ export class TripStore {
     );
   }
 
-  async saveExpense(expense: Expense): Promise<void> {
+  // Creates must not replace an existing item; replacements expect the
+  // version the caller read.
+  private putCondition(expectedVersion: number | undefined) {
+    if (expectedVersion === undefined) {
+      return { ConditionExpression: "attribute_not_exists(PK)" };
+    }
+    return {
+      ConditionExpression: versionCondition(expectedVersion),
+      ExpressionAttributeNames: { "#version": "version" },
+      ExpressionAttributeValues: { ":expectedVersion": expectedVersion }
+    };
+  }
+
+  /**
+   * Writes a whole expense. Without `expectedVersion` it is a create and
+   * fails with a conflict when the expense already exists.
+   */
+  async saveExpense(expense: Expense, expectedVersion?: number): Promise<void> {
     const item: ExpenseEntity = {
       entityType: "Expense",
       PK: keys.tripPk(expense.tripId),
       SK: keys.expenseSk(expense.expenseId),
       ...expense
     };
+    try {
+      await this.docClient.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: item,
+          ...this.putCondition(expectedVersion)
+        })
+      );
+    } catch (error) {
+      if (isConditionFailure(error)) {
+        if (expectedVersion === undefined) {
+          throw new ConflictError(
+            "Expense already exists",
+            await this.getExpense(expense.tripId, expense.expenseId)
+          );
+        }
+        await this.throwExpenseConflict(expense.tripId, expense.expenseId);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Writes many new expenses at once, e.g. from an import. Batch writes are
+   * unconditional, so callers pass ids that are not in use.
+   */
+  async saveExpenses(expenses: Expense[]): Promise<void> {
+    await this.batchPut(
+      expenses.map(
+        (expense): ExpenseEntity => ({
+          entityType: "Expense",
+          PK: keys.tripPk(expense.tripId),
+          SK: keys.expenseSk(expense.expenseId),
+          ...expense
+        })
+      )
+    );
+  }
+
+  async getExpense(tripId: string, expenseId: string): Promise<Expense | null> {
+    const { Item } = await this.docClient.send(
+      new GetCommand({
+        TableName: this.tableName,
+        Key: {
+          PK: keys.tripPk(tripId),
+          SK: keys.expenseSk(expenseId)
+        }
+      })
+    );
+
+    return Item ? toExpense(Item as ExpenseEntity) : null;
+  }
+
+  async deleteExpense(
+    tripId: string,
+    expenseId: string,
+    expectedVersion: number
+  ): Promise<void> {
+    try {
+      await this.docClient.send(
+        new DeleteCommand({
+          TableName: this.tableName,
+          Key: {
+            PK: keys.tripPk(tripId),
+            SK: keys.expenseSk(expenseId)
+          },
+          ConditionExpression: versionCondition(expectedVersion),
+          ExpressionAttributeNames: { "#version": "version" },
+          ExpressionAttributeValues: { ":expectedVersion": expectedVersion }
+        })
+      );
+    } catch (error) {
+      if (isConditionFailure(error)) {
+        await this.throwExpenseConflict(tripId, expenseId);
+      }
+      throw error;
+    }
+  }
+
+  private async throwExpenseConflict(tripId: string, expenseId: string): Promise<never> {
+    const current = await this.getExpense(tripId, expenseId);
+    if (!current) {
+      throw new NotFoundError("Expense was deleted by someone else");
+    }
+    throw new ConflictError("Expense was changed by someone else", current);
+  }
+
+  async saveCategoryRule(tripId: string, rule: CategoryRule): Promise<void> {
+    const item: CategoryRuleEntity = {
+      entityType: "CategoryRule",
+      PK: keys.tripPk(tripId),
+      SK: keys.categoryRuleSk(rule.vendor),
+      tripId,
+      ...rule
+    };
     await this.docClient.send(
       new PutCommand({
         TableName: this.tableName,
@@ -536,16 +1045,29 @@ export class TripStore {
     );
   }
 
-  async deleteExpense(tripId: string, expenseId: string): Promise<void> {
+  async deleteCategoryRule(tripId: string, vendor: string): Promise<void> {
     await this.docClient.send(
       new DeleteCommand({
         TableName: this.tableName,
         Key: {
           PK: keys.tripPk(tripId),
-          SK: keys.expenseSk(expenseId)
+          SK: keys.categoryRuleSk(vendor)
+        }
+      })
+    );
+  }
+
+  async getReceipt(tripId: string, receiptId: string): Promise<Receipt | null> {
+    const { Item } = await this.docClient.send(
+      new GetCommand({
+        TableName: this.tableName,
+        Key: {
+          PK: keys.tripPk(tripId),
+          SK: keys.receiptSk(receiptId)
         }
       })
     );
+    return Item ? toReceipt(Item as ReceiptEntity) : null;
   }
 
   async saveReceipt(receipt: Receipt): Promise<void> {
@@ -566,9 +1088,17 @@ export class TripStore {
   async updateReceiptExtraction(
     tripId: string,
     receiptId: string,
-    updates: Partial<Pick<Receipt, "status" | "extractedData" | "updatedAt">>
+    updates: Partial<
+      Pick<
+        Receipt,
+        "status" | "extractedData" | "documents" | "normalizedKey" | "thumbnailKey" | "updatedAt"
+      >
+    > & {
+      failureReason?: string | null;
+    }
   ): Promise<void> {
     const updateExpressions: string[] = [];
+    const removeExpressions: string[] = [];
     const names: Record<string, string> = {};
     const values: Record<string, unknown> = {};
     let index = 0;
@@ -576,14 +1106,26 @@ export class TripStore {
     for (const [key, value] of Object.entries(updates)) {
       if (value === undefined) continue;
       const attrName = `#attr${index}`;
-      const attrValue = `:val${index}`;
-      updateExpressions.push(`${attrName} = ${attrValue}`);
       names[attrName] = key;
-      values[attrValue] = value;
+      if (value === null) {
+        removeExpressions.push(attrName);
+      } else {
+        const attrValue = `:val${index}`;
+        updateExpressions.push(`${attrName} = ${attrValue}`);
+        values[attrValue] = value;
+      }
       index += 1;
     }
 
-    if (!updateExpressions.length) return;
+    if (!updateExpressions.length && !removeExpressions.length) return;
+
+    const expressions: string[] = [];
+    if (updateExpressions.length) {
+      expressions.push(`SET ${updateExpressions.join(", ")}`);
+    }
+    if (removeExpressions.length) {
+      expressions.push(`REMOVE ${removeExpressions.join(", ")}`);
+    }
 
     await this.docClient.send(
       new UpdateCommand({
@@ -592,31 +1134,78 @@ export class TripStore {
           PK: keys.tripPk(tripId),
           SK: keys.receiptSk(receiptId)
         },
-        UpdateExpression: `SET ${updateExpressions.join(", ")}`,
+        UpdateExpression: expressions.join(" "),
         ExpressionAttributeNames: names,
-        ExpressionAttributeValues: values
+        ExpressionAttributeValues: Object.keys(values).length ? values : undefined
+      })
+    );
+  }
+
+  /**
+   * Marks the receipt as processing and bumps its attempt counter, returning
+   * the new count.
+   */
+  async startReceiptAttempt(
+    tripId: string,
+    receiptId: string,
+    updatedAt: string
+  ): Promise<number> {
+    const { Attributes } = await this.docClient.send(
+      new UpdateCommand({
+        TableName: this.tableName,
+        Key: {
+          PK: keys.tripPk(tripId),
+          SK: keys.receiptSk(receiptId)
+        },
+        UpdateExpression: "SET #status = :status, updatedAt = :updatedAt ADD attempts :one",
+        ExpressionAttributeNames: { "#status": "status" },
+        ExpressionAttributeValues: {
+          ":status": "PROCESSING",
+          ":updatedAt": updatedAt,
+          ":one": 1
+        },
+        ReturnValues: "UPDATED_NEW"
       })
     );
+    return Number(Attributes?.attempts ?? 1);
   }
 
-  async saveSettlement(settlement: Settlement): Promise<void> {
+  /**
+   * Writes a whole settlement. Without `expectedVersion` it is a create and
+   * fails with a conflict when the settlement already exists.
+   */
+  async saveSettlement(settlement: Settlement, expectedVersion?: number): Promise<void> {
     const item: SettlementEntity = {
       entityType: "Settlement",
       PK: keys.tripPk(settlement.tripId),
       SK: keys.settlementSk(settlement.settlementId),
       ...settlement
     };
-    await this.docClient.send(
-      new PutCommand({
-        TableName: this.tableName,
-        Item: item
-      })
-    );
+    try {
+      await this.docClient.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: item,
+          ...this.putCondition(expectedVersion)
+        })
+      );
+    } catch (error) {
+      if (isConditionFailure(error)) {
+        if (expectedVersion === undefined) {
+          throw new ConflictError(
+            "Settlement already exists",
+            await this.getSettlement(settlement.tripId, settlement.settlementId)
+          );
+        }
+        await this.throwSettlementConflict(settlement.tripId, settlement.settlementId);
+      }
+      throw error;
+    }
   }
 
-  async deleteSettlement(tripId: string, settlementId: string): Promise<void> {
-    await this.docClient.send(
-      new DeleteCommand({
+  async getSettlement(tripId: string, settlementId: string): Promise<Settlement | null> {
+    const { Item } = await this.docClient.send(
+      new GetCommand({
         TableName: this.tableName,
         Key: {
           PK: keys.tripPk(tripId),
@@ -624,14 +1213,43 @@ export class TripStore {
         }
       })
     );
+
+    return Item ? toSettlement(Item as SettlementEntity) : null;
+  }
+
+  async deleteSettlement(
+    tripId: string,
+    settlementId: string,
+    expectedVersion: number
+  ): Promise<void> {
+    try {
+      await this.docClient.send(
+        new DeleteCommand({
+          TableName: this.tableName,
+          Key: {
+            PK: keys.tripPk(tripId),
+            SK: keys.settlementSk(settlementId)
+          },
+          ConditionExpression: versionCondition(expectedVersion),
+          ExpressionAttributeNames: { "#version": "version" },
+          ExpressionAttributeValues: { ":expectedVersion": expectedVersion }
+        })
+      );
+    } catch (error) {
+      if (isConditionFailure(error)) {
+        await this.throwSettlementConflict(tripId, settlementId);
+      }
+      throw error;
+    }
   }
 
   async markSettlementConfirmation(
     tripId: string,
     settlementId: string,
-    confirmedAt?: string
+    confirmedAt: string | undefined,
+    expectedVersion: number
   ): Promise<void> {
-    if (confirmedAt) {
+    try {
       await this.docClient.send(
         new UpdateCommand({
           TableName: this.tableName,
@@ -639,24 +1257,313 @@ export class TripStore {
             PK: keys.tripPk(tripId),
             SK: keys.settlementSk(settlementId)
           },
-          UpdateExpression: "SET confirmedAt = :confirmedAt",
+          UpdateExpression: confirmedAt
+            ? "SET confirmedAt = :confirmedAt, #version = :nextVersion"
+            : "SET #version = :nextVersion REMOVE confirmedAt",
+          ConditionExpression: versionCondition(expectedVersion),
+          ExpressionAttributeNames: { "#version": "version" },
           ExpressionAttributeValues: {
-            ":confirmedAt": confirmedAt
+            ":expectedVersion": expectedVersion,
+            ":nextVersion": expectedVersion + 1,
+            ...(confirmedAt ? { ":confirmedAt": confirmedAt } : {})
+          }
+        })
+      );
+    } catch (error) {
+      if (isConditionFailure(error)) {
+        await this.throwSettlementConflict(tripId, settlementId);
+      }
+      throw error;
+    }
+  }
+
+  private async throwSettlementConflict(tripId: string, settlementId: string): Promise<never> {
+    const current = await this.getSettlement(tripId, settlementId);
+    if (!current) {
+      throw new NotFoundError("Settlement was deleted by someone else");
+    }
+    throw new ConflictError("Settlement was changed by someone else", current);
+  }
+
+  /**
+   * Writes a whole template. Without `expectedVersion` it is a create and
+   * fails with a conflict when the template already exists.
+   */
+  async saveRecurringExpense(
+    recurring: RecurringExpense,
+    expectedVersion?: number
+  ): Promise<void> {
+    const active = !recurring.paused && recurring.nextOccurrence;
+    const item: RecurringExpenseEntity = {
+      entityType: "RecurringExpense",
+      PK: keys.tripPk(recurring.tripId),
+      SK: keys.recurringSk(recurring.recurringExpenseId),
+      ...(active
+        ? {
+            GSI1PK: keys.recurringDuePk,
+            GSI1SK: recurringDueSk(recurring)
           }
+        : {}),
+      ...recurring
+    };
+    try {
+      await this.docClient.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: item,
+          ...this.putCondition(expectedVersion)
         })
       );
-    } else {
+    } catch (error) {
+      if (isConditionFailure(error)) {
+        if (expectedVersion === undefined) {
+          throw new ConflictError(
+            "Recurring expense already exists",
+            await this.getRecurringExpense(recurring.tripId, recurring.recurringExpenseId)
+          );
+        }
+        await this.throwRecurringConflict(recurring.tripId, recurring.recurringExpenseId);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Moves a template on after the scheduler has generated occurrences. Only
+   * the schedule fields and due index are written, and only if nobody has
+   * changed or deleted the template since the scheduler read it.
+   */
+  async advanceRecurringExpense(
+    recurring: RecurringExpense,
+    expectedVersion: number
+  ): Promise<void> {
+    const { tripId, recurringExpenseId, nextOccurrence, lastOccurrence } = recurring;
+    const setParts = [
+      "updatedAt = :updatedAt",
+      "#version = :nextVersion",
+      ...(lastOccurrence ? ["lastOccurrence = :lastOccurrence"] : []),
+      ...(nextOccurrence
+        ? ["nextOccurrence = :nextOccurrence", "GSI1PK = :duePk", "GSI1SK = :dueSk"]
+        : [])
+    ];
+    const removeParts = nextOccurrence ? [] : ["nextOccurrence", "GSI1PK", "GSI1SK"];
+    try {
       await this.docClient.send(
         new UpdateCommand({
           TableName: this.tableName,
           Key: {
             PK: keys.tripPk(tripId),
-            SK: keys.settlementSk(settlementId)
+            SK: keys.recurringSk(recurringExpenseId)
           },
-          UpdateExpression: "REMOVE confirmedAt"
+          UpdateExpression: [
+            `SET ${setParts.join(", ")}`,
+            ...(removeParts.length ? [`REMOVE ${removeParts.join(", ")}`] : [])
+          ].join(" "),
+          ConditionExpression: versionCondition(expectedVersion),
+          ExpressionAttributeNames: { "#version": "version" },
+          ExpressionAttributeValues: {
+            ":expectedVersion": expectedVersion,
+            ":nextVersion": expectedVersion + 1,
+            ":updatedAt": recurring.updatedAt,
+            ...(lastOccurrence ? { ":lastOccurrence": lastOccurrence } : {}),
+            ...(nextOccurrence
+              ? {
+                  ":nextOccurrence": nextOccurrence,
+                  ":duePk": keys.recurringDuePk,
+                  ":dueSk": recurringDueSk(recurring)
+                }
+              : {})
+          }
         })
       );
+    } catch (error) {
+      if (isConditionFailure(error)) {
+        await this.throwRecurringConflict(tripId, recurringExpenseId);
+      }
+      throw error;
+    }
+  }
+
+  private async throwRecurringConflict(
+    tripId: string,
+    recurringExpenseId: string
+  ): Promise<never> {
+    let current: RecurringExpense;
+    try {
+      current = await this.getRecurringExpense(tripId, recurringExpenseId);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw new NotFoundError("Recurring expense was deleted by someone else");
+      }
+      throw error;
     }
+    throw new ConflictError("Recurring expense was changed by someone else", current);
+  }
+
+  async getRecurringExpense(
+    tripId: string,
+    recurringExpenseId: string
+  ): Promise<RecurringExpense> {
+    const { Item } = await this.docClient.send(
+      new GetCommand({
+        TableName: this.tableName,
+        Key: {
+          PK: keys.tripPk(tripId),
+          SK: keys.recurringSk(recurringExpenseId)
+        }
+      })
+    );
+
+    if (!Item) {
+      throw new NotFoundError(`Recurring expense ${recurringExpenseId} not found`);
+    }
+
+    return toRecurringExpense(Item as RecurringExpenseEntity);
+  }
+
+  async listRecurringExpenses(tripId: string): Promise<RecurringExpense[]> {
+    const { Items } = await this.docClient.send(
+      new QueryCommand({
+        TableName: this.tableName,
+        KeyConditionExpression: "PK = :pk AND begins_with(SK, :prefix)",
+        ExpressionAttributeValues: {
+          ":pk": keys.tripPk(tripId),
+          ":prefix": "RECURRING#"
+        }
+      })
+    );
+
+    return (Items ?? []).map((item) => toRecurringExpense(item as RecurringExpenseEntity));
+  }
+
+  async listDueRecurringExpenses(asOfDate: string): Promise<RecurringExpense[]> {
+    const due: RecurringExpense[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+    do {
+      const { Items, LastEvaluatedKey } = await this.docClient.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          IndexName: "GSI1",
+          KeyConditionExpression: "GSI1PK = :pk AND GSI1SK <= :asOf",
+          ExpressionAttributeValues: {
+            ":pk": keys.recurringDuePk,
+            // "~" sorts after the "#tripId#id" suffix so the whole day is included.
+            ":asOf": `${asOfDate}~`
+          },
+          ExclusiveStartKey: exclusiveStartKey
+        })
+      );
+      due.push(
+        ...(Items ?? []).map((item) => toRecurringExpense(item as RecurringExpenseEntity))
+      );
+      exclusiveStartKey = LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return due;
+  }
+
+  async deleteRecurringExpense(
+    tripId: string,
+    recurringExpenseId: string
+  ): Promise<void> {
+    await this.docClient.send(
+      new DeleteCommand({
+        TableName: this.tableName,
+        Key: {
+          PK: keys.tripPk(tripId),
+          SK: keys.recurringSk(recurringExpenseId)
+        }
+      })
+    );
+  }
+
+  async saveActivity(activity: TripActivity): Promise<void> {
+    const item: TripActivityEntity = {
+      entityType: "TripActivity",
+      PK: keys.activityPk(activity.tripId),
+      SK: keys.activitySk(activity.createdAt, activity.activityId),
+      ...activity
+    };
+    await this.docClient.send(
+      new PutCommand({
+        TableName: this.tableName,
+        Item: item
+      })
+    );
+  }
+
+  async saveActivities(activities: TripActivity[]): Promise<void> {
+    await this.batchPut(
+      activities.map(
+        (activity): TripActivityEntity => ({
+          entityType: "TripActivity",
+          PK: keys.activityPk(activity.tripId),
+          SK: keys.activitySk(activity.createdAt, activity.activityId),
+          ...activity
+        })
+      )
+    );
+  }
+
+  // DynamoDB takes 25 puts per batch and may hand some back when throttled;
+  // those are resent with a short backoff.
+  private async batchPut(items: Array<{ PK: string; SK: string }>): Promise<void> {
+    const chunkSize = 25;
+    for (let i = 0; i < items.length; i += chunkSize) {
+      let requests = items
+        .slice(i, i + chunkSize)
+        .map((item) => ({ PutRequest: { Item: item } }));
+      for (let attempt = 0; requests.length; attempt += 1) {
+        if (attempt === MAX_BATCH_ATTEMPTS) {
+          throw new Error(`Failed to write ${requests.length} items after ${attempt} attempts`);
+        }
+        if (attempt > 0) {
+          await new Promise((resolve) => setTimeout(resolve, 50 * 2 ** attempt));
+        }
+        const { UnprocessedItems } = await this.docClient.send(
+          new BatchWriteCommand({
+            RequestItems: { [this.tableName]: requests }
+          })
+        );
+        requests = (UnprocessedItems?.[this.tableName] ?? []) as typeof requests;
+      }
+    }
+  }
+
+  async listActivity(
+    tripId: string,
+    options: { limit: number; cursor?: string }
+  ): Promise<{ items: TripActivity[]; nextCursor?: string }> {
+    const { Items, LastEvaluatedKey } = await this.docClient.send(
+      new QueryCommand({
+        TableName: this.tableName,
+        KeyConditionExpression: "PK = :pk",
+        ExpressionAttributeValues: {
+          ":pk": keys.activityPk(tripId)
+        },
+        ScanIndexForward: false,
+        Limit: options.limit,
+        ExclusiveStartKey: options.cursor
+          ? decodeCursor(options.cursor, keys.activityPk(tripId))
+          : undefined
+      })
+    );
+
+    const items: TripActivity[] = (Items ?? []).map((item) => ({
+      tripId,
+      activityId: item.activityId,
+      type: item.type,
+      actorId: item.actorId,
+      entityId: item.entityId,
+      before: item.before,
+      after: item.after,
+      createdAt: item.createdAt
+    }));
+
+    return {
+      items,
+      nextCursor: LastEvaluatedKey ? encodeCursor(LastEvaluatedKey) : undefined
+    };
   }
 
   async batchGetTrips(tripIds: string[]): Promise<Trip[]> {
@@ -683,36 +1590,63 @@ export class TripStore {
   async updateExpenseAllocations(
     tripId: string,
     expenseId: string,
-    updates: Partial<Pick<Expense, "allocations" | "sharedWithMemberIds" | "tax" | "tip" | "total" | "updatedAt">>
+    updates: Partial<Pick<Expense, "allocations" | "sharedWithMemberIds" | "tax" | "tip" | "total" | "exchangeRate" | "split" | "updatedAt">> & {
+      lineItems?: Expense["lineItems"] | null;
+      category?: string | null;
+      draft?: null;
+    },
+    expectedVersion: number
   ): Promise<void> {
-    const updateExpressions: string[] = [];
-    const names: Record<string, string> = {};
-    const values: Record<string, unknown> = {};
+    const updateExpressions: string[] = ["#version = :nextVersion"];
+    const removeExpressions: string[] = [];
+    const names: Record<string, string> = { "#version": "version" };
+    const values: Record<string, unknown> = {
+      ":expectedVersion": expectedVersion,
+      ":nextVersion": expectedVersion + 1
+    };
     let index = 0;
 
     for (const [key, value] of Object.entries(updates)) {
       if (value === undefined) continue;
       const attrName = `#attr${index}`;
-      const attrValue = `:val${index}`;
-      updateExpressions.push(`${attrName} = ${attrValue}`);
       names[attrName] = key;
-      values[attrValue] = value;
+      if (value === null) {
+        removeExpressions.push(attrName);
+      } else {
+        const attrValue = `:val${index}`;
+        updateExpressions.push(`${attrName} = ${attrValue}`);
+        values[attrValue] = value;
+      }
       index += 1;
     }
 
-    if (!updateExpressions.length) return;
+    const expressions: string[] = [];
+    if (updateExpressions.length) {
+      expressions.push(`SET ${updateExpressions.join(", ")}`);
+    }
+    if (removeExpressions.length) {
+      expressions.push(`REMOVE ${removeExpressions.join(", ")}`);
+    }
 
-    await this.docClient.send(
-      new UpdateCommand({
-        TableName: this.tableName,
-        Key: {
-          PK: keys.tripPk(tripId),
-          SK: keys.expenseSk(expenseId)
-        },
-        UpdateExpression: `SET ${updateExpressions.join(", ")}`,
-        ExpressionAttributeNames: names,
-        ExpressionAttributeValues: values
-      })
-    );
+    try {
+      await this.docClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: {
+            PK: keys.tripPk(tripId),
+            SK: keys.expenseSk(expenseId)
+          },
+          UpdateExpression: expressions.join(" "),
+          ConditionExpression: versionCondition(expectedVersion),
+          ExpressionAttributeNames: names,
+          ExpressionAttributeValues: values
+        })
+      );
+    } catch (error) {
+      if (isConditionFailure(error)) {
+        await this.throwExpenseConflict(tripId, expenseId);
+      }
+      throw error;
+    }
   }
 }
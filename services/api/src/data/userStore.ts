@@ -9,10 +9,11 @@ import type { UpdateCommandInput } from "@aws-sdk/lib-dynamodb";
 import { getDocumentClient } from "./dynamo.js";
 import { loadConfig } from "../config.js";
 import type { AuthContext } from "../auth.js";
-import type { UserProfile } from "../types.js";
+import type { CategoryRule, ExpenseCategory, UserProfile } from "../types.js";
 
 const userPk = (userId: string) => `USER#${userId}`;
 const userSk = "PROFILE";
+const categoryRulePrefix = "CATEGORY_RULE#";
 const emailPartitionKey = "EMAIL";
 const emailSortKey = (email: string) => `EMAIL#${email.toLowerCase()}`;
 const namePartitionKey = "NAME";
@@ -25,6 +26,8 @@ const mapToProfile = (item: Record<string, unknown>): UserProfile => ({
   email: (item.email as string) || undefined,
   displayNameLower: (item.displayNameLower as string) || undefined,
   paymentMethods: item.paymentMethods as UserProfile["paymentMethods"],
+  defaultCategories: item.defaultCategories as UserProfile["defaultCategories"],
+  placeholdersClaimedAt: (item.placeholdersClaimedAt as string) || undefined,
   createdAt: item.createdAt as string,
   updatedAt: item.updatedAt as string
 });
@@ -269,4 +272,74 @@ export class UserStore {
 
     await this.docClient.send(new UpdateCommand(params));
   }
+
+  async updateDefaultCategories(
+    userId: string,
+    categories: ExpenseCategory[] | null
+  ): Promise<void> {
+    const params: UpdateCommandInput = {
+      TableName: this.tableName,
+      Key: { PK: userPk(userId), SK: userSk },
+      ConditionExpression: "attribute_exists(PK)",
+      UpdateExpression: categories
+        ? "SET #categories = :categories, updatedAt = :updatedAt"
+        : "REMOVE #categories SET updatedAt = :updatedAt",
+      ExpressionAttributeNames: { "#categories": "defaultCategories" },
+      ExpressionAttributeValues: {
+        ":updatedAt": new Date().toISOString(),
+        ...(categories ? { ":categories": categories } : {})
+      }
+    };
+
+    await this.docClient.send(new UpdateCommand(params));
+  }
+
+  async markPlaceholdersClaimed(userId: string): Promise<void> {
+    const now = new Date().toISOString();
+    await this.docClient.send(
+      new UpdateCommand({
+        TableName: this.tableName,
+        Key: { PK: userPk(userId), SK: userSk },
+        ConditionExpression: "attribute_exists(PK)",
+        UpdateExpression: "SET placeholdersClaimedAt = :now, updatedAt = :now",
+        ExpressionAttributeValues: { ":now": now }
+      })
+    );
+  }
+
+  // Rules a user has taught in any trip, stored beside their profile.
+  async listCategoryRules(userId: string): Promise<CategoryRule[]> {
+    const { Items } = await this.docClient.send(
+      new QueryCommand({
+        TableName: this.tableName,
+        KeyConditionExpression: "PK = :pk AND begins_with(SK, :prefix)",
+        ExpressionAttributeValues: {
+          ":pk": userPk(userId),
+          ":prefix": categoryRulePrefix
+        }
+      })
+    );
+
+    return (Items ?? []).map((item) => ({
+      vendor: item.vendor as string,
+      category: item.category as string,
+      source: item.source as CategoryRule["source"],
+      updatedAt: item.updatedAt as string,
+      updatedBy: item.updatedBy as string
+    }));
+  }
+
+  async saveCategoryRule(userId: string, rule: CategoryRule): Promise<void> {
+    await this.docClient.send(
+      new PutCommand({
+        TableName: this.tableName,
+        Item: {
+          entityType: "UserCategoryRule",
+          PK: userPk(userId),
+          SK: `${categoryRulePrefix}${rule.vendor}`,
+          ...rule
+        }
+      })
+    );
+  }
 }
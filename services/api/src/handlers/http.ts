@@ -1,17 +1,25 @@
+import { createHash } from "node:crypto";
 import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
 import { TripService } from "../services/tripService.js";
 import { UserService } from "../services/userService.js";
 import { HarmonyLedgerService } from "../services/harmonyLedgerService.js";
 import { StackTimeService } from "../services/stackTimeService.js";
-import { getAuthContext } from "../auth.js";
+import { IdempotencyStore } from "../data/idempotencyStore.js";
+import { getAuthContext, type AuthContext } from "../auth.js";
 import {
   handleError,
+  file,
   json,
   parseBody,
   preflightResponse,
   corsHeaders
 } from "../lib/http.js";
-import { ValidationError } from "../lib/errors.js";
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError
+} from "../lib/errors.js";
 
 const tripService = new TripService();
 const userService = new UserService();
@@ -26,6 +34,77 @@ const noContent = (origin: string): APIGatewayProxyResultV2 => ({
   headers: corsHeaders(origin)
 });
 
+let idempotencyStore: IdempotencyStore | null = null;
+const getIdempotencyStore = () => {
+  if (!idempotencyStore) {
+    idempotencyStore = new IdempotencyStore();
+  }
+  return idempotencyStore;
+};
+
+/**
+ * Runs a create at most once per `Idempotency-Key`, so offline clients can
+ * replay queued requests after reconnecting. A repeated key gets the first
+ * response back; requests without the header run as usual.
+ */
+const withIdempotency = async (
+  event: APIGatewayProxyEventV2,
+  auth: AuthContext,
+  origin: string,
+  run: () => Promise<APIGatewayProxyResultV2>
+): Promise<APIGatewayProxyResultV2> => {
+  const key = event.headers?.["idempotency-key"]?.trim();
+  if (!key) {
+    return run();
+  }
+  if (key.length > 255) {
+    throw new ValidationError("Idempotency-Key must be at most 255 characters");
+  }
+
+  const fingerprint = createHash("sha256")
+    .update(`${event.requestContext.http.method} ${event.rawPath}\n${event.body ?? ""}`)
+    .digest("hex");
+  const store = getIdempotencyStore();
+  const existing = await store.claim(auth.userId, key, fingerprint);
+  if (existing) {
+    if (existing.fingerprint !== fingerprint) {
+      throw new ValidationError("Idempotency-Key was already used for a different request");
+    }
+    if (existing.status === "IN_PROGRESS") {
+      throw new ConflictError("A request with this Idempotency-Key is still in progress", null);
+    }
+    const replayed = json(
+      existing.statusCode ?? 200,
+      existing.responseBody ? JSON.parse(existing.responseBody) : undefined,
+      origin
+    );
+    return { ...replayed, headers: { ...replayed.headers, "Idempotent-Replayed": "true" } };
+  }
+
+  try {
+    const response = await run();
+    if (typeof response === "string") {
+      await store.complete(auth.userId, key, 200, response);
+    } else {
+      await store.complete(auth.userId, key, response.statusCode ?? 200, response.body);
+    }
+    return response;
+  } catch (error) {
+    // These are raised while checking the request, before anything is
+    // written, so the key is freed. Anything else may have failed after the
+    // item was saved; the key stays held until its lease lapses.
+    if (
+      error instanceof ValidationError ||
+      error instanceof ForbiddenError ||
+      error instanceof NotFoundError ||
+      error instanceof ConflictError
+    ) {
+      await store.release(auth.userId, key);
+    }
+    throw error;
+  }
+};
+
 const parseAllowedOrigins = (): string[] => {
   if (process.env.ALLOWED_ORIGINS) {
     return process.env.ALLOWED_ORIGINS.split(",")
@@ -83,6 +162,12 @@ export const handler = async (
       return ok({ profile }, origin);
     }
 
+    if (path === "/profile/categories" && method === "PATCH") {
+      const body = parseBody(event);
+      const profile = await userService.updateDefaultCategories(body, auth);
+      return ok({ profile }, origin);
+    }
+
     if (path === "/harmony-ledger/access" && method === "GET") {
       const response = await harmonyLedgerService.getAccessOverview(auth);
       return ok(response, origin);
@@ -207,9 +292,11 @@ export const handler = async (
     }
 
     if (path === "/stack-time/entries" && method === "POST") {
-      const body = parseBody(event);
-      const entry = await stackTimeService.createEntry(body, auth);
-      return created(entry, origin);
+      return withIdempotency(event, auth, origin, async () => {
+        const body = parseBody(event);
+        const entry = await stackTimeService.createEntry(body, auth);
+        return created(entry, origin);
+      });
     }
 
     const stackTimeEntryMatch = path.match(/^\/stack-time\/entries\/([^/]+)$/);
@@ -270,7 +357,10 @@ export const handler = async (
     }
 
     if (method === "GET" && path === "/trips") {
-      const trips = await tripService.listTrips(auth);
+      const trips = await tripService.listTrips(
+        auth,
+        event.queryStringParameters ?? {}
+      );
       return ok({ trips }, origin);
     }
 
@@ -296,6 +386,55 @@ export const handler = async (
         return ok(trip, origin);
       }
 
+      if (remainder === "/close" && method === "POST") {
+        const body = parseBody(event);
+        const trip = await tripService.closeTrip(tripId, body, auth);
+        return ok(trip, origin);
+      }
+
+      if (remainder === "/reopen" && method === "POST") {
+        const trip = await tripService.reopenTrip(tripId, auth);
+        return ok(trip, origin);
+      }
+
+      if (remainder === "/analytics" && method === "GET") {
+        const analytics = await tripService.getTripAnalytics(tripId, auth);
+        return ok(analytics, origin);
+      }
+
+      if (remainder === "/settle-up" && method === "GET") {
+        const plan = await tripService.getSettleUpPlan(
+          tripId,
+          event.queryStringParameters ?? {},
+          auth
+        );
+        return ok(plan, origin);
+      }
+
+      if (remainder === "/export" && method === "GET") {
+        const exported = await tripService.exportTrip(
+          tripId,
+          event.queryStringParameters ?? {},
+          auth
+        );
+        return file(exported.body, exported.contentType, exported.fileName, origin);
+      }
+
+      if (remainder === "/imports" && method === "POST") {
+        const body = parseBody(event);
+        const result = await tripService.importExpenses(tripId, body, auth);
+        return result.dryRun ? ok(result, origin) : created(result, origin);
+      }
+
+      if (remainder === "/activity" && method === "GET") {
+        const activity = await tripService.listActivity(
+          tripId,
+          event.queryStringParameters ?? {},
+          auth
+        );
+        return ok(activity, origin);
+      }
+
       if (remainder === "/members" && method === "POST") {
         const body = parseBody(event);
         const members = await tripService.addMembers(tripId, body, auth);
@@ -309,14 +448,33 @@ export const handler = async (
       const memberMatch = remainder.match(/^\/members\/([^/]+)$/);
       if (memberMatch && method === "DELETE") {
         const memberId = decodeURIComponent(memberMatch[1]);
-        await tripService.removeMember(tripId, memberId, auth);
+        await tripService.removeMember(
+          tripId,
+          memberId,
+          event.queryStringParameters ?? {},
+          auth
+        );
         return noContent(origin);
       }
+      if (memberMatch && method === "PATCH") {
+        const memberId = decodeURIComponent(memberMatch[1]);
+        const body = parseBody(event);
+        const member = await tripService.updateMemberRole(tripId, memberId, body, auth);
+        return ok(member, origin);
+      }
 
-      if (remainder === "/expenses" && method === "POST") {
+      if (remainder === "/transfer-ownership" && method === "POST") {
         const body = parseBody(event);
-        const expense = await tripService.createExpense(tripId, body, auth);
-        return created(expense, origin);
+        const trip = await tripService.transferOwnership(tripId, body, auth);
+        return ok(trip, origin);
+      }
+
+      if (remainder === "/expenses" && method === "POST") {
+        return withIdempotency(event, auth, origin, async () => {
+          const body = parseBody(event);
+          const expense = await tripService.createExpense(tripId, body, auth);
+          return created(expense, origin);
+        });
       }
 
       const expenseMatch = remainder.match(/^\/expenses\/([^/]+)$/);
@@ -328,10 +486,70 @@ export const handler = async (
       }
       if (expenseMatch && method === "DELETE") {
         const expenseId = decodeURIComponent(expenseMatch[1]);
-        await tripService.deleteExpense(tripId, expenseId, auth);
+        await tripService.deleteExpense(
+          tripId,
+          expenseId,
+          event.queryStringParameters ?? {},
+          auth
+        );
+        return noContent(origin);
+      }
+
+      if (remainder === "/category-rules" && method === "POST") {
+        const body = parseBody(event);
+        const rule = await tripService.saveCategoryRule(tripId, body, auth);
+        return created(rule, origin);
+      }
+
+      const categoryRuleMatch = remainder.match(/^\/category-rules\/([^/]+)$/);
+      if (categoryRuleMatch && method === "DELETE") {
+        const vendor = decodeURIComponent(categoryRuleMatch[1]);
+        await tripService.deleteCategoryRule(tripId, vendor, auth);
         return noContent(origin);
       }
 
+      if (remainder === "/recurring-expenses" && method === "GET") {
+        const recurringExpenses = await tripService.listRecurringExpenses(tripId, auth);
+        return ok({ recurringExpenses }, origin);
+      }
+
+      if (remainder === "/recurring-expenses" && method === "POST") {
+        const body = parseBody(event);
+        const recurring = await tripService.createRecurringExpense(tripId, body, auth);
+        return created(recurring, origin);
+      }
+
+      const recurringMatch = remainder.match(/^\/recurring-expenses\/([^/]+)$/);
+      if (recurringMatch && method === "PATCH") {
+        const recurringExpenseId = decodeURIComponent(recurringMatch[1]);
+        const body = parseBody(event);
+        const recurring = await tripService.updateRecurringExpense(
+          tripId,
+          recurringExpenseId,
+          body,
+          auth
+        );
+        return ok(recurring, origin);
+      }
+      if (recurringMatch && method === "DELETE") {
+        const recurringExpenseId = decodeURIComponent(recurringMatch[1]);
+        await tripService.deleteRecurringExpense(tripId, recurringExpenseId, auth);
+        return noContent(origin);
+      }
+
+      const recurringSkipMatch = remainder.match(/^\/recurring-expenses\/([^/]+)\/skip$/);
+      if (recurringSkipMatch && method === "POST") {
+        const recurringExpenseId = decodeURIComponent(recurringSkipMatch[1]);
+        const body = parseBody(event);
+        const recurring = await tripService.skipRecurringOccurrence(
+          tripId,
+          recurringExpenseId,
+          body,
+          auth
+        );
+        return ok(recurring, origin);
+      }
+
       if (remainder === "/receipts" && method === "POST") {
         const body = parseBody(event);
         const receipt = await tripService.createReceipt(tripId, body, auth);
@@ -340,8 +558,28 @@ export const handler = async (
 
       if (remainder === "/receipts/analyze" && method === "POST") {
         const body = parseBody(event);
-        const extraction = await tripService.analyzeReceiptLive(tripId, body, auth);
-        return ok({ extraction }, origin);
+        const documents = await tripService.analyzeReceiptLive(tripId, body, auth);
+        return ok({ extraction: documents[0] ?? {}, documents }, origin);
+      }
+
+      const receiptExpensesMatch = remainder.match(/^\/receipts\/([^/]+)\/expenses$/);
+      if (receiptExpensesMatch && method === "POST") {
+        const receiptId = decodeURIComponent(receiptExpensesMatch[1]);
+        const body = parseBody(event);
+        const expenses = await tripService.createExpensesFromReceipt(
+          tripId,
+          receiptId,
+          body,
+          auth
+        );
+        return created(expenses, origin);
+      }
+
+      const receiptReprocessMatch = remainder.match(/^\/receipts\/([^/]+)\/reprocess$/);
+      if (receiptReprocessMatch && method === "POST") {
+        const receiptId = decodeURIComponent(receiptReprocessMatch[1]);
+        const receipt = await tripService.reprocessReceipt(tripId, receiptId, auth);
+        return ok(receipt, origin);
       }
 
       const receiptMatch = remainder.match(/^\/receipts\/([^/]+)$/);
@@ -352,9 +590,11 @@ export const handler = async (
       }
 
       if (remainder === "/settlements" && method === "POST") {
-        const body = parseBody(event);
-        const settlement = await tripService.recordSettlement(tripId, body, auth);
-        return created(settlement, origin);
+        return withIdempotency(event, auth, origin, async () => {
+          const body = parseBody(event);
+          const settlement = await tripService.recordSettlement(tripId, body, auth);
+          return created(settlement, origin);
+        });
       }
 
       const settlementMatch = remainder.match(/^\/settlements\/([^/]+)$/);
@@ -366,7 +606,12 @@ export const handler = async (
       }
       if (settlementMatch && method === "DELETE") {
         const settlementId = decodeURIComponent(settlementMatch[1]);
-        await tripService.deleteSettlement(tripId, settlementId, auth);
+        await tripService.deleteSettlement(
+          tripId,
+          settlementId,
+          event.queryStringParameters ?? {},
+          auth
+        );
         return noContent(origin);
       }
     }
@@ -0,0 +1,56 @@
+import type { Context, SQSBatchResponse, SQSEvent } from "aws-lambda";
+import { claimPlaceholderMembers } from "../services/memberClaimService.js";
+import {
+  isPlaceholderClaimMessage,
+  type PlaceholderClaimMessage
+} from "../services/memberClaimQueueService.js";
+
+/** Time kept back for reporting the batch once claiming stops. */
+const DEADLINE_MARGIN_MS = 10_000;
+
+const parseMessage = (body: string): PlaceholderClaimMessage | null => {
+  try {
+    const parsed = JSON.parse(body) as unknown;
+    if (isPlaceholderClaimMessage(parsed)) return parsed;
+  } catch {
+    // Reported below.
+  }
+  console.warn("Unable to parse member claim message", body);
+  return null;
+};
+
+/**
+ * Finishes placeholder claims handed over by the sign-up trigger. A message
+ * whose user still has unclaimed trips when time runs out is reported as a
+ * failure so SQS redelivers it; claimed trips are not touched again.
+ */
+export const handler = async (
+  event: SQSEvent,
+  context: Context
+): Promise<SQSBatchResponse> => {
+  const batchItemFailures: SQSBatchResponse["batchItemFailures"] = [];
+  const deadline = Date.now() + context.getRemainingTimeInMillis() - DEADLINE_MARGIN_MS;
+
+  for (const message of event.Records) {
+    const user = parseMessage(message.body);
+    if (!user) continue;
+
+    try {
+      let result = await claimPlaceholderMembers(user, deadline);
+      while (result.remainingTripIds.length && result.claimedTripIds.length) {
+        result = await claimPlaceholderMembers(user, deadline);
+      }
+      if (result.remainingTripIds.length) {
+        batchItemFailures.push({ itemIdentifier: message.messageId });
+      }
+    } catch (error) {
+      console.error("Failed to claim placeholder trip members", {
+        userId: user.userId,
+        error
+      });
+      batchItemFailures.push({ itemIdentifier: message.messageId });
+    }
+  }
+
+  return { batchItemFailures };
+};
@@ -1,4 +1,4 @@
-import type { PostConfirmationTriggerEvent } from "aws-lambda";
+import type { Context, PostConfirmationTriggerEvent } from "aws-lambda";
 import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import {
   DynamoDBDocumentClient,
@@ -6,6 +6,8 @@ import {
   PutCommand,
   UpdateCommand
 } from "@aws-sdk/lib-dynamodb";
+import { claimPlaceholderMembers as claimPlaceholders } from "../services/memberClaimService.js";
+import { enqueuePlaceholderClaim } from "../services/memberClaimQueueService.js";
 
 const TABLE_NAME = process.env.TABLE_NAME;
 const client = DynamoDBDocumentClient.from(new DynamoDBClient({}));
@@ -18,7 +20,54 @@ const namePartitionKey = "NAME";
 const nameSortKey = (name: string, userId: string) =>
   `NAME#${name.toLowerCase()}#${userId}`;
 
-export const handler = async (event: PostConfirmationTriggerEvent) => {
+/**
+ * Cognito waits about five seconds for this trigger before retrying it, so
+ * claims stop starting this long after the invocation began.
+ */
+const CLAIM_BUDGET_MS = 2500;
+
+// Trips that invited this email before sign-up get the new user in place of
+// the placeholder. Only a verified email is trusted with them. Whatever the
+// trigger has no time for, or fails on, is handed to the member claim queue;
+// failures there are logged rather than blocking confirmation.
+const claimPlaceholderMembers = async (
+  userId: string,
+  email: string | undefined,
+  emailVerified: boolean,
+  displayName: string,
+  deadline: number
+) => {
+  if (!email || !emailVerified) {
+    return;
+  }
+  const user = { userId, email, displayName };
+  try {
+    const { claimedTripIds, remainingTripIds } = await claimPlaceholders(user, deadline);
+    if (claimedTripIds.length || remainingTripIds.length) {
+      console.info("Claimed placeholder trip members", {
+        userId,
+        claimedTripIds,
+        remainingTripIds
+      });
+    }
+    if (!remainingTripIds.length) {
+      return;
+    }
+  } catch (error) {
+    console.error("Failed to claim placeholder trip members", { userId, error });
+  }
+  try {
+    await enqueuePlaceholderClaim(user);
+  } catch (error) {
+    console.error("Failed to queue placeholder trip members", { userId, error });
+  }
+};
+
+export const handler = async (
+  event: PostConfirmationTriggerEvent,
+  _context: Context
+) => {
+  const claimDeadline = Date.now() + CLAIM_BUDGET_MS;
   if (!TABLE_NAME) {
     throw new Error("TABLE_NAME environment variable is required");
   }
@@ -30,6 +79,7 @@ export const handler = async (event: PostConfirmationTriggerEvent) => {
 
   const attributes = event.request.userAttributes ?? {};
   const email = attributes.email;
+  const emailVerified = attributes.email_verified === "true";
   const preferredName =
     attributes.name ??
     (email ? email.split("@")[0] : undefined) ??
@@ -84,6 +134,13 @@ export const handler = async (event: PostConfirmationTriggerEvent) => {
       })
     );
 
+    await claimPlaceholderMembers(
+      userId,
+      email,
+      emailVerified,
+      preferredName,
+      claimDeadline
+    );
     return event;
   }
 
@@ -141,5 +198,12 @@ export const handler = async (event: PostConfirmationTriggerEvent) => {
     );
   }
 
+  await claimPlaceholderMembers(
+    userId,
+    email,
+    emailVerified,
+    preferredName,
+    claimDeadline
+  );
   return event;
 };
@@ -0,0 +1,12 @@
+import type { ScheduledEvent, Context } from "aws-lambda";
+import { TripService } from "../services/tripService.js";
+
+const tripService = new TripService();
+
+export const handler = async (event: ScheduledEvent, _context: Context): Promise<void> => {
+  const asOfDate = (event.time ? new Date(event.time) : new Date())
+    .toISOString()
+    .slice(0, 10);
+  const result = await tripService.processDueRecurringExpenses(asOfDate);
+  console.info("Processed recurring expenses", { asOfDate, ...result });
+};
@@ -1,10 +1,19 @@
-import type { S3Event, Context, S3EventRecord } from "aws-lambda";
-import { TripStore } from "../data/tripStore.js";
-import { analyzeReceipt } from "../services/textractService.js";
-
-const tripStore = new TripStore();
-
-const isoNow = () => new Date().toISOString();
+import type {
+  Context,
+  S3Event,
+  S3EventRecord,
+  SQSBatchResponse,
+  SQSEvent
+} from "aws-lambda";
+import {
+  processReceipt,
+  reprocessStoredReceipt,
+  MAX_RECEIPT_ATTEMPTS
+} from "../services/receiptProcessingService.js";
+import {
+  isReceiptReprocessMessage,
+  type ReceiptReprocessMessage
+} from "../services/receiptQueueService.js";
 
 interface ReceiptIdentifier {
   tripId: string;
@@ -24,35 +33,72 @@ const extractIds = (record: S3EventRecord): ReceiptIdentifier | null => {
   };
 };
 
-export const handler = async (event: S3Event, _context: Context): Promise<void> => {
-  await Promise.all(
-    event.Records.map(async (record) => {
+// The queue carries S3 upload notifications and reprocess requests from the
+// API.
+const parseMessage = (body: string): S3EventRecord[] | ReceiptReprocessMessage => {
+  try {
+    const parsed = JSON.parse(body) as unknown;
+    if (isReceiptReprocessMessage(parsed)) return parsed;
+    const notification = parsed as Partial<S3Event> & { Event?: string };
+    // S3 sends a one-off s3:TestEvent when the notification is configured.
+    if (notification.Event === "s3:TestEvent") return [];
+    return notification.Records ?? [];
+  } catch {
+    console.warn("Unable to parse receipt queue message", body);
+    return [];
+  }
+};
+
+/**
+ * Consumes S3 upload notifications and reprocess requests from the receipt
+ * queue. Messages whose receipts hit a transient error are reported back as
+ * failures so SQS redelivers them; after MAX_RECEIPT_ATTEMPTS they move to
+ * the dead-letter queue.
+ */
+export const handler = async (
+  event: SQSEvent,
+  _context: Context
+): Promise<SQSBatchResponse> => {
+  const batchItemFailures: SQSBatchResponse["batchItemFailures"] = [];
+
+  for (const message of event.Records) {
+    const receiveCount = Number(message.attributes.ApproximateReceiveCount ?? "1");
+    const finalAttempt = receiveCount >= MAX_RECEIPT_ATTEMPTS;
+    let retry = false;
+    const parsed = parseMessage(message.body);
+
+    if (!Array.isArray(parsed)) {
+      const { tripId, receiptId } = parsed;
+      try {
+        const result = await reprocessStoredReceipt(tripId, receiptId, { finalAttempt });
+        retry = result?.retryable ?? false;
+      } catch (error) {
+        console.error("Failed to record receipt processing", { tripId, receiptId, error });
+        retry = true;
+      }
+    }
+
+    for (const record of Array.isArray(parsed) ? parsed : []) {
       const ids = extractIds(record);
-      if (!ids) return;
-      const { tripId, receiptId } = ids;
-      const bucket = record.s3.bucket.name;
-      const key = decodeURIComponent(record.s3.object.key);
+      if (!ids) continue;
 
       try {
-        await tripStore.updateReceiptExtraction(tripId, receiptId, {
-          status: "PROCESSING",
-          updatedAt: isoNow()
-        });
-
-        const extractedData = await analyzeReceipt(bucket, key);
-
-        await tripStore.updateReceiptExtraction(tripId, receiptId, {
-          status: "COMPLETED",
-          extractedData,
-          updatedAt: isoNow()
-        });
+        const result = await processReceipt(
+          record.s3.bucket.name,
+          { ...ids, storageKey: decodeURIComponent(record.s3.object.key) },
+          { finalAttempt }
+        );
+        retry = retry || result.retryable;
       } catch (error) {
-        console.error("Failed to process receipt", { tripId, receiptId, error });
-        await tripStore.updateReceiptExtraction(tripId, receiptId, {
-          status: "FAILED",
-          updatedAt: isoNow()
-        });
+        console.error("Failed to record receipt processing", { ...ids, error });
+        retry = true;
       }
-    })
-  );
+    }
+
+    if (retry) {
+      batchItemFailures.push({ itemIdentifier: message.messageId });
+    }
+  }
+
+  return { batchItemFailures };
 };
@@ -0,0 +1,72 @@
+import type {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+  APIGatewayProxyWebsocketEventV2
+} from "aws-lambda";
+import { z } from "zod";
+import { getAuthContext } from "../auth.js";
+import { ForbiddenError, NotFoundError, ValidationError } from "../lib/errors.js";
+import {
+  removeConnection,
+  subscribeToTrip,
+  unsubscribeFromTrip
+} from "../services/realtimeService.js";
+
+const messageSchema = z.object({
+  action: z.enum(["subscribe", "unsubscribe"]),
+  tripId: z.string().min(1)
+});
+
+const respond = (statusCode: number, body?: unknown): APIGatewayProxyResultV2 => ({
+  statusCode,
+  body: body === undefined ? undefined : JSON.stringify(body)
+});
+
+// The Lambda authorizer on $connect places the token claims in the request
+// context, and API Gateway repeats them on every message for the connection.
+export const handler = async (
+  event: APIGatewayProxyWebsocketEventV2
+): Promise<APIGatewayProxyResultV2> => {
+  const { routeKey, connectionId } = event.requestContext;
+  try {
+    if (routeKey === "$disconnect") {
+      await removeConnection(connectionId);
+      return respond(200);
+    }
+
+    const auth = getAuthContext(event as unknown as APIGatewayProxyEventV2);
+    if (routeKey === "$connect") {
+      return respond(200);
+    }
+
+    let body: unknown;
+    try {
+      body = event.body ? JSON.parse(event.body) : null;
+    } catch {
+      throw new ValidationError("Invalid JSON body");
+    }
+    const parsed = messageSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.message);
+    }
+
+    if (parsed.data.action === "subscribe") {
+      await subscribeToTrip(connectionId, parsed.data.tripId, auth.userId);
+    } else {
+      await unsubscribeFromTrip(connectionId, parsed.data.tripId);
+    }
+    return respond(200);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return respond(400, { message: error.message });
+    }
+    if (error instanceof ForbiddenError) {
+      return respond(403, { message: error.message });
+    }
+    if (error instanceof NotFoundError) {
+      return respond(404, { message: error.message });
+    }
+    console.error("Unhandled WebSocket error", { routeKey, connectionId, error });
+    return respond(500, { message: "Internal server error" });
+  }
+};
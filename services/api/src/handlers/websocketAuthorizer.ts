@@ -0,0 +1,55 @@
+import type {
+  APIGatewayAuthorizerResult,
+  APIGatewayRequestAuthorizerEvent
+} from "aws-lambda";
+import { CognitoJwtVerifier } from "aws-jwt-verify";
+
+const USER_POOL_ID = process.env.USER_POOL_ID;
+const USER_POOL_CLIENT_ID = process.env.USER_POOL_CLIENT_ID;
+
+if (!USER_POOL_ID || !USER_POOL_CLIENT_ID) {
+  throw new Error("USER_POOL_ID and USER_POOL_CLIENT_ID environment variables are required");
+}
+
+// Browsers can't set headers on a WebSocket handshake, so the web client
+// passes the same Cognito token it sends to the HTTP API as `?token=`.
+const verifier = CognitoJwtVerifier.create({
+  userPoolId: USER_POOL_ID,
+  clientId: USER_POOL_CLIENT_ID,
+  tokenUse: null
+});
+
+export const handler = async (
+  event: APIGatewayRequestAuthorizerEvent
+): Promise<APIGatewayAuthorizerResult> => {
+  const token = event.queryStringParameters?.token;
+  if (!token) {
+    throw new Error("Unauthorized");
+  }
+
+  let claims: Awaited<ReturnType<typeof verifier.verify>>;
+  try {
+    claims = await verifier.verify(token);
+  } catch (error) {
+    console.warn("Rejected WebSocket token", { error });
+    throw new Error("Unauthorized");
+  }
+
+  return {
+    principalId: claims.sub,
+    policyDocument: {
+      Version: "2012-10-17",
+      Statement: [
+        {
+          Action: "execute-api:Invoke",
+          Effect: "Allow",
+          Resource: event.methodArn
+        }
+      ]
+    },
+    context: {
+      sub: claims.sub,
+      ...(typeof claims.email === "string" ? { email: claims.email } : {})
+    }
+  };
+};
@@ -18,3 +18,14 @@ export class ForbiddenError extends Error {
     this.name = "ForbiddenError";
   }
 }
+
+export class ConflictError extends Error {
+  /** The server's copy of the entity, so the client can merge its change. */
+  readonly current: unknown;
+
+  constructor(message: string, current: unknown) {
+    super(message);
+    this.name = "ConflictError";
+    this.current = current;
+  }
+}
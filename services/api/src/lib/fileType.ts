@@ -0,0 +1,56 @@
+/** MIME types members may upload as receipts. */
+export const RECEIPT_CONTENT_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/heic",
+  "image/heif",
+  "image/tiff",
+  "application/pdf",
+  "text/plain"
+] as const;
+
+export type ReceiptContentType = (typeof RECEIPT_CONTENT_TYPES)[number];
+
+// HEIC is HEIF with HEVC images; browsers and phones use the two interchangeably.
+const EQUIVALENT_TYPES: Partial<Record<ReceiptContentType, ReceiptContentType>> = {
+  "image/heif": "image/heic"
+};
+
+const HEIF_BRANDS = new Set(["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"]);
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+/** Lower-cases a Content-Type header and drops parameters such as charset. */
+export const normalizeContentType = (value: string): string =>
+  value.split(";")[0].trim().toLowerCase();
+
+export const isReceiptContentType = (value: string): value is ReceiptContentType =>
+  (RECEIPT_CONTENT_TYPES as readonly string[]).includes(value);
+
+export const sameContentType = (a: ReceiptContentType, b: ReceiptContentType): boolean =>
+  (EQUIVALENT_TYPES[a] ?? a) === (EQUIVALENT_TYPES[b] ?? b);
+
+/**
+ * Identifies an allowed receipt type from the first bytes of a file. Text is
+ * recognized by decoding as UTF-8 without control characters, so pass at
+ * least the first few kilobytes.
+ */
+export const sniffContentType = (bytes: Uint8Array): ReceiptContentType | undefined => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "image/jpeg";
+  if (ascii(bytes, 0, 8) === "\x89PNG\r\n\x1a\n") return "image/png";
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") return "image/webp";
+  if (ascii(bytes, 4, 8) === "ftyp" && HEIF_BRANDS.has(ascii(bytes, 8, 12))) return "image/heic";
+  if (ascii(bytes, 0, 4) === "II*\0" || ascii(bytes, 0, 4) === "MM\0*") return "image/tiff";
+  if (ascii(bytes, 0, 5) === "%PDF-") return "application/pdf";
+
+  if (!bytes.length) return undefined;
+  try {
+    // Streaming mode tolerates a multi-byte character cut off at the end.
+    const text = new TextDecoder("utf-8", { fatal: true }).decode(bytes, { stream: true });
+    return /[\0-\x08\x0e-\x1f]/.test(text) ? undefined : "text/plain";
+  } catch {
+    return undefined;
+  }
+};
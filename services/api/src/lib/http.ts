@@ -2,7 +2,13 @@ import type {
   APIGatewayProxyStructuredResultV2,
   APIGatewayProxyEventV2
 } from "aws-lambda";
-import { ForbiddenError, NotFoundError, ValidationError } from "./errors.js";
+import { Buffer } from "node:buffer";
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError
+} from "./errors.js";
 
 const buildHeaders = (origin: string) => ({
   "Content-Type": "application/json",
@@ -21,6 +27,26 @@ export const json = (
   body: JSON.stringify(body)
 });
 
+export const file = (
+  body: string | Uint8Array,
+  contentType: string,
+  fileName: string,
+  origin = "*"
+): APIGatewayProxyStructuredResultV2 => {
+  const binary = typeof body !== "string";
+  return {
+    statusCode: 200,
+    headers: {
+      ...buildHeaders(origin),
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${fileName.replace(/"/g, "")}"`,
+      "Access-Control-Expose-Headers": "Content-Disposition"
+    },
+    body: binary ? Buffer.from(body).toString("base64") : body,
+    isBase64Encoded: binary
+  };
+};
+
 export const handleError = (
   error: unknown,
   origin = "*"
@@ -34,6 +60,9 @@ export const handleError = (
   if (error instanceof NotFoundError) {
     return json(404, { message: error.message }, origin);
   }
+  if (error instanceof ConflictError) {
+    return json(409, { message: error.message, current: error.current }, origin);
+  }
 
   console.error("Unhandled error", error);
   return json(500, { message: "Internal server error" }, origin);
@@ -55,7 +84,7 @@ export const parseBody = <T = unknown>(
 export const corsHeaders = (origin: string) => ({
   "Access-Control-Allow-Origin": origin,
   "Access-Control-Allow-Credentials": "true",
-  "Access-Control-Allow-Headers": "Content-Type,Authorization",
+  "Access-Control-Allow-Headers": "Content-Type,Authorization,Idempotency-Key",
   "Access-Control-Allow-Methods": "GET,POST,PATCH,DELETE,OPTIONS",
   Vary: "Origin"
 });
@@ -0,0 +1,218 @@
+import { Buffer } from "node:buffer";
+
+// Minimal PDF 1.4 writer: Helvetica text, lines and embedded JPEG images.
+// Enough for printable summaries without bundling a PDF library or calling
+// out to a rendering service.
+
+export interface PdfImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+  colorSpace: "DeviceRGB" | "DeviceGray" | "DeviceCMYK";
+}
+
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+const SOF_MARKERS = new Set([
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf
+]);
+
+export const readJpeg = (data: Uint8Array): PdfImage | null => {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) {
+    return null;
+  }
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      return null;
+    }
+    const marker = data[offset + 1];
+    const segmentLength = (data[offset + 2] << 8) | data[offset + 3];
+    if (SOF_MARKERS.has(marker)) {
+      const height = (data[offset + 5] << 8) | data[offset + 6];
+      const width = (data[offset + 7] << 8) | data[offset + 8];
+      const components = data[offset + 9];
+      const colorSpace =
+        components === 1 ? "DeviceGray" : components === 4 ? "DeviceCMYK" : "DeviceRGB";
+      return width && height ? { data, width, height, colorSpace } : null;
+    }
+    offset += 2 + segmentLength;
+  }
+  return null;
+};
+
+// The standard fonts use WinAnsi; anything outside Latin-1 is replaced.
+const escapeText = (value: string): string =>
+  value
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+
+const formatNumber = (value: number): string =>
+  Number.isInteger(value) ? String(value) : value.toFixed(2);
+
+interface PdfPage {
+  operations: string[];
+  imageIds: Set<number>;
+}
+
+export class PdfDocument {
+  private readonly pages: PdfPage[] = [];
+  private readonly images: PdfImage[] = [];
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push({ operations: [], imageIds: new Set() });
+  }
+
+  /** Draws text with its baseline `y` points from the top of the page. */
+  text(
+    value: string,
+    x: number,
+    y: number,
+    options: { size?: number; bold?: boolean } = {}
+  ): void {
+    const size = options.size ?? 10;
+    const font = options.bold ? "F2" : "F1";
+    this.currentPage().operations.push(
+      `BT /${font} ${formatNumber(size)} Tf ${formatNumber(x)} ${formatNumber(
+        PAGE_HEIGHT - y
+      )} Td (${escapeText(value)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number): void {
+    this.currentPage().operations.push(
+      `0.75 G 0.5 w ${formatNumber(x1)} ${formatNumber(PAGE_HEIGHT - y1)} m ${formatNumber(
+        x2
+      )} ${formatNumber(PAGE_HEIGHT - y2)} l S 0 G`
+    );
+  }
+
+  /** Draws an image with its top-left corner at (`x`, `y`) from the top of the page. */
+  image(image: PdfImage, x: number, y: number, width: number, height: number): void {
+    let index = this.images.indexOf(image);
+    if (index === -1) {
+      this.images.push(image);
+      index = this.images.length - 1;
+    }
+    const page = this.currentPage();
+    page.imageIds.add(index);
+    page.operations.push(
+      `q ${formatNumber(width)} 0 0 ${formatNumber(height)} ${formatNumber(x)} ${formatNumber(
+        PAGE_HEIGHT - y - height
+      )} cm /Im${index} Do Q`
+    );
+  }
+
+  toBuffer(): Buffer {
+    if (!this.pages.length) {
+      this.addPage();
+    }
+
+    // Object ids: 1 catalog, 2 page tree, 3-4 fonts, then images, then a
+    // page + content stream pair per page.
+    const imageBase = 5;
+    const pageBase = imageBase + this.images.length;
+    const objects: Buffer[] = [];
+
+    const pageIds = this.pages.map((_, index) => pageBase + index * 2);
+    objects.push(Buffer.from("<< /Type /Catalog /Pages 2 0 R >>", "latin1"));
+    objects.push(
+      Buffer.from(
+        `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${
+          pageIds.length
+        } >>`,
+        "latin1"
+      )
+    );
+    objects.push(
+      Buffer.from(
+        "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+        "latin1"
+      )
+    );
+    objects.push(
+      Buffer.from(
+        "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+        "latin1"
+      )
+    );
+
+    this.images.forEach((image) => {
+      objects.push(
+        Buffer.concat([
+          Buffer.from(
+            `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /${image.colorSpace} /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>\nstream\n`,
+            "latin1"
+          ),
+          Buffer.from(image.data),
+          Buffer.from("\nendstream", "latin1")
+        ])
+      );
+    });
+
+    this.pages.forEach((page, index) => {
+      const xObjects = Array.from(page.imageIds)
+        .map((imageIndex) => `/Im${imageIndex} ${imageBase + imageIndex} 0 R`)
+        .join(" ");
+      objects.push(
+        Buffer.from(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >>${
+            xObjects ? ` /XObject << ${xObjects} >>` : ""
+          } >> /Contents ${pageIds[index] + 1} 0 R >>`,
+          "latin1"
+        )
+      );
+      const content = Buffer.from(page.operations.join("\n"), "latin1");
+      objects.push(
+        Buffer.concat([
+          Buffer.from(`<< /Length ${content.length} >>\nstream\n`, "latin1"),
+          content,
+          Buffer.from("\nendstream", "latin1")
+        ])
+      );
+    });
+
+    const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+    let length = chunks[0].length;
+    const offsets: number[] = [];
+    objects.forEach((body, index) => {
+      offsets.push(length);
+      const chunk = Buffer.concat([
+        Buffer.from(`${index + 1} 0 obj\n`, "latin1"),
+        body,
+        Buffer.from("\nendobj\n", "latin1")
+      ]);
+      chunks.push(chunk);
+      length += chunk.length;
+    });
+
+    const xref = [
+      "xref",
+      `0 ${objects.length + 1}`,
+      "0000000000 65535 f ",
+      ...offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n `),
+      "trailer",
+      `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+      "startxref",
+      String(length),
+      "%%EOF"
+    ].join("\n");
+    chunks.push(Buffer.from(`${xref}\n`, "latin1"));
+
+    return Buffer.concat(chunks);
+  }
+
+  private currentPage(): PdfPage {
+    if (!this.pages.length) {
+      this.addPage();
+    }
+    return this.pages[this.pages.length - 1];
+  }
+}
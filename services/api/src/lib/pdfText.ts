@@ -0,0 +1,243 @@
+import { Buffer } from "node:buffer";
+import { inflateSync } from "node:zlib";
+
+type Operand =
+  | { kind: "text"; value: string }
+  | { kind: "number"; value: number }
+  | { kind: "name"; value: string }
+  | { kind: "array"; items: Operand[] }
+  | { kind: "arrayStart" };
+
+// A TJ adjustment this far left (thousandths of an em) reads as a word gap.
+const WORD_GAP = -200;
+
+const isWhitespace = (char: string) => /[\s\0]/.test(char);
+const isDelimiter = (char: string) => /[\s\0()<>[\]{}/%]/.test(char);
+
+const readLiteralString = (content: string, start: number): [string, number] => {
+  let depth = 1;
+  let value = "";
+  let index = start + 1;
+  while (index < content.length && depth > 0) {
+    const char = content[index];
+    if (char === "\\") {
+      const next = content[index + 1];
+      const escapes: Record<string, string> = {
+        n: "\n",
+        r: "\r",
+        t: "\t",
+        b: "\b",
+        f: "\f",
+        "(": "(",
+        ")": ")",
+        "\\": "\\"
+      };
+      if (next in escapes) {
+        value += escapes[next];
+        index += 2;
+      } else if (/[0-7]/.test(next)) {
+        const octal = content.slice(index + 1, index + 4).match(/^[0-7]{1,3}/)?.[0] ?? "";
+        value += String.fromCharCode(Number.parseInt(octal, 8));
+        index += 1 + octal.length;
+      } else if (next === "\r" || next === "\n") {
+        index += next === "\r" && content[index + 2] === "\n" ? 3 : 2;
+      } else {
+        index += 1;
+      }
+      continue;
+    }
+    if (char === "(") depth += 1;
+    if (char === ")") depth -= 1;
+    if (depth > 0) value += char;
+    index += 1;
+  }
+  return [value, index];
+};
+
+const readHexString = (content: string, start: number): [string, number] => {
+  const end = content.indexOf(">", start);
+  const stop = end === -1 ? content.length : end;
+  let hex = content.slice(start + 1, stop).replace(/\s+/g, "");
+  if (hex.length % 2) hex += "0";
+  let value = "";
+  for (let index = 0; index < hex.length; index += 2) {
+    value += String.fromCharCode(Number.parseInt(hex.slice(index, index + 2), 16));
+  }
+  return [value, stop + 1];
+};
+
+/**
+ * Pulls the text drawn by one content stream, starting a new line whenever
+ * the text position moves vertically. Font encodings are not resolved, so
+ * this only reads PDFs that draw with standard single-byte fonts.
+ */
+const extractContentText = (content: string): string => {
+  const lines: string[] = [];
+  let current = "";
+  let lastY: number | undefined;
+  let operands: Operand[] = [];
+
+  const newLine = () => {
+    if (current.trim()) {
+      lines.push(current.replace(/\s+/g, " ").trim());
+    }
+    current = "";
+  };
+
+  const showText = (operand: Operand | undefined) => {
+    if (!operand) return;
+    if (operand.kind === "text") {
+      current += operand.value;
+    } else if (operand.kind === "array") {
+      for (const item of operand.items) {
+        if (item.kind === "text") {
+          current += item.value;
+        } else if (item.kind === "number" && item.value < WORD_GAP) {
+          current += " ";
+        }
+      }
+    }
+  };
+
+  const numberAt = (offset: number) => {
+    const operand = operands[operands.length - offset];
+    return operand?.kind === "number" ? operand.value : 0;
+  };
+
+  let index = 0;
+  while (index < content.length) {
+    const char = content[index];
+
+    if (isWhitespace(char)) {
+      index += 1;
+    } else if (char === "%") {
+      const end = content.indexOf("\n", index);
+      index = end === -1 ? content.length : end + 1;
+    } else if (char === "(") {
+      const [value, next] = readLiteralString(content, index);
+      operands.push({ kind: "text", value });
+      index = next;
+    } else if (char === "<" && content[index + 1] === "<") {
+      index += 2;
+    } else if (char === ">" && content[index + 1] === ">") {
+      index += 2;
+    } else if (char === "<") {
+      const [value, next] = readHexString(content, index);
+      operands.push({ kind: "text", value });
+      index = next;
+    } else if (char === "[") {
+      operands.push({ kind: "arrayStart" });
+      index += 1;
+    } else if (char === "]") {
+      const start = operands.map((operand) => operand.kind).lastIndexOf("arrayStart");
+      const items = start === -1 ? [] : operands.splice(start);
+      operands.push({ kind: "array", items: items.slice(1) });
+      index += 1;
+    } else if (char === "/") {
+      let end = index + 1;
+      while (end < content.length && !isDelimiter(content[end])) end += 1;
+      operands.push({ kind: "name", value: content.slice(index + 1, end) });
+      index = end;
+    } else if (/[0-9+\-.]/.test(char)) {
+      let end = index + 1;
+      while (end < content.length && /[0-9.]/.test(content[end])) end += 1;
+      operands.push({ kind: "number", value: Number.parseFloat(content.slice(index, end)) || 0 });
+      index = end;
+    } else {
+      let end = index + 1;
+      while (end < content.length && !isDelimiter(content[end])) end += 1;
+      const operator = content.slice(index, end);
+      index = end;
+
+      switch (operator) {
+        case "Tj":
+        case "TJ":
+          showText(operands[operands.length - 1]);
+          break;
+        case "'":
+        case '"':
+          newLine();
+          showText(operands[operands.length - 1]);
+          break;
+        case "T*":
+          newLine();
+          break;
+        case "Td":
+        case "TD":
+          if (numberAt(1) !== 0) {
+            newLine();
+          } else if (numberAt(2) > 0) {
+            current += " ";
+          }
+          break;
+        case "Tm": {
+          const y = numberAt(1);
+          if (lastY === undefined || Math.abs(y - lastY) > 1) {
+            newLine();
+          } else {
+            current += " ";
+          }
+          lastY = y;
+          break;
+        }
+        case "ID": {
+          // Inline image data is binary; skip to its end marker.
+          const end = content.slice(index).search(/\sEI(\s|$)/);
+          index = end === -1 ? content.length : index + end + 3;
+          break;
+        }
+        default:
+          break;
+      }
+      operands = [];
+    }
+  }
+
+  newLine();
+  return lines.join("\n");
+};
+
+/**
+ * Best-effort text extraction for text-based PDFs. Content streams (usually
+ * one per page) are separated by form feeds. Scanned PDFs (images only)
+ * yield an empty string.
+ */
+export const extractPdfText = (data: Uint8Array): string => {
+  const source = Buffer.from(data).toString("latin1");
+  const chunks: string[] = [];
+  const streamPattern = /stream\r?\n/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = streamPattern.exec(source))) {
+    const start = match.index + match[0].length;
+    const end = source.indexOf("endstream", start);
+    if (end === -1) break;
+    streamPattern.lastIndex = end + "endstream".length;
+
+    const dictionaryStart = source.lastIndexOf("obj", match.index);
+    const dictionary = source.slice(Math.max(dictionaryStart, 0), match.index);
+    if (/\/Subtype\s*\/Image|\/FontFile|\/Length1|\/Type\s*\/XRef/.test(dictionary)) {
+      continue;
+    }
+
+    let raw = Buffer.from(source.slice(start, end).replace(/\r?\n$/, ""), "latin1");
+    if (/\/FlateDecode/.test(dictionary)) {
+      try {
+        raw = inflateSync(raw);
+      } catch {
+        continue;
+      }
+    } else if (/\/Filter/.test(dictionary)) {
+      continue;
+    }
+
+    const content = raw.toString("latin1");
+    if (!/\bBT\b/.test(content)) continue;
+    const text = extractContentText(content);
+    if (text) {
+      chunks.push(text);
+    }
+  }
+
+  return chunks.join("\f");
+};
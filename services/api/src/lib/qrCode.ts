@@ -0,0 +1,358 @@
+import { Buffer } from "node:buffer";
+
+// Minimal QR Code encoder: byte mode, error correction level M, versions
+// 1–10 (up to 213 bytes). Enough for payment links without bundling a QR
+// library; rendered as SVG so clients can show it with a plain <img>.
+
+interface VersionSpec {
+  ecCodewordsPerBlock: number;
+  /** Data codewords of each block, e.g. [38, 38, 39, 39]. */
+  blocks: number[];
+  alignment: number[];
+}
+
+const VERSIONS: VersionSpec[] = [
+  { ecCodewordsPerBlock: 10, blocks: [16], alignment: [] },
+  { ecCodewordsPerBlock: 16, blocks: [28], alignment: [6, 18] },
+  { ecCodewordsPerBlock: 26, blocks: [44], alignment: [6, 22] },
+  { ecCodewordsPerBlock: 18, blocks: [32, 32], alignment: [6, 26] },
+  { ecCodewordsPerBlock: 24, blocks: [43, 43], alignment: [6, 30] },
+  { ecCodewordsPerBlock: 16, blocks: [27, 27, 27, 27], alignment: [6, 34] },
+  { ecCodewordsPerBlock: 18, blocks: [31, 31, 31, 31], alignment: [6, 22, 38] },
+  { ecCodewordsPerBlock: 22, blocks: [38, 38, 39, 39], alignment: [6, 24, 42] },
+  { ecCodewordsPerBlock: 22, blocks: [36, 36, 36, 37, 37], alignment: [6, 26, 46] },
+  { ecCodewordsPerBlock: 26, blocks: [43, 43, 43, 43, 44], alignment: [6, 28, 50] }
+];
+
+// Level M is 0b00 in the format information.
+const EC_LEVEL_BITS = 0;
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+];
+
+const FINDER_LIKE = [
+  [1, 0, 1, 1, 1, 0, 1, 0, 0, 0, 0],
+  [0, 0, 0, 0, 1, 0, 1, 1, 1, 0, 1]
+];
+
+const bit = (value: number, index: number): boolean => ((value >>> index) & 1) !== 0;
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1.
+const gfMultiply = (x: number, y: number): number => {
+  let product = 0;
+  for (let i = 7; i >= 0; i -= 1) {
+    product = (product << 1) ^ ((product >>> 7) * 0x11d);
+    product ^= ((y >>> i) & 1) * x;
+  }
+  return product;
+};
+
+const reedSolomonDivisor = (degree: number): number[] => {
+  const divisor = new Array<number>(degree).fill(0);
+  divisor[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i += 1) {
+    for (let j = 0; j < degree; j += 1) {
+      divisor[j] = gfMultiply(divisor[j], root);
+      if (j + 1 < degree) {
+        divisor[j] ^= divisor[j + 1];
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return divisor;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]): number[] => {
+  const remainder = new Array<number>(divisor.length).fill(0);
+  for (const value of data) {
+    const factor = value ^ (remainder.shift() as number);
+    remainder.push(0);
+    divisor.forEach((coefficient, index) => {
+      remainder[index] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return remainder;
+};
+
+const encodeCodewords = (bytes: Uint8Array, version: number, spec: VersionSpec): number[] => {
+  const capacity = spec.blocks.reduce((sum, size) => sum + size, 0);
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i -= 1) {
+      bits.push((value >>> i) & 1);
+    }
+  };
+  append(0b0100, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((value) => append(value, 8));
+  append(0, Math.min(4, capacity * 8 - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(bits.slice(i, i + 8).reduce((byte, value) => (byte << 1) | value, 0));
+  }
+  for (let pad = 0xec; data.length < capacity; pad ^= 0xec ^ 0x11) {
+    data.push(pad);
+  }
+
+  const divisor = reedSolomonDivisor(spec.ecCodewordsPerBlock);
+  const blocks: number[][] = [];
+  const ecBlocks: number[][] = [];
+  let offset = 0;
+  for (const size of spec.blocks) {
+    const block = data.slice(offset, offset + size);
+    blocks.push(block);
+    ecBlocks.push(reedSolomonRemainder(block, divisor));
+    offset += size;
+  }
+
+  const result: number[] = [];
+  const longest = Math.max(...spec.blocks);
+  for (let i = 0; i < longest; i += 1) {
+    blocks.forEach((block) => {
+      if (i < block.length) result.push(block[i]);
+    });
+  }
+  for (let i = 0; i < spec.ecCodewordsPerBlock; i += 1) {
+    ecBlocks.forEach((block) => result.push(block[i]));
+  }
+  return result;
+};
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly reserved: boolean[][];
+
+  constructor(readonly version: number, spec: VersionSpec) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.drawFunctionPatterns(spec);
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.reserved[y][x] = true;
+  }
+
+  private drawFunctionPatterns(spec: VersionSpec) {
+    for (let i = 0; i < this.size; i += 1) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    const finders = [
+      [3, 3],
+      [this.size - 4, 3],
+      [3, this.size - 4]
+    ];
+    for (const [cx, cy] of finders) {
+      for (let dy = -4; dy <= 4; dy += 1) {
+        for (let dx = -4; dx <= 4; dx += 1) {
+          const x = cx + dx;
+          const y = cy + dy;
+          if (x >= 0 && x < this.size && y >= 0 && y < this.size) {
+            const distance = Math.max(Math.abs(dx), Math.abs(dy));
+            this.setFunction(x, y, distance !== 2 && distance !== 4);
+          }
+        }
+      }
+    }
+
+    const last = spec.alignment.length - 1;
+    spec.alignment.forEach((cy, i) => {
+      spec.alignment.forEach((cx, j) => {
+        // Skip the three corners taken by finder patterns.
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+          return;
+        }
+        for (let dy = -2; dy <= 2; dy += 1) {
+          for (let dx = -2; dx <= 2; dx += 1) {
+            this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      });
+    });
+
+    // Reserve the format areas now; the bits are drawn once a mask is chosen.
+    this.drawFormatBits(0);
+
+    if (this.version >= 7) {
+      let remainder = this.version;
+      for (let i = 0; i < 12; i += 1) {
+        remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+      }
+      const bits = (this.version << 12) | remainder;
+      for (let i = 0; i < 18; i += 1) {
+        const a = this.size - 11 + (i % 3);
+        const b = Math.floor(i / 3);
+        this.setFunction(a, b, bit(bits, i));
+        this.setFunction(b, a, bit(bits, i));
+      }
+    }
+  }
+
+  drawFormatBits(mask: number) {
+    const data = (EC_LEVEL_BITS << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i += 1) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i += 1) this.setFunction(8, i, bit(bits, i));
+    this.setFunction(8, 7, bit(bits, 6));
+    this.setFunction(8, 8, bit(bits, 7));
+    this.setFunction(7, 8, bit(bits, 8));
+    for (let i = 9; i < 15; i += 1) this.setFunction(14 - i, 8, bit(bits, i));
+
+    for (let i = 0; i < 8; i += 1) this.setFunction(this.size - 1 - i, 8, bit(bits, i));
+    for (let i = 8; i < 15; i += 1) this.setFunction(8, this.size - 15 + i, bit(bits, i));
+    this.setFunction(8, this.size - 8, true);
+  }
+
+  drawCodewords(codewords: number[]) {
+    let index = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      const upward = ((right + 1) & 2) === 0;
+      for (let vertical = 0; vertical < this.size; vertical += 1) {
+        const y = upward ? this.size - 1 - vertical : vertical;
+        for (let j = 0; j < 2; j += 1) {
+          const x = right - j;
+          if (!this.reserved[y][x] && index < codewords.length * 8) {
+            this.modules[y][x] = bit(codewords[index >>> 3], 7 - (index & 7));
+            index += 1;
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y += 1) {
+      for (let x = 0; x < this.size; x += 1) {
+        if (!this.reserved[y][x] && MASKS[mask](x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  penalty(): number {
+    const { size, modules } = this;
+    let score = 0;
+    const lines: boolean[][] = [
+      ...modules,
+      ...modules.map((_, x) => modules.map((row) => row[x]))
+    ];
+
+    for (const line of lines) {
+      let run = 1;
+      for (let i = 1; i <= size; i += 1) {
+        if (i < size && line[i] === line[i - 1]) {
+          run += 1;
+        } else {
+          if (run >= 5) score += run - 2;
+          run = 1;
+        }
+      }
+      for (let i = 0; i + 11 <= size; i += 1) {
+        if (FINDER_LIKE.some((pattern) => pattern.every((value, k) => line[i + k] === (value === 1)))) {
+          score += 40;
+        }
+      }
+    }
+
+    for (let y = 0; y + 1 < size; y += 1) {
+      for (let x = 0; x + 1 < size; x += 1) {
+        const color = modules[y][x];
+        if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) {
+          score += 3;
+        }
+      }
+    }
+
+    const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = size * size;
+    score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+    return score;
+  }
+}
+
+/**
+ * Encodes text as a QR code and returns the module grid (true = dark),
+ * picking the smallest version that fits. Returns null for text longer than
+ * version 10 holds.
+ */
+export const encodeQrCode = (text: string): boolean[][] | null => {
+  const bytes = Buffer.from(text, "utf8");
+  const versionIndex = VERSIONS.findIndex((spec, index) => {
+    const capacity = spec.blocks.reduce((sum, size) => sum + size, 0);
+    const headerBits = 4 + (index + 1 < 10 ? 8 : 16);
+    return headerBits + bytes.length * 8 <= capacity * 8;
+  });
+  if (versionIndex === -1) {
+    return null;
+  }
+
+  const version = versionIndex + 1;
+  const spec = VERSIONS[versionIndex];
+  const codewords = encodeCodewords(bytes, version, spec);
+
+  const render = (mask: number) => {
+    const matrix = new QrMatrix(version, spec);
+    matrix.drawCodewords(codewords);
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+    return matrix;
+  };
+
+  let bestMask = 0;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask += 1) {
+    const score = render(mask).penalty();
+    if (score < bestScore) {
+      bestMask = mask;
+      bestScore = score;
+    }
+  }
+  return render(bestMask).modules;
+};
+
+/** Renders a QR code as an SVG data URI with the standard four-module quiet zone. */
+export const qrCodeSvgDataUri = (text: string): string | null => {
+  const modules = encodeQrCode(text);
+  if (!modules) {
+    return null;
+  }
+  const size = modules.length + 8;
+  let path = "";
+  modules.forEach((row, y) => {
+    let x = 0;
+    while (x < row.length) {
+      if (!row[x]) {
+        x += 1;
+        continue;
+      }
+      const start = x;
+      while (x < row.length && row[x]) x += 1;
+      path += `M${start + 4} ${y + 4}h${x - start}v1h${start - x}z`;
+    }
+  });
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">` +
+    `<rect width="${size}" height="${size}" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
+};
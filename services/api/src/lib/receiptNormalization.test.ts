@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import {
+  normalizeAmount,
+  normalizeDate,
+  type ReceiptLocaleContext
+} from "./receiptNormalization.js";
+import { parseReceiptText } from "./receiptText.js";
+
+// Strings as OCR returns them from real receipts, with the trip they were
+// uploaded to.
+const amounts: Array<[string, ReceiptLocaleContext, number | undefined]> = [
+  ["$12.00", { currency: "USD" }, 12],
+  ["USD 45.60", { currency: "USD" }, 45.6],
+  ["1,234.56", { currency: "USD" }, 1234.56],
+  ["$1,234", { currency: "USD" }, 1234],
+  ["12.5", {}, 12.5],
+  ["12,5", { currency: "EUR" }, 12.5],
+  ["1.234,56", { currency: "EUR" }, 1234.56],
+  ["1.234,56 €", { currency: "EUR", locale: "de-DE" }, 1234.56],
+  ["1 234,56 €", { currency: "EUR", locale: "fr-FR" }, 1234.56],
+  ["1\u202f234,56\u00a0€", { currency: "EUR", locale: "fr-FR" }, 1234.56],
+  ["EUR 1.234", { currency: "EUR" }, 1234],
+  ["1.234", { locale: "de-DE" }, 1234],
+  ["1,234", { locale: "de-DE" }, 1.234],
+  ["R$ 1.234,56", { currency: "BRL" }, 1234.56],
+  ["CHF 1'234.50", { currency: "CHF" }, 1234.5],
+  ["Fr. 1’234.50", { currency: "CHF" }, 1234.5],
+  ["¥1,200", { currency: "JPY" }, 1200],
+  ["￥ 3,480", { currency: "JPY" }, 3480],
+  ["1.234 KWD", { currency: "KWD" }, 1.234],
+  ["£7.999", { currency: "GBP" }, 7999],
+  ["12.345", { currency: "USD" }, 12345],
+  ["19.999", { currency: "TND" }, 19.999],
+  ["₹1,23,456.00", { currency: "INR" }, 123456],
+  ["$12.00 CR", { currency: "USD" }, -12],
+  ["12.00CR", { currency: "USD" }, -12],
+  ["CREDIT 8.50", { currency: "USD" }, -8.5],
+  ["(12.00)", { currency: "USD" }, -12],
+  ["($4.25)", { currency: "USD" }, -4.25],
+  ["12.00-", { currency: "USD" }, -12],
+  ["-$5.00", { currency: "USD" }, -5],
+  ["$-5.00", { currency: "USD" }, -5],
+  ["- 3,20 €", { currency: "EUR" }, -3.2],
+  ["0.00 CR", { currency: "USD" }, 0],
+  ["2 12.50", { currency: "USD" }, 12.5],
+  ["10.005", { currency: "USD" }, 10005],
+  ["10.01499", { currency: "USD" }, 10.01],
+  ["TOTAL", { currency: "USD" }, undefined],
+  ["", { currency: "USD" }, undefined]
+];
+
+const dates: Array<[string, ReceiptLocaleContext, string | undefined]> = [
+  ["2024-03-14", {}, "2024-03-14"],
+  ["2024/3/4 18:22", { locale: "ja-JP" }, "2024-03-04"],
+  ["03/14/2024", { currency: "USD" }, "2024-03-14"],
+  ["14/03/24", { currency: "USD" }, "2024-03-14"],
+  ["03/04/24", { currency: "USD" }, "2024-03-04"],
+  ["03/04/24", { currency: "EUR" }, "2024-04-03"],
+  ["03/04/24", { currency: "USD", locale: "en-GB" }, "2024-04-03"],
+  ["14.03.2024 12:41", { locale: "de-DE" }, "2024-03-14"],
+  ["14-03-2024", {}, "2024-03-14"],
+  ["Mar 5, 2024", {}, "2024-03-05"],
+  ["March 5th, 2024", {}, "2024-03-05"],
+  ["Sept. 30 2023", {}, "2023-09-30"],
+  ["5 Jan 2024", {}, "2024-01-05"],
+  ["05-JAN-24", {}, "2024-01-05"],
+  ["5. März 2024", { locale: "de-DE" }, "2024-03-05"],
+  ["mardi 5 mars 2024", { locale: "fr-FR" }, "2024-03-05"],
+  ["1er août 2024", { locale: "fr-FR" }, "2024-08-01"],
+  ["12 de enero de 2024", { locale: "es-ES" }, "2024-01-12"],
+  ["3 dic 2023", { locale: "it-IT" }, "2023-12-03"],
+  ["20240314", {}, "2024-03-14"],
+  ["31/02/2024", {}, undefined],
+  ["13/13/2024", {}, undefined],
+  ["Thank you!", {}, undefined]
+];
+
+describe("normalizeAmount", () => {
+  it.each(amounts)("reads %j with %j as %s", (raw, context, expected) => {
+    expect(normalizeAmount(raw, context)).toBe(expected);
+  });
+});
+
+describe("normalizeDate", () => {
+  it.each(dates)("reads %j with %j as %s", (raw, context, expected) => {
+    expect(normalizeDate(raw, context)).toBe(expected);
+  });
+});
+
+describe("parseReceiptText", () => {
+  it("reads a European receipt with the trip's locale", () => {
+    const extraction = parseReceiptText(
+      ["Bäckerei Müller", "Datum: 03.04.24", "Brezel 2,40", "Kaffee 3,10", "Total 5,50 EUR"].join(
+        "\n"
+      ),
+      { currency: "EUR", locale: "de-DE" }
+    );
+    expect(extraction.merchantName).toBe("Bäckerei Müller");
+    expect(extraction.date).toBe("2024-04-03");
+    expect(extraction.total).toBe(5.5);
+    expect(extraction.lineItems?.map((item) => item.total)).toEqual([2.4, 3.1]);
+  });
+
+  it("keeps refunds negative", () => {
+    const extraction = parseReceiptText(
+      ["Outfitters Co", "04/03/2024", "Return jacket 89.99 CR", "Total (89.99)"].join("\n"),
+      { currency: "USD" }
+    );
+    expect(extraction.date).toBe("2024-04-03");
+    expect(extraction.total).toBe(-89.99);
+    expect(extraction.lineItems?.[0]?.total).toBe(-89.99);
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Normalizes amounts and dates read off receipts. OCR output keeps the
+ * formatting of the receipt, so "1.234,56", "$12.00 CR" and "14/03/24" need
+ * the trip's currency and locale to be read correctly.
+ */
+export interface ReceiptLocaleContext {
+  /** ISO 4217 code of the trip; decides how many decimals an amount has. */
+  currency?: string;
+  /** BCP 47 tag, e.g. "de-DE"; decides day/month order and ambiguous separators. */
+  locale?: string;
+}
+
+// Typical locale per currency, used when the trip has no locale of its own.
+const CURRENCY_LOCALES: Record<string, string> = {
+  USD: "en-US",
+  CAD: "en-CA",
+  GBP: "en-GB",
+  AUD: "en-AU",
+  NZD: "en-NZ",
+  EUR: "de-DE",
+  CHF: "de-CH",
+  JPY: "ja-JP",
+  CNY: "zh-CN",
+  HKD: "zh-HK",
+  SGD: "en-SG",
+  INR: "en-IN",
+  MXN: "es-MX",
+  BRL: "pt-BR",
+  SEK: "sv-SE",
+  NOK: "nb-NO",
+  DKK: "da-DK",
+  PLN: "pl-PL",
+  CZK: "cs-CZ",
+  ZAR: "en-ZA",
+  KRW: "ko-KR",
+  THB: "th-TH",
+  ISK: "is-IS"
+};
+
+const CREDIT_MARKER = /\b(CR|CREDIT)\b/i;
+
+// Month names and abbreviations (diacritics stripped) in the languages most
+// receipts come in, January first. Four-letter keys are checked before
+// three-letter ones so "juin" and "juil" stay apart.
+const MONTH_NAMES = [
+  ["jan", "gen", "ene"],
+  ["feb", "fev", "fevr"],
+  ["mar", "mrz"],
+  ["apr", "avr", "abr"],
+  ["may", "mai", "mag", "mei"],
+  ["jun", "juin", "giu"],
+  ["jul", "juil", "lug"],
+  ["aug", "aout", "ago"],
+  ["sep", "set"],
+  ["oct", "okt", "ott", "out"],
+  ["nov"],
+  ["dec", "dez", "dic"]
+];
+
+const MONTHS = new Map(
+  MONTH_NAMES.flatMap((names, index) => names.map((name) => [name, index + 1] as const))
+);
+
+const stripDiacritics = (value: string) =>
+  value.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+
+export const resolveLocale = ({ currency, locale }: ReceiptLocaleContext): string => {
+  if (locale) {
+    try {
+      return Intl.getCanonicalLocales(locale)[0] ?? "en-US";
+    } catch {
+      // Fall through to the currency's locale.
+    }
+  }
+  return (currency && CURRENCY_LOCALES[currency.toUpperCase()]) || "en-US";
+};
+
+const currencyDigits = (currency?: string): number | undefined => {
+  if (!currency) return undefined;
+  try {
+    return new Intl.NumberFormat("en", { style: "currency", currency }).resolvedOptions()
+      .maximumFractionDigits;
+  } catch {
+    return undefined;
+  }
+};
+
+const localeDecimalSeparator = (locale: string): string =>
+  new Intl.NumberFormat(locale).formatToParts(1.5).find((part) => part.type === "decimal")
+    ?.value ?? ".";
+
+/**
+ * Parses a monetary amount as printed on a receipt. Handles grouping with
+ * dots, commas, apostrophes and (narrow) spaces, currency symbols and codes,
+ * and credits written as "-12.00", "12.00-", "(12.00)" or "12.00 CR".
+ */
+export const normalizeAmount = (
+  raw: string | undefined,
+  context: ReceiptLocaleContext = {}
+): number | undefined => {
+  if (!raw) return undefined;
+  const text = raw.trim();
+
+  // A space only continues a number when exactly three digits follow, so
+  // "2 12.50" reads as 12.50 while "1 234,56" stays whole.
+  const runs = text.match(/\d+(?:(?:[.,'’]|[ \u00a0\u202f](?=\d{3}(?!\d)))\d+)*/g);
+  if (!runs) return undefined;
+  const run = runs[runs.length - 1];
+  const runStart = text.lastIndexOf(run);
+  const before = text.slice(0, runStart);
+  const after = text.slice(runStart + run.length);
+
+  const negative =
+    /-\s*[^\d\s]{0,4}\s*$/.test(before) ||
+    /^\s*-/.test(after) ||
+    (/\(\s*[^\d\s]{0,4}\s*$/.test(before) && /^\s*[^\d\s]{0,4}\s*\)/.test(after)) ||
+    CREDIT_MARKER.test(after) ||
+    CREDIT_MARKER.test(before);
+
+  const compact = run.replace(/['’\s\u00a0\u202f]/g, "");
+  const lastDot = compact.lastIndexOf(".");
+  const lastComma = compact.lastIndexOf(",");
+  let decimalIndex = -1;
+
+  if (lastDot !== -1 && lastComma !== -1) {
+    decimalIndex = Math.max(lastDot, lastComma);
+  } else if (lastDot !== -1 || lastComma !== -1) {
+    const separator = lastDot !== -1 ? "." : ",";
+    const index = Math.max(lastDot, lastComma);
+    const occurrences = compact.split(separator).length - 1;
+    const digitsAfter = compact.length - index - 1;
+    if (occurrences === 1 && digitsAfter !== 3) {
+      decimalIndex = index;
+    } else if (occurrences === 1) {
+      // "1.234" or "1,234": the currency decides, then the locale.
+      const digits = currencyDigits(context.currency);
+      if (digits === 3) {
+        decimalIndex = index;
+      } else if (
+        digits === undefined &&
+        localeDecimalSeparator(resolveLocale(context)) === separator
+      ) {
+        decimalIndex = index;
+      }
+    }
+  }
+
+  const integerPart = (decimalIndex === -1 ? compact : compact.slice(0, decimalIndex)).replace(
+    /[.,]/g,
+    ""
+  );
+  const fractionPart = decimalIndex === -1 ? "" : compact.slice(decimalIndex + 1);
+  let value = Number.parseFloat(`${integerPart || "0"}.${fractionPart || "0"}`);
+  if (!Number.isFinite(value)) return undefined;
+
+  const digits = currencyDigits(context.currency);
+  if (digits !== undefined) {
+    const factor = 10 ** digits;
+    value = Math.round((value + Number.EPSILON) * factor) / factor;
+  }
+  return negative && value !== 0 ? -value : value;
+};
+
+const toIsoDate = (year: number, month: number, day: number): string | undefined => {
+  const fullYear = year < 100 ? year + 2000 : year;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  if (
+    date.getUTCFullYear() !== fullYear ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return undefined;
+  }
+  return date.toISOString().slice(0, 10);
+};
+
+const dayComesFirst = (locale: string): boolean => {
+  const parts = new Intl.DateTimeFormat(locale, {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit"
+  }).formatToParts(new Date(Date.UTC(2000, 10, 22)));
+  const dayIndex = parts.findIndex((part) => part.type === "day");
+  const monthIndex = parts.findIndex((part) => part.type === "month");
+  return dayIndex < monthIndex;
+};
+
+const monthFromName = (name: string): number | undefined => {
+  const key = stripDiacritics(name.toLowerCase());
+  return MONTHS.get(key.slice(0, 4)) ?? MONTHS.get(key.slice(0, 3));
+};
+
+/**
+ * Reads a receipt date into ISO `YYYY-MM-DD`. Numeric dates such as
+ * "03/04/24" follow the locale's day/month order unless one part is over 12.
+ * Returns undefined when no valid date is found.
+ */
+export const normalizeDate = (
+  raw: string | undefined,
+  context: ReceiptLocaleContext = {}
+): string | undefined => {
+  if (!raw) return undefined;
+  const text = stripDiacritics(raw.toLowerCase());
+
+  const isoLike = text.match(/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/);
+  if (isoLike) {
+    return toIsoDate(Number(isoLike[1]), Number(isoLike[2]), Number(isoLike[3]));
+  }
+
+  const numeric = text.match(/\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})\b/);
+  if (numeric) {
+    const first = Number(numeric[1]);
+    const second = Number(numeric[2]);
+    const year = Number(numeric[3]);
+    let dayFirst: boolean;
+    if (first > 12) {
+      dayFirst = true;
+    } else if (second > 12) {
+      dayFirst = false;
+    } else {
+      dayFirst = dayComesFirst(resolveLocale(context));
+    }
+    return dayFirst ? toIsoDate(year, second, first) : toIsoDate(year, first, second);
+  }
+
+  const dayMonth = text.match(
+    /\b(\d{1,2})(?:st|nd|rd|th|er)?\.?[\s-]+(?:de\s+)?([a-z]{3,})\.?,?[\s-]+(?:de\s+)?(\d{4}|\d{2})\b/
+  );
+  if (dayMonth) {
+    const month = monthFromName(dayMonth[2]);
+    if (month) return toIsoDate(Number(dayMonth[3]), month, Number(dayMonth[1]));
+  }
+
+  const monthDay = text.match(
+    /\b([a-z]{3,})\.?[\s-]+(\d{1,2})(?:st|nd|rd|th)?,?[\s-]+(\d{4}|\d{2})\b/
+  );
+  if (monthDay) {
+    const month = monthFromName(monthDay[1]);
+    if (month) return toIsoDate(Number(monthDay[3]), month, Number(monthDay[2]));
+  }
+
+  const compact = text.match(/\b(20\d{2})(\d{2})(\d{2})\b/);
+  if (compact) {
+    return toIsoDate(Number(compact[1]), Number(compact[2]), Number(compact[3]));
+  }
+
+  return undefined;
+};
@@ -0,0 +1,264 @@
+import type { TextractExtraction } from "../types.js";
+import {
+  normalizeAmount,
+  normalizeDate,
+  type ReceiptLocaleContext
+} from "./receiptNormalization.js";
+
+interface ReceiptLine {
+  text: string;
+  /** The line with its amounts removed, used for label matching. */
+  label: string;
+  amounts: number[];
+}
+
+// Includes the credit markers around an amount ("(12.00)", "12.00-",
+// "12.00 CR") so the sign survives into normalizeAmount.
+const AMOUNT_PATTERN =
+  /\(?-?[$€£¥]?\s?(?:\d{1,3}(?:[,.'’]\d{3})+|\d+)[.,]\d{2}(?![\d.,])(?:-(?!\d)|\)|\s?CR\b)?/g;
+
+const MONTHS = "jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec";
+
+const DATE_PATTERNS = [
+  /\b\d{4}-\d{2}-\d{2}\b/,
+  /\b\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}\b/,
+  new RegExp(`\\b(?:${MONTHS})[a-z]*\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}\\b`, "i"),
+  new RegExp(`\\b\\d{1,2}(?:st|nd|rd|th)?\\.?[\\s-]+(?:${MONTHS})[a-z]*\\.?,?[\\s-]+\\d{2,4}\\b`, "i")
+];
+
+// Checked in order; the first label that appears anywhere wins.
+const TOTAL_LABELS = [
+  /\b(grand\s*total|total\s*due|amount\s*due|balance\s*due|total\s*amount|amount\s*paid)\b/i,
+  /\btotal\b/i
+];
+const NOT_TOTAL = /sub\s*-?\s*total|total\s*(tax|savings|discount|items?|qty)/i;
+const SUBTOTAL_LABEL = /\bsub\s*-?\s*total\b/i;
+const TAX_LABEL = /\b(tax|vat|gst|hst|pst|iva|mwst)\b/i;
+const TIP_LABEL = /\b(tip|gratuity|service\s*charge)\b/i;
+
+// Payment and summary lines that are never line items.
+const NON_ITEM_LABEL =
+  /\b(total|sub\s*-?\s*total|tax|vat|gst|hst|tip|gratuity|change|cash|card|visa|mastercard|amex|debit|credit|balance|payment|paid|tender|rounding|discount|savings)\b/i;
+
+const NOT_MERCHANT =
+  /^(receipt|invoice|tax\s*invoice|order|welcome|thank|tel|phone|fax|date|time|table|server|cashier|check|guest|www\.|http)/i;
+
+const MERCHANT_LABEL = /^(merchant|vendor|store|seller|sold\s*by)\s*[:-]\s*(.+)$/i;
+
+// Rough confidence scores so clients can flag guesses the same way they flag
+// low-confidence OCR output. The text is exact; only its meaning is guessed.
+const CONFIDENCE = {
+  labelled: 85,
+  date: 70,
+  header: 55,
+  fallback: 40
+};
+
+const toLine = (text: string, context: ReceiptLocaleContext): ReceiptLine => {
+  const amounts: number[] = [];
+  for (const match of text.matchAll(AMOUNT_PATTERN)) {
+    const value = normalizeAmount(match[0], context);
+    if (value !== undefined) {
+      amounts.push(value);
+    }
+  }
+  const label = text
+    .replace(AMOUNT_PATTERN, " ")
+    .replace(/\b[A-Z]{3}\b\s*$/, "")
+    .replace(/[$€£¥:]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return { text, label, amounts };
+};
+
+const lastAmount = (lines: ReceiptLine[], index: number): number | undefined => {
+  const line = lines[index];
+  if (line.amounts.length) {
+    return line.amounts[line.amounts.length - 1];
+  }
+  // Text pulled from PDFs often puts the value on the line after its label.
+  const next = lines[index + 1];
+  if (next && next.amounts.length && !/[a-z]/i.test(next.label)) {
+    return next.amounts[next.amounts.length - 1];
+  }
+  return undefined;
+};
+
+const findLabelled = (
+  lines: ReceiptLine[],
+  pattern: RegExp,
+  exclude?: RegExp
+): { index: number; amount: number } | undefined => {
+  // Receipts often repeat a summary on the card slip, so the last one wins.
+  for (let index = lines.length - 1; index >= 0; index -= 1) {
+    const { label } = lines[index];
+    if (!pattern.test(label) || exclude?.test(label)) continue;
+    const amount = lastAmount(lines, index);
+    if (amount !== undefined) {
+      return { index, amount };
+    }
+  }
+  return undefined;
+};
+
+const findDate = (text: string): string | undefined => {
+  for (const pattern of DATE_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) return match[0];
+  }
+  return undefined;
+};
+
+const findMerchant = (
+  lines: ReceiptLine[]
+): { name: string; confidence: number } | undefined => {
+  for (const line of lines) {
+    const labelled = line.text.match(MERCHANT_LABEL);
+    if (labelled) return { name: labelled[2].trim(), confidence: CONFIDENCE.labelled };
+  }
+  const header = lines
+    .slice(0, 6)
+    .find(
+      (line) =>
+        !line.amounts.length &&
+        /[a-z]{2,}/i.test(line.text) &&
+        !/^\d/.test(line.text) &&
+        !NOT_MERCHANT.test(line.text) &&
+        !findDate(line.text)
+    );
+  return header ? { name: header.text, confidence: CONFIDENCE.header } : undefined;
+};
+
+const parseLineItem = (line: ReceiptLine): NonNullable<TextractExtraction["lineItems"]>[number] => {
+  const total = line.amounts[line.amounts.length - 1];
+  let description = line.label;
+  let quantity: number | undefined;
+  let unitPrice = line.amounts.length > 1 ? line.amounts[line.amounts.length - 2] : undefined;
+
+  const quantityMatch =
+    description.match(/(?:^|\s)(\d+)\s*[x×@]\s*/i) ?? description.match(/^(\d+)\s+(?=[a-z])/i);
+  if (quantityMatch) {
+    quantity = Number.parseInt(quantityMatch[1], 10);
+    description = description.replace(quantityMatch[0], " ").trim();
+  }
+  if (quantity && unitPrice === undefined) {
+    unitPrice = Math.round((total / quantity) * 100) / 100;
+  }
+
+  return {
+    description: description || undefined,
+    quantity,
+    unitPrice,
+    total
+  };
+};
+
+/**
+ * Heuristic receipt parser for plain text: labelled totals, tax and tip,
+ * the first date-like string, a merchant name from the header, and priced
+ * lines above the subtotal as line items. Amounts and the date are read
+ * using the trip's currency and locale.
+ */
+export const parseReceiptText = (
+  text: string,
+  context: ReceiptLocaleContext = {}
+): TextractExtraction => {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .map((line) => toLine(line, context));
+  if (!lines.length) {
+    return {};
+  }
+
+  let total: { index: number; amount: number } | undefined;
+  for (const pattern of TOTAL_LABELS) {
+    total = findLabelled(lines, pattern, NOT_TOTAL);
+    if (total) break;
+  }
+  const subtotal = findLabelled(lines, SUBTOTAL_LABEL);
+  const tax = findLabelled(lines, TAX_LABEL, NOT_TOTAL);
+  const tip = findLabelled(lines, TIP_LABEL);
+  const merchant = findMerchant(lines);
+  const merchantName = merchant?.name;
+  const date = normalizeDate(findDate(text), context);
+
+  const allAmounts = lines.flatMap((line) => line.amounts);
+  const extraction: TextractExtraction = {
+    merchantName,
+    total: total?.amount ?? (allAmounts.length ? Math.max(...allAmounts) : undefined),
+    subtotal: subtotal?.amount,
+    tax: tax?.amount,
+    tip: tip?.amount,
+    date
+  };
+
+  const fields: NonNullable<TextractExtraction["fields"]> = {};
+  if (merchant) fields.merchantName = { confidence: merchant.confidence };
+  if (extraction.total !== undefined) {
+    fields.total = { confidence: total ? CONFIDENCE.labelled : CONFIDENCE.fallback };
+  }
+  if (subtotal) fields.subtotal = { confidence: CONFIDENCE.labelled };
+  if (tax) fields.tax = { confidence: CONFIDENCE.labelled };
+  if (tip) fields.tip = { confidence: CONFIDENCE.labelled };
+  if (date) fields.date = { confidence: CONFIDENCE.date };
+  if (Object.keys(fields).length) {
+    extraction.fields = fields;
+  }
+
+  const summaryStart = Math.min(
+    ...[subtotal, total, tax]
+      .filter((entry): entry is { index: number; amount: number } => Boolean(entry))
+      .map((entry) => entry.index),
+    lines.length
+  );
+  const lineItems = lines
+    .slice(0, summaryStart)
+    .filter(
+      (line) =>
+        line.amounts.length > 0 &&
+        /[a-z]{2,}/i.test(line.label) &&
+        line.text !== merchantName &&
+        !NON_ITEM_LABEL.test(line.label) &&
+        !findDate(line.text)
+    )
+    .map(parseLineItem);
+
+  if (lineItems.length) {
+    extraction.lineItems = lineItems;
+  }
+
+  return extraction;
+};
+
+/**
+ * Splits text holding several receipts at form feeds (page breaks) and
+ * parses each. A page without a total is treated as the start of a receipt
+ * that continues on the next page.
+ */
+export const parseReceiptDocuments = (
+  text: string,
+  context: ReceiptLocaleContext = {}
+): TextractExtraction[] => {
+  const documents: string[] = [];
+  let pending = "";
+  for (const page of text.split("\f")) {
+    pending = pending ? `${pending}\n${page}` : page;
+    const hasTotal = pending
+      .split(/\r?\n/)
+      .some((line) => TOTAL_LABELS.some((pattern) => pattern.test(line)) && !NOT_TOTAL.test(line));
+    if (hasTotal) {
+      documents.push(pending);
+      pending = "";
+    }
+  }
+  if (pending.trim()) {
+    if (documents.length) {
+      documents[documents.length - 1] += `\n${pending}`;
+    } else {
+      documents.push(pending);
+    }
+  }
+  return documents.map((document) => parseReceiptText(document, context));
+};
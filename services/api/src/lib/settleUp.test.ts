@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { computeSettleUpTransfers } from "./settleUp.js";
+
+const rows = (balances: Record<string, number>) =>
+  Object.entries(balances).map(([memberId, balance]) => ({ memberId, balance }));
+
+describe("computeSettleUpTransfers", () => {
+  it("settles a single-cent debt", () => {
+    expect(computeSettleUpTransfers(rows({ ana: 0.01, ben: -0.01 }))).toEqual([
+      { fromMemberId: "ben", toMemberId: "ana", amount: 0.01 }
+    ]);
+  });
+
+  it("settles exact cents despite floating-point balances", () => {
+    expect(
+      computeSettleUpTransfers(rows({ ana: 0.1 + 0.2, ben: -0.3, cat: 0 }))
+    ).toEqual([{ fromMemberId: "ben", toMemberId: "ana", amount: 0.3 }]);
+  });
+
+  it("carries a one-cent remainder on to the next creditor", () => {
+    expect(
+      computeSettleUpTransfers(rows({ ana: 10, ben: 0.01, cat: -10.01 }))
+    ).toEqual([
+      { fromMemberId: "cat", toMemberId: "ana", amount: 10 },
+      { fromMemberId: "cat", toMemberId: "ben", amount: 0.01 }
+    ]);
+  });
+
+  it("collects a one-cent remainder from the next debtor", () => {
+    expect(
+      computeSettleUpTransfers(rows({ ana: 20.01, ben: -20, cat: -0.01 }))
+    ).toEqual([
+      { fromMemberId: "ben", toMemberId: "ana", amount: 20 },
+      { fromMemberId: "cat", toMemberId: "ana", amount: 0.01 }
+    ]);
+  });
+
+  it("pays the preferred payee first", () => {
+    expect(
+      computeSettleUpTransfers(rows({ ana: 30, ben: 10, cat: -25, dan: -15 }), "ben")
+    ).toEqual([
+      { fromMemberId: "cat", toMemberId: "ben", amount: 10 },
+      { fromMemberId: "cat", toMemberId: "ana", amount: 15 },
+      { fromMemberId: "dan", toMemberId: "ana", amount: 15 }
+    ]);
+  });
+
+  it("matches the largest debtor with the largest creditor", () => {
+    const transfers = computeSettleUpTransfers(
+      rows({ ana: 50, ben: 25, cat: -60, dan: -15 })
+    );
+    expect(transfers).toEqual([
+      { fromMemberId: "cat", toMemberId: "ana", amount: 50 },
+      { fromMemberId: "cat", toMemberId: "ben", amount: 10 },
+      { fromMemberId: "dan", toMemberId: "ben", amount: 15 }
+    ]);
+    expect(transfers.length).toBeLessThanOrEqual(3);
+  });
+
+  it("returns nothing when everyone is even", () => {
+    expect(computeSettleUpTransfers(rows({ ana: 0, ben: -0.001 }))).toEqual([]);
+  });
+});
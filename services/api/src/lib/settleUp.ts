@@ -0,0 +1,62 @@
+/**
+ * Turns net member balances into the transfers that settle a trip. Balances
+ * are in the trip currency: positive is owed to the member, negative is owed
+ * by them.
+ */
+export interface SettleUpTransfer {
+  fromMemberId: string;
+  toMemberId: string;
+  amount: number;
+}
+
+const toCents = (value: number) => Math.round(value * 100);
+
+// Greedy largest-debtor to largest-creditor matching keeps the plan at no
+// more than n - 1 transfers. A preferred payee is paid off first. The math
+// runs in whole cents so a single cent is still settled.
+export const computeSettleUpTransfers = (
+  balances: Array<{ memberId: string; balance: number }>,
+  preferredPayeeId?: string
+): SettleUpTransfer[] => {
+  const creditors = balances
+    .map((row) => ({ memberId: row.memberId, cents: toCents(row.balance) }))
+    .filter((row) => row.cents > 0);
+  const debtors = balances
+    .map((row) => ({ memberId: row.memberId, cents: -toCents(row.balance) }))
+    .filter((row) => row.cents > 0);
+
+  creditors.sort((a, b) => {
+    if (a.memberId === preferredPayeeId) return -1;
+    if (b.memberId === preferredPayeeId) return 1;
+    return b.cents - a.cents;
+  });
+  debtors.sort((a, b) => b.cents - a.cents);
+
+  const transfers: SettleUpTransfer[] = [];
+  let creditorIndex = 0;
+  let debtorIndex = 0;
+
+  while (creditorIndex < creditors.length && debtorIndex < debtors.length) {
+    const creditor = creditors[creditorIndex];
+    const debtor = debtors[debtorIndex];
+    const cents = Math.min(creditor.cents, debtor.cents);
+
+    transfers.push({
+      fromMemberId: debtor.memberId,
+      toMemberId: creditor.memberId,
+      amount: cents / 100
+    });
+
+    creditor.cents -= cents;
+    debtor.cents -= cents;
+
+    if (creditor.cents === 0) {
+      creditorIndex += 1;
+    }
+    if (debtor.cents === 0) {
+      debtorIndex += 1;
+    }
+  }
+
+  return transfers;
+};
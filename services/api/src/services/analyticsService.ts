@@ -0,0 +1,364 @@
+import type { TripDetails } from "../data/tripStore.js";
+import type { BudgetAlert, Expense, Trip, TripBudget } from "../types.js";
+import { convertAllocations, convertAmount } from "./exchangeRateService.js";
+
+export interface SpendBreakdown {
+  key: string;
+  label: string;
+  total: number;
+  expenseCount: number;
+  /** Fraction of the trip's total spend, 0–1. */
+  share: number;
+}
+
+export interface DailySpend {
+  date: string;
+  total: number;
+  expenseCount: number;
+}
+
+export interface MemberSpend {
+  memberId: string;
+  displayName: string;
+  paid: number;
+  consumed: number;
+  /** Paid minus consumed; positive when the member fronted more than their share. */
+  net: number;
+}
+
+export interface BurnDownPoint {
+  date: string;
+  spent: number;
+  /** Everything spent up to and including this day, pre-trip bookings included. */
+  cumulative: number;
+}
+
+export interface TripBurnDown {
+  startDate: string;
+  endDate: string;
+  totalDays: number;
+  elapsedDays: number;
+  /** Spent before the start date, e.g. flights and deposits. */
+  preTripSpend: number;
+  spentToDate: number;
+  /** Average spend per elapsed trip day, pre-trip spend excluded. */
+  dailyAverage: number;
+  /** Spend at the end of the trip if the current daily average holds. */
+  projectedTotal: number;
+  /** The trip's total budget, when one is set. */
+  budget?: number;
+  days: BurnDownPoint[];
+}
+
+export type BudgetLevel = "ok" | "warning" | "exceeded";
+
+export interface BudgetLine {
+  /** Category name, or undefined for the trip total. */
+  category?: string;
+  name: string;
+  budget: number;
+  spent: number;
+  remaining: number;
+  /** Spent divided by budget; above 1 once overspent. */
+  ratio: number;
+  level: BudgetLevel;
+}
+
+export interface BudgetStatus {
+  alertThreshold: number;
+  total?: BudgetLine;
+  categories: BudgetLine[];
+}
+
+export interface TripAnalytics {
+  tripId: string;
+  currency: string;
+  totalSpend: number;
+  expenseCount: number;
+  byCategory: SpendBreakdown[];
+  byPayer: SpendBreakdown[];
+  byVendor: SpendBreakdown[];
+  byDay: DailySpend[];
+  members: MemberSpend[];
+  /** Only present when the trip has both a start and an end date. */
+  burnDown?: TripBurnDown;
+}
+
+export const DEFAULT_BUDGET_ALERT_THRESHOLD = 0.8;
+
+const BUDGET_LEVEL_RANK: Record<BudgetLevel, number> = { ok: 0, warning: 1, exceeded: 2 };
+
+// Longer ranges are almost always a typo in the trip dates.
+const MAX_BURN_DOWN_DAYS = 731;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundCents = (value: number): number =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+// Imported expenses carry the statement date in `createdAt` and recurring
+// ones their occurrence date, so it doubles as the day the money was spent.
+const expenseDate = (expense: Expense): string => expense.createdAt.slice(0, 10);
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+const addDays = (date: string, days: number): string =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+const groupSpend = (
+  expenses: Expense[],
+  keyOf: (expense: Expense) => { key: string; label: string },
+  totalSpend: number
+): SpendBreakdown[] => {
+  const groups = new Map<string, SpendBreakdown>();
+  for (const expense of expenses) {
+    const { key, label } = keyOf(expense);
+    const entry = groups.get(key) ?? { key, label, total: 0, expenseCount: 0, share: 0 };
+    entry.total = roundCents(entry.total + convertAmount(expense.total, expense.exchangeRate));
+    entry.expenseCount += 1;
+    groups.set(key, entry);
+  }
+  return Array.from(groups.values())
+    .map((entry) => ({
+      ...entry,
+      share: totalSpend ? Math.round((entry.total / totalSpend) * 1000) / 1000 : 0
+    }))
+    .sort((a, b) => b.total - a.total || a.label.localeCompare(b.label));
+};
+
+const categoryKey = (category: string): string => category.trim().toLowerCase();
+
+const budgetLine = (
+  name: string,
+  budget: number,
+  spent: number,
+  threshold: number,
+  category?: string
+): BudgetLine => {
+  // Budgets are validated as positive, so the ratio is always defined.
+  const ratio = Math.round((spent / budget) * 1000) / 1000;
+  return {
+    category,
+    name,
+    budget,
+    spent,
+    remaining: roundCents(budget - spent),
+    ratio,
+    level: spent > budget ? "exceeded" : ratio >= threshold ? "warning" : "ok"
+  };
+};
+
+/** Budget versus actual spend in the trip currency, drafts excluded. */
+export const computeBudgetStatus = (budget: TripBudget, expenses: Expense[]): BudgetStatus => {
+  const threshold = budget.alertThreshold ?? DEFAULT_BUDGET_ALERT_THRESHOLD;
+  const confirmed = expenses.filter((expense) => !expense.draft);
+  const spentByCategory = new Map<string, number>();
+  let totalSpent = 0;
+  for (const expense of confirmed) {
+    const amount = convertAmount(expense.total, expense.exchangeRate);
+    totalSpent += amount;
+    if (expense.category?.trim()) {
+      const key = categoryKey(expense.category);
+      spentByCategory.set(key, (spentByCategory.get(key) ?? 0) + amount);
+    }
+  }
+
+  return {
+    alertThreshold: threshold,
+    total:
+      budget.total !== undefined
+        ? budgetLine("Trip total", budget.total, roundCents(totalSpent), threshold)
+        : undefined,
+    categories: Object.entries(budget.categories ?? {}).map(([category, limit]) =>
+      budgetLine(
+        category,
+        limit,
+        roundCents(spentByCategory.get(categoryKey(category)) ?? 0),
+        threshold,
+        category
+      )
+    )
+  };
+};
+
+/**
+ * Budget lines that moved up a level (ok → warning → exceeded) between two
+ * versions of the trip's expenses, so each crossing is reported once.
+ */
+export const findBudgetAlerts = (
+  trip: Trip,
+  previous: Expense[],
+  next: Expense[]
+): BudgetAlert[] => {
+  if (!trip.budget) {
+    return [];
+  }
+  const before = computeBudgetStatus(trip.budget, previous);
+  const after = computeBudgetStatus(trip.budget, next);
+  const beforeLines = new Map(
+    [before.total, ...before.categories]
+      .filter((line): line is BudgetLine => Boolean(line))
+      .map((line) => [line.category ?? "", line])
+  );
+
+  return [after.total, ...after.categories]
+    .filter((line): line is BudgetLine => Boolean(line))
+    .filter((line) => {
+      const previousLevel = beforeLines.get(line.category ?? "")?.level ?? "ok";
+      return BUDGET_LEVEL_RANK[line.level] > BUDGET_LEVEL_RANK[previousLevel];
+    })
+    .map((line) => ({
+      category: line.category,
+      name: line.name,
+      level: line.level === "exceeded" ? "exceeded" : "warning",
+      budget: line.budget,
+      spent: line.spent,
+      threshold: after.alertThreshold
+    }));
+};
+
+const buildBurnDown = (
+  startDate: string,
+  endDate: string,
+  byDay: DailySpend[],
+  asOfDate: string,
+  budget?: number
+): TripBurnDown | undefined => {
+  const totalDays = daysBetween(startDate, endDate) + 1;
+  if (totalDays < 1 || totalDays > MAX_BURN_DOWN_DAYS) {
+    return undefined;
+  }
+
+  const spentByDay = new Map(byDay.map((day) => [day.date, day.total]));
+  const preTripSpend = roundCents(
+    byDay.filter((day) => day.date < startDate).reduce((sum, day) => sum + day.total, 0)
+  );
+  let cumulative = preTripSpend;
+  const days: BurnDownPoint[] = [];
+  for (let index = 0; index < totalDays; index += 1) {
+    const date = addDays(startDate, index);
+    const spent = spentByDay.get(date) ?? 0;
+    cumulative = roundCents(cumulative + spent);
+    days.push({ date, spent, cumulative });
+  }
+
+  const elapsedDays = Math.min(Math.max(daysBetween(startDate, asOfDate) + 1, 0), totalDays);
+  const spentToDate = elapsedDays ? days[elapsedDays - 1].cumulative : preTripSpend;
+  const dailyAverage = elapsedDays
+    ? roundCents((spentToDate - preTripSpend) / elapsedDays)
+    : 0;
+  const projectedTotal =
+    elapsedDays > 0 && elapsedDays < totalDays
+      ? roundCents(preTripSpend + dailyAverage * totalDays)
+      : spentToDate;
+
+  return {
+    startDate,
+    endDate,
+    totalDays,
+    elapsedDays,
+    preTripSpend,
+    spentToDate,
+    dailyAverage,
+    projectedTotal,
+    budget,
+    days
+  };
+};
+
+/**
+ * Spending breakdowns for a trip in its own currency. Drafts are left out,
+ * as they are from balances.
+ */
+export const buildTripAnalytics = (details: TripDetails, asOfDate: string): TripAnalytics => {
+  const { trip, members } = details;
+  const expenses = details.expenses.filter((expense) => !expense.draft);
+  const namesById = new Map(members.map((member) => [member.memberId, member.displayName]));
+
+  const totalSpend = roundCents(
+    expenses.reduce((sum, expense) => sum + convertAmount(expense.total, expense.exchangeRate), 0)
+  );
+
+  const byCategory = groupSpend(
+    expenses,
+    (expense) => {
+      const category = expense.category?.trim();
+      return category
+        ? { key: category.toLowerCase(), label: category }
+        : { key: "uncategorized", label: "Uncategorized" };
+    },
+    totalSpend
+  );
+
+  const byPayer = groupSpend(
+    expenses,
+    (expense) => ({
+      key: expense.paidByMemberId,
+      label: namesById.get(expense.paidByMemberId) ?? expense.paidByMemberId
+    }),
+    totalSpend
+  );
+
+  const byVendor = groupSpend(
+    expenses,
+    (expense) => {
+      const vendor = expense.vendor?.trim();
+      return vendor
+        ? { key: vendor.toLowerCase(), label: vendor }
+        : { key: "unknown", label: "Unknown vendor" };
+    },
+    totalSpend
+  );
+
+  const days = new Map<string, DailySpend>();
+  for (const expense of expenses) {
+    const date = expenseDate(expense);
+    const entry = days.get(date) ?? { date, total: 0, expenseCount: 0 };
+    entry.total = roundCents(entry.total + convertAmount(expense.total, expense.exchangeRate));
+    entry.expenseCount += 1;
+    days.set(date, entry);
+  }
+  const byDay = Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date));
+
+  const paid = new Map<string, number>();
+  const consumed = new Map<string, number>();
+  for (const expense of expenses) {
+    paid.set(
+      expense.paidByMemberId,
+      (paid.get(expense.paidByMemberId) ?? 0) + convertAmount(expense.total, expense.exchangeRate)
+    );
+    for (const allocation of convertAllocations(expense)) {
+      consumed.set(
+        allocation.memberId,
+        (consumed.get(allocation.memberId) ?? 0) + allocation.amount
+      );
+    }
+  }
+  const memberSpend = members.map((member) => {
+    const memberPaid = roundCents(paid.get(member.memberId) ?? 0);
+    const memberConsumed = roundCents(consumed.get(member.memberId) ?? 0);
+    return {
+      memberId: member.memberId,
+      displayName: member.displayName,
+      paid: memberPaid,
+      consumed: memberConsumed,
+      net: roundCents(memberPaid - memberConsumed)
+    };
+  });
+
+  return {
+    tripId: trip.tripId,
+    currency: trip.currency,
+    totalSpend,
+    expenseCount: expenses.length,
+    byCategory,
+    byPayer,
+    byVendor,
+    byDay,
+    members: memberSpend,
+    burnDown:
+      trip.startDate && trip.endDate
+        ? buildBurnDown(trip.startDate, trip.endDate, byDay, asOfDate, trip.budget?.total)
+        : undefined
+  };
+};
@@ -0,0 +1,169 @@
+import { z } from "zod";
+import type { CategoryRule, ExpenseCategory, Trip, TripBudget } from "../types.js";
+
+export const DEFAULT_EXPENSE_CATEGORIES: ExpenseCategory[] = [
+  {
+    name: "Food",
+    icon: "🍽️",
+    color: "#f97316",
+    aliases: ["Dining", "Meals", "Restaurant", "Restaurants", "Drinks"]
+  },
+  { name: "Groceries", icon: "🛒", color: "#22c55e", aliases: ["Supermarket"] },
+  {
+    name: "Lodging",
+    icon: "🏨",
+    color: "#6366f1",
+    aliases: ["Accommodation", "Hotel", "Hotels"]
+  },
+  {
+    name: "Transport",
+    icon: "🚕",
+    color: "#0ea5e9",
+    aliases: ["Transportation", "Travel", "Fuel", "Gas", "Parking"]
+  },
+  { name: "Activities", icon: "🎟️", color: "#ec4899", aliases: ["Entertainment", "Tours"] },
+  { name: "Shopping", icon: "🛍️", color: "#a855f7", aliases: ["Souvenirs"] },
+  { name: "Fees", icon: "🧾", color: "#64748b", aliases: ["Bank fees", "Service fees"] },
+  { name: "Other", icon: "📦", color: "#94a3b8", aliases: ["Misc", "Miscellaneous"] }
+];
+
+// Fallback when no rule matches. Each entry only applies if the trip's
+// catalog still has a category of that name.
+const VENDOR_KEYWORDS: Array<{ pattern: RegExp; category: string }> = [
+  {
+    pattern: /\b(restaurant|cafe|coffee|bistro|bar|pub|pizza|pizzeria|grill|kitchen|bakery|diner|starbucks|mcdonald)\b/,
+    category: "Food"
+  },
+  {
+    pattern: /\b(market|grocery|groceries|supermarket|aldi|lidl|tesco|whole foods|safeway)\b/,
+    category: "Groceries"
+  },
+  { pattern: /\b(hotel|hostel|inn|motel|airbnb|resort|lodge|booking com)\b/, category: "Lodging" },
+  {
+    pattern: /\b(uber|lyft|taxi|cab|airlines?|airways|rail|train|metro|transit|parking|shell|chevron|bp|esso|fuel)\b/,
+    category: "Transport"
+  },
+  {
+    pattern: /\b(museum|tours?|tickets?|cinema|theat(re|er)|park|zoo)\b/,
+    category: "Activities"
+  }
+];
+
+const categoryKey = (name: string): string => name.trim().toLowerCase();
+
+const expenseCategorySchema = z.object({
+  name: z.string().trim().min(1).max(40),
+  icon: z.string().trim().min(1).max(16),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Colour must be a hex value such as #f97316"),
+  aliases: z.array(z.string().trim().min(1).max(40)).max(20).optional()
+});
+
+/** A whole catalog, as sent when a trip's or a user's categories are replaced. */
+export const categoryCatalogSchema = z
+  .array(expenseCategorySchema)
+  .min(1)
+  .max(50)
+  .refine(
+    (catalog) => {
+      const keys = catalog.flatMap((entry) =>
+        [entry.name, ...(entry.aliases ?? [])].map(categoryKey)
+      );
+      return new Set(keys).size === keys.length;
+    },
+    { message: "Category names and aliases must be unique" }
+  );
+
+/** The trip's catalog, falling back to the built-in defaults. */
+export const tripCategories = (trip: Trip): ExpenseCategory[] =>
+  trip.categories?.length ? trip.categories : DEFAULT_EXPENSE_CATEGORIES;
+
+/**
+ * Lower-cases a vendor and strips punctuation and store numbers so
+ * "STARBUCKS #1234" and "Starbucks" share a rule. Returns "" when nothing
+ * usable is left.
+ */
+export const normalizeVendor = (vendor: string | undefined): string =>
+  (vendor ?? "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .split(" ")
+    .filter((token) => token && !/^\d+$/.test(token))
+    .join(" ");
+
+/**
+ * Folds a category onto the catalog entry with the same name or alias, so
+ * "food" and "Dining" both become "Food". Unknown names are kept as typed.
+ */
+export const resolveCategoryName = (
+  catalog: ExpenseCategory[],
+  category: string
+): string => {
+  const key = categoryKey(category);
+  const match = catalog.find(
+    (entry) =>
+      categoryKey(entry.name) === key ||
+      entry.aliases?.some((alias) => categoryKey(alias) === key)
+  );
+  return match ? match.name : category.trim();
+};
+
+/**
+ * Keys a budget's category limits by catalog name, so a "Dining" limit is
+ * checked against spend filed as "Food". Limits that fold onto the same
+ * category are added together.
+ */
+export const resolveBudgetCategories = (
+  budget: TripBudget,
+  catalog: ExpenseCategory[]
+): TripBudget => {
+  if (!budget.categories) {
+    return budget;
+  }
+  const categories: Record<string, number> = {};
+  for (const [name, limit] of Object.entries(budget.categories)) {
+    const resolved = resolveCategoryName(catalog, name);
+    categories[resolved] = Math.round(((categories[resolved] ?? 0) + limit) * 100) / 100;
+  }
+  return { ...budget, categories };
+};
+
+const findRule = (rules: CategoryRule[], vendor: string): CategoryRule | undefined => {
+  let best: CategoryRule | undefined;
+  for (const rule of rules) {
+    const matches = vendor === rule.vendor || vendor.startsWith(`${rule.vendor} `);
+    if (matches && (!best || rule.vendor.length > best.vendor.length)) {
+      best = rule;
+    }
+  }
+  return best;
+};
+
+/**
+ * Picks a category for a vendor. Rule sets are tried in order (trip rules
+ * before the member's own), with the longest matching vendor winning inside
+ * a set; built-in keywords are the last resort.
+ */
+export const suggestCategory = (
+  catalog: ExpenseCategory[],
+  vendor: string | undefined,
+  ruleSets: CategoryRule[][]
+): string | undefined => {
+  const normalized = normalizeVendor(vendor);
+  if (!normalized) {
+    return undefined;
+  }
+
+  for (const rules of ruleSets) {
+    const rule = findRule(rules, normalized);
+    if (rule) {
+      return resolveCategoryName(catalog, rule.category);
+    }
+  }
+
+  const keyword = VENDOR_KEYWORDS.find((entry) => entry.pattern.test(normalized));
+  if (!keyword) {
+    return undefined;
+  }
+  const entry = catalog.find((item) => categoryKey(item.name) === categoryKey(keyword.category));
+  return entry?.name;
+};
@@ -0,0 +1,122 @@
+import { loadConfig } from "../config.js";
+import type { Expense, ExpenseAllocation } from "../types.js";
+
+export interface ExchangeRateProvider {
+  readonly name: string;
+  getRate(
+    fromCurrency: string,
+    toCurrency: string,
+    date?: string
+  ): Promise<number | undefined>;
+}
+
+// Units of each currency per 1 USD. Used when no live provider is configured,
+// so rates are indicative only and can be overridden on each expense.
+const STATIC_USD_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  CAD: 1.36,
+  AUD: 1.52,
+  NZD: 1.66,
+  JPY: 151.5,
+  CHF: 0.9,
+  CNY: 7.23,
+  HKD: 7.82,
+  SGD: 1.35,
+  INR: 83.3,
+  MXN: 16.9,
+  BRL: 5.05,
+  SEK: 10.6,
+  NOK: 10.8,
+  DKK: 6.88,
+  PLN: 3.98,
+  CZK: 23.4,
+  ZAR: 18.7,
+  KRW: 1350,
+  THB: 36.5,
+  ISK: 139
+};
+
+export class StaticExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = "static";
+
+  constructor(private readonly usdRates: Record<string, number> = STATIC_USD_RATES) {}
+
+  async getRate(fromCurrency: string, toCurrency: string): Promise<number | undefined> {
+    const from = fromCurrency.toUpperCase();
+    const to = toCurrency.toUpperCase();
+    if (from === to) {
+      return 1;
+    }
+    const fromRate = this.usdRates[from];
+    const toRate = this.usdRates[to];
+    if (!fromRate || !toRate) {
+      return undefined;
+    }
+    return Math.round((toRate / fromRate) * 1_000_000) / 1_000_000;
+  }
+}
+
+const providers: Record<string, () => ExchangeRateProvider> = {
+  static: () => new StaticExchangeRateProvider()
+};
+
+let providerInstance: ExchangeRateProvider | null = null;
+
+export const registerExchangeRateProvider = (
+  name: string,
+  factory: () => ExchangeRateProvider
+): void => {
+  providers[name] = factory;
+  providerInstance = null;
+};
+
+export const getExchangeRateProvider = (): ExchangeRateProvider => {
+  if (!providerInstance) {
+    const { exchangeRateProvider } = loadConfig();
+    const factory = providers[exchangeRateProvider];
+    if (!factory) {
+      throw new Error(`Unknown exchange rate provider: ${exchangeRateProvider}`);
+    }
+    providerInstance = factory();
+  }
+  return providerInstance;
+};
+
+export const convertAmount = (amount: number, exchangeRate?: number): number =>
+  Math.round((amount * (exchangeRate ?? 1) + Number.EPSILON) * 100) / 100;
+
+// Shares in the trip currency. Converting each share on its own can round
+// to a cent more or less than the converted total the payer is credited, so
+// the difference goes to one member the way even splits place their
+// remainder, and every expense still nets to zero.
+export const convertAllocations = (expense: Expense): ExpenseAllocation[] => {
+  const converted = expense.allocations.map((allocation) => ({
+    memberId: allocation.memberId,
+    amount: convertAmount(allocation.amount, expense.exchangeRate)
+  }));
+  const allocatedCents = expense.allocations.reduce(
+    (sum, allocation) => sum + Math.round(allocation.amount * 100),
+    0
+  );
+  if (
+    expense.exchangeRate === undefined ||
+    !converted.length ||
+    allocatedCents !== Math.round(expense.total * 100)
+  ) {
+    return converted;
+  }
+
+  const driftCents =
+    Math.round(convertAmount(expense.total, expense.exchangeRate) * 100) -
+    converted.reduce((sum, allocation) => sum + Math.round(allocation.amount * 100), 0);
+  if (driftCents) {
+    const remainderMemberId = expense.split?.remainderMemberId;
+    const target =
+      converted.find((allocation) => allocation.memberId === remainderMemberId) ??
+      converted[converted.length - 1];
+    target.amount = (Math.round(target.amount * 100) + driftCents) / 100;
+  }
+  return converted;
+};
@@ -0,0 +1,248 @@
+import type { TripDetails } from "../data/tripStore.js";
+import { PdfDocument, PAGE_HEIGHT, PAGE_WIDTH, type PdfImage } from "../lib/pdf.js";
+import type { Receipt } from "../types.js";
+import { convertAllocations, convertAmount } from "./exchangeRateService.js";
+import type { TripSummary } from "./tripService.js";
+
+export type TripExportFormat = "csv" | "json" | "pdf";
+
+export interface TripExport {
+  fileName: string;
+  contentType: string;
+  body: string | Uint8Array;
+}
+
+export interface ReceiptThumbnail {
+  receipt: Receipt;
+  image?: PdfImage;
+}
+
+export const TRIP_EXPORT_VERSION = 1;
+
+const CSV_COLUMNS = [
+  "expense_id",
+  "created_at",
+  "description",
+  "vendor",
+  "category",
+  "currency",
+  "expense_total",
+  "exchange_rate",
+  "paid_by_member_id",
+  "paid_by_name",
+  "member_id",
+  "member_name",
+  "allocation_amount",
+  "allocation_amount_trip_currency",
+  "trip_currency",
+  "split_mode",
+  "receipt_id"
+];
+
+const escapeCsv = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const slugify = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "trip";
+
+export const exportFileName = (summary: TripSummary, format: TripExportFormat) =>
+  `${slugify(summary.trip.name)}-${summary.trip.tripId}.${format}`;
+
+/** One row per expense allocation, oldest expense first. */
+export const buildTripCsv = (summary: TripSummary): string => {
+  const names = new Map(
+    summary.members.map((member) => [member.memberId, member.displayName])
+  );
+  const expenses = [...summary.expenses].sort((a, b) =>
+    a.createdAt.localeCompare(b.createdAt)
+  );
+
+  const rows = expenses.flatMap((expense) => {
+    const converted = convertAllocations(expense);
+    return expense.allocations.map((allocation, index) => [
+      expense.expenseId,
+      expense.createdAt,
+      expense.description,
+      expense.vendor,
+      expense.category,
+      expense.currency,
+      expense.total.toFixed(2),
+      expense.exchangeRate,
+      expense.paidByMemberId,
+      names.get(expense.paidByMemberId),
+      allocation.memberId,
+      names.get(allocation.memberId),
+      allocation.amount.toFixed(2),
+      converted[index].amount.toFixed(2),
+      summary.trip.currency,
+      expense.split?.mode,
+      expense.receiptId
+    ]);
+  });
+
+  return [CSV_COLUMNS, ...rows]
+    .map((row) => row.map(escapeCsv).join(","))
+    .join("\r\n");
+};
+
+/**
+ * Dumps the stored trip exactly as `TripDetails`, minus presigned URLs that
+ * expire, so the file can be parsed back into the same shape.
+ */
+export const buildTripJson = (summary: TripSummary, exportedAt: string): string => {
+  const details: TripDetails = {
+    trip: summary.trip,
+    members: summary.members,
+    expenses: summary.expenses.map(({ receiptPreviewUrl: _url, ...expense }) => expense),
+    receipts: summary.receipts.map(({ thumbnailUrl: _url, ...receipt }) => receipt),
+    settlements: summary.settlements,
+    categoryRules: summary.categoryRules
+  };
+
+  return JSON.stringify(
+    { exportVersion: TRIP_EXPORT_VERSION, exportedAt, ...details },
+    null,
+    2
+  );
+};
+
+const MARGIN = 48;
+const LINE_HEIGHT = 16;
+const THUMBNAIL_SIZE = 150;
+
+const truncate = (value: string, maxChars: number) =>
+  value.length > maxChars ? `${value.slice(0, maxChars - 3)}...` : value;
+
+export const buildTripPdf = (
+  summary: TripSummary,
+  thumbnails: ReceiptThumbnail[],
+  exportedAt: string
+): Uint8Array => {
+  const pdf = new PdfDocument();
+  const currency = summary.trip.currency;
+  const names = new Map(
+    summary.members.map((member) => [member.memberId, member.displayName])
+  );
+  const nameOf = (memberId: string) => names.get(memberId) ?? memberId;
+  const money = (amount: number, code = currency) => `${code} ${amount.toFixed(2)}`;
+
+  let y = PAGE_HEIGHT;
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+  };
+  const heading = (title: string) => {
+    ensureSpace(LINE_HEIGHT * 3);
+    y += LINE_HEIGHT;
+    pdf.text(title, MARGIN, y, { size: 14, bold: true });
+    y += 6;
+    pdf.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+    y += LINE_HEIGHT;
+  };
+  const row = (columns: Array<[string, number]>, bold = false) => {
+    ensureSpace(LINE_HEIGHT);
+    columns.forEach(([value, x]) => pdf.text(value, x, y, { bold }));
+    y += LINE_HEIGHT;
+  };
+
+  pdf.addPage();
+  y = MARGIN + 10;
+  pdf.text(summary.trip.name, MARGIN, y, { size: 20, bold: true });
+  y += LINE_HEIGHT * 1.5;
+  const dates = [summary.trip.startDate, summary.trip.endDate].filter(Boolean).join(" - ");
+  pdf.text(
+    [dates, `Currency ${currency}`, `Exported ${exportedAt.slice(0, 10)}`]
+      .filter(Boolean)
+      .join("  ·  "),
+    MARGIN,
+    y,
+    { size: 9 }
+  );
+  y += LINE_HEIGHT;
+  const totalSpent = summary.expenses.reduce(
+    (sum, expense) => sum + convertAmount(expense.total, expense.exchangeRate),
+    0
+  );
+  pdf.text(
+    `${summary.expenses.length} expenses totalling ${money(totalSpent)}`,
+    MARGIN,
+    y,
+    { size: 9 }
+  );
+  y += LINE_HEIGHT;
+
+  heading("Final balances");
+  row([["Member", MARGIN], ["Balance", 330], ["Status", 430]], true);
+  summary.balances.forEach((balance) => {
+    const status =
+      balance.balance > 0.01 ? "is owed" : balance.balance < -0.01 ? "owes" : "settled";
+    row([
+      [truncate(balance.displayName, 45), MARGIN],
+      [money(Math.abs(balance.balance)), 330],
+      [status, 430]
+    ]);
+  });
+
+  heading("Settlements");
+  if (!summary.settlements.length) {
+    row([["No settlements recorded.", MARGIN]]);
+  } else {
+    row([["From", MARGIN], ["To", 190], ["Amount", 330], ["Status", 430]], true);
+    [...summary.settlements]
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .forEach((settlement) => {
+        row([
+          [truncate(nameOf(settlement.fromMemberId), 24), MARGIN],
+          [truncate(nameOf(settlement.toMemberId), 24), 190],
+          [money(settlement.amount, settlement.currency), 330],
+          [settlement.confirmedAt ? `Confirmed ${settlement.confirmedAt.slice(0, 10)}` : "Pending", 430]
+        ]);
+      });
+  }
+
+  if (thumbnails.length) {
+    heading("Receipts");
+    const columns = Math.floor((PAGE_WIDTH - MARGIN * 2) / (THUMBNAIL_SIZE + 12));
+    thumbnails.forEach((thumbnail, index) => {
+      const column = index % columns;
+      if (column === 0 && index > 0) {
+        y += THUMBNAIL_SIZE + LINE_HEIGHT * 2;
+      }
+      if (column === 0) {
+        ensureSpace(THUMBNAIL_SIZE + LINE_HEIGHT * 2);
+      }
+      const x = MARGIN + column * (THUMBNAIL_SIZE + 12);
+      if (thumbnail.image) {
+        const scale = Math.min(
+          THUMBNAIL_SIZE / thumbnail.image.width,
+          THUMBNAIL_SIZE / thumbnail.image.height
+        );
+        pdf.image(
+          thumbnail.image,
+          x,
+          y,
+          thumbnail.image.width * scale,
+          thumbnail.image.height * scale
+        );
+      } else {
+        pdf.text("Preview unavailable", x, y + THUMBNAIL_SIZE / 2, { size: 8 });
+      }
+      pdf.text(truncate(thumbnail.receipt.fileName, 30), x, y + THUMBNAIL_SIZE + 12, {
+        size: 8
+      });
+    });
+    y += THUMBNAIL_SIZE + LINE_HEIGHT * 2;
+  }
+
+  return pdf.toBuffer();
+};
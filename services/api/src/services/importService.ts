@@ -0,0 +1,334 @@
+import { parseCsv } from "../lib/csv.js";
+import { normalizeAmount, type ReceiptLocaleContext } from "../lib/receiptNormalization.js";
+import type { TripMember } from "../types.js";
+
+export type ImportFormat = "splitwise" | "bank-csv" | "ofx";
+
+/**
+ * A source row mapped onto the `createExpense` payload shape. `expense` is
+ * left unvalidated here; the trip service runs it through the same schema and
+ * allocation rules as a hand-entered expense.
+ */
+export interface ImportCandidate {
+  rowNumber: number;
+  date?: string;
+  expense?: {
+    description: string;
+    vendor?: string;
+    category?: string;
+    total: number;
+    currency?: string;
+    paidByMemberId?: string;
+    sharedWithMemberIds: string[];
+    allocations?: Array<{ memberId: string; amount: number }>;
+    splitEvenly?: boolean;
+  };
+  errors: string[];
+  skippedReason?: string;
+}
+
+export interface ImportOptions {
+  members: TripMember[];
+  /** Payer for bank rows; the statement belongs to one person. */
+  paidByMemberId: string;
+  /** Members bank rows are split evenly between. */
+  sharedWithMemberIds: string[];
+  /** Source name or email (lowercased) to member id, for names that don't match. */
+  memberMap?: Record<string, string>;
+  currency?: string;
+  /** The trip's currency and locale, for reading amounts like "1.234,56". */
+  tripCurrency?: string;
+  locale?: string;
+  category?: string;
+}
+
+export const MAX_IMPORT_ROWS = 500;
+
+// Statements are formatted like receipts from the same country, so amounts
+// are read the same way.
+export const parseImportAmount = (
+  value: string | undefined,
+  context: ReceiptLocaleContext = {}
+): number | undefined => normalizeAmount(value, context);
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Accepts ISO dates, OFX timestamps (YYYYMMDD...) and slash dates, which are
+// read month-first unless the first part can only be a day.
+export const parseImportDate = (value: string | undefined): string | undefined => {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  let match = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+  match = trimmed.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+  match = trimmed.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{2,4})$/);
+  if (match) {
+    let [month, day] = [Number(match[1]), Number(match[2])];
+    if (month > 12) {
+      [month, day] = [day, month];
+    }
+    const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    if (month >= 1 && month <= 12 && day >= 1 && day <= 31) {
+      return `${year}-${pad(month)}-${pad(day)}`;
+    }
+  }
+  const parsed = new Date(trimmed);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString().slice(0, 10);
+};
+
+const normalizeName = (value: string) => value.trim().toLowerCase().replace(/\s+/g, " ");
+
+export const createMemberMatcher = (
+  members: TripMember[],
+  memberMap: Record<string, string> = {}
+) => {
+  const overrides = new Map(
+    Object.entries(memberMap).map(([key, memberId]) => [normalizeName(key), memberId])
+  );
+  return (value: string): TripMember | undefined => {
+    const key = normalizeName(value);
+    const overrideId = overrides.get(key);
+    if (overrideId) {
+      return members.find((member) => member.memberId === overrideId);
+    }
+    const exact =
+      members.find((member) => member.email && normalizeName(member.email) === key) ??
+      members.find((member) => normalizeName(member.displayName) === key);
+    if (exact) {
+      return exact;
+    }
+    // Splitwise often exports first names only; accept them when unambiguous.
+    const byFirstName = members.filter(
+      (member) => normalizeName(member.displayName).split(" ")[0] === key
+    );
+    return byFirstName.length === 1 ? byFirstName[0] : undefined;
+  };
+};
+
+const roundCents = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+// Splitwise exports: Date, Description, Category, Cost, Currency, then one
+// column per person holding their net position (paid minus share). A single
+// positive column identifies the payer; everyone else's share is -net.
+const parseSplitwise = (content: string, options: ImportOptions): ImportCandidate[] => {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) return [];
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const dateIndex = columns.indexOf("date");
+  const descriptionIndex = columns.indexOf("description");
+  const categoryIndex = columns.indexOf("category");
+  const costIndex = columns.indexOf("cost");
+  const currencyIndex = columns.indexOf("currency");
+  if (dateIndex === -1 || descriptionIndex === -1 || costIndex === -1) {
+    return [
+      {
+        rowNumber: 1,
+        errors: ["Not a Splitwise export: expected Date, Description and Cost columns"]
+      }
+    ];
+  }
+
+  const personStart = Math.max(dateIndex, descriptionIndex, categoryIndex, costIndex, currencyIndex) + 1;
+  const personColumns = header.slice(personStart).map((name) => name.trim());
+  const matchMember = createMemberMatcher(options.members, options.memberMap);
+  const people = personColumns.map((name) => ({ name, member: matchMember(name) }));
+
+  return rows.map((row, index): ImportCandidate => {
+    const rowNumber = index + 2;
+    const description = row[descriptionIndex]?.trim() ?? "";
+    const category = categoryIndex === -1 ? undefined : row[categoryIndex]?.trim() || undefined;
+    if (description.toLowerCase() === "total balance" || !row[dateIndex]?.trim()) {
+      return { rowNumber, errors: [], skippedReason: "Summary row" };
+    }
+    if (category?.toLowerCase() === "payment") {
+      return { rowNumber, errors: [], skippedReason: "Splitwise payment; record it as a settlement" };
+    }
+
+    const errors: string[] = [];
+    const date = parseImportDate(row[dateIndex]);
+    if (!date) errors.push(`Unrecognised date "${row[dateIndex]}"`);
+    const currency =
+      (currencyIndex === -1 ? undefined : row[currencyIndex]?.trim()) || options.currency;
+    const amountContext = { currency: currency || options.tripCurrency, locale: options.locale };
+    const total = parseImportAmount(row[costIndex], amountContext);
+    if (total === undefined || total <= 0) errors.push(`Invalid cost "${row[costIndex] ?? ""}"`);
+
+    const positions: Array<{ memberId: string; net: number }> = [];
+    people.forEach((person, offset) => {
+      const net = parseImportAmount(row[personStart + offset], amountContext) ?? 0;
+      if (Math.abs(net) < 0.005) return;
+      if (!person.member) {
+        errors.push(`No trip member matches "${person.name}"`);
+        return;
+      }
+      positions.push({ memberId: person.member.memberId, net });
+    });
+    const payers = positions.filter((position) => position.net > 0);
+    if (payers.length !== 1) {
+      errors.push(
+        payers.length ? "Expenses with several payers are not supported" : "No payer found in row"
+      );
+    }
+    if (errors.length || total === undefined) {
+      return { rowNumber, date, errors };
+    }
+
+    const payer = payers[0];
+    const allocations = positions
+      .map((position) => ({
+        memberId: position.memberId,
+        amount: roundCents(position === payer ? total - position.net : -position.net)
+      }))
+      .filter((allocation) => allocation.amount > 0);
+
+    return {
+      rowNumber,
+      date,
+      expense: {
+        description,
+        category: category ?? options.category,
+        total,
+        currency,
+        paidByMemberId: payer.memberId,
+        sharedWithMemberIds: allocations.map((allocation) => allocation.memberId),
+        allocations
+      },
+      errors
+    };
+  });
+};
+
+const bankExpense = (
+  rowNumber: number,
+  date: string | undefined,
+  description: string,
+  amount: number | undefined,
+  currency: string | undefined,
+  options: ImportOptions
+): ImportCandidate => {
+  const errors: string[] = [];
+  if (!date) errors.push("Missing or unrecognised date");
+  if (amount === undefined) errors.push("Missing or invalid amount");
+  if (!description) errors.push("Missing description");
+  if (amount !== undefined && amount >= 0) {
+    return { rowNumber, date, errors: [], skippedReason: "Credit or zero amount" };
+  }
+  if (errors.length || amount === undefined) {
+    return { rowNumber, date, errors };
+  }
+
+  return {
+    rowNumber,
+    date,
+    expense: {
+      description,
+      vendor: description,
+      category: options.category,
+      total: roundCents(Math.abs(amount)),
+      currency: currency || options.currency,
+      paidByMemberId: options.paidByMemberId,
+      sharedWithMemberIds: options.sharedWithMemberIds,
+      splitEvenly: true
+    },
+    errors
+  };
+};
+
+const BANK_COLUMNS = {
+  date: ["date", "transaction date", "posted date", "posting date", "booking date"],
+  description: ["description", "payee", "merchant", "name", "details", "memo"],
+  amount: ["amount", "transaction amount"],
+  debit: ["debit", "withdrawal", "money out", "paid out"],
+  credit: ["credit", "deposit", "money in", "paid in"],
+  currency: ["currency"]
+};
+
+// Generic bank CSV: money leaving the account is an expense, whether it shows
+// up as a negative Amount or in a Debit column.
+const parseBankCsv = (content: string, options: ImportOptions): ImportCandidate[] => {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) return [];
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const find = (names: string[]) => columns.findIndex((column) => names.includes(column));
+  const dateIndex = find(BANK_COLUMNS.date);
+  const descriptionIndex = find(BANK_COLUMNS.description);
+  const amountIndex = find(BANK_COLUMNS.amount);
+  const debitIndex = find(BANK_COLUMNS.debit);
+  const creditIndex = find(BANK_COLUMNS.credit);
+  const currencyIndex = find(BANK_COLUMNS.currency);
+  if (dateIndex === -1 || descriptionIndex === -1 || (amountIndex === -1 && debitIndex === -1)) {
+    return [
+      {
+        rowNumber: 1,
+        errors: ["Could not find date, description and amount (or debit) columns"]
+      }
+    ];
+  }
+
+  return rows.map((row, index) => {
+    const currency = currencyIndex === -1 ? undefined : row[currencyIndex]?.trim();
+    const amountContext = {
+      currency: currency || options.currency || options.tripCurrency,
+      locale: options.locale
+    };
+    let amount: number | undefined;
+    if (debitIndex !== -1 && row[debitIndex]?.trim()) {
+      const debit = parseImportAmount(row[debitIndex], amountContext);
+      amount = debit === undefined ? undefined : -Math.abs(debit);
+    } else if (creditIndex !== -1 && row[creditIndex]?.trim()) {
+      amount = Math.abs(parseImportAmount(row[creditIndex], amountContext) ?? 0);
+    } else if (amountIndex !== -1) {
+      amount = parseImportAmount(row[amountIndex], amountContext);
+    }
+    return bankExpense(
+      index + 2,
+      parseImportDate(row[dateIndex]),
+      row[descriptionIndex]?.trim() ?? "",
+      amount,
+      currency,
+      options
+    );
+  });
+};
+
+const ofxField = (block: string, name: string): string | undefined =>
+  block.match(new RegExp(`<${name}>([^<\\r\\n]*)`, "i"))?.[1]?.trim() || undefined;
+
+// OFX 1.x is SGML without closing tags, 2.x is XML; reading each tag up to the
+// next "<" or newline handles both.
+const parseOfx = (content: string, options: ImportOptions): ImportCandidate[] => {
+  const currency = ofxField(content, "CURDEF");
+  const blocks = content.split(/<STMTTRN>/i).slice(1);
+  if (!blocks.length) {
+    return [{ rowNumber: 1, errors: ["No <STMTTRN> transactions found in OFX file"] }];
+  }
+  return blocks.map((block, index) => {
+    const name = ofxField(block, "NAME");
+    const memo = ofxField(block, "MEMO");
+    return bankExpense(
+      index + 1,
+      parseImportDate(ofxField(block, "DTPOSTED")),
+      name ?? memo ?? "",
+      // OFX amounts always use a dot for decimals.
+      parseImportAmount(ofxField(block, "TRNAMT"), { locale: "en-US" }),
+      currency,
+      options
+    );
+  });
+};
+
+export const parseImportFile = (
+  format: ImportFormat,
+  content: string,
+  options: ImportOptions
+): ImportCandidate[] => {
+  switch (format) {
+    case "splitwise":
+      return parseSplitwise(content, options);
+    case "bank-csv":
+      return parseBankCsv(content, options);
+    case "ofx":
+      return parseOfx(content, options);
+  }
+};
@@ -0,0 +1,42 @@
+import { SQSClient, SendMessageCommand } from "@aws-sdk/client-sqs";
+import { loadConfig } from "../config.js";
+import type { ClaimingUser } from "./memberClaimService.js";
+
+/**
+ * Sent by the sign-up trigger when it runs out of time before every
+ * placeholder for the new user's email is claimed.
+ */
+export interface PlaceholderClaimMessage extends ClaimingUser {
+  type: "CLAIM_PLACEHOLDERS";
+}
+
+let sqsClient: SQSClient | null = null;
+const getSqsClient = () => {
+  if (!sqsClient) {
+    const { region } = loadConfig();
+    sqsClient = new SQSClient({ region });
+  }
+  return sqsClient;
+};
+
+export const enqueuePlaceholderClaim = async (user: ClaimingUser): Promise<void> => {
+  const { memberClaimQueueUrl } = loadConfig();
+  if (!memberClaimQueueUrl) {
+    throw new Error("MEMBER_CLAIM_QUEUE_URL environment variable is required");
+  }
+  const message: PlaceholderClaimMessage = { type: "CLAIM_PLACEHOLDERS", ...user };
+  await getSqsClient().send(
+    new SendMessageCommand({
+      QueueUrl: memberClaimQueueUrl,
+      MessageBody: JSON.stringify(message)
+    })
+  );
+};
+
+export const isPlaceholderClaimMessage = (value: unknown): value is PlaceholderClaimMessage =>
+  typeof value === "object" &&
+  value !== null &&
+  (value as PlaceholderClaimMessage).type === "CLAIM_PLACEHOLDERS" &&
+  typeof (value as PlaceholderClaimMessage).userId === "string" &&
+  typeof (value as PlaceholderClaimMessage).email === "string" &&
+  typeof (value as PlaceholderClaimMessage).displayName === "string";
@@ -0,0 +1,271 @@
+import { nanoid } from "nanoid";
+import { TripStore } from "../data/tripStore.js";
+import { UserStore } from "../data/userStore.js";
+import { ConflictError, NotFoundError } from "../lib/errors.js";
+import type {
+  Expense,
+  ExpenseSplit,
+  RecurringExpense,
+  Settlement,
+  TripMember
+} from "../types.js";
+
+// Kept apart from TripService so the Cognito post-confirmation trigger only
+// bundles the data layer.
+let tripStoreInstance: TripStore | null = null;
+
+let userStoreInstance: UserStore | null = null;
+
+const getTripStore = (): TripStore => {
+  if (!tripStoreInstance) {
+    tripStoreInstance = new TripStore();
+  }
+  return tripStoreInstance;
+};
+
+const getUserStore = (): UserStore => {
+  if (!userStoreInstance) {
+    userStoreInstance = new UserStore();
+  }
+  return userStoreInstance;
+};
+
+/** Trips claimed per call; the rest are left for the next call. */
+const MAX_CLAIMS_PER_RUN = 10;
+/** Writes per item before a conflicting edit is given up on. */
+const MAX_WRITE_ATTEMPTS = 3;
+
+const isoNow = () => new Date().toISOString();
+
+const roundCents = (value: number): number =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+export interface ClaimingUser {
+  userId: string;
+  email: string;
+  displayName: string;
+}
+
+export interface ClaimResult {
+  claimedTripIds: string[];
+  /** Trips still holding a placeholder because the run stopped early. */
+  remainingTripIds: string[];
+}
+
+const NOTHING_CLAIMED: ClaimResult = { claimedTripIds: [], remainingTripIds: [] };
+
+// Rewrites every member reference from a claimed placeholder to the real
+// user. Allocations are summed in case both were already on the expense.
+const reassignMemberIds = (ids: string[], from: string, to: string) =>
+  Array.from(new Set(ids.map((id) => (id === from ? to : id))));
+
+const reassignSplit = (
+  split: ExpenseSplit | undefined,
+  from: string,
+  to: string
+): ExpenseSplit | undefined =>
+  split && {
+    ...split,
+    inputs: split.inputs?.map((input) =>
+      input.memberId === from ? { ...input, memberId: to } : input
+    ),
+    remainderMemberId:
+      split.remainderMemberId === from ? to : split.remainderMemberId
+  };
+
+const reassignExpense = (expense: Expense, from: string, to: string): Expense => {
+  const allocations = new Map<string, number>();
+  expense.allocations.forEach(({ memberId, amount }) => {
+    const target = memberId === from ? to : memberId;
+    allocations.set(target, roundCents((allocations.get(target) ?? 0) + amount));
+  });
+  return {
+    ...expense,
+    paidByMemberId: expense.paidByMemberId === from ? to : expense.paidByMemberId,
+    sharedWithMemberIds: reassignMemberIds(expense.sharedWithMemberIds, from, to),
+    allocations: Array.from(allocations, ([memberId, amount]) => ({ memberId, amount })),
+    lineItems: expense.lineItems?.map((item) => ({
+      ...item,
+      assignedMemberIds: reassignMemberIds(item.assignedMemberIds, from, to)
+    })),
+    split: reassignSplit(expense.split, from, to)
+  };
+};
+
+const expenseReferences = (expense: Expense, memberId: string): boolean =>
+  [
+    expense.paidByMemberId,
+    ...expense.sharedWithMemberIds,
+    ...expense.allocations.map((allocation) => allocation.memberId),
+    ...(expense.lineItems ?? []).flatMap((item) => item.assignedMemberIds),
+    ...(expense.split?.inputs ?? []).map((input) => input.memberId),
+    expense.split?.remainderMemberId
+  ].includes(memberId);
+
+// Members may be editing the trip while it is claimed. A write that loses
+// to one of their edits is redone against the fresh copy; an item deleted
+// in the meantime needs nothing.
+const rewriteWithRetry = async <T extends { version?: number }>(
+  initial: T,
+  rewrite: (item: T) => T | null,
+  save: (item: T, expectedVersion: number) => Promise<void>
+): Promise<void> => {
+  let current = initial;
+  for (let attempt = 1; ; attempt += 1) {
+    const next = rewrite(current);
+    if (!next) {
+      return;
+    }
+    const expectedVersion = current.version ?? 0;
+    try {
+      await save({ ...next, version: expectedVersion + 1 }, expectedVersion);
+      return;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return;
+      }
+      if (!(error instanceof ConflictError) || attempt >= MAX_WRITE_ATTEMPTS) {
+        throw error;
+      }
+      current = error.current as T;
+    }
+  }
+};
+
+const claimTrip = async (placeholder: TripMember, user: ClaimingUser): Promise<void> => {
+  const { tripId, memberId: from } = placeholder;
+  const to = user.userId;
+  const details = await getTripStore().getTripDetails(tripId);
+  const existing = details.members.find((member) => member.memberId === to);
+  const claimed: TripMember = existing ?? {
+    tripId,
+    memberId: to,
+    displayName: user.displayName,
+    email: user.email,
+    addedBy: placeholder.addedBy,
+    createdAt: placeholder.createdAt,
+    role: placeholder.role
+  };
+  if (!existing) {
+    await getTripStore().addMembers(details.trip, [claimed]);
+  }
+
+  const now = isoNow();
+  for (const expense of details.expenses) {
+    await rewriteWithRetry<Expense>(
+      expense,
+      (current) =>
+        expenseReferences(current, from)
+          ? { ...reassignExpense(current, from, to), updatedAt: now }
+          : null,
+      (next, expectedVersion) => getTripStore().saveExpense(next, expectedVersion)
+    );
+  }
+
+  for (const settlement of details.settlements) {
+    await rewriteWithRetry<Settlement>(
+      settlement,
+      (current) =>
+        current.fromMemberId === from || current.toMemberId === from
+          ? {
+              ...current,
+              fromMemberId: current.fromMemberId === from ? to : current.fromMemberId,
+              toMemberId: current.toMemberId === from ? to : current.toMemberId
+            }
+          : null,
+      (next, expectedVersion) => getTripStore().saveSettlement(next, expectedVersion)
+    );
+  }
+
+  const recurringExpenses = await getTripStore().listRecurringExpenses(tripId);
+  for (const recurring of recurringExpenses) {
+    await rewriteWithRetry<RecurringExpense>(
+      recurring,
+      (current) => {
+        const { template } = current;
+        const references = [
+          template.paidByMemberId,
+          ...template.sharedWithMemberIds,
+          ...(template.split?.inputs ?? []).map((input) => input.memberId),
+          template.split?.remainderMemberId
+        ];
+        return references.includes(from)
+          ? {
+              ...current,
+              updatedAt: now,
+              template: {
+                ...template,
+                paidByMemberId: template.paidByMemberId === from ? to : template.paidByMemberId,
+                sharedWithMemberIds: reassignMemberIds(template.sharedWithMemberIds, from, to),
+                split: reassignSplit(template.split, from, to)
+              }
+            }
+          : null;
+      },
+      (next, expectedVersion) => getTripStore().saveRecurringExpense(next, expectedVersion)
+    );
+  }
+
+  await getTripStore().deleteMember(tripId, from);
+
+  // Written straight to the log; members pick the change up on their next
+  // load rather than over the socket.
+  try {
+    await getTripStore().saveActivity({
+      tripId,
+      activityId: `act_${nanoid(10)}`,
+      type: "MEMBER_CLAIMED",
+      actorId: to,
+      entityId: to,
+      before: placeholder,
+      after: claimed,
+      createdAt: isoNow()
+    });
+  } catch (error) {
+    console.warn("Failed to record trip activity", {
+      tripId,
+      type: "MEMBER_CLAIMED",
+      error
+    });
+  }
+};
+
+/**
+ * Every trip holding a placeholder for this email gets the real user in its
+ * place, with expenses, settlements and recurring templates moved over. The
+ * email must already be verified. A run stops at the cap or once `deadline`
+ * (epoch milliseconds) passes, leaving the rest for the next call; the one
+ * that claims the last trip marks the profile so later calls do nothing.
+ */
+export const claimPlaceholderMembers = async (
+  user: ClaimingUser,
+  deadline?: number
+): Promise<ClaimResult> => {
+  const profile = await getUserStore().getUser(user.userId);
+  if (profile?.placeholdersClaimedAt) {
+    return NOTHING_CLAIMED;
+  }
+
+  const placeholders = await getTripStore().listPlaceholderMemberships(user.email);
+  const claimedTripIds: string[] = [];
+
+  for (const placeholder of placeholders) {
+    if (
+      claimedTripIds.length >= MAX_CLAIMS_PER_RUN ||
+      (deadline !== undefined && Date.now() > deadline)
+    ) {
+      break;
+    }
+    await claimTrip(placeholder, user);
+    claimedTripIds.push(placeholder.tripId);
+  }
+
+  const remainingTripIds = placeholders
+    .slice(claimedTripIds.length)
+    .map((placeholder) => placeholder.tripId);
+  if (!remainingTripIds.length && profile) {
+    await getUserStore().markPlaceholdersClaimed(user.userId);
+  }
+
+  return { claimedTripIds, remainingTripIds };
+};
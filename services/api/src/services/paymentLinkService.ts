@@ -0,0 +1,82 @@
+import { qrCodeSvgDataUri } from "../lib/qrCode.js";
+import type { PaymentMethods } from "../types.js";
+
+export type PaymentProvider = "venmo" | "paypal";
+
+export interface PaymentLink {
+  provider: PaymentProvider;
+  url: string;
+  /** SVG data URI encoding `url`, for paying from another device. */
+  qrCode?: string;
+}
+
+export interface PaymentRequest {
+  fromMemberId: string;
+  toMemberId: string;
+  amount: number;
+  currency: string;
+  /** Set for recorded settlements; suggested transfers have none. */
+  settlementId?: string;
+  links: PaymentLink[];
+}
+
+// Handles are stored as typed, so "@alex", "venmo.com/u/alex" and
+// "https://paypal.me/alex" all need reducing to the bare username.
+const venmoUsername = (handle: string): string =>
+  handle
+    .trim()
+    .replace(/^(https?:\/\/)?(www\.)?(account\.)?venmo\.com\/(u\/)?/i, "")
+    .replace(/^@/, "")
+    .split(/[/?#]/)[0];
+
+const paypalUsername = (handle: string): string =>
+  handle
+    .trim()
+    .replace(/^(https?:\/\/)?(www\.)?paypal\.me\//i, "")
+    .replace(/^@/, "")
+    .split(/[/?#]/)[0];
+
+const withQrCode = (provider: PaymentProvider, url: string): PaymentLink => ({
+  provider,
+  url,
+  qrCode: qrCodeSvgDataUri(url) ?? undefined
+});
+
+/**
+ * Payment-request links for the payee's saved handles: a Venmo pay URL with
+ * amount and note, and a PayPal.me link with amount and currency. Zelle has
+ * no public link format, so it stays display-only.
+ */
+export const buildPaymentLinks = (
+  methods: PaymentMethods | undefined,
+  amount: number,
+  currency: string,
+  note: string
+): PaymentLink[] => {
+  const links: PaymentLink[] = [];
+  const value = amount.toFixed(2);
+
+  // Venmo only moves US dollars.
+  const venmo = methods?.venmo ? venmoUsername(methods.venmo) : "";
+  if (venmo && currency.toUpperCase() === "USD") {
+    const query = new URLSearchParams({
+      txn: "pay",
+      recipients: venmo,
+      amount: value,
+      note
+    });
+    links.push(withQrCode("venmo", `https://venmo.com/?${query.toString()}`));
+  }
+
+  const paypal = methods?.paypal ? paypalUsername(methods.paypal) : "";
+  if (paypal) {
+    links.push(
+      withQrCode(
+        "paypal",
+        `https://paypal.me/${encodeURIComponent(paypal)}/${value}${currency.toUpperCase()}`
+      )
+    );
+  }
+
+  return links;
+};
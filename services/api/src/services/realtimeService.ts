@@ -0,0 +1,134 @@
+import {
+  ApiGatewayManagementApiClient,
+  GoneException,
+  PostToConnectionCommand
+} from "@aws-sdk/client-apigatewaymanagementapi";
+import { loadConfig } from "../config.js";
+import { ConnectionStore } from "../data/connectionStore.js";
+import { TripStore } from "../data/tripStore.js";
+import { ForbiddenError } from "../lib/errors.js";
+import type { TripRealtimeEvent } from "../types.js";
+
+let connectionStore: ConnectionStore | null = null;
+const getConnectionStore = () => {
+  if (!connectionStore) {
+    connectionStore = new ConnectionStore();
+  }
+  return connectionStore;
+};
+
+let tripStore: TripStore | null = null;
+const getTripStore = () => {
+  if (!tripStore) {
+    tripStore = new TripStore();
+  }
+  return tripStore;
+};
+
+let managementClient: ApiGatewayManagementApiClient | null = null;
+const getManagementClient = (endpoint: string) => {
+  if (!managementClient) {
+    const { region } = loadConfig();
+    managementClient = new ApiGatewayManagementApiClient({ region, endpoint });
+  }
+  return managementClient;
+};
+
+export const subscribeToTrip = async (
+  connectionId: string,
+  tripId: string,
+  userId: string
+): Promise<void> => {
+  const member = await getTripStore().getMember(tripId, userId);
+  if (!member) {
+    throw new ForbiddenError("You are not part of this trip");
+  }
+  await getConnectionStore().saveSubscription({
+    tripId,
+    connectionId,
+    userId,
+    createdAt: new Date().toISOString()
+  });
+};
+
+export const unsubscribeFromTrip = (connectionId: string, tripId: string) =>
+  getConnectionStore().deleteSubscription(tripId, connectionId);
+
+export const removeConnection = (connectionId: string) =>
+  getConnectionStore().deleteConnection(connectionId);
+
+/**
+ * Pushes events to every connection subscribed to the trip, looking the
+ * subscriptions up once for the lot. Best-effort: the writes that triggered
+ * them have already succeeded, so failures are logged and connections that
+ * have gone away are dropped from the registry.
+ */
+export const broadcastTripEvents = async (
+  tripId: string,
+  events: Array<Omit<TripRealtimeEvent, "tripId" | "sentAt">>
+): Promise<void> => {
+  const { websocketCallbackUrl } = loadConfig();
+  if (!websocketCallbackUrl || !events.length) {
+    return;
+  }
+
+  try {
+    const subscriptions = await getConnectionStore().listSubscriptions(tripId);
+    if (!subscriptions.length) {
+      return;
+    }
+
+    const client = getManagementClient(websocketCallbackUrl);
+    const sentAt = new Date().toISOString();
+    const payloads = events.map((event) => {
+      const payload: TripRealtimeEvent = { ...event, tripId, sentAt };
+      return new TextEncoder().encode(JSON.stringify(payload));
+    });
+
+    await Promise.all(
+      subscriptions.map(async ({ connectionId }) => {
+        try {
+          for (const data of payloads) {
+            await client.send(
+              new PostToConnectionCommand({ ConnectionId: connectionId, Data: data })
+            );
+          }
+        } catch (error) {
+          if (error instanceof GoneException) {
+            await getConnectionStore().deleteSubscription(tripId, connectionId);
+            return;
+          }
+          throw error;
+        }
+      })
+    );
+  } catch (error) {
+    console.warn("Failed to broadcast trip event", {
+      tripId,
+      types: events.map((event) => event.type),
+      error
+    });
+  }
+};
+
+export const broadcastTripEvent = ({
+  tripId,
+  ...event
+}: Omit<TripRealtimeEvent, "sentAt">): Promise<void> => broadcastTripEvents(tripId, [event]);
+
+/**
+ * Drops a member's subscriptions once they are removed from or leave the
+ * trip, so their open connections stop receiving its events.
+ */
+export const unsubscribeMember = async (tripId: string, userId: string): Promise<void> => {
+  try {
+    const subscriptions = await getConnectionStore().listSubscriptions(tripId);
+    await Promise.all(
+      subscriptions
+        .filter((subscription) => subscription.userId === userId)
+        .map(({ connectionId }) => getConnectionStore().deleteSubscription(tripId, connectionId))
+    );
+  } catch (error) {
+    console.warn("Failed to remove member subscriptions", { tripId, userId, error });
+  }
+};
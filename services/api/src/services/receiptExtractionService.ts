@@ -0,0 +1,107 @@
+import { loadConfig } from "../config.js";
+import { ValidationError } from "../lib/errors.js";
+import { extractPdfText } from "../lib/pdfText.js";
+import type { ReceiptLocaleContext } from "../lib/receiptNormalization.js";
+import { parseReceiptDocuments } from "../lib/receiptText.js";
+import type { TextractExtraction } from "../types.js";
+import { TextractReceiptProvider } from "./textractService.js";
+import { downloadReceiptObject } from "./uploadService.js";
+
+export interface ReceiptExtractionProvider {
+  readonly name: string;
+  /**
+   * Extracts a receipt already stored in S3, returning one extraction per
+   * receipt found in the file. `context` carries the trip's currency and
+   * locale so amounts and dates can be normalized.
+   */
+  extractObject(
+    bucket: string,
+    key: string,
+    context?: ReceiptLocaleContext
+  ): Promise<TextractExtraction[]>;
+  /** Extracts a receipt held in memory, e.g. a live camera capture. */
+  extractBytes(bytes: Uint8Array, context?: ReceiptLocaleContext): Promise<TextractExtraction[]>;
+}
+
+const startsWith = (bytes: Uint8Array, signature: number[]) =>
+  signature.every((byte, index) => bytes[index] === byte);
+
+/**
+ * Offline provider for development and tests. Reads plain-text receipts and
+ * text-based PDFs; photos and scans need an OCR provider such as Textract.
+ */
+export class LocalReceiptProvider implements ReceiptExtractionProvider {
+  readonly name = "local";
+
+  async extractObject(
+    bucket: string,
+    key: string,
+    context?: ReceiptLocaleContext
+  ): Promise<TextractExtraction[]> {
+    const { body } = await downloadReceiptObject(key, bucket);
+    return this.extractBytes(body, context);
+  }
+
+  async extractBytes(
+    bytes: Uint8Array,
+    context?: ReceiptLocaleContext
+  ): Promise<TextractExtraction[]> {
+    if (startsWith(bytes, [0x25, 0x50, 0x44, 0x46])) {
+      const text = extractPdfText(bytes);
+      if (!text.trim()) {
+        throw new ValidationError("PDF has no text layer; the local extractor cannot read scans");
+      }
+      return parseReceiptDocuments(text, context);
+    }
+
+    let text: string;
+    try {
+      text = new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    } catch {
+      throw new ValidationError("The local extractor only reads text and PDF receipts");
+    }
+    if (/[\0-\x08\x0e-\x1f]/.test(text)) {
+      throw new ValidationError("The local extractor only reads text and PDF receipts");
+    }
+    return parseReceiptDocuments(text.replace(/^\uFEFF/, ""), context);
+  }
+}
+
+const providers: Record<string, () => ReceiptExtractionProvider> = {
+  textract: () => new TextractReceiptProvider(),
+  local: () => new LocalReceiptProvider()
+};
+
+let providerInstance: ReceiptExtractionProvider | null = null;
+
+export const registerReceiptExtractionProvider = (
+  name: string,
+  factory: () => ReceiptExtractionProvider
+): void => {
+  providers[name] = factory;
+  providerInstance = null;
+};
+
+export const getReceiptExtractionProvider = (): ReceiptExtractionProvider => {
+  if (!providerInstance) {
+    const { receiptExtractionProvider } = loadConfig();
+    const factory = providers[receiptExtractionProvider];
+    if (!factory) {
+      throw new Error(`Unknown receipt extraction provider: ${receiptExtractionProvider}`);
+    }
+    providerInstance = factory();
+  }
+  return providerInstance;
+};
+
+export const analyzeReceipt = (
+  bucket: string,
+  key: string,
+  context?: ReceiptLocaleContext
+): Promise<TextractExtraction[]> =>
+  getReceiptExtractionProvider().extractObject(bucket, key, context);
+
+export const analyzeReceiptBytes = (
+  bytes: Uint8Array,
+  context?: ReceiptLocaleContext
+): Promise<TextractExtraction[]> => getReceiptExtractionProvider().extractBytes(bytes, context);
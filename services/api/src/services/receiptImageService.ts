@@ -0,0 +1,90 @@
+import { sniffContentType } from "../lib/fileType.js";
+import type { Receipt } from "../types.js";
+import {
+  downloadReceiptObject,
+  putReceiptObject,
+  receiptDerivedKey
+} from "./uploadService.js";
+
+/** Longest edge of the display copy; phone photos are often 4000px and up. */
+const MAX_DISPLAY_EDGE = 2400;
+/** Longest edge of thumbnails shown in expense lists. */
+const THUMBNAIL_EDGE = 320;
+
+export type NormalizedReceiptImages = Pick<Receipt, "normalizedKey" | "thumbnailKey">;
+
+/**
+ * Prepares an uploaded receipt photo for display and OCR: HEIC is converted
+ * to JPEG, EXIF orientation is applied and oversized images are scaled down
+ * into a display copy, and a thumbnail is written next to it. Images that
+ * are already upright JPEG or PNG within size are left as the display copy.
+ * Returns nothing for PDFs and other non-image uploads.
+ */
+export const normalizeReceiptImage = async (
+  bucket: string,
+  storageKey: string
+): Promise<NormalizedReceiptImages | undefined> => {
+  const { body } = await downloadReceiptObject(storageKey, bucket);
+  const type = sniffContentType(body);
+  if (!type?.startsWith("image/")) return undefined;
+
+  // Loaded here rather than at the top of the module so the native image
+  // libraries are only bundled into the receipt processor, not every Lambda
+  // that reaches this file through tripService.
+  const [{ default: sharp }, { default: convertHeic }] = await Promise.all([
+    import("sharp"),
+    import("heic-convert")
+  ]);
+
+  // libvips builds shipped with sharp cannot decode HEVC, so HEIC goes
+  // through libheif first.
+  const source =
+    type === "image/heic" ? await convertHeic({ buffer: body, format: "JPEG", quality: 0.92 }) : body;
+  const image = sharp(source, { failOn: "none" });
+  const { width = 0, height = 0, orientation } = await image.metadata();
+
+  const needsDisplayCopy =
+    type === "image/heic" ||
+    type === "image/webp" ||
+    type === "image/tiff" ||
+    (orientation !== undefined && orientation !== 1) ||
+    Math.max(width, height) > MAX_DISPLAY_EDGE;
+
+  const result: NormalizedReceiptImages = {};
+  const writes: Promise<void>[] = [];
+
+  if (needsDisplayCopy) {
+    const display = await image
+      .clone()
+      .rotate()
+      .resize({
+        width: MAX_DISPLAY_EDGE,
+        height: MAX_DISPLAY_EDGE,
+        fit: "inside",
+        withoutEnlargement: true
+      })
+      .flatten({ background: "#ffffff" })
+      .jpeg({ quality: 85 })
+      .toBuffer();
+    result.normalizedKey = receiptDerivedKey(storageKey, "display");
+    writes.push(putReceiptObject(result.normalizedKey, display, "image/jpeg", bucket));
+  }
+
+  const thumbnail = await image
+    .clone()
+    .rotate()
+    .resize({
+      width: THUMBNAIL_EDGE,
+      height: THUMBNAIL_EDGE,
+      fit: "inside",
+      withoutEnlargement: true
+    })
+    .flatten({ background: "#ffffff" })
+    .jpeg({ quality: 70 })
+    .toBuffer();
+  result.thumbnailKey = receiptDerivedKey(storageKey, "thumbnail");
+  writes.push(putReceiptObject(result.thumbnailKey, thumbnail, "image/jpeg", bucket));
+
+  await Promise.all(writes);
+  return result;
+};
@@ -0,0 +1,229 @@
+import { loadConfig } from "../config.js";
+import { TripStore } from "../data/tripStore.js";
+import { ValidationError } from "../lib/errors.js";
+import {
+  isReceiptContentType,
+  normalizeContentType,
+  sameContentType,
+  sniffContentType
+} from "../lib/fileType.js";
+import type { ReceiptLocaleContext } from "../lib/receiptNormalization.js";
+import type { Receipt } from "../types.js";
+import { analyzeReceipt } from "./receiptExtractionService.js";
+import { normalizeReceiptImage, type NormalizedReceiptImages } from "./receiptImageService.js";
+import { broadcastTripEvent } from "./realtimeService.js";
+import { deleteReceiptObject, inspectReceiptObject } from "./uploadService.js";
+
+/** Matches the queue's maxReceiveCount; the last delivery records FAILED. */
+export const MAX_RECEIPT_ATTEMPTS = 3;
+
+// Textract rejects these for the document itself, so retrying cannot help.
+// Extraction providers signal the same with a ValidationError.
+const PERMANENT_ERRORS = new Set([
+  "UnsupportedDocumentException",
+  "BadDocumentException",
+  "DocumentTooLargeException",
+  "InvalidParameterException",
+  "InvalidS3ObjectException"
+]);
+
+let tripStore: TripStore | null = null;
+const getTripStore = () => {
+  if (!tripStore) {
+    tripStore = new TripStore();
+  }
+  return tripStore;
+};
+
+const isoNow = () => new Date().toISOString();
+
+const describeError = (error: unknown): string => {
+  if (error instanceof Error) {
+    return error.name && error.name !== "Error"
+      ? `${error.name}: ${error.message}`
+      : error.message;
+  }
+  return "Unknown error";
+};
+
+// Amounts and dates read fine without the trip's locale, just less reliably,
+// so a failed lookup should not fail the receipt.
+const loadLocaleContext = async (tripId: string): Promise<ReceiptLocaleContext> => {
+  try {
+    const { currency, locale } = await getTripStore().getTrip(tripId);
+    return { currency, locale };
+  } catch (error) {
+    console.warn("Reading receipt without trip locale", { tripId, error });
+    return {};
+  }
+};
+
+// Display copies and thumbnails are a convenience; without them the original
+// is shown and analyzed as uploaded.
+const prepareImages = async (
+  bucket: string,
+  receipt: Pick<Receipt, "tripId" | "receiptId" | "storageKey">
+): Promise<NormalizedReceiptImages> => {
+  try {
+    return (await normalizeReceiptImage(bucket, receipt.storageKey)) ?? {};
+  } catch (error) {
+    console.warn("Failed to normalize receipt image", {
+      tripId: receipt.tripId,
+      receiptId: receipt.receiptId,
+      error
+    });
+    return {};
+  }
+};
+
+/**
+ * Checks the stored object against the upload constraints. The POST policy
+ * enforces size and declared type, but not that the bytes are what the
+ * client claimed. Returns why the upload is rejected, if it is.
+ */
+const findUploadViolation = async (
+  bucket: string,
+  storageKey: string,
+  declaredType: string | undefined
+): Promise<string | undefined> => {
+  const { receiptMaxBytes } = loadConfig();
+  const { size, head } = await inspectReceiptObject(storageKey, bucket);
+  if (!size) {
+    return "Uploaded file is empty";
+  }
+  if (size > receiptMaxBytes) {
+    return `Uploaded file is larger than the ${Math.floor(receiptMaxBytes / (1024 * 1024))} MB limit`;
+  }
+
+  const detected = sniffContentType(head);
+  if (!detected) {
+    return "Uploaded file is not a supported receipt format";
+  }
+  // Receipts created before uploads were typed are checked on content alone.
+  if (declaredType === undefined) {
+    return undefined;
+  }
+  const declared = normalizeContentType(declaredType);
+  if (!isReceiptContentType(declared)) {
+    return `File type ${declared} is not accepted`;
+  }
+  if (!sameContentType(detected, declared)) {
+    return `Uploaded file is ${detected}, not the declared ${declared}`;
+  }
+  return undefined;
+};
+
+const isRetryable = (error: unknown) =>
+  !(
+    error instanceof ValidationError ||
+    (error instanceof Error && PERMANENT_ERRORS.has(error.name))
+  );
+
+export type ReceiptProcessingResult = Pick<
+  Receipt,
+  | "status"
+  | "extractedData"
+  | "documents"
+  | "failureReason"
+  | "attempts"
+  | "normalizedKey"
+  | "thumbnailKey"
+> & {
+  /** True when the failure is transient and the caller should redeliver. */
+  retryable: boolean;
+};
+
+/**
+ * Verifies the upload, normalizes photos, runs extraction over the display
+ * copy (Textract cannot read HEIC) and records the outcome. Uploads that
+ * break the constraints are deleted and marked REJECTED.
+ * Transient failures leave the receipt in PROCESSING with the reason so the
+ * queue can redeliver; permanent ones, or the final attempt, mark it FAILED.
+ */
+export const processReceipt = async (
+  bucket: string,
+  receipt: Pick<Receipt, "tripId" | "receiptId" | "storageKey" | "contentType">,
+  options: { finalAttempt: boolean; context?: ReceiptLocaleContext }
+): Promise<ReceiptProcessingResult> => {
+  const { tripId, receiptId, storageKey } = receipt;
+  const store = getTripStore();
+  const attempts = await store.startReceiptAttempt(tripId, receiptId, isoNow());
+  let images: NormalizedReceiptImages = {};
+
+  let result: ReceiptProcessingResult;
+  try {
+    const declaredType =
+      receipt.contentType ?? (await store.getReceipt(tripId, receiptId))?.contentType;
+    const violation = await findUploadViolation(bucket, storageKey, declaredType);
+    if (violation) {
+      await deleteReceiptObject(storageKey, bucket);
+      await store.updateReceiptExtraction(tripId, receiptId, {
+        status: "REJECTED",
+        failureReason: violation,
+        updatedAt: isoNow()
+      });
+      await broadcastTripEvent({ tripId, type: "RECEIPT_PROCESSED", entityId: receiptId });
+      return { status: "REJECTED", failureReason: violation, attempts, retryable: false };
+    }
+
+    images = await prepareImages(bucket, receipt);
+    const context = options.context ?? (await loadLocaleContext(tripId));
+    const documents = await analyzeReceipt(bucket, images.normalizedKey ?? storageKey, context);
+    const extractedData = documents[0] ?? {};
+    await store.updateReceiptExtraction(tripId, receiptId, {
+      status: "COMPLETED",
+      extractedData,
+      documents,
+      ...images,
+      failureReason: null,
+      updatedAt: isoNow()
+    });
+    result = {
+      status: "COMPLETED",
+      extractedData,
+      documents,
+      ...images,
+      attempts,
+      retryable: false
+    };
+  } catch (error) {
+    const failureReason = describeError(error);
+    const retryable = isRetryable(error) && !options.finalAttempt;
+    console.error("Failed to process receipt", { tripId, receiptId, attempts, error });
+    await store.updateReceiptExtraction(tripId, receiptId, {
+      status: retryable ? "PROCESSING" : "FAILED",
+      ...images,
+      failureReason,
+      updatedAt: isoNow()
+    });
+    result = {
+      status: retryable ? "PROCESSING" : "FAILED",
+      ...images,
+      failureReason,
+      attempts,
+      retryable
+    };
+  }
+
+  if (!result.retryable) {
+    await broadcastTripEvent({ tripId, type: "RECEIPT_PROCESSED", entityId: receiptId });
+  }
+  return result;
+};
+
+/**
+ * Reads a stored receipt again, for reprocess requests queued by the API.
+ * Receipts deleted or rejected since the request was made are skipped.
+ */
+export const reprocessStoredReceipt = async (
+  tripId: string,
+  receiptId: string,
+  options: { finalAttempt: boolean }
+): Promise<ReceiptProcessingResult | undefined> => {
+  const receipt = await getTripStore().getReceipt(tripId, receiptId);
+  if (!receipt?.storageKey || receipt.status === "REJECTED") {
+    console.warn("Skipping reprocess of missing receipt", { tripId, receiptId });
+    return undefined;
+  }
+  return processReceipt(loadConfig().receiptBucket, receipt, options);
+};
@@ -0,0 +1,45 @@
+import { SQSClient, SendMessageCommand } from "@aws-sdk/client-sqs";
+import { loadConfig } from "../config.js";
+
+/**
+ * Sent to the receipt queue alongside S3 upload notifications when a member
+ * asks for a stored receipt to be read again.
+ */
+export interface ReceiptReprocessMessage {
+  type: "REPROCESS_RECEIPT";
+  tripId: string;
+  receiptId: string;
+}
+
+let sqsClient: SQSClient | null = null;
+const getSqsClient = () => {
+  if (!sqsClient) {
+    const { region } = loadConfig();
+    sqsClient = new SQSClient({ region });
+  }
+  return sqsClient;
+};
+
+export const enqueueReceiptReprocess = async (
+  tripId: string,
+  receiptId: string
+): Promise<void> => {
+  const { receiptQueueUrl } = loadConfig();
+  if (!receiptQueueUrl) {
+    throw new Error("RECEIPT_QUEUE_URL environment variable is required");
+  }
+  const message: ReceiptReprocessMessage = { type: "REPROCESS_RECEIPT", tripId, receiptId };
+  await getSqsClient().send(
+    new SendMessageCommand({
+      QueueUrl: receiptQueueUrl,
+      MessageBody: JSON.stringify(message)
+    })
+  );
+};
+
+export const isReceiptReprocessMessage = (value: unknown): value is ReceiptReprocessMessage =>
+  typeof value === "object" &&
+  value !== null &&
+  (value as ReceiptReprocessMessage).type === "REPROCESS_RECEIPT" &&
+  typeof (value as ReceiptReprocessMessage).tripId === "string" &&
+  typeof (value as ReceiptReprocessMessage).receiptId === "string";
@@ -2,10 +2,21 @@ import {
   AnalyzeExpenseCommand,
   TextractClient,
   type ExpenseDocument,
+  type ExpenseField,
   type AnalyzeExpenseCommandInput
 } from "@aws-sdk/client-textract";
 import { loadConfig } from "../config.js";
-import type { TextractExtraction } from "../types.js";
+import {
+  normalizeAmount,
+  normalizeDate,
+  type ReceiptLocaleContext
+} from "../lib/receiptNormalization.js";
+import type {
+  ExtractionField,
+  ExtractionFieldSource,
+  TextractExtraction
+} from "../types.js";
+import type { ReceiptExtractionProvider } from "./receiptExtractionService.js";
 
 let textractClient: TextractClient | null = null;
 const getTextractClient = () => {
@@ -16,86 +27,106 @@ const getTextractClient = () => {
   return textractClient;
 };
 
-const getSummaryValue = (
+interface SummaryField {
+  value: string;
+  source: ExtractionFieldSource;
+}
+
+const toSource = (field: ExpenseField): ExtractionFieldSource => {
+  const box = field.ValueDetection?.Geometry?.BoundingBox;
+  return {
+    confidence: field.ValueDetection?.Confidence,
+    page: field.PageNumber,
+    boundingBox:
+      box && box.Left !== undefined && box.Top !== undefined
+        ? {
+            left: box.Left,
+            top: box.Top,
+            width: box.Width ?? 0,
+            height: box.Height ?? 0
+          }
+        : undefined
+  };
+};
+
+/**
+ * Finds the first of `types` present in the summary fields. Types must match
+ * exactly ("TAX" must not pick up "TAX_PAYER_ID"); when a type appears more
+ * than once the most confident value wins.
+ */
+const getSummaryField = (
   document: ExpenseDocument,
   ...types: string[]
-): string | undefined => {
+): SummaryField | undefined => {
   for (const type of types) {
-    const field = document.SummaryFields?.find(
-      (summary) =>
-        summary.Type?.Text === type || summary.Type?.Text?.includes(type)
+    const candidates = (document.SummaryFields ?? []).filter(
+      (summary) => summary.Type?.Text === type && summary.ValueDetection?.Text
     );
-    const value = field?.ValueDetection?.Text ?? field?.ValueDetection?.Text;
-    if (value) {
-      return value;
-    }
+    if (!candidates.length) continue;
+    const best = candidates.reduce((current, candidate) =>
+      (candidate.ValueDetection?.Confidence ?? 0) > (current.ValueDetection?.Confidence ?? 0)
+        ? candidate
+        : current
+    );
+    return { value: best.ValueDetection?.Text ?? "", source: toSource(best) };
   }
   return undefined;
 };
 
-const getSummaryNumber = (
+const toExtraction = (
   document: ExpenseDocument,
-  type: string
-): number | undefined => {
-  const value = getSummaryValue(document, type);
-  if (!value) return undefined;
-  const normalized = value.replace(/[^0-9.\-]/g, "");
-  const parsed = Number.parseFloat(normalized);
-  return Number.isFinite(parsed) ? parsed : undefined;
-};
-
-const analyzeDocument = async (
-  input: AnalyzeExpenseCommandInput
-): Promise<TextractExtraction> => {
-  const textract = getTextractClient();
-  const response = await textract.send(
-    new AnalyzeExpenseCommand({
-      ...input
-    })
-  );
-
-  const document = response.ExpenseDocuments?.[0];
-  if (!document) {
-    return {};
-  }
+  context: ReceiptLocaleContext
+): TextractExtraction => {
+  const summary: Partial<Record<ExtractionField, SummaryField>> = {
+    merchantName: getSummaryField(
+      document,
+      "VENDOR_NAME",
+      "SUPPLIER_NAME",
+      "MERCHANT_NAME",
+      "PAYEE_NAME",
+      "NAME"
+    ),
+    total: getSummaryField(document, "TOTAL", "AMOUNT_PAID", "AMOUNT_DUE"),
+    subtotal: getSummaryField(document, "SUBTOTAL"),
+    tax: getSummaryField(document, "TAX"),
+    tip: getSummaryField(document, "GRATUITY", "TIP"),
+    date: getSummaryField(document, "INVOICE_RECEIPT_DATE", "ORDER_DATE")
+  };
 
   const extraction: TextractExtraction = {
-    merchantName:
-      getSummaryValue(
-        document,
-        "VENDOR_NAME",
-        "SUPPLIER_NAME",
-        "MERCHANT_NAME",
-        "PAYEE_NAME",
-        "BUYER_NAME",
-        "RECEIVER_NAME"
-      ),
-    total: getSummaryNumber(document, "TOTAL"),
-    subtotal: getSummaryNumber(document, "SUBTOTAL"),
-    tax: getSummaryNumber(document, "TAX"),
-    tip: getSummaryNumber(document, "TIP"),
-    date: getSummaryValue(document, "INVOICE_RECEIPT_DATE")
+    merchantName: summary.merchantName?.value,
+    total: normalizeAmount(summary.total?.value, context),
+    subtotal: normalizeAmount(summary.subtotal?.value, context),
+    tax: normalizeAmount(summary.tax?.value, context),
+    tip: normalizeAmount(summary.tip?.value, context),
+    date: normalizeDate(summary.date?.value, context)
   };
 
+  const fields: TextractExtraction["fields"] = {};
+  for (const [name, field] of Object.entries(summary) as Array<[ExtractionField, SummaryField | undefined]>) {
+    if (field && extraction[name] !== undefined) {
+      fields[name] = field.source;
+    }
+  }
+  if (Object.keys(fields).length) {
+    extraction.fields = fields;
+  }
+
   const lineItems: TextractExtraction["lineItems"] = [];
   const groups = document.LineItemGroups ?? [];
   for (const group of groups) {
     for (const item of group.LineItems ?? []) {
       const fields = item.LineItemExpenseFields ?? [];
       const getField = (type: string) =>
-        fields.find((field) => field.Type?.Text === type)?.ValueDetection?.Text;
-      const parseNumber = (value?: string) => {
-        if (!value) return undefined;
-        const normalized = value.replace(/[^0-9.\-]/g, "");
-        const parsed = Number.parseFloat(normalized);
-        return Number.isFinite(parsed) ? parsed : undefined;
-      };
+        fields.find((field) => field.Type?.Text === type)?.ValueDetection;
+      const price = getField("PRICE");
 
       lineItems.push({
-        description: getField("ITEM"),
-        quantity: parseNumber(getField("QUANTITY")),
-        unitPrice: parseNumber(getField("UNIT_PRICE")),
-        total: parseNumber(getField("PRICE"))
+        description: getField("ITEM")?.Text,
+        quantity: normalizeAmount(getField("QUANTITY")?.Text),
+        unitPrice: normalizeAmount(getField("UNIT_PRICE")?.Text, context),
+        total: normalizeAmount(price?.Text, context),
+        confidence: price?.Confidence
       });
     }
   }
@@ -107,24 +138,53 @@ const analyzeDocument = async (
   return extraction;
 };
 
-export const analyzeReceipt = async (
-  bucket: string,
-  key: string
-): Promise<TextractExtraction> =>
-  analyzeDocument({
-    Document: {
-      S3Object: {
-        Bucket: bucket,
-        Name: key
-      }
-    }
-  });
-
-export const analyzeReceiptBytes = async (
-  bytes: Uint8Array
-): Promise<TextractExtraction> =>
-  analyzeDocument({
-    Document: {
-      Bytes: bytes
-    }
-  });
+/**
+ * Textract splits an upload into one ExpenseDocument per receipt it finds,
+ * so a scanned PDF of several receipts yields several extractions.
+ */
+const analyzeDocument = async (
+  input: AnalyzeExpenseCommandInput,
+  context: ReceiptLocaleContext = {}
+): Promise<TextractExtraction[]> => {
+  const textract = getTextractClient();
+  const response = await textract.send(
+    new AnalyzeExpenseCommand({
+      ...input
+    })
+  );
+
+  return (response.ExpenseDocuments ?? []).map((document) => toExtraction(document, context));
+};
+
+export class TextractReceiptProvider implements ReceiptExtractionProvider {
+  readonly name = "textract";
+
+  extractObject(
+    bucket: string,
+    key: string,
+    context?: ReceiptLocaleContext
+  ): Promise<TextractExtraction[]> {
+    return analyzeDocument(
+      {
+        Document: {
+          S3Object: {
+            Bucket: bucket,
+            Name: key
+          }
+        }
+      },
+      context
+    );
+  }
+
+  extractBytes(bytes: Uint8Array, context?: ReceiptLocaleContext): Promise<TextractExtraction[]> {
+    return analyzeDocument(
+      {
+        Document: {
+          Bytes: bytes
+        }
+      },
+      context
+    );
+  }
+}
@@ -1,22 +1,82 @@
 import { Buffer } from "node:buffer";
+import { createHash } from "node:crypto";
 import { nanoid } from "nanoid";
 import { z } from "zod";
-import { TripStore } from "../data/tripStore.js";
+import { TripStore, type TripDetails } from "../data/tripStore.js";
 import { UserStore } from "../data/userStore.js";
+import { loadConfig } from "../config.js";
 import {
   Trip,
   TripMember,
+  CategoryRule,
   Expense,
+  ExpenseAllocation,
+  ExpenseCategory,
+  ExpenseLineItem,
+  ExpenseSplit,
   Receipt,
   Settlement,
   UserProfile,
+  RecurringExpense,
+  RecurrenceFrequency,
+  TripActivity,
+  TripBudget,
+  TripRole,
+  TripStatus,
   type TextractExtraction,
   PaymentMethods
 } from "../types.js";
-import { ValidationError, ForbiddenError } from "../lib/errors.js";
+import { ValidationError, ForbiddenError, ConflictError, NotFoundError } from "../lib/errors.js";
+import { computeSettleUpTransfers } from "../lib/settleUp.js";
 import type { AuthContext } from "../auth.js";
-import { generateReceiptUpload, generateReceiptDownloadUrl } from "./uploadService.js";
-import { analyzeReceiptBytes } from "./textractService.js";
+import {
+  generateReceiptUpload,
+  generateReceiptDownloadUrl,
+  downloadReceiptObject
+} from "./uploadService.js";
+import { analyzeReceiptBytes } from "./receiptExtractionService.js";
+import {
+  convertAllocations,
+  convertAmount,
+  getExchangeRateProvider
+} from "./exchangeRateService.js";
+import {
+  buildTripCsv,
+  buildTripJson,
+  buildTripPdf,
+  exportFileName,
+  type ReceiptThumbnail,
+  type TripExport
+} from "./exportService.js";
+import { readJpeg } from "../lib/pdf.js";
+import { normalizeContentType, RECEIPT_CONTENT_TYPES } from "../lib/fileType.js";
+import {
+  broadcastTripEvent,
+  broadcastTripEvents,
+  unsubscribeMember
+} from "./realtimeService.js";
+import {
+  buildTripAnalytics,
+  computeBudgetStatus,
+  findBudgetAlerts,
+  type BudgetStatus,
+  type TripAnalytics
+} from "./analyticsService.js";
+import { enqueueReceiptReprocess } from "./receiptQueueService.js";
+import {
+  categoryCatalogSchema,
+  normalizeVendor,
+  resolveBudgetCategories,
+  resolveCategoryName,
+  suggestCategory,
+  tripCategories
+} from "./categoryService.js";
+import { buildPaymentLinks, type PaymentRequest } from "./paymentLinkService.js";
+import {
+  MAX_IMPORT_ROWS,
+  parseImportFile,
+  type ImportFormat
+} from "./importService.js";
 
 let tripStoreInstance: TripStore | null = null;
 let userStoreInstance: UserStore | null = null;
@@ -37,11 +97,20 @@ const getUserStore = (): UserStore => {
 
 const isoNow = () => new Date().toISOString();
 
+const isValidLocale = (value: string) => {
+  try {
+    return Intl.getCanonicalLocales(value).length === 1;
+  } catch {
+    return false;
+  }
+};
+
 const createTripSchema = z.object({
   name: z.string().min(1),
   startDate: z.string().optional(),
   endDate: z.string().optional(),
   currency: z.string().default("USD"),
+  locale: z.string().refine(isValidLocale, "Invalid locale").optional(),
   members: z
     .array(
       z.object({
@@ -51,30 +120,111 @@ const createTripSchema = z.object({
     .optional()
 });
 
+const budgetSchema = z
+  .object({
+    total: z.number().positive().optional(),
+    categories: z
+      .record(z.string().trim().min(1), z.number().positive())
+      .optional()
+      .transform((categories) =>
+        categories
+          ? Object.fromEntries(
+              Object.entries(categories).map(([name, limit]) => [name.trim(), limit])
+            )
+          : undefined
+      ),
+    alertThreshold: z.number().gt(0).max(1).optional()
+  })
+  .refine(
+    (value) =>
+      value.total !== undefined || Object.keys(value.categories ?? {}).length > 0,
+    { message: "Budget needs a total or at least one category" }
+  );
+
 const updateTripSchema = z
   .object({
     name: z.string().min(1).optional(),
     startDate: z.union([z.string().min(1), z.null()]).optional(),
-    endDate: z.union([z.string().min(1), z.null()]).optional()
+    endDate: z.union([z.string().min(1), z.null()]).optional(),
+    locale: z
+      .union([z.string().refine(isValidLocale, "Invalid locale"), z.null()])
+      .optional(),
+    budget: z.union([budgetSchema, z.null()]).optional(),
+    categories: z.union([categoryCatalogSchema, z.null()]).optional(),
+    version: z.number().int().nonnegative().optional()
   })
   .refine(
     (value) =>
       value.name !== undefined ||
       value.startDate !== undefined ||
-      value.endDate !== undefined,
+      value.endDate !== undefined ||
+      value.locale !== undefined ||
+      value.budget !== undefined ||
+      value.categories !== undefined,
     {
       message: "No updates provided"
     }
   );
 
+// The owner role only changes hands through an ownership transfer.
+const assignableRoleSchema = z.enum(["admin", "contributor", "viewer"]);
+
 const addMembersSchema = z.object({
   members: z
+    .array(
+      z.union([
+        z.object({
+          userId: z.string().min(1),
+          role: assignableRoleSchema.optional()
+        }),
+        // People without an account yet are added as placeholders.
+        z.object({
+          email: z.string().trim().email(),
+          displayName: z.string().trim().min(1).optional(),
+          role: assignableRoleSchema.optional()
+        })
+      ])
+    )
+    .min(1)
+});
+
+const memberRoleSchema = z.object({
+  role: assignableRoleSchema
+});
+
+const transferOwnershipSchema = z.object({
+  memberId: z.string().min(1)
+});
+
+const removeMemberQuerySchema = z.object({
+  transferTo: z.string().min(1).optional()
+});
+
+const lineItemSchema = z.object({
+  description: z.string().optional(),
+  quantity: z.number().positive().optional(),
+  amount: z.number().nonnegative(),
+  assignedMemberIds: z.array(z.string().min(1)).nonempty()
+});
+
+const splitSchema = z.object({
+  mode: z.enum([
+    "EVEN",
+    "EXACT",
+    "PERCENTAGE",
+    "SHARES",
+    "EXACT_PLUS_EVEN",
+    "ITEMIZED"
+  ]),
+  inputs: z
     .array(
       z.object({
-        userId: z.string().min(1)
+        memberId: z.string().min(1),
+        value: z.number().nonnegative()
       })
     )
-    .min(1)
+    .optional(),
+  remainderMemberId: z.string().optional()
 });
 
 const expenseSchema = z.object({
@@ -82,7 +232,8 @@ const expenseSchema = z.object({
   vendor: z.string().optional(),
   category: z.string().optional(),
   total: z.number().positive(),
-  currency: z.string().default("USD"),
+  currency: z.string().min(1).optional(),
+  exchangeRate: z.number().positive().optional(),
   tax: z.number().nonnegative().optional(),
   tip: z.number().nonnegative().optional(),
   paidByMemberId: z.string().min(1),
@@ -95,6 +246,8 @@ const expenseSchema = z.object({
       })
     )
     .optional(),
+  lineItems: z.array(lineItemSchema).nonempty().optional(),
+  split: splitSchema.optional(),
   splitEvenly: z.boolean().optional(),
   receiptId: z.string().optional(),
   remainderMemberId: z.string().optional()
@@ -102,6 +255,7 @@ const expenseSchema = z.object({
 
 const updateExpenseSchema = z.object({
   total: z.number().positive().optional(),
+  exchangeRate: z.number().positive().optional(),
   tax: z.number().nonnegative().optional(),
   tip: z.number().nonnegative().optional(),
   sharedWithMemberIds: z.array(z.string().min(1)).nonempty().optional(),
@@ -113,12 +267,93 @@ const updateExpenseSchema = z.object({
       })
     )
     .optional(),
-  remainderMemberId: z.string().optional()
+  lineItems: z.array(lineItemSchema).nonempty().optional(),
+  split: splitSchema.optional(),
+  remainderMemberId: z.string().optional(),
+  category: z.union([z.string().trim().min(1), z.null()]).optional(),
+  /** Only `false` is accepted: it confirms a draft created from a receipt. */
+  draft: z.literal(false).optional(),
+  version: z.number().int().nonnegative().optional()
+});
+
+const isoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must use the YYYY-MM-DD format");
+
+const recurrenceSchema = {
+  frequency: z.enum(["DAILY", "WEEKLY", "MONTHLY", "YEARLY"]),
+  interval: z.number().int().positive().max(365)
+};
+
+const recurringExpenseSchema = expenseSchema
+  .omit({ receiptId: true, lineItems: true })
+  .extend({
+    frequency: recurrenceSchema.frequency,
+    interval: recurrenceSchema.interval.default(1),
+    startDate: isoDateSchema,
+    endDate: isoDateSchema.optional()
+  });
+
+const updateRecurringExpenseSchema = expenseSchema
+  .omit({ receiptId: true, lineItems: true })
+  .partial()
+  .extend({
+    frequency: recurrenceSchema.frequency.optional(),
+    interval: recurrenceSchema.interval.optional(),
+    endDate: z.union([isoDateSchema, z.null()]).optional(),
+    paused: z.boolean().optional()
+  });
+
+const skipOccurrenceSchema = z.object({
+  date: isoDateSchema.optional()
+});
+
+const exportQuerySchema = z.object({
+  format: z.enum(["csv", "json", "pdf"]).default("csv")
+});
+
+// Lambda responses are capped at 6 MB (base64 adds a third), so the PDF only
+// embeds receipt images up to this combined size.
+const MAX_EXPORT_IMAGE_BYTES = 3 * 1024 * 1024;
+
+const importSchema = z.object({
+  format: z.enum(["splitwise", "bank-csv", "ofx"]),
+  content: z.string().min(1).max(2_000_000),
+  dryRun: z.boolean().default(true),
+  paidByMemberId: z.string().min(1).optional(),
+  sharedWithMemberIds: z.array(z.string().min(1)).nonempty().optional(),
+  memberMap: z.record(z.string().min(1)).optional(),
+  currency: z.string().min(1).optional(),
+  category: z.string().optional()
+});
+
+const categoryRuleSchema = z.object({
+  vendor: z.string().trim().min(1),
+  category: z.string().trim().min(1)
+});
+
+const receiptExpensesSchema = z.object({
+  /** Zero-based positions in `Receipt.documents`; defaults to every document with a total. */
+  documentIndexes: z.array(z.number().int().nonnegative()).nonempty().optional(),
+  paidByMemberId: z.string().min(1).optional(),
+  sharedWithMemberIds: z.array(z.string().min(1)).nonempty().optional(),
+  currency: z.string().min(1).optional(),
+  category: z.string().optional()
+});
+
+const activityQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  cursor: z.string().min(1).optional()
 });
 
 const receiptSchema = z.object({
   fileName: z.string().min(1),
-  contentType: z.string().min(1)
+  contentType: z
+    .string()
+    .transform(normalizeContentType)
+    .pipe(z.enum(RECEIPT_CONTENT_TYPES)),
+  /** Lets oversized files fail before the upload instead of at S3. */
+  size: z.number().int().positive().optional()
 });
 
 const liveReceiptSchema = z.object({
@@ -131,12 +366,26 @@ const settlementSchema = z.object({
   fromMemberId: z.string().min(1),
   toMemberId: z.string().min(1),
   amount: z.number().positive(),
-  currency: z.string().default("USD"),
+  currency: z.string().min(1).optional(),
+  exchangeRate: z.number().positive().optional(),
   note: z.string().optional()
 });
 
 const confirmSettlementSchema = z.object({
-  confirmed: z.boolean()
+  confirmed: z.boolean(),
+  version: z.number().int().nonnegative().optional()
+});
+
+const versionQuerySchema = z.object({
+  version: z.coerce.number().int().nonnegative().optional()
+});
+
+const settleUpQuerySchema = z.object({
+  preferredPayeeId: z.string().min(1).optional(),
+  includePending: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value !== "false")
 });
 
 const paymentMethodField = z.union([z.string().trim().min(1), z.null()]).optional();
@@ -163,15 +412,249 @@ const ensureMember = (members: TripMember[], memberId: string) => {
   return member;
 };
 
+/**
+ * Checks the version a client last saw against the stored one and returns the
+ * version the write must expect. Clients that send no version get
+ * last-write-wins against what this request just read.
+ */
+const ensureVersion = (
+  current: { version?: number },
+  expected: number | undefined,
+  label: string
+): number => {
+  const version = current.version ?? 0;
+  if (expected !== undefined && expected !== version) {
+    throw new ConflictError(`${label} was changed by someone else`, current);
+  }
+  return version;
+};
+
+type TripChange = "details" | "members" | "expenses" | "settlements";
+
+const TRIP_STATUS_ORDER: TripStatus[] = ["active", "settling", "closed", "archived"];
+
+const closeTripSchema = z.object({
+  status: z.enum(["settling", "closed", "archived"]).optional()
+});
+
+const listTripsQuerySchema = z.object({
+  status: z
+    .string()
+    .optional()
+    .transform((value) => value?.split(",").map((part) => part.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(["active", "settling", "closed", "archived", "all"])).optional())
+});
+
+// Settling trips only take settlements so balances stop moving while people
+// pay each other back; closed and archived trips are read-only.
+const ensureTripAllows = (trip: Trip, change: TripChange) => {
+  if (trip.status === "active") {
+    return;
+  }
+  if (trip.status === "settling") {
+    if (change !== "settlements") {
+      throw new ValidationError("Trip is settling up; only settlements can be recorded");
+    }
+    return;
+  }
+  throw new ValidationError(`Trip is ${trip.status}; reopen it to make changes`);
+};
+
+const ROLE_RANK: Record<TripRole, number> = {
+  viewer: 0,
+  contributor: 1,
+  admin: 2,
+  owner: 3
+};
+
+const hasRole = (
+  details: TripDetails,
+  memberId: string,
+  minimum: TripRole
+): boolean => {
+  const member = details.members.find((item) => item.memberId === memberId);
+  return Boolean(member && ROLE_RANK[member.role] >= ROLE_RANK[minimum]);
+};
+
+const ensureRole = (
+  details: TripDetails,
+  memberId: string,
+  minimum: TripRole
+): TripMember => {
+  const member = details.members.find((item) => item.memberId === memberId);
+  if (!member) {
+    throw new ForbiddenError("You are not part of this trip");
+  }
+  if (ROLE_RANK[member.role] < ROLE_RANK[minimum]) {
+    throw new ForbiddenError(
+      member.role === "viewer"
+        ? "Viewers cannot make changes to this trip"
+        : `Only trip ${minimum}s can do this`
+    );
+  }
+  return member;
+};
+
 const ensureCurrentUserProfile = (auth: AuthContext) =>
   getUserStore().ensureUserProfile(auth);
 
+// Activity is written after the change it describes; a failed audit write is
+// logged rather than failing a mutation that has already been applied. Every
+// recorded change is also pushed to the trip's WebSocket subscribers.
+const recordActivity = async (
+  activity: Omit<TripActivity, "activityId" | "createdAt">
+): Promise<void> => {
+  try {
+    await getTripStore().saveActivity({
+      ...activity,
+      activityId: `act_${nanoid(10)}`,
+      createdAt: isoNow()
+    });
+  } catch (error) {
+    console.warn("Failed to record trip activity", {
+      tripId: activity.tripId,
+      type: activity.type,
+      error
+    });
+  }
+
+  await broadcastTripEvent({
+    tripId: activity.tripId,
+    type: activity.type,
+    entityId: activity.entityId,
+    actorId: activity.actorId
+  });
+};
+
+// Bulk changes are written to the log in batches and pushed to subscribers
+// once per activity type instead of once per item.
+type ActivityInput = Omit<TripActivity, "tripId" | "activityId" | "createdAt">;
+
+const recordActivities = async (
+  tripId: string,
+  activities: ActivityInput[]
+): Promise<void> => {
+  if (!activities.length) {
+    return;
+  }
+  const createdAt = isoNow();
+  try {
+    await getTripStore().saveActivities(
+      activities.map((activity) => ({
+        ...activity,
+        tripId,
+        activityId: `act_${nanoid(10)}`,
+        createdAt
+      }))
+    );
+  } catch (error) {
+    console.warn("Failed to record trip activity", {
+      tripId,
+      count: activities.length,
+      error
+    });
+  }
+
+  await broadcastTripEvents(
+    tripId,
+    Array.from(new Set(activities.map((activity) => activity.type)), (type) => {
+      const matching = activities.filter((activity) => activity.type === type);
+      return {
+        type,
+        entityId: matching.length === 1 ? matching[0].entityId : undefined,
+        actorId: matching[0].actorId
+      };
+    })
+  );
+};
+
+// Alerts go through the activity log, which also pushes them to every member
+// subscribed to the trip.
+const budgetAlertActivities = (
+  trip: Trip,
+  previous: Expense[],
+  next: Expense[],
+  actorId: string
+): ActivityInput[] =>
+  findBudgetAlerts(trip, previous, next).map((alert) => ({
+    type: "BUDGET_ALERT",
+    actorId,
+    entityId: alert.category,
+    after: alert
+  }));
+
+const recordBudgetAlerts = (
+  trip: Trip,
+  previous: Expense[],
+  next: Expense[],
+  actorId: string
+): Promise<void> =>
+  recordActivities(trip.tripId, budgetAlertActivities(trip, previous, next, actorId));
+
+// Trip rules win over the member's own, which carry what they taught in other
+// trips.
+const suggestExpenseCategory = async (
+  details: TripDetails,
+  vendor: string | undefined,
+  memberId: string
+): Promise<string | undefined> => {
+  if (!normalizeVendor(vendor)) {
+    return undefined;
+  }
+  const memberRules = await getUserStore().listCategoryRules(memberId);
+  return suggestCategory(tripCategories(details.trip), vendor, [
+    details.categoryRules,
+    memberRules
+  ]);
+};
+
+// Picking a category other than the suggested one teaches both the trip and
+// the member. The expense is already saved, so failures are only logged.
+const learnCategoryRule = async (
+  tripId: string,
+  vendor: string | undefined,
+  category: string,
+  memberId: string
+): Promise<void> => {
+  const normalized = normalizeVendor(vendor);
+  if (!normalized) {
+    return;
+  }
+  const rule: CategoryRule = {
+    vendor: normalized,
+    category,
+    source: "learned",
+    updatedAt: isoNow(),
+    updatedBy: memberId
+  };
+  try {
+    await Promise.all([
+      getTripStore().saveCategoryRule(tripId, rule),
+      getUserStore().saveCategoryRule(memberId, rule)
+    ]);
+  } catch (error) {
+    console.warn("Failed to save category rule", { tripId, vendor: normalized, error });
+  }
+};
+
 export interface BalanceRow {
   memberId: string;
   displayName: string;
   balance: number;
 }
 
+export interface CurrencySubtotal {
+  currency: string;
+  total: number;
+  convertedTotal: number;
+  expenseCount: number;
+  /**
+   * Expenses in a foreign currency saved without an exchange rate, which
+   * count 1:1 in balances until someone edits them with a rate.
+   */
+  missingRateCount: number;
+}
+
 export interface TripSummary {
   trip: Trip;
   members: TripMember[];
@@ -180,9 +663,68 @@ export interface TripSummary {
   settlements: Settlement[];
   balances: BalanceRow[];
   pendingSettlements: Settlement[];
+  currencySubtotals: CurrencySubtotal[];
+  /** Budget versus actual; only present when the trip has a budget. */
+  budget?: BudgetStatus;
+  /** The trip's catalog, or the built-in one when the trip has none. */
+  categories: ExpenseCategory[];
+  categoryRules: CategoryRule[];
+  /** Pay links for unconfirmed settlements and the remaining settle-up transfers. */
+  paymentRequests: PaymentRequest[];
   currentUserId: string;
 }
 
+export interface SettleUpTransfer {
+  fromMemberId: string;
+  fromDisplayName: string;
+  toMemberId: string;
+  toDisplayName: string;
+  amount: number;
+  currency: string;
+  paymentMethods?: PaymentMethods;
+}
+
+export interface SettleUpPlan {
+  tripId: string;
+  currency: string;
+  preferredPayeeId?: string;
+  balances: BalanceRow[];
+  pendingSettlements: Settlement[];
+  transfers: SettleUpTransfer[];
+  members: TripMember[];
+}
+
+export interface TripActivityPage {
+  items: TripActivity[];
+  nextCursor?: string;
+}
+
+export type ImportRowStatus = "ready" | "created" | "error" | "skipped";
+
+export interface ImportRow {
+  rowNumber: number;
+  status: ImportRowStatus;
+  date?: string;
+  description?: string;
+  total?: number;
+  currency?: string;
+  paidByMemberId?: string;
+  allocations?: ExpenseAllocation[];
+  expenseId?: string;
+  errors: string[];
+  message?: string;
+}
+
+export interface ImportResult {
+  format: ImportFormat;
+  dryRun: boolean;
+  rows: ImportRow[];
+  readyCount: number;
+  createdCount: number;
+  errorCount: number;
+  skippedCount: number;
+}
+
 export interface TripListItem extends Trip {
   outstandingBalance: number;
   owedToYou: number;
@@ -197,6 +739,11 @@ const getDisplayName = (profile: UserProfile): string =>
   profile.email ??
   profile.userId;
 
+const isMissingExchangeRate = (expense: Expense, tripCurrency: string): boolean =>
+  expense.exchangeRate === undefined &&
+  !!expense.currency &&
+  expense.currency.toUpperCase() !== tripCurrency.toUpperCase();
+
 const computeBalances = (
   members: TripMember[],
   expenses: Expense[],
@@ -208,12 +755,18 @@ const computeBalances = (
   }
 
   for (const expense of expenses) {
+    if (expense.draft) {
+      continue;
+    }
     balances.set(
       expense.paidByMemberId,
-      roundCents((balances.get(expense.paidByMemberId) || 0) + expense.total)
+      roundCents(
+        (balances.get(expense.paidByMemberId) || 0) +
+          convertAmount(expense.total, expense.exchangeRate)
+      )
     );
 
-    for (const allocation of expense.allocations) {
+    for (const allocation of convertAllocations(expense)) {
       balances.set(
         allocation.memberId,
         roundCents((balances.get(allocation.memberId) || 0) - allocation.amount)
@@ -225,17 +778,14 @@ const computeBalances = (
     if (!settlement.confirmedAt) {
       continue;
     }
+    const amount = convertAmount(settlement.amount, settlement.exchangeRate);
     balances.set(
       settlement.fromMemberId,
-      roundCents(
-        (balances.get(settlement.fromMemberId) || 0) + settlement.amount
-      )
+      roundCents((balances.get(settlement.fromMemberId) || 0) + amount)
     );
     balances.set(
       settlement.toMemberId,
-      roundCents(
-        (balances.get(settlement.toMemberId) || 0) - settlement.amount
-      )
+      roundCents((balances.get(settlement.toMemberId) || 0) - amount)
     );
   }
 
@@ -246,6 +796,95 @@ const computeBalances = (
   }));
 };
 
+const computeCurrencySubtotals = (
+  expenses: Expense[],
+  tripCurrency: string
+): CurrencySubtotal[] => {
+  const subtotals = new Map<string, CurrencySubtotal>();
+  for (const expense of expenses) {
+    if (expense.draft) {
+      continue;
+    }
+    const currency = expense.currency ?? tripCurrency;
+    const entry = subtotals.get(currency) ?? {
+      currency,
+      total: 0,
+      convertedTotal: 0,
+      expenseCount: 0,
+      missingRateCount: 0
+    };
+    entry.total = roundCents(entry.total + expense.total);
+    entry.convertedTotal = roundCents(
+      entry.convertedTotal + convertAmount(expense.total, expense.exchangeRate)
+    );
+    entry.expenseCount += 1;
+    if (isMissingExchangeRate(expense, tripCurrency)) {
+      entry.missingRateCount += 1;
+    }
+    subtotals.set(currency, entry);
+  }
+  return Array.from(subtotals.values()).sort((a, b) => {
+    if (a.currency === tripCurrency) return -1;
+    if (b.currency === tripCurrency) return 1;
+    return a.currency.localeCompare(b.currency);
+  });
+};
+
+// Returns undefined when no conversion is needed so same-currency items keep
+// their existing shape.
+const resolveExchangeRate = async (
+  currency: string,
+  tripCurrency: string,
+  override?: number
+): Promise<number | undefined> => {
+  if (currency.toUpperCase() === tripCurrency.toUpperCase()) {
+    return undefined;
+  }
+  if (override !== undefined) {
+    return override;
+  }
+  const rate = await getExchangeRateProvider().getRate(currency, tripCurrency);
+  if (!rate) {
+    throw new ValidationError(
+      `No exchange rate available from ${currency} to ${tripCurrency}; provide exchangeRate`
+    );
+  }
+  return rate;
+};
+
+// Treats pending settlements as already paid so the plan only covers what is
+// still outstanding once those payments are confirmed.
+const applyPendingSettlements = (
+  balances: BalanceRow[],
+  settlements: Settlement[]
+): BalanceRow[] => {
+  const adjusted = new Map(
+    balances.map((row) => [row.memberId, row.balance])
+  );
+  for (const settlement of settlements) {
+    if (settlement.confirmedAt) {
+      continue;
+    }
+    const amount = convertAmount(settlement.amount, settlement.exchangeRate);
+    if (adjusted.has(settlement.fromMemberId)) {
+      adjusted.set(
+        settlement.fromMemberId,
+        roundCents(adjusted.get(settlement.fromMemberId)! + amount)
+      );
+    }
+    if (adjusted.has(settlement.toMemberId)) {
+      adjusted.set(
+        settlement.toMemberId,
+        roundCents(adjusted.get(settlement.toMemberId)! - amount)
+      );
+    }
+  }
+  return balances.map((row) => ({
+    ...row,
+    balance: adjusted.get(row.memberId) ?? row.balance
+  }));
+};
+
 const resolveRemainderTarget = (
   memberIds: string[],
   preferredId?: string,
@@ -290,82 +929,680 @@ const buildEvenSplitAllocations = (
   });
 };
 
-export class TripService {
-  async listTrips(auth: AuthContext): Promise<TripListItem[]> {
-    await ensureCurrentUserProfile(auth);
-    const trips = await getTripStore().listTripsForMember(auth.userId);
+// Venmo caps notes and long notes push the QR code past what it can hold.
+const MAX_PAYMENT_NOTE_LENGTH = 60;
 
-    const enrichedTrips = await Promise.all(
-      trips.map(async (trip) => {
-        const details = await getTripStore().getTripDetails(trip.tripId);
-        const balances = computeBalances(
-          details.members,
-          details.expenses,
-          details.settlements
-        );
-        const userBalance =
-          balances.find((row) => row.memberId === auth.userId)?.balance ?? 0;
-        const outstandingBalance =
-          userBalance < -0.01 ? Math.abs(userBalance) : 0;
-        const owedToYou = userBalance > 0.01 ? userBalance : 0;
-        const hasPendingActions = details.settlements.some(
-          (settlement) =>
-            !settlement.confirmedAt &&
-            (settlement.fromMemberId === auth.userId ||
-              settlement.toMemberId === auth.userId)
-        );
+/**
+ * Payment links for what is still owed: each recorded settlement awaiting
+ * confirmation, then the settle-up transfers left once those are paid.
+ * Payees without a linkable handle are left out.
+ */
+const buildPaymentRequests = (
+  trip: Trip,
+  members: TripMember[],
+  balances: BalanceRow[],
+  pendingSettlements: Settlement[]
+): PaymentRequest[] => {
+  const methodsByMember = new Map(
+    members.map((member) => [member.memberId, member.paymentMethods])
+  );
+  const note = (text: string) => text.trim().slice(0, MAX_PAYMENT_NOTE_LENGTH);
+
+  const recorded = pendingSettlements.map((settlement) => ({
+    fromMemberId: settlement.fromMemberId,
+    toMemberId: settlement.toMemberId,
+    amount: settlement.amount,
+    currency: settlement.currency,
+    settlementId: settlement.settlementId,
+    links: buildPaymentLinks(
+      methodsByMember.get(settlement.toMemberId),
+      settlement.amount,
+      settlement.currency,
+      note(settlement.note || trip.name)
+    )
+  }));
 
-        return {
-          ...trip,
-          outstandingBalance: roundCents(outstandingBalance),
-          owedToYou: roundCents(owedToYou),
-          hasPendingActions
-        };
-      })
-    );
+  const suggested = computeSettleUpTransfers(
+    applyPendingSettlements(balances, pendingSettlements)
+  ).map((transfer) => ({
+    ...transfer,
+    currency: trip.currency,
+    links: buildPaymentLinks(
+      methodsByMember.get(transfer.toMemberId),
+      transfer.amount,
+      trip.currency,
+      note(`${trip.name} settle-up`)
+    )
+  }));
 
-    return enrichedTrips;
-  }
+  return [...recorded, ...suggested].filter((request) => request.links.length > 0);
+};
 
-  async createTrip(body: unknown, auth: AuthContext): Promise<Trip> {
-    const parsed = createTripSchema.safeParse(body);
-    if (!parsed.success) {
-      throw new ValidationError(parsed.error.message);
-    }
+const withPaymentMethods = async (
+  members: TripMember[]
+): Promise<TripMember[]> => {
+  const userProfiles = await getUserStore().getUsersByIds(
+    Array.from(new Set(members.map((member) => member.memberId)))
+  );
+  const paymentMethodsByMember = new Map(
+    userProfiles.map((profile) => [profile.userId, profile.paymentMethods])
+  );
 
-    const ownerProfile = await ensureCurrentUserProfile(auth);
+  return members.map((member) => ({
+    ...member,
+    paymentMethods: paymentMethodsByMember.get(member.memberId)
+  }));
+};
 
-    const now = isoNow();
-    const trip: Trip = {
-      tripId: `trip_${nanoid(10)}`,
-      ownerId: auth.userId,
-      name: parsed.data.name,
-      startDate: parsed.data.startDate,
-      endDate: parsed.data.endDate,
-      createdAt: now,
-      updatedAt: now,
-      currency: parsed.data.currency ?? "USD"
-    };
+// Splits each line item across its assignees, then spreads whatever the items
+// do not cover (tax, tip, service fees) proportionally to each subtotal.
+const buildItemizedAllocations = (
+  lineItems: ExpenseLineItem[],
+  total: number,
+  remainderMemberId?: string
+): ExpenseAllocation[] => {
+  const subtotalCents = new Map<string, number>();
+  for (const item of lineItems) {
+    const target = resolveRemainderTarget(
+      item.assignedMemberIds,
+      remainderMemberId
+    );
+    for (const share of buildEvenSplitAllocations(
+      item.amount,
+      item.assignedMemberIds,
+      target
+    )) {
+      subtotalCents.set(
+        share.memberId,
+        (subtotalCents.get(share.memberId) ?? 0) + Math.round(share.amount * 100)
+      );
+    }
+  }
 
-    const ownerMember: TripMember = {
-      tripId: trip.tripId,
-      memberId: auth.userId,
-      displayName: getDisplayName(ownerProfile),
-      email: ownerProfile.email,
-      addedBy: auth.userId,
-      createdAt: now
-    };
+  const itemsCents = Array.from(subtotalCents.values()).reduce(
+    (sum, cents) => sum + cents,
+    0
+  );
+  if (itemsCents <= 0) {
+    throw new ValidationError("Line items must add up to more than zero");
+  }
 
-    const requestedMemberIds = Array.from(
-      new Set(
-        (parsed.data.members ?? [])
-          .map((member) => member.userId)
-          .filter((userId) => userId !== auth.userId)
-      )
+  const extrasCents = Math.round(total * 100) - itemsCents;
+  if (extrasCents < -5) {
+    throw new ValidationError(
+      `Line items total ${itemsCents / 100} exceeds expense total ${total}`
     );
+  }
+
+  const sign = extrasCents < 0 ? -1 : 1;
+  const absoluteExtras = Math.abs(extrasCents);
+  const shares = Array.from(subtotalCents.entries()).map(([memberId, cents]) => {
+    const exact = (absoluteExtras * cents) / itemsCents;
+    return { memberId, cents, extra: Math.floor(exact), fraction: exact % 1 };
+  });
+  let leftover =
+    absoluteExtras - shares.reduce((sum, share) => sum + share.extra, 0);
+  [...shares]
+    .sort((a, b) => b.fraction - a.fraction)
+    .forEach((share) => {
+      if (leftover > 0) {
+        share.extra += 1;
+        leftover -= 1;
+      }
+    });
+
+  return shares.map((share) => ({
+    memberId: share.memberId,
+    amount: roundCents((share.cents + sign * share.extra) / 100)
+  }));
+};
+
+// Cent-accurate weighted split; leftover cents from flooring go to a single
+// member, matching how even splits assign their remainder.
+const buildWeightedAllocations = (
+  total: number,
+  weights: Array<{ memberId: string; weight: number }>,
+  remainderMemberId?: string,
+  fallbackId?: string
+): ExpenseAllocation[] => {
+  const weightTotal = weights.reduce((sum, item) => sum + item.weight, 0);
+  if (weightTotal <= 0) {
+    throw new ValidationError("Split weights must add up to more than zero");
+  }
+
+  const totalCents = Math.round(total * 100);
+  const cents = weights.map((item) =>
+    Math.floor((totalCents * item.weight) / weightTotal)
+  );
+  const remainder = totalCents - cents.reduce((sum, value) => sum + value, 0);
+  const target = resolveRemainderTarget(
+    weights.filter((item) => item.weight > 0).map((item) => item.memberId),
+    remainderMemberId,
+    fallbackId
+  );
+
+  return weights.map((item, index) => ({
+    memberId: item.memberId,
+    amount: roundCents(
+      (cents[index] + (item.memberId === target ? remainder : 0)) / 100
+    )
+  }));
+};
+
+const buildSplitAllocations = (
+  split: ExpenseSplit,
+  total: number,
+  memberIds: string[],
+  paidByMemberId: string,
+  lineItems?: ExpenseLineItem[]
+): ExpenseAllocation[] => {
+  const inputs = split.inputs ?? [];
+  const inputByMember = new Map(
+    inputs.map((input) => [input.memberId, input.value])
+  );
+  const unknown = inputs.filter((input) => !memberIds.includes(input.memberId));
+  if (unknown.length) {
+    throw new ValidationError(
+      `Split inputs reference members not sharing this expense: ${unknown
+        .map((input) => input.memberId)
+        .join(", ")}`
+    );
+  }
+
+  switch (split.mode) {
+    case "EVEN":
+      return buildEvenSplitAllocations(
+        total,
+        memberIds,
+        resolveRemainderTarget(memberIds, split.remainderMemberId, paidByMemberId)
+      );
+    case "EXACT":
+      if (!inputs.length) {
+        throw new ValidationError("Exact split requires an amount per member");
+      }
+      return memberIds.map((memberId) => ({
+        memberId,
+        amount: roundCents(inputByMember.get(memberId) ?? 0)
+      }));
+    case "PERCENTAGE": {
+      const percentTotal = inputs.reduce((sum, input) => sum + input.value, 0);
+      if (Math.abs(percentTotal - 100) > 0.01) {
+        throw new ValidationError(
+          `Percentages must add up to 100 (got ${roundCents(percentTotal)})`
+        );
+      }
+      return buildWeightedAllocations(
+        total,
+        memberIds.map((memberId) => ({
+          memberId,
+          weight: inputByMember.get(memberId) ?? 0
+        })),
+        split.remainderMemberId,
+        paidByMemberId
+      );
+    }
+    case "SHARES":
+      return buildWeightedAllocations(
+        total,
+        memberIds.map((memberId) => ({
+          memberId,
+          weight: inputByMember.get(memberId) ?? 0
+        })),
+        split.remainderMemberId,
+        paidByMemberId
+      );
+    case "EXACT_PLUS_EVEN": {
+      // Exact amounts come first; whatever is left is shared evenly by everyone.
+      const exactTotal = roundCents(
+        inputs.reduce((sum, input) => sum + input.value, 0)
+      );
+      if (exactTotal - total > 0.005) {
+        throw new ValidationError(
+          `Exact amounts ${exactTotal} exceed expense total ${total}`
+        );
+      }
+      const evenShares = buildEvenSplitAllocations(
+        roundCents(total - exactTotal),
+        memberIds,
+        resolveRemainderTarget(memberIds, split.remainderMemberId, paidByMemberId)
+      );
+      return evenShares.map((share) => ({
+        memberId: share.memberId,
+        amount: roundCents(share.amount + (inputByMember.get(share.memberId) ?? 0))
+      }));
+    }
+    case "ITEMIZED":
+      if (!lineItems?.length) {
+        throw new ValidationError("Itemized split requires line items");
+      }
+      return buildItemizedAllocations(
+        lineItems,
+        total,
+        split.remainderMemberId ?? paidByMemberId
+      );
+  }
+};
+
+type ExpenseInput = z.infer<typeof expenseSchema>;
+
+// Shared by the HTTP create route and the recurring scheduler so generated
+// expenses pass exactly the same checks as ones entered by hand.
+const buildExpense = async (
+  details: TripDetails,
+  data: ExpenseInput
+): Promise<{ expense: Expense; attachedReceipt?: Receipt }> => {
+  const tripId = details.trip.tripId;
+  ensureMember(details.members, data.paidByMemberId);
+  data.sharedWithMemberIds.forEach((memberId) =>
+    ensureMember(details.members, memberId)
+  );
+  data.lineItems?.forEach((item) =>
+    item.assignedMemberIds.forEach((memberId) =>
+      ensureMember(details.members, memberId)
+    )
+  );
+
+  let attachedReceipt: Receipt | undefined;
+  if (data.receiptId) {
+    attachedReceipt = details.receipts.find(
+      (item) => item.receiptId === data.receiptId
+    );
+    if (!attachedReceipt) {
+      throw new ValidationError("Receipt not found on this trip");
+    }
+  }
+
+  const lineItems = data.lineItems;
+  const remainderMemberId = data.remainderMemberId;
+  // Legacy payloads without `split` still map onto a stored split mode.
+  const split: ExpenseSplit =
+    data.split ??
+    (lineItems
+      ? { mode: "ITEMIZED", remainderMemberId }
+      : data.splitEvenly || !data.allocations?.length
+        ? { mode: "EVEN", remainderMemberId }
+        : { mode: "EXACT" });
+  const splitWith =
+    split.mode === "ITEMIZED" && lineItems
+      ? Array.from(new Set(lineItems.flatMap((item) => item.assignedMemberIds)))
+      : data.sharedWithMemberIds;
+
+  const allocations =
+    split.mode === "EXACT" && !data.split
+      ? data.allocations ?? []
+      : buildSplitAllocations(
+          split,
+          data.total,
+          splitWith,
+          data.paidByMemberId,
+          lineItems
+        );
+
+  const allocatedTotal = roundCents(
+    allocations.reduce((sum, allocation) => sum + allocation.amount, 0)
+  );
+  if (Math.abs(allocatedTotal - data.total) > 0.05) {
+    throw new ValidationError(
+      `Allocated total ${allocatedTotal} does not match expense total ${data.total}`
+    );
+  }
+
+  const currency = data.currency ?? details.trip.currency;
+  const exchangeRate = await resolveExchangeRate(
+    currency,
+    details.trip.currency,
+    data.exchangeRate
+  );
+
+  const now = isoNow();
+  const expense: Expense = {
+    tripId,
+    expenseId: `exp_${nanoid(10)}`,
+    createdAt: now,
+    updatedAt: now,
+    description: data.description,
+    vendor: data.vendor,
+    category: data.category?.trim()
+      ? resolveCategoryName(tripCategories(details.trip), data.category)
+      : undefined,
+    total: data.total,
+    currency,
+    exchangeRate,
+    tax: data.tax,
+    tip: data.tip,
+    paidByMemberId: data.paidByMemberId,
+    sharedWithMemberIds: splitWith,
+    allocations,
+    lineItems,
+    split,
+    receiptId: data.receiptId
+  };
+
+  return { expense, attachedReceipt };
+};
+
+const toIsoDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+// Month-based schedules keep the start date's day, clamped to shorter months
+// (a rent due on the 31st lands on the 30th or 28th/29th).
+const addRecurrenceSteps = (
+  startDate: string,
+  frequency: RecurrenceFrequency,
+  steps: number
+): string => {
+  const [year, month, day] = startDate.split("-").map(Number);
+  if (frequency === "DAILY" || frequency === "WEEKLY") {
+    const days = frequency === "DAILY" ? steps : steps * 7;
+    return toIsoDate(new Date(Date.UTC(year, month - 1, day + days)));
+  }
+  const months = frequency === "MONTHLY" ? steps : steps * 12;
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return toIsoDate(target);
+};
+
+const MAX_RECURRENCE_STEPS = 5000;
+
+const findNextOccurrence = (
+  schedule: Pick<
+    RecurringExpense,
+    "startDate" | "endDate" | "frequency" | "interval" | "skippedDates"
+  >,
+  after?: string
+): string | undefined => {
+  for (let step = 0; step < MAX_RECURRENCE_STEPS; step += 1) {
+    const candidate = addRecurrenceSteps(
+      schedule.startDate,
+      schedule.frequency,
+      step * schedule.interval
+    );
+    if (schedule.endDate && candidate > schedule.endDate) {
+      return undefined;
+    }
+    if ((!after || candidate > after) && !schedule.skippedDates.includes(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+};
+
+// Exact splits are stored as inputs so every occurrence replays through
+// buildSplitAllocations instead of copying stale allocations.
+const toRecurringTemplate = (
+  expense: Expense,
+  exchangeRateOverride?: number
+): RecurringExpense["template"] => ({
+  description: expense.description,
+  vendor: expense.vendor,
+  category: expense.category,
+  total: expense.total,
+  currency: expense.currency,
+  exchangeRate: exchangeRateOverride,
+  tax: expense.tax,
+  tip: expense.tip,
+  paidByMemberId: expense.paidByMemberId,
+  sharedWithMemberIds: expense.sharedWithMemberIds,
+  split:
+    expense.split?.mode === "EXACT"
+      ? {
+          mode: "EXACT",
+          inputs: expense.allocations.map((allocation) => ({
+            memberId: allocation.memberId,
+            value: allocation.amount
+          }))
+        }
+      : expense.split
+});
+
+const templateToExpenseInput = (
+  template: RecurringExpense["template"]
+): ExpenseInput => {
+  const [firstMember, ...otherMembers] = template.sharedWithMemberIds;
+  return {
+    description: template.description,
+    vendor: template.vendor,
+    category: template.category,
+    total: template.total,
+    currency: template.currency,
+    exchangeRate: template.exchangeRate,
+    tax: template.tax,
+    tip: template.tip,
+    paidByMemberId: template.paidByMemberId,
+    sharedWithMemberIds: [firstMember, ...otherMembers],
+    split: template.split
+  };
+};
+
+const receiptExpenseIdFor = (receiptId: string, documentIndex: number) =>
+  `exp_${receiptId.replace(/^rec_/, "")}_${documentIndex}`;
+
+const recurringExpenseIdFor = (recurringExpenseId: string, occurrence: string) =>
+  `exp_${recurringExpenseId.replace(/^rcr_/, "")}${occurrence.replace(/-/g, "")}`;
+
+// Returns false when an earlier run already saved this occurrence.
+const saveRecurringOccurrence = async (expense: Expense): Promise<boolean> => {
+  try {
+    await getTripStore().saveExpense(expense);
+    return true;
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return false;
+    }
+    throw error;
+  }
+};
+
+// A template edited, paused, skipped or deleted while the scheduler runs keeps
+// that change: the scheduler stops, and the next run starts from the stored
+// copy.
+const writeSchedulerUpdate = async (write: () => Promise<void>): Promise<boolean> => {
+  try {
+    await write();
+    return true;
+  } catch (error) {
+    if (error instanceof ConflictError || error instanceof NotFoundError) {
+      console.info("Recurring expense changed while generating occurrences", {
+        error: error.message
+      });
+      return false;
+    }
+    throw error;
+  }
+};
+
+// Occurrence ids are deterministic, so a retried run finds an occurrence it
+// already saved and leaves it, including any edits made since, as it is.
+const generateRecurringOccurrences = async (
+  recurring: RecurringExpense,
+  asOfDate: string
+): Promise<number> => {
+  const details = await getTripStore().getTripDetails(recurring.tripId);
+  const expenses = [...details.expenses];
+  const activities: ActivityInput[] = [];
+  let current = recurring;
+  let created = 0;
+
+  // Occurrences due while the trip is settling or closed are created once it
+  // is reopened.
+  if (details.trip.status !== "active") {
+    return created;
+  }
+
+  // A catch-up run can create many occurrences, so their activity is
+  // broadcast together once the run stops, however it stops.
+  try {
+    while (current.nextOccurrence && current.nextOccurrence <= asOfDate) {
+      const occurrence = current.nextOccurrence;
+      try {
+        const { expense } = await buildExpense(
+          details,
+          templateToExpenseInput(current.template)
+        );
+        // Dated like imports, so catch-up runs after a reopen land on the day
+        // each occurrence was due rather than the day of the run.
+        const generated: Expense = {
+          ...expense,
+          expenseId: recurringExpenseIdFor(current.recurringExpenseId, occurrence),
+          recurringExpenseId: current.recurringExpenseId,
+          createdAt: `${occurrence}T12:00:00.000Z`
+        };
+        if (await saveRecurringOccurrence(generated)) {
+          activities.push(
+            {
+              type: "EXPENSE_CREATED",
+              actorId: "system",
+              entityId: generated.expenseId,
+              after: generated
+            },
+            ...budgetAlertActivities(details.trip, expenses, [...expenses, generated], "system")
+          );
+          expenses.push(generated);
+        }
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          // The template no longer fits the trip (e.g. a member left); pause it
+          // until someone edits it rather than failing on every run.
+          console.warn("Pausing invalid recurring expense", {
+            tripId: current.tripId,
+            recurringExpenseId: current.recurringExpenseId,
+            error: error.message
+          });
+          const version = current.version ?? 0;
+          await writeSchedulerUpdate(() =>
+            getTripStore().saveRecurringExpense(
+              { ...current, paused: true, updatedAt: isoNow(), version: version + 1 },
+              version
+            )
+          );
+          return created;
+        }
+        throw error;
+      }
+
+      created += 1;
+      const version = current.version ?? 0;
+      const advanced: RecurringExpense = {
+        ...current,
+        lastOccurrence: occurrence,
+        nextOccurrence: findNextOccurrence(current, occurrence),
+        updatedAt: isoNow(),
+        version: version + 1
+      };
+      if (
+        !(await writeSchedulerUpdate(() =>
+          getTripStore().advanceRecurringExpense(advanced, version)
+        ))
+      ) {
+        return created;
+      }
+      current = advanced;
+    }
+  } finally {
+    await recordActivities(recurring.tripId, activities);
+  }
+
+  return created;
+};
+
+export class TripService {
+  async listTrips(
+    auth: AuthContext,
+    query: Record<string, string | undefined> = {}
+  ): Promise<TripListItem[]> {
+    const parsed = listTripsQuerySchema.safeParse(query);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.message);
+    }
+
+    await ensureCurrentUserProfile(auth);
+    // Archived trips are hidden unless asked for by status or with "all".
+    const statuses: Array<TripStatus | "all"> = parsed.data.status?.length
+      ? parsed.data.status
+      : TRIP_STATUS_ORDER.filter((status) => status !== "archived");
+    const trips = (await getTripStore().listTripsForMember(auth.userId)).filter(
+      (trip) => statuses.includes("all") || statuses.includes(trip.status)
+    );
+
+    const enrichedTrips = await Promise.all(
+      trips.map(async (trip) => {
+        const details = await getTripStore().getTripDetails(trip.tripId);
+        const balances = computeBalances(
+          details.members,
+          details.expenses,
+          details.settlements
+        );
+        const userBalance =
+          balances.find((row) => row.memberId === auth.userId)?.balance ?? 0;
+        const outstandingBalance =
+          userBalance < -0.01 ? Math.abs(userBalance) : 0;
+        const owedToYou = userBalance > 0.01 ? userBalance : 0;
+        const hasPendingActions = details.settlements.some(
+          (settlement) =>
+            !settlement.confirmedAt &&
+            (settlement.fromMemberId === auth.userId ||
+              settlement.toMemberId === auth.userId)
+        );
+
+        return {
+          ...trip,
+          outstandingBalance: roundCents(outstandingBalance),
+          owedToYou: roundCents(owedToYou),
+          hasPendingActions
+        };
+      })
+    );
+
+    return enrichedTrips;
+  }
+
+  async createTrip(body: unknown, auth: AuthContext): Promise<Trip> {
+    const parsed = createTripSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.message);
+    }
+
+    const ownerProfile = await ensureCurrentUserProfile(auth);
+
+    const now = isoNow();
+    const trip: Trip = {
+      tripId: `trip_${nanoid(10)}`,
+      ownerId: auth.userId,
+      name: parsed.data.name,
+      startDate: parsed.data.startDate,
+      endDate: parsed.data.endDate,
+      createdAt: now,
+      updatedAt: now,
+      currency: parsed.data.currency ?? "USD",
+      status: "active",
+      locale: parsed.data.locale
+        ? Intl.getCanonicalLocales(parsed.data.locale)[0]
+        : undefined,
+      categories: ownerProfile.defaultCategories
+    };
+
+    const ownerMember: TripMember = {
+      tripId: trip.tripId,
+      memberId: auth.userId,
+      displayName: getDisplayName(ownerProfile),
+      email: ownerProfile.email,
+      addedBy: auth.userId,
+      createdAt: now,
+      role: "owner"
+    };
+
+    const requestedMemberIds = Array.from(
+      new Set(
+        (parsed.data.members ?? [])
+          .map((member) => member.userId)
+          .filter((userId) => userId !== auth.userId)
+      )
+    );
+
+    const extraProfiles = await getUserStore().getUsersByIds(requestedMemberIds);
 
-    const extraProfiles = await getUserStore().getUsersByIds(requestedMemberIds);
-
     if (extraProfiles.length !== requestedMemberIds.length) {
       const foundIds = new Set(extraProfiles.map((profile) => profile.userId));
       const missing = requestedMemberIds.filter((id) => !foundIds.has(id));
@@ -380,7 +1617,8 @@ export class TripService {
       displayName: getDisplayName(profile),
       email: profile.email,
       addedBy: auth.userId,
-      createdAt: now
+      createdAt: now,
+      role: "contributor"
     }));
 
     await getTripStore().createTrip(trip, ownerMember);
@@ -388,6 +1626,14 @@ export class TripService {
       await getTripStore().addMembers(trip, extraMembers);
     }
 
+    await recordActivity({
+      tripId: trip.tripId,
+      type: "TRIP_CREATED",
+      actorId: auth.userId,
+      entityId: trip.tripId,
+      after: trip
+    });
+
     return trip;
   }
 
@@ -403,15 +1649,18 @@ export class TripService {
 
     await ensureCurrentUserProfile(auth);
     const details = await getTripStore().getTripDetails(tripId);
-    const isOwner = details.trip.ownerId === auth.userId;
-    if (!isOwner) {
-      throw new ForbiddenError("Only trip owners can edit details");
-    }
+    ensureRole(details, auth.userId, "admin");
+
+    ensureTripAllows(details.trip, "details");
+    const version = ensureVersion(details.trip, parsed.data.version, "Trip");
 
     const updates: {
       name?: string;
       startDate?: string | null;
       endDate?: string | null;
+      locale?: string | null;
+      budget?: TripBudget | null;
+      categories?: ExpenseCategory[] | null;
       updatedAt: string;
     } = {
       updatedAt: isoNow()
@@ -426,8 +1675,33 @@ export class TripService {
     if (parsed.data.endDate !== undefined) {
       updates.endDate = parsed.data.endDate;
     }
+    if (parsed.data.locale !== undefined) {
+      updates.locale =
+        parsed.data.locale === null
+          ? null
+          : Intl.getCanonicalLocales(parsed.data.locale)[0];
+    }
+    if (parsed.data.budget !== undefined) {
+      updates.budget = parsed.data.budget;
+    }
+    if (parsed.data.categories !== undefined) {
+      updates.categories = parsed.data.categories;
+    }
+    // Budget limits are keyed by catalog name, so they are resolved again
+    // whenever either the budget or the catalog changes.
+    const budget = updates.budget !== undefined ? updates.budget : details.trip.budget;
+    if (budget && (parsed.data.budget !== undefined || parsed.data.categories !== undefined)) {
+      const catalog = tripCategories({
+        ...details.trip,
+        categories:
+          updates.categories !== undefined
+            ? updates.categories ?? undefined
+            : details.trip.categories
+      });
+      updates.budget = resolveBudgetCategories(budget, catalog);
+    }
 
-    await getTripStore().updateTripMetadata(tripId, details.members, updates);
+    await getTripStore().updateTripMetadata(tripId, details.members, updates, version);
 
     const nextTrip: Trip = {
       ...details.trip,
@@ -440,9 +1714,126 @@ export class TripService {
         updates.endDate !== undefined
           ? updates.endDate ?? undefined
           : details.trip.endDate,
-      updatedAt: updates.updatedAt
+      locale:
+        updates.locale !== undefined
+          ? updates.locale ?? undefined
+          : details.trip.locale,
+      budget:
+        updates.budget !== undefined
+          ? updates.budget ?? undefined
+          : details.trip.budget,
+      categories:
+        updates.categories !== undefined
+          ? updates.categories ?? undefined
+          : details.trip.categories,
+      updatedAt: updates.updatedAt,
+      version: version + 1
+    };
+
+    await recordActivity({
+      tripId,
+      type: "TRIP_UPDATED",
+      actorId: auth.userId,
+      entityId: tripId,
+      before: details.trip,
+      after: nextTrip
+    });
+
+    return nextTrip;
+  }
+
+  /**
+   * Moves a trip forward through its lifecycle. Without a target status the
+   * trip advances one stage, so closing an active trip starts settling up.
+   */
+  async closeTrip(
+    tripId: string,
+    body: unknown,
+    auth: AuthContext
+  ): Promise<Trip> {
+    const parsed = closeTripSchema.safeParse(body ?? {});
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.message);
+    }
+
+    await ensureCurrentUserProfile(auth);
+    const details = await getTripStore().getTripDetails(tripId);
+    if (details.trip.ownerId !== auth.userId) {
+      throw new ForbiddenError("Only trip owners can close a trip");
+    }
+
+    const currentIndex = TRIP_STATUS_ORDER.indexOf(details.trip.status);
+    const status = parsed.data.status ?? TRIP_STATUS_ORDER[currentIndex + 1];
+    if (!status || TRIP_STATUS_ORDER.indexOf(status) <= currentIndex) {
+      throw new ValidationError(`Trip is already ${details.trip.status}`);
+    }
+
+    const updatedAt = isoNow();
+    const closedAt = details.trip.closedAt ?? updatedAt;
+    const version = details.trip.version ?? 0;
+    await getTripStore().updateTripMetadata(
+      tripId,
+      details.members,
+      { status, closedAt, updatedAt },
+      version
+    );
+
+    const nextTrip: Trip = {
+      ...details.trip,
+      status,
+      closedAt,
+      updatedAt,
+      version: version + 1
+    };
+
+    await recordActivity({
+      tripId,
+      type: "TRIP_STATUS_CHANGED",
+      actorId: auth.userId,
+      entityId: tripId,
+      before: details.trip,
+      after: nextTrip
+    });
+
+    return nextTrip;
+  }
+
+  async reopenTrip(tripId: string, auth: AuthContext): Promise<Trip> {
+    await ensureCurrentUserProfile(auth);
+    const details = await getTripStore().getTripDetails(tripId);
+    if (details.trip.ownerId !== auth.userId) {
+      throw new ForbiddenError("Only trip owners can reopen a trip");
+    }
+    if (details.trip.status === "active") {
+      throw new ValidationError("Trip is already active");
+    }
+
+    const updatedAt = isoNow();
+    const version = details.trip.version ?? 0;
+    await getTripStore().updateTripMetadata(
+      tripId,
+      details.members,
+      { status: "active", closedAt: null, updatedAt },
+      version
+    );
+
+    const nextTrip: Trip = {
+      ...details.trip,
+      status: "active",
+      closedAt: undefined,
+      updatedAt,
+      version: version + 1
     };
 
+    await recordActivity({
+      tripId,
+      type: "TRIP_STATUS_CHANGED",
+      actorId: auth.userId,
+      entityId: tripId,
+      before: details.trip,
+      after: nextTrip
+    });
+
     return nextTrip;
   }
 
@@ -478,12 +1869,16 @@ export class TripService {
           return expense;
         }
         const receipt = receiptById.get(expense.receiptId);
-        if (!receipt?.storageKey || receipt.status === "FAILED") {
+        if (
+          !receipt?.storageKey ||
+          receipt.status === "FAILED" ||
+          receipt.status === "REJECTED"
+        ) {
           return expense;
         }
         try {
           const previewUrl = await generateReceiptDownloadUrl(
-            receipt.storageKey
+            receipt.normalizedKey ?? receipt.storageKey
           );
           return {
             ...expense,
@@ -500,28 +1895,377 @@ export class TripService {
       })
     );
 
-    const userProfiles = await getUserStore().getUsersByIds(
-      Array.from(new Set(details.members.map((member) => member.memberId)))
-    );
-    const paymentMethodsByMember = new Map(
-      userProfiles.map((profile) => [profile.userId, profile.paymentMethods])
-    );
-
-    const membersWithPayments = details.members.map((member) => ({
-      ...member,
-      paymentMethods: paymentMethodsByMember.get(member.memberId)
-    }));
-
+    const receiptsWithThumbnails = await Promise.all(
+      details.receipts.map(async (receipt) => {
+        if (!receipt.thumbnailKey) {
+          return receipt;
+        }
+        try {
+          return {
+            ...receipt,
+            thumbnailUrl: await generateReceiptDownloadUrl(receipt.thumbnailKey)
+          };
+        } catch (error) {
+          console.warn("Failed to generate receipt thumbnail URL", {
+            tripId,
+            receiptId: receipt.receiptId,
+            error
+          });
+          return receipt;
+        }
+      })
+    );
+
+    const membersWithPayments = await withPaymentMethods(details.members);
+
     return {
       ...details,
       members: membersWithPayments,
       expenses: expensesWithPreview,
+      receipts: receiptsWithThumbnails,
       balances,
       pendingSettlements,
+      currencySubtotals: computeCurrencySubtotals(
+        details.expenses,
+        details.trip.currency
+      ),
+      budget: details.trip.budget
+        ? computeBudgetStatus(details.trip.budget, details.expenses)
+        : undefined,
+      categories: tripCategories(details.trip),
+      paymentRequests: buildPaymentRequests(
+        details.trip,
+        membersWithPayments,
+        balances,
+        pendingSettlements
+      ),
       currentUserId: auth.userId
     };
   }
 
+  async getTripAnalytics(tripId: string, auth: AuthContext): Promise<TripAnalytics> {
+    await ensureCurrentUserProfile(auth);
+    const details = await getTripStore().getTripDetails(tripId);
+    const isMember = details.members.some(
+      (member) => member.memberId === auth.userId
+    );
+    if (!isMember) {
+      throw new ForbiddenError("You do not have access to this trip");
+    }
+
+    return buildTripAnalytics(details, toIsoDate(new Date()));
+  }
+
+  async exportTrip(
+    tripId: string,
+    params: Record<string, string | undefined>,
+    auth: AuthContext
+  ): Promise<TripExport> {
+    const parsed = exportQuerySchema.safeParse(params);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.message);
+    }
+
+    const format = parsed.data.format;
+    const fullSummary = await this.getTripSummary(tripId, auth);
+    // Drafts have not been reviewed, so they stay out of shared records.
+    const summary: TripSummary = {
+      ...fullSummary,
+      expenses: fullSummary.expenses.filter((expense) => !expense.draft)
+    };
+    const exportedAt = isoNow();
+
+    if (format === "csv") {
+      return {
+        fileName: exportFileName(summary, format),
+        contentType: "text/csv; charset=utf-8",
+        body: buildTripCsv(summary)
+      };
+    }
+
+    if (format === "json") {
+      return {
+        fileName: exportFileName(summary, format),
+        contentType: "application/json",
+        body: buildTripJson(summary, exportedAt)
+      };
+    }
+
+    const thumbnails: ReceiptThumbnail[] = [];
+    let imageBytes = 0;
+    for (const receipt of summary.receipts) {
+      if (
+        !receipt.storageKey ||
+        receipt.status === "PENDING_UPLOAD" ||
+        receipt.status === "REJECTED"
+      ) {
+        continue;
+      }
+      let image: ReceiptThumbnail["image"];
+      if (imageBytes < MAX_EXPORT_IMAGE_BYTES) {
+        try {
+          const { body } = await downloadReceiptObject(
+            receipt.thumbnailKey ?? receipt.storageKey
+          );
+          const jpeg = readJpeg(body);
+          if (jpeg && imageBytes + jpeg.data.length <= MAX_EXPORT_IMAGE_BYTES) {
+            image = jpeg;
+            imageBytes += jpeg.data.length;
+          }
+        } catch (error) {
+          console.warn("Failed to load receipt for export", {
+            tripId,
+            receiptId: receipt.receiptId,
+            error
+          });
+        }
+      }
+      thumbnails.push({ receipt, image });
+    }
+
+    return {
+      fileName: exportFileName(summary, format),
+      contentType: "application/pdf",
+      body: buildTripPdf(summary, thumbnails, exportedAt)
+    };
+  }
+
+  /**
+   * Maps a Splitwise, bank CSV or OFX export onto expenses. Every row goes
+   * through the same validation as `createExpense`; with `dryRun` (the
+   * default) nothing is written and the caller gets a per-row preview. Rows
+   * already imported from the same file are skipped.
+   */
+  async importExpenses(
+    tripId: string,
+    body: unknown,
+    auth: AuthContext
+  ): Promise<ImportResult> {
+    const parsed = importSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.message);
+    }
+
+    await ensureCurrentUserProfile(auth);
+    const details = await getTripStore().getTripDetails(tripId);
+    ensureRole(details, auth.userId, "contributor");
+
+    ensureTripAllows(details.trip, "expenses");
+
+    const { format, content, dryRun } = parsed.data;
+    const candidates = parseImportFile(format, content, {
+      members: details.members,
+      paidByMemberId: parsed.data.paidByMemberId ?? auth.userId,
+      sharedWithMemberIds:
+        parsed.data.sharedWithMemberIds ??
+        details.members.map((member) => member.memberId),
+      memberMap: parsed.data.memberMap,
+      currency: parsed.data.currency,
+      tripCurrency: details.trip.currency,
+      locale: details.trip.locale,
+      category: parsed.data.category
+    });
+    if (candidates.length > MAX_IMPORT_ROWS) {
+      throw new ValidationError(
+        `Imports are limited to ${MAX_IMPORT_ROWS} rows; split the file and try again`
+      );
+    }
+
+    // Ids come from the file and row, so importing the same file again (or
+    // retrying a commit that timed out) skips rows that already made it in.
+    const importId = createHash("sha256")
+      .update(`${format}\n${content}`)
+      .digest("hex")
+      .slice(0, 12);
+    const existingIds = new Set(details.expenses.map((expense) => expense.expenseId));
+
+    const rows: ImportRow[] = [];
+    const importedExpenses: Expense[] = [];
+    for (const candidate of candidates) {
+      const row: ImportRow = {
+        rowNumber: candidate.rowNumber,
+        status: "error",
+        date: candidate.date,
+        description: candidate.expense?.description,
+        total: candidate.expense?.total,
+        currency: candidate.expense?.currency,
+        paidByMemberId: candidate.expense?.paidByMemberId,
+        errors: [...candidate.errors]
+      };
+      rows.push(row);
+
+      if (candidate.skippedReason) {
+        row.status = "skipped";
+        row.message = candidate.skippedReason;
+        continue;
+      }
+      if (!candidate.expense || row.errors.length) {
+        continue;
+      }
+
+      const input = expenseSchema.safeParse(candidate.expense);
+      if (!input.success) {
+        row.errors.push(
+          ...input.error.issues.map((issue) =>
+            issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+          )
+        );
+        continue;
+      }
+
+      let expense: Expense;
+      try {
+        ({ expense } = await buildExpense(details, input.data));
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          row.errors.push(error.message);
+          continue;
+        }
+        throw error;
+      }
+
+      expense.expenseId = `exp_imp${importId}_${candidate.rowNumber}`;
+      // Keep the source date so imported history sorts where it happened.
+      if (candidate.date) {
+        expense.createdAt = `${candidate.date}T12:00:00.000Z`;
+      }
+      row.currency = expense.currency;
+      row.allocations = expense.allocations;
+      if (existingIds.has(expense.expenseId)) {
+        row.expenseId = expense.expenseId;
+        row.status = "skipped";
+        row.message = "Already imported";
+        continue;
+      }
+      row.status = "ready";
+      if (!dryRun) {
+        row.expenseId = expense.expenseId;
+        row.status = "created";
+      }
+      importedExpenses.push(expense);
+    }
+
+    if (!dryRun) {
+      await getTripStore().saveExpenses(importedExpenses);
+      await recordActivities(
+        tripId,
+        importedExpenses.map((expense) => ({
+          type: "EXPENSE_CREATED",
+          actorId: auth.userId,
+          entityId: expense.expenseId,
+          after: expense
+        }))
+      );
+      await recordBudgetAlerts(
+        details.trip,
+        details.expenses,
+        [...details.expenses, ...importedExpenses],
+        auth.userId
+      );
+    }
+
+    const count = (status: ImportRowStatus) =>
+      rows.filter((row) => row.status === status).length;
+
+    return {
+      format,
+      dryRun,
+      rows,
+      readyCount: count("ready"),
+      createdCount: count("created"),
+      errorCount: count("error"),
+      skippedCount: count("skipped")
+    };
+  }
+
+  async getSettleUpPlan(
+    tripId: string,
+    params: Record<string, string | undefined>,
+    auth: AuthContext
+  ): Promise<SettleUpPlan> {
+    const parsed = settleUpQuerySchema.safeParse(params);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.message);
+    }
+
+    await ensureCurrentUserProfile(auth);
+    const details = await getTripStore().getTripDetails(tripId);
+    const isMember = details.members.some(
+      (member) => member.memberId === auth.userId
+    );
+    if (!isMember) {
+      throw new ForbiddenError("You do not have access to this trip");
+    }
+
+    const { preferredPayeeId, includePending } = parsed.data;
+    if (preferredPayeeId) {
+      ensureMember(details.members, preferredPayeeId);
+    }
+
+    const pendingSettlements = details.settlements.filter(
+      (settlement) => !settlement.confirmedAt
+    );
+    const confirmedBalances = computeBalances(
+      details.members,
+      details.expenses,
+      details.settlements
+    );
+    const balances = includePending
+      ? applyPendingSettlements(confirmedBalances, pendingSettlements)
+      : confirmedBalances;
+
+    const members = await withPaymentMethods(details.members);
+    const memberById = new Map(
+      members.map((member) => [member.memberId, member])
+    );
+
+    const transfers = computeSettleUpTransfers(balances, preferredPayeeId).map(
+      (transfer) => {
+        const from = memberById.get(transfer.fromMemberId);
+        const to = memberById.get(transfer.toMemberId);
+        return {
+          ...transfer,
+          fromDisplayName: from?.displayName ?? transfer.fromMemberId,
+          toDisplayName: to?.displayName ?? transfer.toMemberId,
+          currency: details.trip.currency,
+          paymentMethods: to?.paymentMethods
+        };
+      }
+    );
+
+    return {
+      tripId,
+      currency: details.trip.currency,
+      preferredPayeeId,
+      balances,
+      pendingSettlements,
+      transfers,
+      members
+    };
+  }
+
+  async listActivity(
+    tripId: string,
+    params: Record<string, string | undefined>,
+    auth: AuthContext
+  ): Promise<TripActivityPage> {
+    const parsed = activityQuerySchema.safeParse(params);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.message);
+    }
+
+    await ensureCurrentUserProfile(auth);
+    const details = await getTripStore().getTripDetails(tripId);
+    const isMember = details.members.some(
+      (member) => member.memberId === auth.userId
+    );
+    if (!isMember) {
+      throw new ForbiddenError("You are not part of this trip");
+    }
+
+    return getTripStore().listActivity(tripId, parsed.data);
+  }
+
   async updatePaymentMethods(
     tripId: string,
     body: unknown,
@@ -563,28 +2307,53 @@ export class TripService {
 
     await ensureCurrentUserProfile(auth);
     const details = await getTripStore().getTripDetails(tripId);
-    const isOwner = details.trip.ownerId === auth.userId;
-    if (!isOwner) {
-      throw new ForbiddenError("Only trip owners can add members");
+    const actor = ensureRole(details, auth.userId, "admin");
+    if (
+      actor.role !== "owner" &&
+      parsed.data.members.some((entry) => entry.role === "admin")
+    ) {
+      throw new ForbiddenError("Only the trip owner can add admins");
     }
 
+    ensureTripAllows(details.trip, "members");
+
     const existingMemberIds = new Set(
       details.members.map((member) => member.memberId)
     );
-
-    const requestedMemberIds = Array.from(
-      new Set(
-        parsed.data.members
-          .map((member) => member.userId)
-          .filter((userId) => userId !== auth.userId)
+    const existingEmails = new Set(
+      details.members.flatMap((member) =>
+        member.email ? [member.email.toLowerCase()] : []
       )
     );
 
-    const filteredIds = requestedMemberIds.filter(
-      (userId) => !existingMemberIds.has(userId)
+    const requestedRoles = new Map<string, TripRole>();
+    const invites = new Map<string, { displayName?: string; role: TripRole }>();
+    for (const entry of parsed.data.members) {
+      const role = entry.role ?? "contributor";
+      if ("userId" in entry) {
+        requestedRoles.set(entry.userId, role);
+        continue;
+      }
+      const email = entry.email.toLowerCase();
+      if (existingEmails.has(email) || invites.has(email)) {
+        continue;
+      }
+      // Invites for people who already signed up become regular members.
+      const [registered] = (await getUserStore().searchUsers(email, 5)).filter(
+        (profile) => profile.email?.toLowerCase() === email
+      );
+      if (registered) {
+        requestedRoles.set(registered.userId, role);
+      } else {
+        invites.set(email, { displayName: entry.displayName, role });
+      }
+    }
+
+    const filteredIds = Array.from(requestedRoles.keys()).filter(
+      (userId) => userId !== auth.userId && !existingMemberIds.has(userId)
     );
 
-    if (!filteredIds.length) {
+    if (!filteredIds.length && !invites.size) {
       throw new ValidationError("All selected members are already in the trip");
     }
 
@@ -599,35 +2368,61 @@ export class TripService {
     }
 
     const now = isoNow();
-    const newMembers: TripMember[] = profiles.map((profile) => ({
-      tripId,
-      memberId: profile.userId,
-      displayName: getDisplayName(profile),
-      email: profile.email,
-      addedBy: auth.userId,
-      createdAt: now
-    }));
+    const newMembers: TripMember[] = [
+      ...profiles.map((profile) => ({
+        tripId,
+        memberId: profile.userId,
+        displayName: getDisplayName(profile),
+        email: profile.email,
+        addedBy: auth.userId,
+        createdAt: now,
+        role: requestedRoles.get(profile.userId) ?? "contributor"
+      })),
+      ...Array.from(invites, ([email, { displayName, role }]) => ({
+        tripId,
+        memberId: `inv_${nanoid(10)}`,
+        displayName: displayName ?? email.split("@")[0],
+        email,
+        addedBy: auth.userId,
+        createdAt: now,
+        role,
+        placeholder: true
+      }))
+    ];
 
     await getTripStore().addMembers(details.trip, newMembers);
 
+    await recordActivity({
+      tripId,
+      type: "MEMBERS_ADDED",
+      actorId: auth.userId,
+      after: newMembers
+    });
+
     return newMembers;
   }
 
+  /**
+   * Removes a member, or lets members leave by removing themselves. The owner
+   * can only leave by naming the member who takes over (`transferTo`).
+   */
   async removeMember(
     tripId: string,
     memberId: string,
+    query: Record<string, string | undefined>,
     auth: AuthContext
   ): Promise<void> {
+    const parsed = removeMemberQuerySchema.safeParse(query);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.message);
+    }
+
     await ensureCurrentUserProfile(auth);
     const details = await getTripStore().getTripDetails(tripId);
-    const isOwner = details.trip.ownerId === auth.userId;
-    if (!isOwner) {
-      throw new ForbiddenError("Only trip owners can remove members");
-    }
+    const isSelf = memberId === auth.userId;
+    const actor = ensureRole(details, auth.userId, isSelf ? "viewer" : "admin");
 
-    if (memberId === details.trip.ownerId) {
-      throw new ValidationError("Cannot remove the trip owner");
-    }
+    ensureTripAllows(details.trip, "members");
 
     const member = details.members.find(
       (item) => item.memberId === memberId
@@ -636,6 +2431,16 @@ export class TripService {
       throw new ValidationError("Member not found on this trip");
     }
 
+    if (member.role === "owner" && !isSelf) {
+      throw new ValidationError("Cannot remove the trip owner");
+    }
+    if (member.role === "owner" && !parsed.data.transferTo) {
+      throw new ValidationError("Choose a member to take over ownership before leaving");
+    }
+    if (member.role === "admin" && !isSelf && actor.role !== "owner") {
+      throw new ForbiddenError("Only the trip owner can remove admins");
+    }
+
     const involvedInExpenses = details.expenses.some(
       (expense) =>
         expense.paidByMemberId === memberId ||
@@ -661,7 +2466,128 @@ export class TripService {
       );
     }
 
+    if (member.role === "owner") {
+      await this.transferOwnership(
+        tripId,
+        { memberId: parsed.data.transferTo },
+        auth
+      );
+    }
+
     await getTripStore().deleteMember(tripId, memberId);
+
+    await recordActivity({
+      tripId,
+      type: "MEMBER_REMOVED",
+      actorId: auth.userId,
+      entityId: memberId,
+      before: member
+    });
+    // After the event above, so the member's open clients hear they left.
+    await unsubscribeMember(tripId, memberId);
+  }
+
+  async updateMemberRole(
+    tripId: string,
+    memberId: string,
+    body: unknown,
+    auth: AuthContext
+  ): Promise<TripMember> {
+    const parsed = memberRoleSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.message);
+    }
+
+    await ensureCurrentUserProfile(auth);
+    const details = await getTripStore().getTripDetails(tripId);
+    const actor = ensureRole(details, auth.userId, "admin");
+
+    ensureTripAllows(details.trip, "members");
+
+    const member = details.members.find(
+      (item) => item.memberId === memberId
+    );
+    if (!member) {
+      throw new ValidationError("Member not found on this trip");
+    }
+    if (member.role === "owner") {
+      throw new ValidationError("Transfer ownership to change the owner's role");
+    }
+    if (
+      (member.role === "admin" || parsed.data.role === "admin") &&
+      actor.role !== "owner"
+    ) {
+      throw new ForbiddenError("Only the trip owner can manage admins");
+    }
+    if (member.role === parsed.data.role) {
+      return member;
+    }
+
+    await getTripStore().updateMemberRole(tripId, memberId, parsed.data.role);
+    const updated: TripMember = { ...member, role: parsed.data.role };
+
+    await recordActivity({
+      tripId,
+      type: "MEMBER_ROLE_CHANGED",
+      actorId: auth.userId,
+      entityId: memberId,
+      before: member,
+      after: updated
+    });
+
+    return updated;
+  }
+
+  async transferOwnership(
+    tripId: string,
+    body: unknown,
+    auth: AuthContext
+  ): Promise<Trip> {
+    const parsed = transferOwnershipSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.message);
+    }
+
+    await ensureCurrentUserProfile(auth);
+    const details = await getTripStore().getTripDetails(tripId);
+    if (details.trip.ownerId !== auth.userId) {
+      throw new ForbiddenError("Only the trip owner can transfer ownership");
+    }
+
+    const target = details.members.find(
+      (item) => item.memberId === parsed.data.memberId
+    );
+    if (!target) {
+      throw new ValidationError("Member not found on this trip");
+    }
+    if (target.memberId === auth.userId) {
+      throw new ValidationError("You already own this trip");
+    }
+    if (target.placeholder) {
+      throw new ValidationError("Ownership can only go to members who have signed up");
+    }
+
+    const updatedAt = isoNow();
+    await getTripStore().transferOwnership(
+      tripId,
+      details.members,
+      auth.userId,
+      target.memberId,
+      updatedAt
+    );
+
+    const nextTrip: Trip = { ...details.trip, ownerId: target.memberId, updatedAt };
+
+    await recordActivity({
+      tripId,
+      type: "OWNERSHIP_TRANSFERRED",
+      actorId: auth.userId,
+      entityId: target.memberId,
+      before: details.trip,
+      after: nextTrip
+    });
+
+    return nextTrip;
   }
 
   async createExpense(
@@ -676,200 +2602,605 @@ export class TripService {
 
     await ensureCurrentUserProfile(auth);
     const details = await getTripStore().getTripDetails(tripId);
-    const isMember = details.members.some(
-      (member) => member.memberId === auth.userId
+    ensureRole(details, auth.userId, "contributor");
+
+    ensureTripAllows(details.trip, "expenses");
+
+    // Receipts carry the merchant Textract read when no vendor was typed.
+    const vendor =
+      parsed.data.vendor ??
+      details.receipts.find((receipt) => receipt.receiptId === parsed.data.receiptId)
+        ?.extractedData?.merchantName;
+    const suggestedCategory = await suggestExpenseCategory(details, vendor, auth.userId);
+    const chosenCategory = parsed.data.category?.trim() ? parsed.data.category : undefined;
+
+    const { expense, attachedReceipt } = await buildExpense(details, {
+      ...parsed.data,
+      category: chosenCategory ?? suggestedCategory
+    });
+
+    await getTripStore().saveExpense(expense);
+    if (chosenCategory && expense.category && expense.category !== suggestedCategory) {
+      await learnCategoryRule(tripId, vendor, expense.category, auth.userId);
+    }
+
+    await recordActivity({
+      tripId,
+      type: "EXPENSE_CREATED",
+      actorId: auth.userId,
+      entityId: expense.expenseId,
+      after: expense
+    });
+    await recordBudgetAlerts(
+      details.trip,
+      details.expenses,
+      [...details.expenses, expense],
+      auth.userId
     );
-    if (!isMember) {
-      throw new ForbiddenError("You are not part of this trip");
+
+    const response: Expense = { ...expense };
+    if (
+      attachedReceipt?.storageKey &&
+      attachedReceipt.status !== "FAILED" &&
+      attachedReceipt.status !== "REJECTED"
+    ) {
+      try {
+        response.receiptPreviewUrl = await generateReceiptDownloadUrl(
+          attachedReceipt.normalizedKey ?? attachedReceipt.storageKey
+        );
+      } catch (error) {
+        console.warn("Failed to generate receipt preview URL", {
+          tripId,
+          receiptId: attachedReceipt.receiptId,
+          error
+        });
+      }
     }
 
-    ensureMember(details.members, parsed.data.paidByMemberId);
-    parsed.data.sharedWithMemberIds.forEach((memberId) =>
-      ensureMember(details.members, memberId)
+    return response;
+  }
+
+  async updateExpense(
+    tripId: string,
+    expenseId: string,
+    body: unknown,
+    auth: AuthContext
+  ): Promise<void> {
+    const parsed = updateExpenseSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.message);
+    }
+
+    await ensureCurrentUserProfile(auth);
+    const details = await getTripStore().getTripDetails(tripId);
+    ensureRole(details, auth.userId, "contributor");
+
+    ensureTripAllows(details.trip, "expenses");
+
+    const expense = details.expenses.find(
+      (item) => item.expenseId === expenseId
     );
+    if (!expense) {
+      throw new ValidationError("Expense not found");
+    }
+
+    if (
+      expense.paidByMemberId !== auth.userId &&
+      !hasRole(details, auth.userId, "admin")
+    ) {
+      throw new ForbiddenError("Not authorized to edit this expense");
+    }
+    const version = ensureVersion(expense, parsed.data.version, "Expense");
 
-    let attachedReceipt: Receipt | undefined;
-    if (parsed.data.receiptId) {
-      attachedReceipt = details.receipts.find(
-        (item) => item.receiptId === parsed.data.receiptId
+    if (
+      parsed.data.exchangeRate !== undefined &&
+      expense.currency.toUpperCase() === details.trip.currency.toUpperCase()
+    ) {
+      throw new ValidationError(
+        "Exchange rate only applies to expenses in a different currency"
       );
-      if (!attachedReceipt) {
-        throw new ValidationError("Receipt not found on this trip");
-      }
     }
 
-    const splitWith = parsed.data.sharedWithMemberIds;
-    let allocations = parsed.data.allocations ?? [];
-    if (parsed.data.splitEvenly || !allocations.length) {
-      const remainderTarget = resolveRemainderTarget(
-        splitWith,
-        parsed.data.remainderMemberId,
-        parsed.data.paidByMemberId
+    if (parsed.data.sharedWithMemberIds) {
+      parsed.data.sharedWithMemberIds.forEach((memberId) =>
+        ensureMember(details.members, memberId)
       );
-      allocations = buildEvenSplitAllocations(
-        parsed.data.total,
-        splitWith,
-        remainderTarget
+    }
+    parsed.data.lineItems?.forEach((item) =>
+      item.assignedMemberIds.forEach((memberId) =>
+        ensureMember(details.members, memberId)
+      )
+    );
+
+    // Explicit allocations win; otherwise the stored split is replayed when
+    // the total or participants change so percentages and shares stay intact.
+    const storedSplit: ExpenseSplit | undefined =
+      expense.split ?? (expense.lineItems ? { mode: "ITEMIZED" } : undefined);
+    let split: ExpenseSplit | undefined;
+    if (parsed.data.allocations) {
+      split = { mode: "EXACT" };
+    } else if (parsed.data.split) {
+      split = parsed.data.split;
+    } else if (parsed.data.lineItems) {
+      split = {
+        mode: "ITEMIZED",
+        remainderMemberId: parsed.data.remainderMemberId
+      };
+    } else if (
+      (parsed.data.total !== undefined || parsed.data.sharedWithMemberIds) &&
+      storedSplit &&
+      storedSplit.mode !== "EXACT"
+    ) {
+      split = storedSplit;
+    } else if (
+      parsed.data.total !== undefined &&
+      parsed.data.sharedWithMemberIds &&
+      parsed.data.sharedWithMemberIds.length > 0
+    ) {
+      split = {
+        mode: "EVEN",
+        remainderMemberId: parsed.data.remainderMemberId
+      };
+    }
+
+    const lineItems =
+      split?.mode === "ITEMIZED"
+        ? parsed.data.lineItems ?? expense.lineItems
+        : undefined;
+    let sharedWithMemberIds: string[] | undefined =
+      parsed.data.sharedWithMemberIds;
+    let allocations = expense.allocations;
+    if (parsed.data.allocations) {
+      allocations = parsed.data.allocations;
+    } else if (split) {
+      if (lineItems) {
+        sharedWithMemberIds = Array.from(
+          new Set(lineItems.flatMap((item) => item.assignedMemberIds))
+        );
+      }
+      allocations = buildSplitAllocations(
+        split,
+        parsed.data.total ?? expense.total,
+        sharedWithMemberIds ?? expense.sharedWithMemberIds,
+        expense.paidByMemberId,
+        lineItems
       );
     }
 
-    const allocatedTotal = roundCents(
-      allocations.reduce((sum, allocation) => sum + allocation.amount, 0)
-    );
-    if (Math.abs(allocatedTotal - parsed.data.total) > 0.05) {
-      throw new ValidationError(
-        `Allocated total ${allocatedTotal} does not match expense total ${parsed.data.total}`
+    if (split || parsed.data.total !== undefined) {
+      const total = parsed.data.total ?? expense.total;
+      const allocatedTotal = roundCents(
+        allocations.reduce((sum, allocation) => sum + allocation.amount, 0)
       );
+      if (Math.abs(allocatedTotal - total) > 0.05) {
+        throw new ValidationError(
+          `Allocated total ${allocatedTotal} does not match expense total ${total}`
+        );
+      }
+    }
+
+    const category =
+      parsed.data.category === undefined || parsed.data.category === null
+        ? parsed.data.category
+        : resolveCategoryName(tripCategories(details.trip), parsed.data.category);
+
+    const updates = {
+      total: parsed.data.total,
+      tax: parsed.data.tax,
+      tip: parsed.data.tip,
+      sharedWithMemberIds,
+      allocations,
+      split,
+      lineItems: lineItems ?? (split && expense.lineItems ? null : undefined),
+      exchangeRate: parsed.data.exchangeRate,
+      category,
+      draft: parsed.data.draft === false && expense.draft ? null : undefined,
+      updatedAt: isoNow()
+    };
+    await getTripStore().updateExpenseAllocations(tripId, expenseId, updates, version);
+    if (category && category !== expense.category) {
+      await learnCategoryRule(tripId, expense.vendor, category, auth.userId);
+    }
+
+    const updatedExpense: Expense = { ...expense, version: version + 1 };
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value === null) {
+        delete updatedExpense[key as keyof Expense];
+      } else if (value !== undefined) {
+        Object.assign(updatedExpense, { [key]: value });
+      }
+    });
+    await recordActivity({
+      tripId,
+      type: "EXPENSE_UPDATED",
+      actorId: auth.userId,
+      entityId: expenseId,
+      before: expense,
+      after: updatedExpense
+    });
+    await recordBudgetAlerts(
+      details.trip,
+      details.expenses,
+      details.expenses.map((item) => (item.expenseId === expenseId ? updatedExpense : item)),
+      auth.userId
+    );
+  }
+
+  async deleteExpense(
+    tripId: string,
+    expenseId: string,
+    query: Record<string, string | undefined>,
+    auth: AuthContext
+  ): Promise<void> {
+    const parsed = versionQuerySchema.safeParse(query);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.message);
+    }
+
+    await ensureCurrentUserProfile(auth);
+    const details = await getTripStore().getTripDetails(tripId);
+    ensureRole(details, auth.userId, "contributor");
+
+    ensureTripAllows(details.trip, "expenses");
+
+    const expense = details.expenses.find(
+      (item) => item.expenseId === expenseId
+    );
+    if (!expense) {
+      throw new ValidationError("Expense not found");
+    }
+
+    const canDelete =
+      expense.paidByMemberId === auth.userId ||
+      hasRole(details, auth.userId, "admin");
+    if (!canDelete) {
+      throw new ForbiddenError("Not authorized to delete this expense");
     }
 
+    await getTripStore().deleteExpense(
+      tripId,
+      expenseId,
+      ensureVersion(expense, parsed.data.version, "Expense")
+    );
+
+    await recordActivity({
+      tripId,
+      type: "EXPENSE_DELETED",
+      actorId: auth.userId,
+      entityId: expenseId,
+      before: expense
+    });
+  }
+
+  /** Adds or replaces the trip's rule for a vendor. */
+  async saveCategoryRule(
+    tripId: string,
+    body: unknown,
+    auth: AuthContext
+  ): Promise<CategoryRule> {
+    const parsed = categoryRuleSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.message);
+    }
+
+    await ensureCurrentUserProfile(auth);
+    const details = await getTripStore().getTripDetails(tripId);
+    ensureRole(details, auth.userId, "contributor");
+
+    ensureTripAllows(details.trip, "expenses");
+
+    const vendor = normalizeVendor(parsed.data.vendor);
+    if (!vendor) {
+      throw new ValidationError("Vendor must contain letters");
+    }
+
+    const rule: CategoryRule = {
+      vendor,
+      category: resolveCategoryName(tripCategories(details.trip), parsed.data.category),
+      source: "manual",
+      updatedAt: isoNow(),
+      updatedBy: auth.userId
+    };
+    await getTripStore().saveCategoryRule(tripId, rule);
+    return rule;
+  }
+
+  async deleteCategoryRule(
+    tripId: string,
+    vendor: string,
+    auth: AuthContext
+  ): Promise<void> {
+    await ensureCurrentUserProfile(auth);
+    const details = await getTripStore().getTripDetails(tripId);
+    ensureRole(details, auth.userId, "contributor");
+
+    ensureTripAllows(details.trip, "expenses");
+
+    const rule = details.categoryRules.find(
+      (item) => item.vendor === normalizeVendor(vendor)
+    );
+    if (!rule) {
+      throw new ValidationError("Category rule not found");
+    }
+
+    await getTripStore().deleteCategoryRule(tripId, rule.vendor);
+  }
+
+  async listRecurringExpenses(
+    tripId: string,
+    auth: AuthContext
+  ): Promise<RecurringExpense[]> {
+    await ensureCurrentUserProfile(auth);
+    const details = await getTripStore().getTripDetails(tripId);
+    const isMember = details.members.some(
+      (member) => member.memberId === auth.userId
+    );
+    if (!isMember) {
+      throw new ForbiddenError("You are not part of this trip");
+    }
+
+    return getTripStore().listRecurringExpenses(tripId);
+  }
+
+  async createRecurringExpense(
+    tripId: string,
+    body: unknown,
+    auth: AuthContext
+  ): Promise<RecurringExpense> {
+    const parsed = recurringExpenseSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.message);
+    }
+
+    const { frequency, interval, startDate, endDate, ...expenseInput } = parsed.data;
+    if (endDate && endDate < startDate) {
+      throw new ValidationError("End date must be on or after the start date");
+    }
+
+    await ensureCurrentUserProfile(auth);
+    const details = await getTripStore().getTripDetails(tripId);
+    ensureRole(details, auth.userId, "contributor");
+
+    ensureTripAllows(details.trip, "expenses");
+
+    // Validate the template exactly as a one-off expense would be.
+    const { expense } = await buildExpense(details, expenseInput);
+
     const now = isoNow();
-    const expense: Expense = {
+    const schedule = {
+      frequency,
+      interval,
+      startDate,
+      endDate,
+      skippedDates: []
+    };
+    const recurring: RecurringExpense = {
       tripId,
-      expenseId: `exp_${nanoid(10)}`,
+      recurringExpenseId: `rcr_${nanoid(10)}`,
       createdAt: now,
       updatedAt: now,
-      description: parsed.data.description,
-      vendor: parsed.data.vendor,
-      category: parsed.data.category,
-      total: parsed.data.total,
-      currency: parsed.data.currency ?? details.trip.currency,
-      tax: parsed.data.tax,
-      tip: parsed.data.tip,
-      paidByMemberId: parsed.data.paidByMemberId,
-      sharedWithMemberIds: parsed.data.sharedWithMemberIds,
-      allocations,
-      receiptId: parsed.data.receiptId
+      createdBy: auth.userId,
+      ...schedule,
+      nextOccurrence: findNextOccurrence(schedule),
+      paused: false,
+      template: toRecurringTemplate(expense, expenseInput.exchangeRate)
     };
 
-    await getTripStore().saveExpense(expense);
+    await getTripStore().saveRecurringExpense(recurring);
 
-    const response: Expense = { ...expense };
-    if (
-      attachedReceipt?.storageKey &&
-      attachedReceipt.status !== "FAILED"
-    ) {
-      try {
-        response.receiptPreviewUrl = await generateReceiptDownloadUrl(
-          attachedReceipt.storageKey
-        );
-      } catch (error) {
-        console.warn("Failed to generate receipt preview URL", {
-          tripId,
-          receiptId: attachedReceipt.receiptId,
-          error
-        });
-      }
-    }
+    await recordActivity({
+      tripId,
+      type: "RECURRING_EXPENSE_CREATED",
+      actorId: auth.userId,
+      entityId: recurring.recurringExpenseId,
+      after: recurring
+    });
 
-    return response;
+    return recurring;
   }
 
-  async updateExpense(
+  async updateRecurringExpense(
     tripId: string,
-    expenseId: string,
+    recurringExpenseId: string,
     body: unknown,
     auth: AuthContext
-  ): Promise<void> {
-    const parsed = updateExpenseSchema.safeParse(body);
+  ): Promise<RecurringExpense> {
+    const parsed = updateRecurringExpenseSchema.safeParse(body);
     if (!parsed.success) {
       throw new ValidationError(parsed.error.message);
     }
 
     await ensureCurrentUserProfile(auth);
     const details = await getTripStore().getTripDetails(tripId);
-    const isMember = details.members.some(
-      (member) => member.memberId === auth.userId
+    ensureRole(details, auth.userId, "contributor");
+
+    ensureTripAllows(details.trip, "expenses");
+
+    const existing = await getTripStore().getRecurringExpense(
+      tripId,
+      recurringExpenseId
     );
-    if (!isMember) {
-      throw new ForbiddenError("Not authorized");
+    if (
+      existing.createdBy !== auth.userId &&
+      !hasRole(details, auth.userId, "admin")
+    ) {
+      throw new ForbiddenError("Not authorized to change this recurring expense");
+    }
+    const { frequency, interval, endDate, paused, ...templateFields } = parsed.data;
+    const templateUpdates = Object.fromEntries(
+      Object.entries(templateFields).filter(([, value]) => value !== undefined)
+    ) as Partial<ExpenseInput>;
+
+    let template = existing.template;
+    if (Object.keys(templateUpdates).length) {
+      const input: ExpenseInput = {
+        ...templateToExpenseInput(existing.template),
+        ...templateUpdates
+      };
+      // New allocations or an explicit even split replace the stored split.
+      if (!templateUpdates.split && (templateUpdates.allocations || templateUpdates.splitEvenly)) {
+        input.split = undefined;
+      }
+      const { expense } = await buildExpense(details, input);
+      template = toRecurringTemplate(expense, input.exchangeRate);
     }
 
-    const expense = details.expenses.find(
-      (item) => item.expenseId === expenseId
-    );
-    if (!expense) {
-      throw new ValidationError("Expense not found");
+    const version = existing.version ?? 0;
+    const updated: RecurringExpense = {
+      ...existing,
+      frequency: frequency ?? existing.frequency,
+      interval: interval ?? existing.interval,
+      endDate: endDate === null ? undefined : endDate ?? existing.endDate,
+      paused: paused ?? existing.paused,
+      template,
+      updatedAt: isoNow(),
+      version: version + 1
+    };
+    if (updated.endDate && updated.endDate < updated.startDate) {
+      throw new ValidationError("End date must be on or after the start date");
     }
 
-    let allocations = parsed.data.allocations ?? expense.allocations;
-    if (parsed.data.sharedWithMemberIds) {
-      parsed.data.sharedWithMemberIds.forEach((memberId) =>
-        ensureMember(details.members, memberId)
-      );
+    // Resuming picks up from today; occurrences missed while paused are not backfilled.
+    const resumed = existing.paused && !updated.paused;
+    const yesterday = addRecurrenceSteps(toIsoDate(new Date()), "DAILY", -1);
+    const after =
+      resumed && (!existing.lastOccurrence || existing.lastOccurrence < yesterday)
+        ? yesterday
+        : existing.lastOccurrence;
+    updated.nextOccurrence = findNextOccurrence(updated, after);
+
+    await getTripStore().saveRecurringExpense(updated, version);
+
+    await recordActivity({
+      tripId,
+      type: "RECURRING_EXPENSE_UPDATED",
+      actorId: auth.userId,
+      entityId: recurringExpenseId,
+      before: existing,
+      after: updated
+    });
+
+    return updated;
+  }
+
+  async skipRecurringOccurrence(
+    tripId: string,
+    recurringExpenseId: string,
+    body: unknown,
+    auth: AuthContext
+  ): Promise<RecurringExpense> {
+    const parsed = skipOccurrenceSchema.safeParse(body ?? {});
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.message);
     }
 
-    if (parsed.data.allocations) {
-      allocations = parsed.data.allocations;
-    } else if (
-      parsed.data.total !== undefined &&
-      parsed.data.sharedWithMemberIds &&
-      parsed.data.sharedWithMemberIds.length > 0
+    await ensureCurrentUserProfile(auth);
+    const details = await getTripStore().getTripDetails(tripId);
+    ensureRole(details, auth.userId, "contributor");
+
+    ensureTripAllows(details.trip, "expenses");
+
+    const existing = await getTripStore().getRecurringExpense(
+      tripId,
+      recurringExpenseId
+    );
+    if (
+      existing.createdBy !== auth.userId &&
+      !hasRole(details, auth.userId, "admin")
     ) {
-      const sharedMembers = parsed.data.sharedWithMemberIds;
-      const total = parsed.data.total;
-      const remainderTarget = resolveRemainderTarget(
-        sharedMembers,
-        parsed.data.remainderMemberId,
-        expense.paidByMemberId
-      );
-      allocations = buildEvenSplitAllocations(
-        total,
-        sharedMembers,
-        remainderTarget
-      );
+      throw new ForbiddenError("Not authorized to change this recurring expense");
     }
-
-    if (parsed.data.total ?? parsed.data.allocations) {
-      const total = parsed.data.total ?? expense.total;
-      const allocatedTotal = roundCents(
-        allocations.reduce((sum, allocation) => sum + allocation.amount, 0)
-      );
-      if (Math.abs(allocatedTotal - total) > 0.05) {
-        throw new ValidationError(
-          `Allocated total ${allocatedTotal} does not match expense total ${total}`
-        );
-      }
+    const date = parsed.data.date ?? existing.nextOccurrence;
+    if (!date) {
+      throw new ValidationError("This recurring expense has no upcoming occurrence");
+    }
+    if (existing.lastOccurrence && date <= existing.lastOccurrence) {
+      throw new ValidationError(`The occurrence on ${date} has already been created`);
+    }
+    const scheduled = findNextOccurrence(
+      { ...existing, skippedDates: [] },
+      addRecurrenceSteps(date, "DAILY", -1)
+    );
+    if (scheduled !== date) {
+      throw new ValidationError(`${date} is not a scheduled occurrence`);
     }
 
-    await getTripStore().updateExpenseAllocations(tripId, expenseId, {
-      total: parsed.data.total,
-      tax: parsed.data.tax,
-      tip: parsed.data.tip,
-      sharedWithMemberIds: parsed.data.sharedWithMemberIds,
-      allocations,
-      updatedAt: isoNow()
+    const version = existing.version ?? 0;
+    const updated: RecurringExpense = {
+      ...existing,
+      skippedDates: Array.from(new Set([...existing.skippedDates, date])).sort(),
+      updatedAt: isoNow(),
+      version: version + 1
+    };
+    updated.nextOccurrence = findNextOccurrence(updated, existing.lastOccurrence);
+
+    await getTripStore().saveRecurringExpense(updated, version);
+
+    await recordActivity({
+      tripId,
+      type: "RECURRING_EXPENSE_SKIPPED",
+      actorId: auth.userId,
+      entityId: recurringExpenseId,
+      before: existing,
+      after: updated
     });
+
+    return updated;
   }
 
-  async deleteExpense(
+  async deleteRecurringExpense(
     tripId: string,
-    expenseId: string,
+    recurringExpenseId: string,
     auth: AuthContext
   ): Promise<void> {
     await ensureCurrentUserProfile(auth);
     const details = await getTripStore().getTripDetails(tripId);
-    const isMember = details.members.some(
-      (member) => member.memberId === auth.userId
-    );
-    if (!isMember) {
-      throw new ForbiddenError("Not authorized");
-    }
+    ensureRole(details, auth.userId, "contributor");
 
-    const expense = details.expenses.find(
-      (item) => item.expenseId === expenseId
+    ensureTripAllows(details.trip, "expenses");
+
+    const existing = await getTripStore().getRecurringExpense(
+      tripId,
+      recurringExpenseId
     );
-    if (!expense) {
-      throw new ValidationError("Expense not found");
+    if (
+      existing.createdBy !== auth.userId &&
+      !hasRole(details, auth.userId, "admin")
+    ) {
+      throw new ForbiddenError("Not authorized to change this recurring expense");
     }
+    await getTripStore().deleteRecurringExpense(tripId, recurringExpenseId);
 
-    const canDelete =
-      expense.paidByMemberId === auth.userId ||
-      details.trip.ownerId === auth.userId;
-    if (!canDelete) {
-      throw new ForbiddenError("Not authorized to delete this expense");
+    await recordActivity({
+      tripId,
+      type: "RECURRING_EXPENSE_DELETED",
+      actorId: auth.userId,
+      entityId: recurringExpenseId,
+      before: existing
+    });
+  }
+
+  async processDueRecurringExpenses(
+    asOfDate: string = toIsoDate(new Date())
+  ): Promise<{ processed: number; created: number; failed: number }> {
+    const due = await getTripStore().listDueRecurringExpenses(asOfDate);
+    let created = 0;
+    let failed = 0;
+
+    for (const recurring of due) {
+      try {
+        created += await generateRecurringOccurrences(recurring, asOfDate);
+      } catch (error) {
+        failed += 1;
+        console.error("Failed to generate recurring expense", {
+          tripId: recurring.tripId,
+          recurringExpenseId: recurring.recurringExpenseId,
+          error
+        });
+      }
     }
 
-    await getTripStore().deleteExpense(tripId, expenseId);
+    return { processed: due.length, created, failed };
   }
 
   async createReceipt(
@@ -884,18 +3215,23 @@ export class TripService {
 
     await ensureCurrentUserProfile(auth);
     const details = await getTripStore().getTripDetails(tripId);
-    const isMember = details.members.some(
-      (member) => member.memberId === auth.userId
-    );
-    if (!isMember) {
-      throw new ForbiddenError("Not authorized");
+    ensureRole(details, auth.userId, "contributor");
+
+    ensureTripAllows(details.trip, "expenses");
+
+    const { receiptMaxBytes } = loadConfig();
+    if (parsed.data.size !== undefined && parsed.data.size > receiptMaxBytes) {
+      throw new ValidationError(
+        `Receipt file is too large (limit ${Math.floor(receiptMaxBytes / (1024 * 1024))} MB)`
+      );
     }
 
-    const { uploadUrl, storageKey, receiptId } = await generateReceiptUpload(
-      tripId,
-      parsed.data.fileName,
-      parsed.data.contentType
-    );
+    const { uploadUrl, uploadFields, storageKey, receiptId } =
+      await generateReceiptUpload(
+        tripId,
+        parsed.data.fileName,
+        parsed.data.contentType
+      );
 
     const now = isoNow();
     const receipt: Receipt = {
@@ -904,13 +3240,14 @@ export class TripService {
       storageKey,
       uploadUrl,
       fileName: parsed.data.fileName,
+      contentType: parsed.data.contentType,
       status: "PENDING_UPLOAD",
       createdAt: now,
       updatedAt: now
     };
 
     await getTripStore().saveReceipt(receipt);
-    return receipt;
+    return { ...receipt, uploadFields };
   }
 
   async recordSettlement(
@@ -925,33 +3262,55 @@ export class TripService {
 
     await ensureCurrentUserProfile(auth);
     const details = await getTripStore().getTripDetails(tripId);
-    const isMember = details.members.some(
-      (member) => member.memberId === auth.userId
-    );
-    if (!isMember) {
-      throw new ForbiddenError("Not authorized");
-    }
+    ensureRole(details, auth.userId, "contributor");
+
+    ensureTripAllows(details.trip, "settlements");
 
     ensureMember(details.members, parsed.data.fromMemberId);
     ensureMember(details.members, parsed.data.toMemberId);
 
+    if (
+      parsed.data.fromMemberId !== auth.userId &&
+      parsed.data.toMemberId !== auth.userId &&
+      !hasRole(details, auth.userId, "admin")
+    ) {
+      throw new ForbiddenError("Only admins can record payments between other members");
+    }
+
     if (parsed.data.fromMemberId === parsed.data.toMemberId) {
       throw new ValidationError("Settlement participants must be different members");
     }
 
+    const currency = parsed.data.currency ?? details.trip.currency;
+    const exchangeRate = await resolveExchangeRate(
+      currency,
+      details.trip.currency,
+      parsed.data.exchangeRate
+    );
+
     const settlement: Settlement = {
       tripId,
       settlementId: `set_${nanoid(10)}`,
       fromMemberId: parsed.data.fromMemberId,
       toMemberId: parsed.data.toMemberId,
       amount: parsed.data.amount,
-      currency: parsed.data.currency ?? details.trip.currency,
+      currency,
+      exchangeRate,
       note: parsed.data.note,
       createdAt: isoNow(),
       createdBy: auth.userId
     };
 
     await getTripStore().saveSettlement(settlement);
+
+    await recordActivity({
+      tripId,
+      type: "SETTLEMENT_RECORDED",
+      actorId: auth.userId,
+      entityId: settlement.settlementId,
+      after: settlement
+    });
+
     return settlement;
   }
 
@@ -968,6 +3327,8 @@ export class TripService {
 
     await ensureCurrentUserProfile(auth);
     const details = await getTripStore().getTripDetails(tripId);
+    // Viewers stay read-only even when they are a party to the settlement.
+    ensureRole(details, auth.userId, "contributor");
     const settlement = details.settlements.find(
       (item) => item.settlementId === settlementId
     );
@@ -978,27 +3339,43 @@ export class TripService {
     if (
       settlement.fromMemberId !== auth.userId &&
       settlement.toMemberId !== auth.userId &&
-      details.trip.ownerId !== auth.userId
+      !hasRole(details, auth.userId, "admin")
     ) {
       throw new ForbiddenError("Not authorized to confirm this settlement");
     }
 
-    if (parsed.data.confirmed) {
-      await getTripStore().markSettlementConfirmation(
-        tripId,
-        settlementId,
-        isoNow()
-      );
-    } else {
-      await getTripStore().markSettlementConfirmation(tripId, settlementId);
-    }
+    ensureTripAllows(details.trip, "settlements");
+
+    const version = ensureVersion(settlement, parsed.data.version, "Settlement");
+    const confirmedAt = parsed.data.confirmed ? isoNow() : undefined;
+    await getTripStore().markSettlementConfirmation(
+      tripId,
+      settlementId,
+      confirmedAt,
+      version
+    );
+
+    await recordActivity({
+      tripId,
+      type: parsed.data.confirmed ? "SETTLEMENT_CONFIRMED" : "SETTLEMENT_UNCONFIRMED",
+      actorId: auth.userId,
+      entityId: settlementId,
+      before: settlement,
+      after: { ...settlement, confirmedAt, version: version + 1 }
+    });
   }
 
   async deleteSettlement(
     tripId: string,
     settlementId: string,
+    query: Record<string, string | undefined>,
     auth: AuthContext
   ): Promise<void> {
+    const parsed = versionQuerySchema.safeParse(query);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.message);
+    }
+
     await ensureCurrentUserProfile(auth);
     const details = await getTripStore().getTripDetails(tripId);
     const settlement = details.settlements.find(
@@ -1008,22 +3385,38 @@ export class TripService {
       throw new ValidationError("Settlement not found");
     }
 
-    const canDelete =
+    const isParty =
       settlement.fromMemberId === auth.userId ||
-      settlement.toMemberId === auth.userId ||
-      details.trip.ownerId === auth.userId;
+      settlement.toMemberId === auth.userId;
+    const canDelete =
+      (isParty && hasRole(details, auth.userId, "contributor")) ||
+      hasRole(details, auth.userId, "admin");
     if (!canDelete) {
       throw new ForbiddenError("Not authorized to delete this settlement");
     }
 
-    await getTripStore().deleteSettlement(tripId, settlementId);
+    ensureTripAllows(details.trip, "settlements");
+
+    await getTripStore().deleteSettlement(
+      tripId,
+      settlementId,
+      ensureVersion(settlement, parsed.data.version, "Settlement")
+    );
+
+    await recordActivity({
+      tripId,
+      type: "SETTLEMENT_DELETED",
+      actorId: auth.userId,
+      entityId: settlementId,
+      before: settlement
+    });
   }
 
   async analyzeReceiptLive(
     tripId: string,
     body: unknown,
     auth: AuthContext
-  ): Promise<TextractExtraction> {
+  ): Promise<TextractExtraction[]> {
     const parsed = liveReceiptSchema.safeParse(body);
     if (!parsed.success) {
       throw new ValidationError(parsed.error.message);
@@ -1031,12 +3424,9 @@ export class TripService {
 
     await ensureCurrentUserProfile(auth);
     const details = await getTripStore().getTripDetails(tripId);
-    const isMember = details.members.some(
-      (member) => member.memberId === auth.userId
-    );
-    if (!isMember) {
-      throw new ForbiddenError("Not authorized");
-    }
+    ensureRole(details, auth.userId, "contributor");
+
+    ensureTripAllows(details.trip, "expenses");
 
     const buffer = Buffer.from(parsed.data.data, "base64");
     if (!buffer.length) {
@@ -1046,8 +3436,178 @@ export class TripService {
       throw new ValidationError("Receipt file is too large (limit 5 MB)");
     }
 
-    const extraction = await analyzeReceiptBytes(new Uint8Array(buffer));
-    return extraction;
+    return analyzeReceiptBytes(new Uint8Array(buffer), {
+      currency: details.trip.currency,
+      locale: details.trip.locale
+    });
+  }
+
+  /**
+   * Queues an uploaded receipt to be analyzed again, e.g. after the queue
+   * gave up on it. The receipt is returned as PROCESSING; the outcome arrives
+   * as a `RECEIPT_PROCESSED` event.
+   */
+  async reprocessReceipt(
+    tripId: string,
+    receiptId: string,
+    auth: AuthContext
+  ): Promise<Receipt> {
+    await ensureCurrentUserProfile(auth);
+    const details = await getTripStore().getTripDetails(tripId);
+    ensureRole(details, auth.userId, "contributor");
+
+    ensureTripAllows(details.trip, "expenses");
+
+    const receipt = details.receipts.find(
+      (item) => item.receiptId === receiptId
+    );
+    if (!receipt) {
+      throw new ValidationError("Receipt not found");
+    }
+    if (receipt.status === "PENDING_UPLOAD" || !receipt.storageKey) {
+      throw new ValidationError("Receipt has not been uploaded yet");
+    }
+    if (receipt.status === "REJECTED") {
+      throw new ValidationError("Rejected receipts were deleted; upload the file again");
+    }
+
+    // Processing runs in the receipt processor, which has the image libraries
+    // and may delete uploads it rejects; clients hear back over the socket.
+    // The status is set first so the processor's outcome cannot be overwritten,
+    // and put back if the request never reaches the queue.
+    const updatedAt = isoNow();
+    await getTripStore().updateReceiptExtraction(tripId, receiptId, {
+      status: "PROCESSING",
+      failureReason: null,
+      updatedAt
+    });
+    try {
+      await enqueueReceiptReprocess(tripId, receiptId);
+    } catch (error) {
+      await getTripStore().updateReceiptExtraction(tripId, receiptId, {
+        status: receipt.status,
+        failureReason: receipt.failureReason ?? null,
+        updatedAt: receipt.updatedAt
+      });
+      throw error;
+    }
+    return {
+      ...receipt,
+      status: "PROCESSING",
+      failureReason: undefined,
+      updatedAt
+    };
+  }
+
+  /**
+   * Turns the documents detected in an analyzed receipt into draft expenses,
+   * one per receipt, split evenly. Drafts stay out of balances until a member
+   * confirms them with `PATCH .../expenses/{expenseId}` and `{ draft: false }`.
+   */
+  async createExpensesFromReceipt(
+    tripId: string,
+    receiptId: string,
+    body: unknown,
+    auth: AuthContext
+  ): Promise<Expense[]> {
+    const parsed = receiptExpensesSchema.safeParse(body ?? {});
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.message);
+    }
+
+    await ensureCurrentUserProfile(auth);
+    const details = await getTripStore().getTripDetails(tripId);
+    ensureRole(details, auth.userId, "contributor");
+
+    ensureTripAllows(details.trip, "expenses");
+
+    const receipt = details.receipts.find(
+      (item) => item.receiptId === receiptId
+    );
+    if (!receipt) {
+      throw new ValidationError("Receipt not found");
+    }
+    if (receipt.status !== "COMPLETED") {
+      throw new ValidationError("Receipt has not been analyzed yet");
+    }
+
+    const documents =
+      receipt.documents ?? (receipt.extractedData ? [receipt.extractedData] : []);
+    // One expense per document: its id is fixed, so documents that already
+    // have a draft are left out by default and refused when asked for.
+    const existingIds = new Set(details.expenses.map((expense) => expense.expenseId));
+    const indexes =
+      parsed.data.documentIndexes ??
+      documents
+        .map((document, index) =>
+          document.total && !existingIds.has(receiptExpenseIdFor(receiptId, index)) ? index : -1
+        )
+        .filter((index) => index >= 0);
+    if (!indexes.length) {
+      throw new ValidationError(
+        documents.some((document) => document.total)
+          ? "Expenses were already created from this upload"
+          : "No receipts with a total were found in this upload"
+      );
+    }
+
+    const expenses: Expense[] = [];
+    for (const index of new Set(indexes)) {
+      const document = documents[index];
+      if (!document) {
+        throw new ValidationError(`Receipt ${index + 1} does not exist in this upload`);
+      }
+      const expenseId = receiptExpenseIdFor(receiptId, index);
+      if (existingIds.has(expenseId)) {
+        throw new ConflictError(
+          `Receipt ${index + 1} already has an expense`,
+          details.expenses.find((expense) => expense.expenseId === expenseId)
+        );
+      }
+      if (!document.total || document.total <= 0) {
+        throw new ValidationError(`Receipt ${index + 1} has no total; add it manually`);
+      }
+
+      const input = expenseSchema.safeParse({
+        description:
+          document.merchantName ??
+          (documents.length > 1 ? `${receipt.fileName} (${index + 1})` : receipt.fileName),
+        vendor: document.merchantName,
+        category:
+          parsed.data.category ??
+          (await suggestExpenseCategory(details, document.merchantName, auth.userId)),
+        total: document.total,
+        currency: parsed.data.currency,
+        tax: document.tax,
+        tip: document.tip,
+        paidByMemberId: parsed.data.paidByMemberId ?? auth.userId,
+        sharedWithMemberIds:
+          parsed.data.sharedWithMemberIds ??
+          details.members.map((member) => member.memberId),
+        receiptId
+      });
+      if (!input.success) {
+        throw new ValidationError(input.error.message);
+      }
+
+      const { expense } = await buildExpense(details, input.data);
+      expenses.push({ ...expense, expenseId, draft: true });
+    }
+
+    for (const expense of expenses) {
+      await getTripStore().saveExpense(expense);
+    }
+    await recordActivities(
+      tripId,
+      expenses.map((expense) => ({
+        type: "EXPENSE_CREATED",
+        actorId: auth.userId,
+        entityId: expense.expenseId,
+        after: expense
+      }))
+    );
+
+    return expenses;
   }
 
   async getReceiptDownloadUrl(
@@ -1073,8 +3633,14 @@ export class TripService {
     if (!receipt.storageKey) {
       throw new ValidationError("Receipt is missing storage location");
     }
+    if (receipt.status === "REJECTED") {
+      throw new ValidationError("Receipt was rejected and is no longer stored");
+    }
 
-    const url = await generateReceiptDownloadUrl(receipt.storageKey);
+    // Photos are served from the upright, downscaled copy when there is one.
+    const url = await generateReceiptDownloadUrl(
+      receipt.normalizedKey ?? receipt.storageKey
+    );
     return { url };
   }
 }
@@ -1,4 +1,11 @@
-import { S3Client, PutObjectCommand, GetObjectCommand } from "@aws-sdk/client-s3";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand
+} from "@aws-sdk/client-s3";
+import { createPresignedPost } from "@aws-sdk/s3-presigned-post";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import { nanoid } from "nanoid";
 import { loadConfig, type AppConfig } from "../config.js";
@@ -20,10 +27,23 @@ const getS3Client = () => {
   return s3Client;
 };
 
+export type ReceiptDerivedVariant = "display" | "thumbnail";
+
+/**
+ * Key of an image generated from an uploaded receipt. Derived images live
+ * outside `trips/` so writing them does not fire the upload notification.
+ */
+export const receiptDerivedKey = (
+  storageKey: string,
+  variant: ReceiptDerivedVariant
+): string => `derived/${storageKey.replace(/\.[^./]*$/, "")}/${variant}.jpg`;
+
 export interface ReceiptUploadResult {
   receiptId: string;
   storageKey: string;
   uploadUrl: string;
+  /** Form fields to send with the file in a multipart POST to `uploadUrl`. */
+  uploadFields: Record<string, string>;
 }
 
 export const generateReceiptUpload = async (
@@ -40,17 +60,19 @@ export const generateReceiptUpload = async (
 
   const config = getConfig();
   const s3 = getS3Client();
-  const command = new PutObjectCommand({
+  // A POST policy, unlike a signed PUT, lets S3 enforce the size and type.
+  const { url, fields } = await createPresignedPost(s3, {
     Bucket: config.receiptBucket,
     Key: storageKey,
-    ContentType: contentType
+    Conditions: [
+      ["content-length-range", 1, config.receiptMaxBytes],
+      ["eq", "$Content-Type", contentType]
+    ],
+    Fields: { "Content-Type": contentType },
+    Expires: config.signedUrlExpirySeconds
   });
 
-  const uploadUrl = await getSignedUrl(s3, command, {
-    expiresIn: config.signedUrlExpirySeconds
-  });
-
-  return { receiptId, storageKey, uploadUrl };
+  return { receiptId, storageKey, uploadUrl: url, uploadFields: fields };
 };
 
 export const generateReceiptDownloadUrl = async (
@@ -67,3 +89,85 @@ export const generateReceiptDownloadUrl = async (
     expiresIn: config.signedUrlExpirySeconds
   });
 };
+
+export const downloadReceiptObject = async (
+  storageKey: string,
+  bucket?: string
+): Promise<{ body: Uint8Array; contentType?: string }> => {
+  const config = getConfig();
+  const s3 = getS3Client();
+  const { Body, ContentType } = await s3.send(
+    new GetObjectCommand({
+      Bucket: bucket ?? config.receiptBucket,
+      Key: storageKey
+    })
+  );
+  if (!Body) {
+    throw new Error(`Receipt object ${storageKey} is empty`);
+  }
+
+  return { body: await Body.transformToByteArray(), contentType: ContentType };
+};
+
+export const putReceiptObject = async (
+  storageKey: string,
+  body: Uint8Array,
+  contentType: string,
+  bucket?: string
+): Promise<void> => {
+  const config = getConfig();
+  const s3 = getS3Client();
+  await s3.send(
+    new PutObjectCommand({
+      Bucket: bucket ?? config.receiptBucket,
+      Key: storageKey,
+      Body: body,
+      ContentType: contentType
+    })
+  );
+};
+
+/** Size, stored Content-Type and the first bytes of an uploaded receipt. */
+export const inspectReceiptObject = async (
+  storageKey: string,
+  bucket?: string,
+  headBytes = 4096
+): Promise<{ size: number; contentType?: string; head: Uint8Array }> => {
+  const config = getConfig();
+  const s3 = getS3Client();
+  const Bucket = bucket ?? config.receiptBucket;
+  const { ContentLength, ContentType } = await s3.send(
+    new HeadObjectCommand({ Bucket, Key: storageKey })
+  );
+  const size = ContentLength ?? 0;
+  if (!size) {
+    return { size, contentType: ContentType, head: new Uint8Array() };
+  }
+
+  const { Body } = await s3.send(
+    new GetObjectCommand({
+      Bucket,
+      Key: storageKey,
+      Range: `bytes=0-${headBytes - 1}`
+    })
+  );
+  return {
+    size,
+    contentType: ContentType,
+    head: Body ? await Body.transformToByteArray() : new Uint8Array()
+  };
+};
+
+export const deleteReceiptObject = async (
+  storageKey: string,
+  bucket?: string
+): Promise<void> => {
+  const config = getConfig();
+  const s3 = getS3Client();
+  await s3.send(
+    new DeleteObjectCommand({
+      Bucket: bucket ?? config.receiptBucket,
+      Key: storageKey
+    })
+  );
+};
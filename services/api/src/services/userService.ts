@@ -3,6 +3,7 @@ import type { AuthContext } from "../auth.js";
 import { ValidationError } from "../lib/errors.js";
 import { UserStore } from "../data/userStore.js";
 import type { UserProfile } from "../types.js";
+import { categoryCatalogSchema, DEFAULT_EXPENSE_CATEGORIES } from "./categoryService.js";
 
 const userStore = new UserStore();
 
@@ -28,6 +29,16 @@ const paymentMethodsSchema = z
     }
   });
 
+const defaultCategoriesSchema = z.object({
+  categories: z.union([categoryCatalogSchema, z.null()])
+});
+
+// Profiles without their own catalog show the built-in one new trips get.
+const withDefaultCategories = (profile: UserProfile): UserProfile => ({
+  ...profile,
+  defaultCategories: profile.defaultCategories ?? DEFAULT_EXPENSE_CATEGORIES
+});
+
 export class UserService {
   async searchUsers(
     params: Record<string, string | undefined>,
@@ -47,7 +58,7 @@ export class UserService {
   }
 
   async getProfile(auth: AuthContext): Promise<UserProfile> {
-    return userStore.ensureUserProfile(auth);
+    return withDefaultCategories(await userStore.ensureUserProfile(auth));
   }
 
   async updateProfile(
@@ -76,6 +87,26 @@ export class UserService {
     if (!updated) {
       throw new ValidationError("Profile not found");
     }
-    return updated;
+    return withDefaultCategories(updated);
+  }
+
+  /** Replaces the catalog new trips start with; `null` restores the built-in one. */
+  async updateDefaultCategories(
+    body: unknown,
+    auth: AuthContext
+  ): Promise<UserProfile> {
+    const parsed = defaultCategoriesSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.message);
+    }
+
+    await userStore.ensureUserProfile(auth);
+    await userStore.updateDefaultCategories(auth.userId, parsed.data.categories);
+
+    const updated = await userStore.getUser(auth.userId);
+    if (!updated) {
+      throw new ValidationError("Profile not found");
+    }
+    return withDefaultCategories(updated);
   }
 }
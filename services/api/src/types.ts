@@ -1,3 +1,41 @@
+/**
+ * Trip lifecycle. Active trips take any change; settling trips only take
+ * settlements; closed and archived trips are read-only until reopened.
+ * Archived trips are also left out of trip lists by default.
+ */
+export type TripStatus = "active" | "settling" | "closed" | "archived";
+
+/** Planned spend in the trip currency. */
+export interface TripBudget {
+  total?: number;
+  /** Limit per expense category, keyed by category name (matched case-insensitively). */
+  categories?: Record<string, number>;
+  /** Share of a budget (0–1) at which members are alerted; defaults to 0.8. */
+  alertThreshold?: number;
+}
+
+/** An entry in a trip's category catalog. */
+export interface ExpenseCategory {
+  name: string;
+  /** Emoji shown next to the name. */
+  icon: string;
+  /** CSS hex colour, e.g. "#f97316". */
+  color: string;
+  /** Other spellings folded into this category, e.g. "Dining" for "Food". */
+  aliases?: string[];
+}
+
+/** Maps a normalized vendor name to a category. */
+export interface CategoryRule {
+  /** Lower-cased vendor with punctuation and store numbers stripped. */
+  vendor: string;
+  category: string;
+  /** `learned` rules come from members picking a category; `manual` ones were added directly. */
+  source: "learned" | "manual";
+  updatedAt: string;
+  updatedBy: string;
+}
+
 export interface Trip {
   tripId: string;
   ownerId: string;
@@ -7,8 +45,33 @@ export interface Trip {
   createdAt: string;
   updatedAt: string;
   currency: string;
+  status: TripStatus;
+  /** When the trip left `active`; cleared on reopen. */
+  closedAt?: string;
+  budget?: TripBudget;
+  /** The trip's category catalog; the built-in defaults apply when unset. */
+  categories?: ExpenseCategory[];
+  /**
+   * Bumped on every write so concurrent edits can be detected. Items saved
+   * before versioning have none and count as version 0.
+   */
+  version?: number;
+  /**
+   * BCP 47 locale receipts are usually printed in, e.g. "de-DE". Used to read
+   * dates such as "03/04/24" and amounts such as "1.234"; defaults from the
+   * currency when unset.
+   */
+  locale?: string;
 }
 
+/**
+ * What a member may do on a trip. Viewers only read; contributors add
+ * expenses and settlements and change their own; admins manage any expense,
+ * the trip details and other members; the single owner also manages admins,
+ * the lifecycle and ownership.
+ */
+export type TripRole = "owner" | "admin" | "contributor" | "viewer";
+
 export interface TripMember {
   tripId: string;
   memberId: string;
@@ -16,7 +79,14 @@ export interface TripMember {
   email?: string;
   addedBy: string;
   createdAt: string;
+  role: TripRole;
   paymentMethods?: PaymentMethods;
+  /**
+   * Invited by email before signing up. Placeholders work like any other
+   * member until the person registers and the placeholder is merged into
+   * their account.
+   */
+  placeholder?: boolean;
 }
 
 export interface PaymentMethods {
@@ -30,6 +100,37 @@ export interface ExpenseAllocation {
   amount: number;
 }
 
+export interface ExpenseLineItem {
+  description?: string;
+  quantity?: number;
+  amount: number;
+  assignedMemberIds: string[];
+}
+
+export type ExpenseSplitMode =
+  | "EVEN"
+  | "EXACT"
+  | "PERCENTAGE"
+  | "SHARES"
+  | "EXACT_PLUS_EVEN"
+  | "ITEMIZED";
+
+export interface ExpenseSplitInput {
+  memberId: string;
+  value: number;
+}
+
+/**
+ * How allocations were derived, kept so they can be recomputed when the
+ * total changes. `inputs` holds percentages, share weights or exact amounts
+ * depending on `mode`.
+ */
+export interface ExpenseSplit {
+  mode: ExpenseSplitMode;
+  inputs?: ExpenseSplitInput[];
+  remainderMemberId?: string;
+}
+
 export interface Expense {
   tripId: string;
   expenseId: string;
@@ -40,13 +141,137 @@ export interface Expense {
   category?: string;
   total: number;
   currency: string;
+  /** Multiplier from `currency` into the trip currency; omitted when they match. */
+  exchangeRate?: number;
   tax?: number;
   tip?: number;
   paidByMemberId: string;
   sharedWithMemberIds: string[];
   allocations: ExpenseAllocation[];
+  lineItems?: ExpenseLineItem[];
+  split?: ExpenseSplit;
   receiptId?: string;
   receiptPreviewUrl?: string;
+  /** Set when the expense was generated from a recurring template. */
+  recurringExpenseId?: string;
+  /** Created from a scanned receipt and awaiting review; left out of balances until confirmed. */
+  draft?: boolean;
+  /** See `Trip.version`. */
+  version?: number;
+}
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export type RecurringExpenseTemplate = Pick<
+  Expense,
+  | "description"
+  | "vendor"
+  | "category"
+  | "total"
+  | "currency"
+  | "exchangeRate"
+  | "tax"
+  | "tip"
+  | "paidByMemberId"
+  | "sharedWithMemberIds"
+  | "split"
+>;
+
+/**
+ * A template the scheduler turns into a concrete expense on each occurrence.
+ * Dates are ISO calendar dates (YYYY-MM-DD); `nextOccurrence` is cleared once
+ * the schedule passes `endDate`.
+ */
+export interface RecurringExpense {
+  tripId: string;
+  recurringExpenseId: string;
+  createdAt: string;
+  updatedAt: string;
+  createdBy: string;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: string;
+  endDate?: string;
+  nextOccurrence?: string;
+  lastOccurrence?: string;
+  skippedDates: string[];
+  paused: boolean;
+  template: RecurringExpenseTemplate;
+  /** See `Trip.version`. */
+  version?: number;
+}
+
+export type TripActivityType =
+  | "TRIP_CREATED"
+  | "TRIP_UPDATED"
+  | "TRIP_STATUS_CHANGED"
+  | "MEMBERS_ADDED"
+  | "MEMBER_REMOVED"
+  | "MEMBER_CLAIMED"
+  | "MEMBER_ROLE_CHANGED"
+  | "OWNERSHIP_TRANSFERRED"
+  | "EXPENSE_CREATED"
+  | "EXPENSE_UPDATED"
+  | "EXPENSE_DELETED"
+  | "SETTLEMENT_RECORDED"
+  | "SETTLEMENT_CONFIRMED"
+  | "SETTLEMENT_UNCONFIRMED"
+  | "SETTLEMENT_DELETED"
+  | "RECURRING_EXPENSE_CREATED"
+  | "RECURRING_EXPENSE_UPDATED"
+  | "RECURRING_EXPENSE_SKIPPED"
+  | "RECURRING_EXPENSE_DELETED"
+  | "BUDGET_ALERT";
+
+/**
+ * Pushed to WebSocket subscribers of a trip. Carries only enough for clients
+ * to decide what to refetch; payloads stay behind the authorized HTTP API.
+ */
+export interface TripRealtimeEvent {
+  tripId: string;
+  type: TripActivityType | "RECEIPT_PROCESSED";
+  entityId?: string;
+  actorId?: string;
+  sentAt: string;
+}
+
+/**
+ * Recorded when an expense takes a budget line past the alert threshold
+ * (`level: "warning"`) or past the budget itself (`level: "exceeded"`).
+ */
+export interface BudgetAlert {
+  /** Category name, or undefined for the trip total. */
+  category?: string;
+  name: string;
+  level: "warning" | "exceeded";
+  budget: number;
+  spent: number;
+  threshold: number;
+}
+
+export type TripActivitySnapshot =
+  | Trip
+  | BudgetAlert
+  | TripMember
+  | TripMember[]
+  | Expense
+  | Settlement
+  | RecurringExpense;
+
+/**
+ * Audit record for a change to a trip. `before`/`after` hold the affected
+ * entity as it was and as it became; creates omit `before`, deletes omit
+ * `after`. `actorId` is "system" for scheduler-generated changes.
+ */
+export interface TripActivity {
+  tripId: string;
+  activityId: string;
+  type: TripActivityType;
+  actorId: string;
+  entityId?: string;
+  before?: TripActivitySnapshot;
+  after?: TripActivitySnapshot;
+  createdAt: string;
 }
 
 export interface Receipt {
@@ -55,12 +280,46 @@ export interface Receipt {
   storageKey: string;
   uploadUrl: string;
   fileName: string;
-  status: "PENDING_UPLOAD" | "UPLOADED" | "PROCESSING" | "COMPLETED" | "FAILED";
+  /**
+   * REJECTED uploads broke the upload constraints (size, type, or content
+   * not matching the declared type) and were deleted.
+   */
+  status: "PENDING_UPLOAD" | "UPLOADED" | "PROCESSING" | "COMPLETED" | "FAILED" | "REJECTED";
+  /** MIME type declared when the upload was requested; the stored file must match it. */
+  contentType?: string;
+  /** Multipart form fields for the presigned POST; only returned when the receipt is created. */
+  uploadFields?: Record<string, string>;
   extractedData?: TextractExtraction;
+  /** One extraction per receipt detected in the upload; `extractedData` is the first. */
+  documents?: TextractExtraction[];
+  failureReason?: string;
+  attempts?: number;
+  /** Upright, downscaled JPEG of a photo upload; unset when the original is fine to show. */
+  normalizedKey?: string;
+  thumbnailKey?: string;
+  /** Signed URL of `thumbnailKey`, added to API responses. */
+  thumbnailUrl?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export type ExtractionField = "merchantName" | "total" | "subtotal" | "tax" | "tip" | "date";
+
+/** Position on the page as fractions (0-1) of its width and height. */
+export interface ExtractionBoundingBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface ExtractionFieldSource {
+  /** 0-100, as reported by the extraction provider. */
+  confidence?: number;
+  page?: number;
+  boundingBox?: ExtractionBoundingBox;
+}
+
 export interface TextractExtraction {
   merchantName?: string;
   total?: number;
@@ -73,7 +332,10 @@ export interface TextractExtraction {
     quantity?: number;
     unitPrice?: number;
     total?: number;
+    confidence?: number;
   }>;
+  /** Where each summary value was read from and how sure the provider is. */
+  fields?: Partial<Record<ExtractionField, ExtractionFieldSource>>;
 }
 
 export interface Settlement {
@@ -83,10 +345,13 @@ export interface Settlement {
   toMemberId: string;
   amount: number;
   currency: string;
+  exchangeRate?: number;
   note?: string;
   createdAt: string;
   confirmedAt?: string;
   createdBy: string;
+  /** See `Trip.version`. */
+  version?: number;
 }
 
 export interface UserProfile {
@@ -95,6 +360,10 @@ export interface UserProfile {
   email?: string;
   displayNameLower?: string;
   paymentMethods?: PaymentMethods;
+  /** Catalog copied onto trips this user creates. */
+  defaultCategories?: ExpenseCategory[];
+  /** Set once every placeholder invited under the verified email is claimed. */
+  placeholdersClaimedAt?: string;
   createdAt: string;
   updatedAt: string;
 }